@@ -0,0 +1,643 @@
+import * as dotenv from "dotenv";
+
+import { ethers } from "ethers";
+import axios from "axios";
+
+import { Token } from "@uniswap/sdk-core";
+
+import {
+    CONTROL_HOST,
+    CONTROL_PORT,
+    NPM_ABI,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    MAX_UINT128,
+    HEDGE_ENABLED,
+    HEDGE_VENUE,
+    DRY_RUN,
+    POSITIONS,
+    PositionConfig,
+    getPositionConfig,
+    isPositionPool,
+    LOADED_SETTINGS,
+    NETWORK_NAME,
+    NETWORK_PROFILE,
+} from "./config";
+
+import {
+    getActivePositions,
+    getPendingRebalance,
+    loadState,
+    recordPositionClosed,
+    recordPositionOpened,
+    setStateValue,
+} from "./src/state";
+import {
+    approveAll,
+    atomicExitPosition,
+    collectFees,
+    getPositionAmounts,
+    mintMaxLiquidity,
+} from "./src/actions";
+import {
+    AaveManager,
+    calculateHedgeAdjustment,
+    reserveBlockReason,
+} from "./src/hedge";
+import { assessCarry } from "./src/carry";
+import { createHedgeVenue } from "./src/venues";
+import { getExecutor } from "./src/executor";
+import {
+    fetchPositionPool,
+    getPositionPoolContract,
+    isBaseToken0,
+    isInRange,
+} from "./src/utils";
+import {
+    loadLedger,
+    summarizeLedger,
+    exportLedgerCsv,
+    getOpenPositionValue,
+    LedgerEntry,
+    OpenPositionValue,
+} from "./src/ledger";
+import { loadDecisions } from "./src/decision";
+import { describeSettings } from "./src/settings";
+import { profileAddresses, verifyNetwork } from "./src/networks";
+
+dotenv.config();
+
+// Usage: npm run bot -- <command> [subcommand] [args]
+//   ledger summary                    Per-position PnL, fee APR, hedge cost and IL
+//   ledger list [--type SWAP] [--limit 20]
+//   ledger export <file.csv>
+//   decisions [--position WETH-USDC-3000] [--limit 20]   Rebalance decisions and their inputs
+//   control <status|pause|resume|rebalance|hedge|exit-all|set-range> [--position id]
+//           [--lower tick --upper tick] [--confirm code]   Operator commands to the running bot
+//   positions                         Wallet LP NFTs with range, liquidity and uncollected fees
+//   collect <tokenId>                 Collect an NFT's fees
+//   exit <tokenId>                    Atomic exit (decrease + collect + burn)
+//   mint --lower tick --upper tick [--position id]   Mint with the wallet balances
+//   hedge status                      Hedge venue health, short, drift, reserve and net carry
+//   state show | set <field> <json>   Inspect or edit the state file (e.g. set isSafeMode false)
+//   approve                           Approve the managed tokens for NPM, router and Aave
+//   config print                      Effective settings, where each comes from, network addresses
+//   config check                      Compare the network profile with the RPC's chain
+// collect, exit, mint and state set act directly on chain / the state file: stop the bot first,
+// or use `control` while it is running. DRY_RUN=true runs them against the paper portfolio.
+
+type Args = { positional: string[]; flags: Record<string, string> };
+
+function parseArgs(argv: string[]): Args {
+    const positional: string[] = [];
+    const flags: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith("--")) {
+            const key = argv[i].slice(2);
+            const next = argv[i + 1];
+            if (next === undefined || next.startsWith("--")) {
+                flags[key] = "true";
+            } else {
+                flags[key] = next;
+                i++;
+            }
+        } else {
+            positional.push(argv[i]);
+        }
+    }
+    return { positional, flags };
+}
+
+// --- Connection (only for commands that need chain data) ---
+
+let provider: ethers.JsonRpcProvider | ethers.WebSocketProvider | null = null;
+
+function connectWallet(): ethers.Wallet {
+    const url = (process.env.RPC_URL || "").split(",")[0].trim();
+    if (!url || !process.env.PRIVATE_KEY) {
+        throw new Error("RPC_URL and PRIVATE_KEY must be set in .env");
+    }
+    provider = url.startsWith("ws")
+        ? new ethers.WebSocketProvider(url)
+        : new ethers.JsonRpcProvider(url);
+    return new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+}
+
+const usd = (n: number | null) => (n === null ? "-" : `$${n.toFixed(2)}`);
+
+// --- Ledger ---
+
+async function ledgerSummary() {
+    const active = getActivePositions();
+
+    const open: OpenPositionValue[] = [];
+    if (active.length > 0 && process.env.RPC_URL && process.env.PRIVATE_KEY) {
+        const wallet = connectWallet();
+        for (const { config, tokenId } of active) {
+            try {
+                open.push(await getOpenPositionValue(wallet, tokenId, config));
+            } catch (e) {
+                console.warn(
+                    `[Ledger] Could not value open position ${config.id} ${tokenId}:`,
+                    (e as Error).message
+                );
+            }
+        }
+    }
+
+    const summary = summarizeLedger(loadLedger(), open);
+
+    console.table(
+        summary.positions.map((p) => ({
+            position: p.positionId,
+            tokenId: p.tokenId,
+            opened: new Date(p.openedAt).toISOString(),
+            closed: p.closedAt ? new Date(p.closedAt).toISOString() : "open",
+            entry: usd(p.entryValueUsd),
+            exit: usd(p.exitValueUsd ?? p.currentValueUsd),
+            fees: usd(p.feesUsd),
+            il: usd(p.impermanentLossUsd),
+            gas: usd(p.gasUsd),
+            hedgeCost: usd(p.hedgeCostUsd),
+            realised: usd(p.realisedPnlUsd),
+            unrealised: usd(p.unrealisedPnlUsd),
+            feeApr: `${p.feeAprPct.toFixed(1)}%`,
+        }))
+    );
+
+    console.log(`Total Fees:       ${usd(summary.totalFeesUsd)}`);
+    console.log(`Total Gas:        ${usd(summary.totalGasUsd)}`);
+    console.log(`Borrow Interest:  ${usd(summary.totalInterestUsd)}`);
+    console.log(`Swap Slippage:    ${usd(summary.totalSlippageUsd)}`);
+    console.log(`Realised PnL:     ${usd(summary.realisedPnlUsd)}`);
+    console.log(`Unrealised PnL:   ${usd(summary.unrealisedPnlUsd)}`);
+}
+
+function ledgerList(flags: Record<string, string>) {
+    let entries: LedgerEntry[] = loadLedger();
+    if (flags["type"]) {
+        entries = entries.filter((e) => e.type === flags["type"].toUpperCase());
+    }
+    const limit = Number(flags["limit"] ?? 20);
+    console.table(
+        entries.slice(-limit).map((e) => ({
+            date: new Date(e.timestamp).toISOString(),
+            type: e.type,
+            position: e.positionId ?? "",
+            tokenId: e.tokenId,
+            tx: e.txHash,
+            gasUsd: e.gasCostUsd.toFixed(4),
+            note: e.note ?? "",
+        }))
+    );
+}
+
+async function runLedger(args: Args) {
+    const [, sub, file] = args.positional;
+    switch (sub) {
+        case "summary":
+            return ledgerSummary();
+        case "list":
+            return ledgerList(args.flags);
+        case "export":
+            if (!file) throw new Error("Usage: ledger export <file.csv>");
+            exportLedgerCsv(file);
+            console.log(`[Ledger] Exported to ${file}`);
+            return;
+        default:
+            throw new Error("Usage: ledger summary | list | export <file.csv>");
+    }
+}
+
+// --- Rebalance Decisions ---
+
+async function runDecisions(args: Args) {
+    let decisions = loadDecisions();
+    if (args.flags["position"]) {
+        decisions = decisions.filter(
+            (d) => d.positionId === args.flags["position"]
+        );
+    }
+    const limit = Number(args.flags["limit"] ?? 20);
+    console.table(
+        decisions.slice(-limit).map((d) => ({
+            date: new Date(d.timestamp).toISOString(),
+            position: d.positionId,
+            tokenId: d.tokenId,
+            outOfRange: `${d.outOfRangeMinutes}m`,
+            action: d.action,
+            cost: usd(d.cost?.totalUsd ?? null),
+            swapImpact: usd(d.cost?.swapImpactUsd ?? null),
+            income: usd(d.income?.expectedUsd ?? null),
+            feeApr: d.income ? `${d.income.feeAprPct.toFixed(1)}%` : "-",
+            reason: d.reason,
+        }))
+    );
+}
+
+// --- Operator Control (running bot, see src/control.ts) ---
+
+async function runControl(args: Args) {
+    const command = args.positional[1];
+    if (!command)
+        throw new Error("Usage: control <command> [--flag value ...]");
+    if (!process.env.CONTROL_TOKEN)
+        throw new Error("CONTROL_TOKEN must be set in .env");
+
+    const response = await axios.post(
+        `http://${CONTROL_HOST}:${CONTROL_PORT}/${command}`,
+        args.flags,
+        {
+            headers: { Authorization: `Bearer ${process.env.CONTROL_TOKEN}` },
+            validateStatus: () => true,
+        }
+    );
+    const body = response.data;
+
+    if (response.status === 409 && body.confirmationRequired) {
+        console.log(
+            `[Control] '${command}' needs confirmation. Re-run within ${body.expiresInSec}s with --confirm ${body.confirm}`
+        );
+        return;
+    }
+    if (response.status !== 200) {
+        throw new Error(
+            `${response.status}: ${body.error ?? JSON.stringify(body)}`
+        );
+    }
+    console.log(JSON.stringify(body.result, null, 2));
+}
+
+// --- Positions ---
+
+const amount = (raw: bigint, token?: Token) =>
+    token
+        ? `${ethers.formatUnits(raw, token.decimals)} ${token.symbol}`
+        : raw.toString();
+
+async function runPositions() {
+    const wallet = connectWallet();
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        wallet
+    );
+    if (DRY_RUN) {
+        console.log(
+            "[CLI] DRY_RUN: listing on-chain NFTs. Paper positions are in `state show`."
+        );
+    }
+
+    const tracked = new Map(
+        Object.entries(loadState().positions).map(([id, p]) => [p.tokenId, id])
+    );
+    const count = await npm.balanceOf(wallet.address);
+    const rows = [];
+
+    for (let i = 0n; i < count; i++) {
+        const tokenId = (
+            await npm.tokenOfOwnerByIndex(wallet.address, i)
+        ).toString();
+        const pos = await npm.positions(tokenId);
+        const [fees0, fees1] = await npm.getFunction("collect").staticCall({
+            tokenId,
+            recipient: wallet.address,
+            amount0Max: MAX_UINT128,
+            amount1Max: MAX_UINT128,
+        });
+
+        // Token symbols, decimals and the pool tick are only known for configured pools
+        const config = POSITIONS.find((c) =>
+            isPositionPool(c, pos.token0, pos.token1, Number(pos.fee))
+        );
+        let tokens: [Token, Token] | [] = [];
+        let inRange = "-";
+        if (config) {
+            tokens = isBaseToken0(config.base)
+                ? [config.base, config.quote]
+                : [config.quote, config.base];
+            const { tick } = await getPositionPoolContract(
+                config,
+                wallet
+            ).slot0();
+            inRange = String(isInRange(tick, pos.tickLower, pos.tickUpper));
+        }
+
+        rows.push({
+            tokenId,
+            pool: config?.id ?? `${pos.token0}/${pos.token1} ${pos.fee}`,
+            tracked: tracked.get(tokenId) ?? "",
+            tickLower: Number(pos.tickLower),
+            tickUpper: Number(pos.tickUpper),
+            inRange,
+            liquidity: pos.liquidity.toString(),
+            fees: `${amount(fees0, tokens[0])} + ${amount(fees1, tokens[1])}`,
+        });
+    }
+
+    if (rows.length === 0) {
+        console.log("[CLI] No LP NFTs in the wallet.");
+        return;
+    }
+    console.table(rows);
+}
+
+// Config of an NFT: the position tracking it in the state, else the configured pool it belongs to
+async function resolvePosition(
+    wallet: ethers.Wallet,
+    tokenId: string
+): Promise<{ config: PositionConfig; tracked: boolean }> {
+    const trackedAs = Object.entries(loadState().positions).find(
+        ([, p]) => p.tokenId === tokenId
+    )?.[0];
+    if (trackedAs)
+        return { config: getPositionConfig(trackedAs), tracked: true };
+
+    const pos = await getExecutor(wallet).getPosition(tokenId);
+    const config = POSITIONS.find((c) =>
+        isPositionPool(c, pos.token0, pos.token1, pos.fee)
+    );
+    if (!config)
+        throw new Error(
+            `NFT ${tokenId} is not in a configured pool (POSITIONS)`
+        );
+    return { config, tracked: false };
+}
+
+async function runCollect(args: Args) {
+    const tokenId = args.positional[1];
+    if (!tokenId) throw new Error("Usage: collect <tokenId>");
+    const wallet = connectWallet();
+    const { config } = await resolvePosition(wallet, tokenId);
+    await collectFees(wallet, tokenId, config);
+}
+
+async function runExit(args: Args) {
+    const tokenId = args.positional[1];
+    if (!tokenId) throw new Error("Usage: exit <tokenId>");
+    const wallet = connectWallet();
+    const { config, tracked } = await resolvePosition(wallet, tokenId);
+    if (tracked && getPendingRebalance(loadState(), config.id)) {
+        throw new Error(
+            `${config.id} has a rebalance in progress. Let the bot finish it first.`
+        );
+    }
+
+    await atomicExitPosition(wallet, tokenId, config);
+    if (tracked) recordPositionClosed(config.id, "Manual exit (CLI)");
+    if (config.hedgeRatio > 0 && HEDGE_ENABLED) {
+        console.log(
+            "[CLI] The hedge was not changed. Check it with `hedge status`."
+        );
+    }
+}
+
+async function runMint(args: Args) {
+    const lower = Number(args.flags["lower"]);
+    const upper = Number(args.flags["upper"]);
+    if (
+        !Number.isInteger(lower) ||
+        !Number.isInteger(upper) ||
+        lower >= upper
+    ) {
+        throw new Error(
+            "Usage: mint --lower tick --upper tick [--position id]"
+        );
+    }
+    if (!args.flags["position"] && POSITIONS.length > 1) {
+        throw new Error(
+            "Several positions are configured. Pass --position id."
+        );
+    }
+    const config = args.flags["position"]
+        ? getPositionConfig(args.flags["position"])
+        : POSITIONS[0];
+    const open = loadState().positions[config.id];
+    if (open) {
+        throw new Error(
+            `${config.id} already has position ${open.tokenId}. Exit it first.`
+        );
+    }
+
+    const wallet = connectWallet();
+    const pool = await fetchPositionPool(
+        config,
+        getPositionPoolContract(config, wallet)
+    );
+    if (lower % pool.tickSpacing !== 0 || upper % pool.tickSpacing !== 0) {
+        throw new Error(
+            `Ticks must be multiples of the tick spacing (${pool.tickSpacing})`
+        );
+    }
+
+    const tokenId = await mintMaxLiquidity(
+        wallet,
+        pool,
+        lower,
+        upper,
+        undefined,
+        config.id
+    );
+    const venue = createHedgeVenue(wallet);
+    const debt = venue ? await venue.getShortSize() : 0n;
+    recordPositionOpened(
+        config.id,
+        tokenId,
+        { tickLower: lower, tickUpper: upper },
+        parseFloat(pool.priceOf(config.base).toSignificant(6)),
+        debt
+    );
+}
+
+// --- Hedge ---
+
+async function runHedge(args: Args) {
+    if (args.positional[1] !== "status") throw new Error("Usage: hedge status");
+    const wallet = connectWallet();
+    const venue = createHedgeVenue(wallet);
+    if (!venue)
+        throw new Error(
+            `No hedge venue on ${NETWORK_PROFILE.name} (LP-only mode)`
+        );
+
+    // Same target as the bot's hedge: the hedged share of every open LP's base amount
+    let lpEth = 0n;
+    const rows = [];
+    for (const { config, tokenId } of getActivePositions()) {
+        if (config.hedgeRatio <= 0) continue;
+        const pool = await fetchPositionPool(
+            config,
+            getPositionPoolContract(config, wallet)
+        );
+        const { base } = await getPositionAmounts(wallet, tokenId, pool);
+        const hedged =
+            (base * BigInt(Math.round(config.hedgeRatio * 10_000))) / 10_000n;
+        lpEth += hedged;
+        rows.push({
+            position: config.id,
+            tokenId,
+            lpBase: amount(base, config.base),
+            hedgeRatio: config.hedgeRatio,
+            hedged: ethers.formatEther(hedged),
+        });
+    }
+
+    const [hf, debt, collateral, carry] = await Promise.all([
+        venue.getMarginHealth(),
+        venue.getShortSize(),
+        venue.getCollateralUsdc(),
+        venue.getCarryApr(),
+    ]);
+    const adjustment = calculateHedgeAdjustment(lpEth, debt);
+
+    if (rows.length > 0) console.table(rows);
+    console.log(`Venue:            ${venue.name}`);
+    console.log(`Health Factor:    ${hf.toFixed(3)}`);
+    console.log(`Collateral:       ${ethers.formatUnits(collateral, 6)} USDC`);
+    console.log(`WETH Short:       ${ethers.formatEther(debt)}`);
+    console.log(`Carry:            ${(carry * 100).toFixed(2)}% APR`);
+    console.log(`Hedge Target:     ${ethers.formatEther(lpEth)}`);
+    console.log(`Net Delta:        ${ethers.formatEther(lpEth - debt)}`);
+    console.log(
+        `Next Adjustment:  ${adjustment.action}${adjustment.action === "NONE" ? "" : ` ${ethers.formatEther(adjustment.amount)} WETH`}`
+    );
+
+    if (venue instanceof AaveManager) {
+        const reserve = await venue.getReserveStatus();
+        const cap =
+            reserve.borrowCap > 0n
+                ? `${ethers.formatEther(reserve.borrowCap)} WETH`
+                : "none";
+        console.log(
+            `\nWETH Reserve:     ${reserveBlockReason(reserve) ?? "open for borrowing"}`
+        );
+        console.log(
+            `Utilisation:      ${(reserve.utilization * 100).toFixed(2)}%`
+        );
+        console.log(
+            `Total Debt:       ${ethers.formatEther(reserve.totalDebt)} WETH (cap ${cap})`
+        );
+    }
+
+    const report = await assessCarry(wallet, venue, getActivePositions());
+    if (report) {
+        console.log(
+            `\nHedge Cost:       $${report.hedgeCostUsd.toFixed(2)}/yr on $${report.hedgeNotionalUsd.toFixed(2)}`
+        );
+        console.log(
+            `LP Fee Income:    $${report.feeIncomeUsd.toFixed(2)}/yr (${report.feeAprPct.toFixed(2)}% APR)`
+        );
+        console.log(
+            `Net Carry:        $${report.netCarryUsd.toFixed(2)}/yr${report.netCarryUsd < 0 ? " (NEGATIVE)" : ""}`
+        );
+    } else {
+        console.log(
+            "\nNet Carry:        no hedged position old enough to measure its fee APR"
+        );
+    }
+}
+
+// --- State ---
+
+async function runState(args: Args) {
+    const [, sub, field, value] = args.positional;
+    switch (sub) {
+        case "show":
+            console.log(JSON.stringify(loadState(), null, 2));
+            return;
+        case "set": {
+            if (!field || value === undefined) {
+                throw new Error("Usage: state set <field> <json value>");
+            }
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(value);
+            } catch {
+                parsed = value; // Bare words; token IDs must be quoted ('"123"')
+            }
+            setStateValue(field, parsed);
+            console.log(`[State] ${field} = ${JSON.stringify(parsed)}`);
+            return;
+        }
+        default:
+            throw new Error("Usage: state show | set <field> <json value>");
+    }
+}
+
+async function runApprove() {
+    await approveAll(connectWallet());
+}
+
+// --- Config ---
+
+async function runConfig(args: Args) {
+    switch (args.positional[1]) {
+        case "print": {
+            console.log(
+                `Config file: ${LOADED_SETTINGS.file ?? "none (defaults and env)"}`
+            );
+            console.table(describeSettings(LOADED_SETTINGS));
+            console.log(
+                `\n${NETWORK_NAME}: ${NETWORK_PROFILE.name} (chain ${NETWORK_PROFILE.chainId}), ` +
+                    (HEDGE_ENABLED
+                        ? `hedged on ${HEDGE_VENUE}`
+                        : "LP-only (HEDGE_VENUE=NONE)")
+            );
+            console.table(
+                profileAddresses(NETWORK_PROFILE).map(
+                    ([contract, address]) => ({ contract, address })
+                )
+            );
+            const positions = POSITIONS.map(
+                (p) =>
+                    `${p.id} (${p.strategy}, ${(p.capitalShare * 100).toFixed(0)}%, hedge ${p.hedgeRatio})`
+            );
+            console.log(`Positions: ${positions.join(", ")}`);
+            return;
+        }
+        case "check": {
+            const url = (process.env.RPC_URL || "").split(",")[0].trim();
+            if (!url) throw new Error("RPC_URL must be set in .env");
+            provider = url.startsWith("ws")
+                ? new ethers.WebSocketProvider(url)
+                : new ethers.JsonRpcProvider(url);
+            await verifyNetwork(provider, NETWORK_NAME, NETWORK_PROFILE);
+            return;
+        }
+        default:
+            throw new Error("Usage: config print | check");
+    }
+}
+
+// --- Entry ---
+
+const COMMANDS: Record<string, (args: Args) => Promise<void>> = {
+    ledger: runLedger,
+    decisions: runDecisions,
+    control: runControl,
+    positions: runPositions,
+    collect: runCollect,
+    exit: runExit,
+    mint: runMint,
+    hedge: runHedge,
+    state: runState,
+    approve: runApprove,
+    config: runConfig,
+};
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const command = COMMANDS[args.positional[0]];
+    if (!command) {
+        throw new Error(
+            `Unknown command. Available: ${Object.keys(COMMANDS).join(", ")}`
+        );
+    }
+    await command(args);
+}
+
+main()
+    .catch((e) => {
+        console.error("[CLI] Error:", (e as Error).message);
+        process.exitCode = 1;
+    })
+    .finally(() => provider?.destroy());
@@ -5,44 +5,215 @@ import { ethers } from "ethers";
 import { Token, Percent } from "@uniswap/sdk-core";
 import { FeeAmount } from "@uniswap/v3-sdk";
 
+import { ConfigError, LoadedSettings, loadSettings } from "./src/settings";
+import { NETWORKS, NetworkProfile, TokenSpec } from "./src/networks";
+
 dotenv.config();
 
-const NETWORK = process.env.NETWORK || "SEPOLIA";
+// --- Settings (src/settings.ts) ---
+// Defaults < config file (CONFIG_FILE or unibot.config.yaml) < its profiles.<NETWORK> < env.
+// Misconfiguration stops the process before anything connects.
+const loadOrExit = (): LoadedSettings => {
+    try {
+        return loadSettings();
+    } catch (e) {
+        if (!(e instanceof ConfigError)) throw e;
+        console.error(`[Config] ${e.message}`);
+        process.exit(1);
+    }
+};
+export const LOADED_SETTINGS = loadOrExit();
+const S = LOADED_SETTINGS.settings;
+
+export const NETWORK_NAME = S.network;
+export const NETWORK_PROFILE: NetworkProfile = NETWORKS[NETWORK_NAME];
 
 // --- Constants ---
-export const MAX_RETRIES = 3;
-export const TX_TIMEOUT_MS = 60 * 1000;
+export const MAX_RETRIES = S.trading.maxRetries;
+export const TX_TIMEOUT_MS = S.tx.timeoutMs; // Unconfirmed for this long: the transaction is cancelled
 
-export const SLIPPAGE_TOLERANCE = new Percent(50, 10_000); // 0.5%
+export const SLIPPAGE_TOLERANCE = new Percent(S.trading.slippageBps, 10_000); // 0.5% by default
 
 export const MAX_UINT128 = (1n << 128n) - 1n;
 
 export const POOL_FEE = FeeAmount.MEDIUM;
 
- export const DELTA_NEUTRAL_THRESHOLD = ethers.parseEther("0.02"); // 0.02 ETH to avoid gas waste from uncessary hedgeing
+export const DELTA_NEUTRAL_THRESHOLD = ethers.parseEther(
+    String(S.trading.deltaNeutralThresholdEth)
+); // 0.02 ETH to avoid gas waste from uncessary hedgeing
 
 // --- RSI Thresholds ---
 // If RSI > 70, market is Overbought (Don't Buy ETH)
 // If RSI < 30, market is Oversold (Don't Sell ETH)
-export const RSI_OVERBOUGHT = 75;
-export const RSI_OVERSOLD = 25;
+export const RSI_OVERBOUGHT = S.range.rsiOverbought;
+export const RSI_OVERSOLD = S.range.rsiOversold;
 
 // -- ATR --
 
 // a Risk Management parameter. It determines how "conservative" or "aggressive" your bot is.
 // ATR (Average True Range): This tells you the average volatility over the past few hours.
 // The Problem: The market doesn't always follow the "average." A sudden crash or pump can be 2x or 3x the average volatility.
-export const ATR_SAFETY_FACTOR = 4;
+export const ATR_SAFETY_FACTOR = S.range.atrSafetyFactor;
+
+// --- Range Strategy ---
+// ATR_RSI (default) | FIXED | BOLLINGER | TWAP
+export const RANGE_STRATEGY = S.range.strategy;
+
+// Clamp for the half-width (radius) of the range, in ticks
+export const RANGE_MIN_WIDTH = S.range.minWidth;
+export const RANGE_MAX_WIDTH = S.range.maxWidth;
+
+// Share of the total span placed above the current tick when RSI is extreme
+export const RSI_SKEW_BEARISH = S.range.rsiSkewBearish;
+export const RSI_SKEW_BULLISH = S.range.rsiSkewBullish;
+
+// FIXED strategy radius, in ticks
+export const FIXED_RANGE_WIDTH = S.range.fixedWidth;
+
+// BOLLINGER strategy: range follows the band width
+export const BOLLINGER_PERIOD = S.range.bollingerPeriod;
+export const BOLLINGER_STD_DEV = S.range.bollingerStdDev;
 
- // 30 USDC (6 decimals) = 30,000,000
- // for fund around 2000 - 3000 this threshold is good, prevent from rebalancing too often
-export const REBALANCE_THRESHOLD_USDC = 30_000_000n;
+// TWAP strategy: centre the range on the TWAP of this window (seconds)
+export const RANGE_TWAP_INTERVAL = S.range.twapInterval;
+
+// 30 USDC (6 decimals) = 30,000,000
+// for fund around 2000 - 3000 this threshold is good, prevent from rebalancing too often
+export const REBALANCE_THRESHOLD_USDC = ethers.parseUnits(
+    String(S.trading.rebalanceThresholdUsdc),
+    6
+);
 // 0.01 WETH (18 decimals) = 10,000,000,000,000,000
-export const REBALANCE_THRESHOLD_WETH = 10_000_000_000_000_000n;
+export const REBALANCE_THRESHOLD_WETH = ethers.parseEther(
+    String(S.trading.rebalanceThresholdWeth)
+);
+
+// --- Rebalance Decision Engine ---
+// An out-of-range position is only rebalanced when the expected fee income of the new range
+// beats the estimated cost (gas, L1 data fee, swap price impact) by this factor.
+export const REBALANCE_MIN_PROFIT_RATIO = S.decision.minProfitRatio;
+// WIDEN multiplies the strategy's range width by this factor
+export const REBALANCE_WIDEN_FACTOR = S.decision.widenFactor;
+// A WAIT decision is kept this long before costs are estimated again
+export const REBALANCE_WAIT_MS = S.decision.waitMs; // 15 min
+// Out of range longer than this: rebalance regardless of cost (an idle position earns nothing)
+export const REBALANCE_MAX_WAIT_MS = S.decision.maxWaitMs; // 24h
+// Closed positions of the same pool needed to estimate fee income; with fewer, always rebalance
+export const DECISION_MIN_HISTORY = S.decision.minHistory;
+
+// --- Fee Compounding (src/compound.ts) ---
+// In-range positions are checked this often; their fees are collected and added to the
+// position's liquidity (no new NFT) when they exceed the gas cost by COMPOUND_MIN_PROFIT_RATIO.
+export const COMPOUND_INTERVAL_MS = S.compound.intervalMs; // 24h, 0 disables compounding
+export const COMPOUND_MIN_PROFIT_RATIO = S.compound.minProfitRatio;
+
+// --- Carry (src/carry.ts) ---
+// Yearly hedge cost (borrow interest / funding) is compared with the measured fee income of the
+// hedged LPs every CARRY_CHECK_INTERVAL_MS. Negative carry alerts, and CARRY_ACTION can also
+// scale the hedge down or widen the next ranges until it turns positive again.
+export type CarryAction = "ALERT" | "REDUCE_HEDGE" | "WIDEN";
+export const CARRY_CHECK_INTERVAL_MS = S.carry.checkIntervalMs; // 1h, 0 disables the check
+export const CARRY_MIN_POSITION_AGE_MS = S.carry.minPositionAgeMs; // 24h
+export const CARRY_ACTION = S.carry.action.toUpperCase() as CarryAction;
+export const CARRY_REDUCED_HEDGE_SCALE = S.carry.reducedHedgeScale;
+
+// --- Market Data ---
+// Candle sources for ATR / RSI / Bollinger, in priority order (first success wins):
+// BINANCE, BYBIT, OKX (kline APIs), ONCHAIN (pool observe() history), FILE (local files / cache)
+export const MARKET_DATA_PROVIDERS = S.marketData.providers;
+// FILE provider directory (<SYMBOL>_<interval>.json|csv). Defaults to STATE_DIR/market_data.
+export const MARKET_DATA_DIR = S.marketData.dir || undefined;
+// observe() points per on-chain candle (open / high / low / close come from their TWAPs)
+export const ONCHAIN_CANDLE_SAMPLES = S.marketData.onchainCandleSamples;
+// Candles kept per symbol and interval by the on-disk candle store (indicator history)
+export const CANDLE_STORE_MAX_CANDLES = S.marketData.candleStoreMaxCandles;
+
+// --- Price Shock Circuit Breaker ---
+// Trips when price moves more than PRICE_SHOCK_THRESHOLD % inside the rolling window
+// (per-block slot0 samples) or when spot deviates that much from any of the TWAP intervals.
+export const PRICE_SHOCK_THRESHOLD = S.circuitBreaker.priceShockThreshold; // %
+export const PRICE_SHOCK_WINDOW_SEC = S.circuitBreaker.windowSec; // 5 min
+export const PRICE_SHOCK_TWAP_INTERVALS = S.circuitBreaker.twapIntervals; // seconds
+export const CIRCUIT_BREAKER_COOLDOWN_MS = S.circuitBreaker.cooldownMs; // 30 min minimum pause
+export const CIRCUIT_BREAKER_REARM_THRESHOLD = S.circuitBreaker.rearmThreshold; // % move still considered "stable" for re-arming
+
+// --- Dry Run / Paper Trading ---
+// Routes every state-changing call through a simulated executor (virtual balances and positions).
+export const DRY_RUN = S.dryRun;
+// Optional starting balances for the virtual wallet (human units). Defaults to the real wallet balances.
+export const DRY_RUN_WETH = S.dryRunWeth || undefined;
+export const DRY_RUN_USDC = S.dryRunUsdc || undefined;
+
+// --- Transactions (src/txManager.ts) ---
+// A pending transaction is re-broadcast with fees raised by TX_FEE_BUMP_PCT every TX_BUMP_AFTER_MS,
+// at most TX_MAX_BUMPS times. Nodes only accept a replacement that pays at least 10% more.
+export const TX_BUMP_AFTER_MS = S.tx.bumpAfterMs;
+export const TX_FEE_BUMP_PCT = BigInt(S.tx.feeBumpPct);
+export const TX_MAX_BUMPS = S.tx.maxBumps;
+// Fees are never raised above this (maxFeePerGas, gwei)
+export const TX_MAX_FEE_GWEI = String(S.tx.maxFeeGwei);
+// Blocks on top of the receipt's block before a transaction counts as confirmed
+export const TX_CONFIRMATIONS = S.tx.confirmations;
+
+// --- Alerts ---
+// Channels: <EMAIL|TELEGRAM|DISCORD|SLACK|WEBHOOK|FILE>[:<info|warn|critical>], comma separated.
+// The severity is the channel's minimum; critical alerts and the daily digest go to every channel.
+// Channels without credentials in .env are skipped.
+export const ALERT_CHANNELS = S.alerts.channels;
+// Same key: at most one info / warn alert per window (critical alerts are not rate limited)
+export const ALERT_RATE_LIMIT_MS = S.alerts.rateLimitMs; // 15 min
+// Same key and same message: dropped within this window, whatever the severity
+export const ALERT_DEDUPE_MS = S.alerts.dedupeMs; // 1h
+// Info alerts are batched into one message per window
+export const ALERT_BATCH_MS = S.alerts.batchMs; // 1h
+// Daily digest (positions, Health Factor, PnL) hour, UTC. -1 disables it.
+export const ALERT_DIGEST_HOUR_UTC = S.alerts.digestHourUtc;
+
+// --- Monitoring ---
+// Port of the /metrics (Prometheus) and /healthz endpoints. 0 disables the server.
+export const METRICS_PORT = S.monitoring.metricsPort;
+// /healthz fails when no block was processed for this long. A rebalance blocks block processing
+// while its transactions confirm, so keep this well above a few TX_TIMEOUT_MS.
+export const HEALTH_MAX_BLOCK_AGE_SEC = S.monitoring.healthMaxBlockAgeSec;
+
+// --- Operator Control API ---
+// Local HTTP API (POST /<command>), only started when CONTROL_TOKEN is set (Bearer token).
+// The token is a secret, so it is only read from the environment.
+export const CONTROL_TOKEN = process.env.CONTROL_TOKEN;
+export const CONTROL_HOST = S.control.host;
+export const CONTROL_PORT = S.control.port;
+// Confirmation codes for destructive commands expire after this
+export const CONTROL_CONFIRM_TTL_MS = S.control.confirmTtlMs; // 2 min
+// A command waits this long for the block handler to finish before giving up
+export const CONTROL_LOCK_TIMEOUT_MS = S.control.lockTimeoutMs; // 5 min
+
+// --- Hedge Venue (src/venues.ts) ---
+// AAVE: borrow WETH and sell it. PERP: short on a perp adapter contract. MOCK: in-memory short
+// (local runs and tests). NONE: LP-only. Defaults to AAVE where the network has a market.
+export type HedgeVenueKind = "AAVE" | "PERP" | "MOCK" | "NONE";
+export const HEDGE_VENUE = (S.hedge.venue.toUpperCase() ||
+    (NETWORK_PROFILE.aave ? "AAVE" : "NONE")) as HedgeVenueKind;
+// LP-only mode: positions are never hedged
+export const HEDGE_ENABLED = HEDGE_VENUE !== "NONE";
+export const PERP_ADAPTER_ADDR = S.hedge.perpAdapter.toLowerCase();
+export const MOCK_VENUE_FUNDING_APR = S.hedge.mockFundingApr;
+export const MOCK_VENUE_MAINTENANCE_MARGIN = S.hedge.mockMaintenanceMargin;
+
+// --- Hedge Bands (src/gamma.ts) ---
+export const HEDGE_RATIO = S.hedge.ratio; // Default for WETH positions
+export const HEDGE_BAND_VOL_MULTIPLIER = S.hedge.bandVolMultiplier;
+export const HEDGE_BAND_MAX_ETH = ethers.parseEther(String(S.hedge.maxBandEth));
+export const HEDGE_MAX_INTERVAL_MS = S.hedge.maxIntervalMs;
 
 // --- Aave Configuration ---
-export const AAVE_TARGET_HEALTH_FACTOR = 1.7; // Target safety buffer
-export const AAVE_MIN_HEALTH_FACTOR = 1.5;    // Critical warning level
+export const AAVE_TARGET_HEALTH_FACTOR = S.aave.targetHealthFactor; // Target safety buffer
+export const AAVE_MIN_HEALTH_FACTOR = S.aave.minHealthFactor; // Critical warning level
+export const AAVE_MAX_HEALTH_FACTOR = S.aave.maxHealthFactor; // Above this, excess collateral is withdrawn back to the wallet for the LP
+// 20 USDC: smaller supply / withdraw adjustments are not worth the gas
+export const AAVE_MIN_COLLATERAL_CHANGE_USDC = ethers.parseUnits(
+    String(S.aave.minCollateralChangeUsdc),
+    6
+);
 
 // --- ABIs ---
 export const ERC20_ABI = [
@@ -50,133 +221,269 @@ export const ERC20_ABI = [
     "function decimals() view returns (uint8)",
     "function approve(address spender, uint256 amount) returns (bool)",
     "function allowance(address owner, address spender) view returns (uint256)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
 ];
 
 export const POOL_ABI = [
     "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
     "function liquidity() view returns (uint128)",
     "function tickSpacing() view returns (int24)",
-    "function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)"
+    "function feeGrowthGlobal0X128() view returns (uint256)",
+    "function feeGrowthGlobal1X128() view returns (uint256)",
+    "function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)",
 ];
 
 export const NPM_ABI = [
     "function mint((address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, address recipient, uint256 deadline)) payable returns (uint256 tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)",
     "function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)",
+    "function increaseLiquidity((uint256 tokenId, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, uint256 deadline)) payable returns (uint128 liquidity, uint256 amount0, uint256 amount1)",
     "function collect((uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max)) payable returns (uint256 amount0, uint256 amount1)",
     "function decreaseLiquidity((uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline)) payable returns (uint256 amount0, uint256 amount1)",
     "function burn(uint256 tokenId) payable",
     "function multicall(bytes[] calldata data) external payable returns (bytes[] memory results)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+    "event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)",
+    "event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)",
+    "event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)",
 ];
 
-export const SWAP_ROUTER_ABI = [
-    "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountOut)",
-    "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountIn)",
-];
+// SwapRouter02 drops `deadline` from the params; callers still pass it and ethers ignores it there
+export const SWAP_ROUTER_ABI = NETWORK_PROFILE.uniswap.swapRouter02
+    ? [
+          "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountOut)",
+          "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountIn)",
+      ]
+    : [
+          "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountOut)",
+          "function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountIn)",
+      ];
 
 // Aave V3 Pool ABI
 export const AAVE_POOL_ABI = [
     "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external",
     "function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf) external",
     "function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) external returns (uint256)",
+    "function withdraw(address asset, uint256 amount, address to) external returns (uint256)",
     "function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)",
+    "function getConfiguration(address asset) external view returns (uint256)",
+    "function getReserveData(address asset) external view returns ((uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))",
 ] as const;
 
+// Generic perp adapter (HEDGE_VENUE=PERP): one USDC-margined ETH short per account.
+// Sizes are WETH wei, prices USDC (6 decimals) per ETH, funding is yearly bps of notional
+// paid by shorts (negative: shorts are paid). A sizeDelta of MaxUint256 closes the short.
+export const PERP_ADAPTER_ABI = [
+    "function shortSize(address account) view returns (uint256)",
+    "function collateral(address account) view returns (uint256)",
+    "function maintenanceMarginBps() view returns (uint256)",
+    "function fundingRateBps() view returns (int256)",
+    "function increaseShort(uint256 sizeDelta, uint256 minPrice)",
+    "function decreaseShort(uint256 sizeDelta, uint256 maxPrice)",
+    "function depositCollateral(uint256 amount)",
+    "function withdrawCollateral(uint256 amount)",
+];
+
+// Prices in the Aave base currency (USD, 8 decimals)
+export const AAVE_ORACLE_ABI = [
+    "function getAssetPrice(address asset) external view returns (uint256)",
+];
+
+// Arbitrum precompile: L1 calldata cost of a transaction, in L2 gas units
+export const ARB_NODE_INTERFACE_ADDR =
+    "0x00000000000000000000000000000000000000C8";
+export const ARB_NODE_INTERFACE_ABI = [
+    "function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)",
+];
+
 export const QUOTER_ABI = [
     "function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
-    "function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)"
+    "function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)",
 ];
 
 // --- Network Configuration ---
-const safeLower = (addr: string) => addr.toLowerCase();
-
-let CHAIN_ID: number;
-let WETH_TOKEN_CONF: Token;
-let USDC_TOKEN_CONF: Token;
-let NPM_ADDR_CONF: string;
-let V3_FACTORY_ADDR_CONF: string;
-let SWAP_ROUTER_ADDR_CONF: string;
-let QUOTER_ADDR_CONF: string;
-
-let AAVE_POOL_ADDR_CONF: string;
-let WETH_DEBT_TOKEN_ADDR_CONF: string;
-
-if (NETWORK === "MAINNET") {
-    // https://docs.arbitrum.io/for-devs/dev-tools-and-resources/chain-info
-    CHAIN_ID = 42161;
-
-    // https://arbiscan.io/token/0x82af49447d8a07e3bd95bd0d56f35241523fbab1
-    WETH_TOKEN_CONF = new Token(
-        CHAIN_ID,
-        safeLower("0x82aF49447D8a07e3bd95BD0d56f35241523fBab1"),
-        18,
-        "WETH",
-        "Wrapped Ether"
+// Addresses come from the NETWORK profile (src/networks.ts); the SDK compares them lowercased
+const toToken = (t: TokenSpec) =>
+    new Token(
+        NETWORK_PROFILE.chainId,
+        t.address.toLowerCase(),
+        t.decimals,
+        t.symbol,
+        t.name
     );
 
-    // https://arbiscan.io/token/0xaf88d065e77c8cc2239327c5edb3a432268e5831
-    USDC_TOKEN_CONF = new Token(
-        CHAIN_ID,
-        safeLower("0xaf88d065e77c8cC2239327C5EDb3A432268e5831"),
-        6,
-        "USDC",
-        "USD Coin"
-    );
+const ARB_TOKEN_CONF = NETWORK_PROFILE.tokens.ARB
+    ? toToken(NETWORK_PROFILE.tokens.ARB)
+    : null;
 
-    // https://docs.uniswap.org/contracts/v3/reference/deployments/arbitrum-deployments
-    NPM_ADDR_CONF = safeLower("0xC36442b4a4522E871399CD717aBDD847Ab11FE88");
-    V3_FACTORY_ADDR_CONF = safeLower(
-        "0x1F98431c8aD98523631AE4a59f267346ea31F984"
-    );
-    SWAP_ROUTER_ADDR_CONF = safeLower(
-        "0xE592427A0AEce92De3Edee1F18E0157C05861564"
-    );
+export const CURRENT_CHAIN_ID = NETWORK_PROFILE.chainId;
+export const WETH_TOKEN = toToken(NETWORK_PROFILE.tokens.WETH);
+export const USDC_TOKEN = toToken(NETWORK_PROFILE.tokens.USDC);
+export const NONFUNGIBLE_POSITION_MANAGER_ADDR =
+    NETWORK_PROFILE.uniswap.positionManager.toLowerCase();
+export const V3_FACTORY_ADDR = NETWORK_PROFILE.uniswap.factory.toLowerCase();
+export const SWAP_ROUTER_ADDR =
+    NETWORK_PROFILE.uniswap.swapRouter.toLowerCase();
+export const QUOTER_ADDR = NETWORK_PROFILE.uniswap.quoter.toLowerCase();
+// The hedge is on Aave. Without a market on the network the addresses below are the zero address.
+export const AAVE_ENABLED = HEDGE_VENUE === "AAVE";
+export const AAVE_POOL_ADDR = (
+    NETWORK_PROFILE.aave?.pool ?? ethers.ZeroAddress
+).toLowerCase();
+export const AAVE_ORACLE_ADDR = (
+    NETWORK_PROFILE.aave?.oracle ?? ethers.ZeroAddress
+).toLowerCase();
+export const WETH_DEBT_TOKEN_ADDR = (
+    NETWORK_PROFILE.aave?.wethDebtToken ?? ethers.ZeroAddress
+).toLowerCase();
 
-    QUOTER_ADDR_CONF = safeLower("0x61fFE014bA17989E743c5F6cB21bF9697530B21e");
+// --- Managed Positions ---
+// Each position is one LP NFT in its own pool with its own range strategy and hedge target.
+// All pools are quoted in USDC; base tokens must have 18 decimals (the ledger values them like WETH).
+export interface PositionConfig {
+    id: string; // State key, e.g. "WETH-USDC-3000"
+    base: Token; // Volatile asset
+    quote: Token; // USDC
+    fee: FeeAmount;
+    strategy: string; // Range strategy name (see src/strategy.ts)
+    hedgeRatio: number; // Share of the LP's base exposure shorted on Aave (0 = unhedged, WETH only)
+    capitalShare: number; // Share of portfolio equity allocated to this position
+    marketSymbol: string; // CEX symbol (Binance format) for ATR / RSI
+}
 
-    // Aave V3 Arbitrum Addresses
-    AAVE_POOL_ADDR_CONF = safeLower(
-        "0x794a61358D6845594F94dc1DB02A252b5b4814aD"
-    );
-    // Aave Variable Debt WETH Token (Arbitrum)
-    WETH_DEBT_TOKEN_ADDR_CONF = safeLower(
-        "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351"
-    );
-} else {
-    // Sepolia
-    CHAIN_ID = 11155111;
-    WETH_TOKEN_CONF = new Token(
-        CHAIN_ID,
-        safeLower("0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14"),
-        18,
-        "WETH",
-        "Wrapped Ether"
-    );
-    USDC_TOKEN_CONF = new Token(
-        CHAIN_ID,
-        safeLower("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238"),
-        6,
-        "USDC",
-        "USD Coin"
-    );
-    V3_FACTORY_ADDR_CONF = safeLower(
-        "0x0227628f3F023bb0B980b67D528571c95c6DaC1c"
-    );
-    NPM_ADDR_CONF = safeLower("0x1238536071E1c677A632429e3655c799b22cDA52");
-    SWAP_ROUTER_ADDR_CONF = safeLower(
-        "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E"
-    );
-    QUOTER_ADDR_CONF = safeLower("0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3");
+// The single pool the bot managed before multi-position support
+export const DEFAULT_POSITION_ID = "WETH-USDC-3000";
 
-    AAVE_POOL_ADDR_CONF = "0x0000000000000000000000000000000000000000";
-    WETH_DEBT_TOKEN_ADDR_CONF = "0x0000000000000000000000000000000000000000";
+type PositionPreset = Omit<PositionConfig, "strategy" | "capitalShare">;
+
+const POSITION_PRESETS: Record<string, PositionPreset> = {
+    "WETH-USDC-500": {
+        id: "WETH-USDC-500",
+        base: WETH_TOKEN,
+        quote: USDC_TOKEN,
+        fee: FeeAmount.LOW,
+        hedgeRatio: 1,
+        marketSymbol: "ETHUSDT",
+    },
+    "WETH-USDC-3000": {
+        id: "WETH-USDC-3000",
+        base: WETH_TOKEN,
+        quote: USDC_TOKEN,
+        fee: FeeAmount.MEDIUM,
+        hedgeRatio: 1,
+        marketSymbol: "ETHUSDT",
+    },
+    ...(ARB_TOKEN_CONF && {
+        "ARB-USDC-3000": {
+            id: "ARB-USDC-3000",
+            base: ARB_TOKEN_CONF,
+            quote: USDC_TOKEN,
+            fee: FeeAmount.MEDIUM,
+            hedgeRatio: 0, // Aave hedge only shorts WETH
+            marketSymbol: "ARBUSDT",
+        },
+    }),
+};
+
+/**
+ * POSITIONS="<id>[:<strategy>[:<share>[:<hedgeRatio>]]],..."
+ * e.g. "WETH-USDC-500:TWAP:0.6:0.5,ARB-USDC-3000:FIXED:0.4".
+ * Strategy defaults to RANGE_STRATEGY, shares default to an equal split and are normalised to 1,
+ * the hedge ratio defaults to HEDGE_RATIO for WETH pools (0 otherwise; always 0 in LP-only mode).
+ */
+function parsePositions(spec: string): PositionConfig[] {
+    const entries = spec
+        .split(",")
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0)
+        .map((s) => {
+            const [id, strategy, share, hedgeRatio] = s.split(":");
+            const preset = POSITION_PRESETS[id];
+            if (!preset) {
+                throw new ConfigError(
+                    `Unknown position "${id}" on ${NETWORK_NAME}. Available: ${Object.keys(POSITION_PRESETS).join(", ")}`
+                );
+            }
+            const position: PositionConfig = {
+                ...preset,
+                strategy: strategy || RANGE_STRATEGY,
+                capitalShare: share ? Number(share) : 1,
+                hedgeRatio: hedgeRatio
+                    ? Number(hedgeRatio)
+                    : HEDGE_ENABLED
+                      ? preset.hedgeRatio * HEDGE_RATIO
+                      : 0,
+            };
+
+            if (!(position.hedgeRatio >= 0 && position.hedgeRatio <= 1)) {
+                throw new ConfigError(
+                    `${id}: hedge ratio must be between 0 and 1`
+                );
+            }
+            // The hedge shorts WETH, so only WETH exposure can be hedged
+            if (position.hedgeRatio > 0 && !position.base.equals(WETH_TOKEN)) {
+                throw new ConfigError(
+                    `${id}: only WETH positions can be hedged`
+                );
+            }
+            if (position.hedgeRatio > 0 && !HEDGE_ENABLED) {
+                throw new ConfigError(
+                    `${id}: no hedge venue on ${NETWORK_PROFILE.name} (LP-only), hedge ratio must be 0`
+                );
+            }
+            if (!(position.capitalShare > 0)) {
+                throw new ConfigError(`${id}: capital share must be positive`);
+            }
+            return position;
+        });
+
+    if (entries.length === 0) throw new ConfigError("POSITIONS is empty");
+    const ids = new Set(entries.map((p) => p.id));
+    if (ids.size !== entries.length)
+        throw new ConfigError("Duplicate position ids in POSITIONS");
+
+    const totalShare = entries.reduce((sum, p) => sum + p.capitalShare, 0);
+    return entries.map((p) => ({
+        ...p,
+        capitalShare: p.capitalShare / totalShare,
+    }));
+}
+
+export const POSITIONS = (() => {
+    try {
+        return parsePositions(S.positions);
+    } catch (e) {
+        if (!(e instanceof ConfigError)) throw e;
+        console.error(`[Config] Invalid positions: ${e.message}`);
+        process.exit(1);
+    }
+})();
+
+export function getPositionConfig(id: string): PositionConfig {
+    const config = POSITIONS.find((p) => p.id === id);
+    if (!config)
+        throw new Error(`Position ${id} is not configured (POSITIONS)`);
+    return config;
+}
+
+// Whether an NFT's pool (tokens in either order, fee) is the one a position config trades
+export function isPositionPool(
+    config: PositionConfig,
+    token0: string,
+    token1: string,
+    fee: number
+): boolean {
+    const tokens = [token0.toLowerCase(), token1.toLowerCase()];
+    return (
+        fee === config.fee &&
+        tokens.includes(config.base.address.toLowerCase()) &&
+        tokens.includes(config.quote.address.toLowerCase())
+    );
 }
 
-export const CURRENT_CHAIN_ID = CHAIN_ID;
-export const WETH_TOKEN = WETH_TOKEN_CONF;
-export const USDC_TOKEN = USDC_TOKEN_CONF;
-export const NONFUNGIBLE_POSITION_MANAGER_ADDR = NPM_ADDR_CONF;
-export const V3_FACTORY_ADDR = V3_FACTORY_ADDR_CONF;
-export const SWAP_ROUTER_ADDR = SWAP_ROUTER_ADDR_CONF;
-export const QUOTER_ADDR = QUOTER_ADDR_CONF;
-export const AAVE_POOL_ADDR = AAVE_POOL_ADDR_CONF;
-export const WETH_DEBT_TOKEN_ADDR = WETH_DEBT_TOKEN_ADDR_CONF;
\ No newline at end of file
+// Every token the bot may hold, deduplicated
+export const MANAGED_TOKENS: Token[] = [
+    ...new Map(
+        POSITIONS.flatMap((p) => [p.base, p.quote]).map((t) => [t.address, t])
+    ).values(),
+];
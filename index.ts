@@ -1,5 +1,5 @@
-import { ethers, NonceManager } from "ethers";
-import { Pool, Position } from "@uniswap/v3-sdk";
+import { ethers } from "ethers";
+import { Pool } from "@uniswap/v3-sdk";
 import * as dotenv from "dotenv";
 
 import {
@@ -7,30 +7,96 @@ import {
     WETH_TOKEN,
     POOL_FEE,
     POOL_ABI,
-    NPM_ABI,
-    NONFUNGIBLE_POSITION_MANAGER_ADDR,
     V3_FACTORY_ADDR,
+    DRY_RUN,
+    POSITIONS,
+    PositionConfig,
+    REBALANCE_WIDEN_FACTOR,
+    CONTROL_LOCK_TIMEOUT_MS,
+    NETWORK_NAME,
+    NETWORK_PROFILE,
+    HEDGE_MAX_INTERVAL_MS,
+    CARRY_ACTION,
+    CARRY_REDUCED_HEDGE_SCALE,
 } from "./config";
 
-import { loadState, scanLocalOrphans } from "./src/state"; // [Added] scanLocalOrphans
-import { approveAll, executeFullRebalance } from "./src/actions";
-import { AaveManager } from "./src/hedge";
+import {
+    loadState,
+    updateState,
+    recordPositionClosed,
+    scanLocalOrphans,
+    getActivePositions,
+    getPositionTokenId,
+    getPendingRebalance,
+    recordRebalancesHedged,
+} from "./src/state";
+import { approveAll, getPositionAmounts } from "./src/actions";
+import { executeFullRebalance, resumeRebalance } from "./src/rebalance";
+import { HedgeVenue, closeAllPositions } from "./src/hedge";
+import { createHedgeVenue } from "./src/venues";
+import {
+    HedgeBand,
+    HedgeExposure,
+    computeHedgeBand,
+    isHedgeTriggered,
+    lpGreeks,
+    priceAtTick,
+} from "./src/gamma";
+import { getAtr } from "./src/analytics";
 import { RobustProvider } from "./src/connection";
-import { sendEmailAlert } from "./src/utils";
+import {
+    getPositionPoolContract,
+    fetchPositionPool,
+    isBaseToken0,
+    isInRange,
+    sleep,
+} from "./src/utils";
+import { alert, getAlerter } from "./src/alerter";
+import { CircuitBreaker } from "./src/circuitBreaker";
+import { getExecutor } from "./src/executor";
+import { getTxManager } from "./src/txManager";
+import { verifyNetwork } from "./src/networks";
+import { maybeCompound } from "./src/compound";
+import { isCarryNegative, maybeCheckCarry } from "./src/carry";
+import { decideRebalance, markInRange, markPartialMint } from "./src/decision";
+import {
+    loadLedger,
+    summarizeLedger,
+    getOpenPositionValue,
+    OpenPositionValue,
+} from "./src/ledger";
+import {
+    startMetricsServer,
+    setGauge,
+    recordBlockProcessed,
+    clearPositionMetrics,
+} from "./src/metrics";
+import { startControlServer, ControlArgs, ControlError } from "./src/control";
 
 dotenv.config();
 
-const HEDGE_CHECK_INTERVAL_MS = 60 * 1000; // 1 min
+const STRATEGY_INTERVAL_MS = 60 * 1000; // 1 min: range checks and compounding
+const VOLATILITY_REFRESH_MS = 15 * 60 * 1000;
 
 let wallet: ethers.Wallet;
 let provider: ethers.Provider;
 let robustProvider: RobustProvider;
-let npm: ethers.Contract;
-let poolContract: ethers.Contract;
-let aave: AaveManager;
+let hedgePoolContract: ethers.Contract; // WETH/USDC at POOL_FEE, for the panic TWAP check
+let venue: HedgeVenue | null; // null in LP-only mode (HEDGE_VENUE=NONE)
+
+// One pool contract and price-shock breaker per managed position
+interface PositionContext {
+    config: PositionConfig;
+    poolContract: ethers.Contract;
+    breaker: CircuitBreaker;
+}
+let contexts: PositionContext[] = []; // Created in initialize(), once there is a provider
 
-let isProcessing = false; 
-let lastHedgeTime = 0; 
+let isProcessing = false;
+let lastHedgeTime = 0;
+let lastStrategyTime = 0;
+let hedgeBand: HedgeBand | null = null; // Set by the last hedge; null: hedge on the next strategy pass
+let hedgeVolatility = { atr: 0, time: 0 }; // Hourly ATR (USD) for the hedge band
 
 // Safe Mode Flag
 let isSafeMode = false;
@@ -40,8 +106,13 @@ let lastRunTime = 0;
 const MIN_INTERVAL_MS = 3000; // 3s
 
 async function initialize() {
+    startMetricsServer();
+
     const rpcEnv = process.env.RPC_URL || "";
-    const rpcUrls = rpcEnv.split(',').map(u => u.trim()).filter(u => u.length > 0);
+    const rpcUrls = rpcEnv
+        .split(",")
+        .map((u) => u.trim())
+        .filter((u) => u.length > 0);
 
     if (rpcUrls.length === 0) {
         throw new Error("RPC_URL is not set in .env");
@@ -51,84 +122,234 @@ async function initialize() {
 
     // Initialize Robust WebSocket Provider with Fallback
     robustProvider = new RobustProvider(rpcUrls, async () => {
-        console.log("[System] Provider switched/reconnected. Re-binding events...");
-        
+        console.log(
+            "[System] Provider switched/reconnected. Re-binding events..."
+        );
+
         provider = robustProvider.getProvider();
-        
+
         // [Important] Wallet also needs to reconnect to the new Provider, otherwise transactions will fail with Network Error
-        // Note: Since wallet is a global variable, we need to update its provider
-       const newWallet = wallet.connect(provider);
-
-        const userAddress = await newWallet.getAddress();
-        (newWallet as any).address = userAddress;
-        
-        wallet = newWallet as any;
-        
-        poolContract = poolContract.connect(provider) as ethers.Contract;
-        npm = npm.connect(wallet) as ethers.Contract; 
-        aave = new AaveManager(wallet);
-
-        console.log("[System] Contracts and Managers re-linked to new provider.");
-        
+        // Nonces are kept by the transaction manager (src/txManager.ts), not the signer
+        wallet = wallet.connect(provider);
+
+        hedgePoolContract = hedgePoolContract.connect(
+            provider
+        ) as ethers.Contract;
+        for (const ctx of contexts) {
+            ctx.poolContract = ctx.poolContract.connect(
+                provider
+            ) as ethers.Contract;
+        }
+        venue = createHedgeVenue(wallet);
+
+        console.log(
+            "[System] Contracts and Managers re-linked to new provider."
+        );
+
         await setupEventListeners();
     });
 
     provider = robustProvider.getProvider();
-    
-    // [Note] When initializing wallet here
-    const baseWallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
-    const managedWallet = new NonceManager(baseWallet);
-    (managedWallet as any).address = baseWallet.address;
-    wallet = managedWallet as any;
+
+    // Wrong RPC or stale addresses: stop before any transaction is built against them
+    await verifyNetwork(provider, NETWORK_NAME, NETWORK_PROFILE);
+
+    wallet = new ethers.Wallet(process.env.PRIVATE_KEY!, provider);
 
     console.log(`[System] Wallet initialized: ${await wallet.getAddress()}`);
-    
-    const poolAddr = Pool.getAddress(USDC_TOKEN, WETH_TOKEN, POOL_FEE, undefined, V3_FACTORY_ADDR);
-    poolContract = new ethers.Contract(poolAddr, POOL_ABI, provider);
-    npm = new ethers.Contract(NONFUNGIBLE_POSITION_MANAGER_ADDR, NPM_ABI, wallet);
-    aave = new AaveManager(wallet);
+    if (DRY_RUN) {
+        console.warn(
+            "[System] DRY RUN: transactions are simulated against a virtual portfolio. Nothing is sent."
+        );
+    }
 
-    console.log(`[System] Initialized.`);
+    const poolAddr = Pool.getAddress(
+        USDC_TOKEN,
+        WETH_TOKEN,
+        POOL_FEE,
+        undefined,
+        V3_FACTORY_ADDR
+    );
+    hedgePoolContract = new ethers.Contract(poolAddr, POOL_ABI, provider);
+    contexts = POSITIONS.map((config) => ({
+        config,
+        poolContract: getPositionPoolContract(config, provider),
+        breaker: new CircuitBreaker(),
+    }));
+    venue = createHedgeVenue(wallet);
+    if (venue) {
+        console.log(`[System] Hedge venue: ${venue.name}`);
+    } else {
+        console.warn(
+            `[System] LP-ONLY MODE: no hedge venue on ${NETWORK_PROFILE.name}. Positions are not hedged.`
+        );
+    }
+
+    console.log(
+        `[System] Initialized. Managing ${contexts.length} position(s): ${POSITIONS.map(
+            (p) =>
+                `${p.id} (${p.strategy}, ${(p.capitalShare * 100).toFixed(0)}%, hedge ${p.hedgeRatio})`
+        ).join(", ")}`
+    );
 
     await approveAll(wallet);
 
     // Orphan Position Scanning
     // If local state is 0 but on-chain position exists, sync state.
+    // loadState throws on a corrupt file: refuse to start rather than risk a second mint.
     const state = loadState();
-    if (state.tokenId === "0") {
+
+    // Safe Mode survives restarts; clearing it is an explicit operator decision
+    lastHedgeTime = state.lastHedgeTime;
+    isSafeMode = state.isSafeMode;
+    if (isSafeMode) {
+        if (process.env.CLEAR_SAFE_MODE === "true") {
+            console.warn("[System] CLEAR_SAFE_MODE set. Leaving SAFE MODE.");
+            isSafeMode = false;
+            updateState({ isSafeMode: false });
+        } else {
+            console.warn(
+                "[System] Persisted SAFE MODE is active. Set CLEAR_SAFE_MODE=true to resume."
+            );
+        }
+    }
+    setGauge("unibot_safe_mode", isSafeMode ? 1 : 0);
+
+    // Positions removed from POSITIONS stay open on-chain but are no longer managed
+    for (const [id, position] of Object.entries(state.positions)) {
+        if (!POSITIONS.some((p) => p.id === id)) {
+            console.warn(
+                `[System] ${id} (Token ${position.tokenId}) is open but not in POSITIONS. It will not be managed.`
+            );
+        }
+    }
+
+    // Settle transactions a crash left in the mempool first, so the journal lookups below are final
+    if (!DRY_RUN) await getTxManager(wallet).cancelPending();
+
+    // Finish rebalances a crash or restart interrupted, from their journaled step
+    if (!isSafeMode) {
+        for (const ctx of contexts) {
+            if (!getPendingRebalance(state, ctx.config.id)) continue;
+            try {
+                await resumeRebalance(wallet, ctx.config, venue ?? undefined);
+            } catch (e) {
+                console.error(
+                    `[System] ${ctx.config.id} rebalance resume failed:`,
+                    e
+                );
+                await alert(
+                    "critical",
+                    "Rebalance Resume Failed",
+                    `${ctx.config.id}: ${e}`
+                );
+            }
+        }
+    }
+
+    if (POSITIONS.some((p) => getPositionTokenId(loadState(), p.id) === "0")) {
         await scanLocalOrphans(wallet);
     }
 
+    getAlerter().setDigestSource(buildDigest);
+    startControlServer({
+        status: controlStatus,
+        pause: async () => setSafeMode(true, "Paused by operator"),
+        resume: async () => setSafeMode(false, "Resumed by operator"),
+        rebalance: controlRebalance,
+        hedge: async () => {
+            requireRunning();
+            await runExclusive(() => hedgeNow());
+        },
+        "exit-all": controlExitAll,
+        "set-range": controlSetRange,
+    });
+
     await setupEventListeners();
 }
 
+// Daily digest: positions and whether they are in range, hedge health, PnL from the ledger
+async function buildDigest(): Promise<string> {
+    const lines: string[] = [];
+    if (isSafeMode) lines.push("SAFE MODE is active. No actions are taken.");
+
+    const active = getActivePositions();
+    const open: OpenPositionValue[] = [];
+    for (const { config, tokenId } of active) {
+        const ctx = contexts.find((c) => c.config.id === config.id)!;
+        try {
+            const pool = await fetchPositionPool(config, ctx.poolContract);
+            const pos = await getExecutor(wallet).getPosition(tokenId);
+            const inRange = isInRange(
+                pool.tickCurrent,
+                pos.tickLower,
+                pos.tickUpper
+            );
+            lines.push(
+                `${config.id}: Token ${tokenId} [${pos.tickLower}, ${pos.tickUpper}] ${inRange ? "in range" : "OUT OF RANGE"}`
+            );
+            open.push(await getOpenPositionValue(wallet, tokenId, config));
+        } catch (e) {
+            lines.push(
+                `${config.id}: Token ${tokenId} (unavailable: ${(e as Error).message})`
+            );
+        }
+    }
+    if (active.length === 0) lines.push("No open positions.");
+
+    if (venue) {
+        const [hf, short, carry] = await Promise.all([
+            venue.getMarginHealth(),
+            venue.getShortSize(),
+            venue.getCarryApr(),
+        ]);
+        lines.push(
+            `${venue.name}: health ${hf.toFixed(2)}, short ${ethers.formatEther(short)} ETH, carry ${(carry * 100).toFixed(2)}% APR`
+        );
+    } else {
+        lines.push("Hedge: none (LP-only mode)");
+    }
+
+    const summary = summarizeLedger(loadLedger(), open);
+    const usd = (n: number) => `$${n.toFixed(2)}`;
+    lines.push(
+        `PnL: realised ${usd(summary.realisedPnlUsd)}, unrealised ${usd(summary.unrealisedPnlUsd)} ` +
+            `(fees ${usd(summary.totalFeesUsd)}, gas ${usd(summary.totalGasUsd)}, interest ${usd(summary.totalInterestUsd)})`
+    );
+    return lines.join("\n");
+}
+
 async function setupEventListeners() {
     provider.removeAllListeners();
     console.log("[System] Listening for blocks...");
 
     provider.on("block", async (blockNumber) => {
-
         // Safe Mode Check
         if (isSafeMode) {
-            if (blockNumber % 100 === 0) { // Reduce log noise
-                console.warn(`[SafeMode] Bot is in SAFE MODE. No actions taken. Block: ${blockNumber}`);
+            if (blockNumber % 100 === 0) {
+                // Reduce log noise
+                console.warn(
+                    `[SafeMode] Bot is in SAFE MODE. No actions taken. Block: ${blockNumber}`
+                );
             }
+            recordBlockProcessed(blockNumber);
             return;
         }
 
         if (isProcessing) return;
-        isProcessing = true;
 
         const now = Date.now();
-        
+
+        // Throttle before taking the lock, otherwise a skipped block would leave it held forever
         if (now - lastRunTime < MIN_INTERVAL_MS) {
-            console.log("[rpc limit]: skip less than")
-            return; 
+            return;
         }
+        isProcessing = true;
 
         try {
-            lastRunTime = now; 
+            lastRunTime = now;
             await onNewBlock(blockNumber);
+            recordBlockProcessed(blockNumber);
         } catch (e) {
             console.error(`[Block ${blockNumber}] Error:`, e);
         } finally {
@@ -138,44 +359,109 @@ async function setupEventListeners() {
 }
 
 async function onNewBlock(blockNumber: number) {
-    const { tokenId } = await loadState();
-
-    if (!tokenId || tokenId === "0") {
-        console.log(`[Block ${blockNumber}] No active position. Initializing Strategy...`);
-
-        // ... Fetch Pool Data ...
-        const [slot0, liquidity] = await Promise.all([
-            poolContract.slot0(),
-            poolContract.liquidity(),
-        ]);
+    const state = loadState();
 
-        const configuredPool = new Pool(
-            USDC_TOKEN,
-            WETH_TOKEN,
-            POOL_FEE,
-            slot0.sqrtPriceX96.toString(),
-            liquidity.toString(),
-            Number(slot0.tick)
+    // Price Shock Circuit Breakers: sample every processed block
+    const tradingAllowed = new Map<string, boolean>();
+    const ticks = new Map<string, number>();
+    for (const ctx of contexts) {
+        const sampleSlot0 = await ctx.poolContract.slot0();
+        const tick = Number(sampleSlot0.tick);
+        ctx.breaker.recordSample(blockNumber, tick);
+        ticks.set(ctx.config.id, tick);
+
+        const labels = { position: ctx.config.id };
+        setGauge("unibot_pool_tick", tick, labels);
+        const range = state.positions[ctx.config.id]?.activeRange;
+        if (range) {
+            setGauge("unibot_range_lower_tick", range.tickLower, labels);
+            setGauge("unibot_range_upper_tick", range.tickUpper, labels);
+            setGauge(
+                "unibot_in_range",
+                isInRange(tick, range.tickLower, range.tickUpper) ? 1 : 0,
+                labels
+            );
+        }
+        tradingAllowed.set(
+            ctx.config.id,
+            await ctx.breaker.evaluate(ctx.poolContract)
         );
+    }
 
-        // If executeFullRebalance throws (e.g. TWAP check failed), catch it here
-        // protects app from crashing, waits for next block retry.
-        await executeFullRebalance(wallet, configuredPool, "0");
+    // ============================================================
+    // INITIAL MINTS / UNFINISHED REBALANCES
+    // ============================================================
+    let minted = false;
+    for (const ctx of contexts) {
+        // A minted rebalance only waits for the hedge below
+        const pending = getPendingRebalance(state, ctx.config.id);
+        const resume = pending !== null && pending.phase !== "MINTED";
+        if (!resume && getPositionTokenId(state, ctx.config.id) !== "0")
+            continue;
+
+        if (!tradingAllowed.get(ctx.config.id)) {
+            console.warn(
+                `[Block ${blockNumber}] ${ctx.config.id} circuit breaker tripped. Delaying initial mint.`
+            );
+            continue;
+        }
 
-        lastHedgeTime = 0;
+        // If executeFullRebalance throws (e.g. TWAP check failed), catch it here
+        // so the other positions still run; this one retries on the next block.
+        try {
+            if (resume) {
+                console.log(
+                    `[Block ${blockNumber}] ${ctx.config.id}: Rebalance stopped at ${pending!.phase}. Resuming...`
+                );
+                await resumeRebalance(wallet, ctx.config, venue ?? undefined);
+            } else {
+                console.log(
+                    `[Block ${blockNumber}] ${ctx.config.id}: No active position. Initializing Strategy...`
+                );
+                const configuredPool = await fetchPositionPool(
+                    ctx.config,
+                    ctx.poolContract
+                );
+                await executeFullRebalance(
+                    wallet,
+                    ctx.config,
+                    configuredPool,
+                    "0",
+                    venue ?? undefined
+                );
+            }
+            minted = true;
+        } catch (e) {
+            console.error(
+                `[Block ${blockNumber}] ${ctx.config.id} initial mint failed:`,
+                e
+            );
+        }
+    }
+    if (minted) {
+        hedgeOnNextBlock();
         return;
     }
 
+    const active = getActivePositions();
+    if (active.length === 0) return;
+
     // ============================================================
     // CRITICAL PATH: SAFETY CHECK
     // ============================================================
-    // If check returns false, enter Safe Mode
-    const isSafe = await aave.checkHealthAndPanic(tokenId, poolContract);
+    // If check returns false, enter Safe Mode. Without debt (LP-only) there is nothing to liquidate.
+    const isSafe = venue
+        ? await venue.checkHealthAndPanic(active, hedgePoolContract)
+        : true;
 
     if (!isSafe) {
         console.error("[System] Panic exit triggered. Entering SAFE MODE.");
-        await sendEmailAlert("Bot Stopped", "Entered SAFE MODE after panic exit.");
-        isSafeMode = true; // Lock status, stop all operations
+        await alert(
+            "critical",
+            "Bot Stopped",
+            "Entered SAFE MODE after panic exit."
+        );
+        setSafeMode(true, "Panic exit"); // Lock status, stop all operations
         return;
     }
 
@@ -183,65 +469,502 @@ async function onNewBlock(blockNumber: number) {
     // STRATEGY PATH
     // ============================================================
 
+    // The hedge follows the price, the rest of the strategy the clock
     const now = Date.now();
-    if (now - lastHedgeTime < HEDGE_CHECK_INTERVAL_MS) {
+    const hedgeDue = venue !== null && isHedgeDue(now, ticks);
+    if (!hedgeDue && now - lastStrategyTime < STRATEGY_INTERVAL_MS) {
         return;
     }
+    lastStrategyTime = now;
 
     console.log(`[Block ${blockNumber}] Running Strategy Logic...`);
 
-    const [slot0, liquidity] = await Promise.all([
-        poolContract.slot0(),
-        poolContract.liquidity(),
-    ]);
+    // Hedge cost vs fee income; REDUCE_HEDGE re-hedges at the new ratio in this pass
+    if (venue) {
+        try {
+            const wasNegative = isCarryNegative();
+            await maybeCheckCarry(wallet, venue, active);
+            if (
+                isCarryNegative() !== wasNegative &&
+                CARRY_ACTION === "REDUCE_HEDGE"
+            )
+                hedgeBand = null;
+        } catch (e) {
+            console.error("[Carry] Check failed:", e);
+        }
+    }
 
-    const currentTick = Number(slot0.tick);
-    const configuredPool = new Pool(
-        USDC_TOKEN,
-        WETH_TOKEN,
-        POOL_FEE,
-        slot0.sqrtPriceX96.toString(),
-        liquidity.toString(),
-        currentTick
+    let rebalanced = false;
+    let hedgePaused = false;
+    let compounded = false;
+    let netLpEth = 0n;
+    const exposures: HedgeExposure[] = [];
+
+    for (const { config, tokenId } of active) {
+        const ctx = contexts.find((c) => c.config.id === config.id)!;
+
+        // Rebalancing stays paused while the position's breaker is tripped (health checks above still run)
+        if (!tradingAllowed.get(config.id)) {
+            if (blockNumber % 100 === 0) {
+                console.warn(
+                    `[Breaker] ${config.id} trading paused: ${ctx.breaker.getTripReason()}. Block: ${blockNumber}`
+                );
+            }
+            // Its exposure is unknown until it settles; don't hedge against a partial picture
+            if (config.hedgeRatio > 0) hedgePaused = true;
+            continue;
+        }
+
+        let configuredPool = await fetchPositionPool(config, ctx.poolContract);
+        const currentTick = configuredPool.tickCurrent;
+
+        let pos = await getExecutor(wallet).getPosition(tokenId);
+        if (pos.liquidity === 0n) {
+            await alert(
+                "critical",
+                "Position Closed",
+                `${config.id} ID: ${tokenId}`
+            );
+            // Archive the dead position, then look for a live one to adopt
+            recordPositionClosed(config.id, "CLOSED_EXTERNALLY");
+            clearPositionMetrics(config.id);
+            await scanLocalOrphans(wallet);
+            rebalanced = true;
+            continue;
+        }
+
+        if (!isInRange(currentTick, pos.tickLower, pos.tickUpper)) {
+            // Only rebalance when the new range is expected to earn back its cost
+            const decision = await decideRebalance(
+                wallet,
+                config,
+                configuredPool,
+                tokenId,
+                pos
+            );
+            if (decision.action !== "WAIT") {
+                console.log(
+                    `[Strategy] ${config.id} Out of Range. Rebalancing (${decision.action})...`
+                );
+                try {
+                    await executeFullRebalance(
+                        wallet,
+                        config,
+                        configuredPool,
+                        tokenId,
+                        venue ?? undefined,
+                        {
+                            widthMultiplier:
+                                decision.action === "WIDEN" ||
+                                widenForCarry(config)
+                                    ? REBALANCE_WIDEN_FACTOR
+                                    : 1,
+                            partial: decision.action === "PARTIAL",
+                        }
+                    );
+                    if (decision.action === "PARTIAL") {
+                        markPartialMint(config.id);
+                    } else {
+                        markInRange(config.id);
+                    }
+                } catch (e) {
+                    console.error(
+                        `[Strategy] ${config.id} rebalance failed:`,
+                        e
+                    );
+                }
+                rebalanced = true;
+                continue;
+            }
+            // Waiting: the position stays as it is and keeps being hedged
+        } else {
+            markInRange(config.id);
+            try {
+                // The added liquidity is picked up by the hedge at the end of this pass
+                if (
+                    await maybeCompound(wallet, config, configuredPool, tokenId)
+                ) {
+                    configuredPool = await fetchPositionPool(
+                        config,
+                        ctx.poolContract
+                    );
+                    pos = await getExecutor(wallet).getPosition(tokenId);
+                    compounded = true;
+                }
+            } catch (e) {
+                console.error(`[Compound] ${config.id} failed:`, e);
+                await alert(
+                    "warn",
+                    "Compound Failed",
+                    `${config.id} ID: ${tokenId}: ${e}`,
+                    `compound-${config.id}`
+                );
+            }
+        }
+
+        const { base } = await getPositionAmounts(
+            wallet,
+            tokenId,
+            configuredPool
+        );
+        setGauge(
+            "unibot_lp_base_amount",
+            parseFloat(ethers.formatUnits(base, config.base.decimals)),
+            { position: config.id }
+        );
+        if (config.hedgeRatio > 0) {
+            const hedgeRatio = effectiveHedgeRatio(config);
+            netLpEth +=
+                (base * BigInt(Math.round(hedgeRatio * 10_000))) / 10_000n;
+            exposures.push({
+                greeks: lpGreeks(
+                    configuredPool,
+                    config.base,
+                    pos.liquidity,
+                    pos.tickLower,
+                    pos.tickUpper
+                ),
+                hedgeRatio,
+            });
+        }
+    }
+
+    // A rebalance already re-planned the shared debt; hedge on the next pass with fresh amounts
+    if (rebalanced) {
+        hedgeBand = null;
+        return;
+    }
+    if (hedgePaused || !venue) return;
+
+    // Price trigger, new amounts or nothing set yet: hedge back to neutral.
+    // The periodic check leaves drift within the band alone.
+    const priceTriggered =
+        hedgeBand !== null &&
+        exposures.length > 0 &&
+        isHedgeTriggered(hedgeBand, exposures[0].greeks.price);
+    if (hedgeBand === null || compounded || priceTriggered) {
+        await adjustSharedHedge(netLpEth, exposures);
+    } else if (now - lastHedgeTime >= HEDGE_MAX_INTERVAL_MS) {
+        await adjustSharedHedge(netLpEth, exposures, true);
+    }
+}
+
+// Hedge ratio after CARRY_ACTION=REDUCE_HEDGE scaled it down for negative carry
+function effectiveHedgeRatio(config: PositionConfig): number {
+    return isCarryNegative() && CARRY_ACTION === "REDUCE_HEDGE"
+        ? config.hedgeRatio * CARRY_REDUCED_HEDGE_SCALE
+        : config.hedgeRatio;
+}
+
+// CARRY_ACTION=WIDEN: hedged positions rebalance into wider ranges while carry is negative
+function widenForCarry(config: PositionConfig): boolean {
+    return (
+        config.hedgeRatio > 0 && isCarryNegative() && CARRY_ACTION === "WIDEN"
     );
+}
+
+// Between strategy passes: has the price left the band set by the last hedge?
+function isHedgeDue(now: number, ticks: Map<string, number>): boolean {
+    if (hedgeBand === null) return false; // Set by the next strategy pass
+    if (now - lastHedgeTime >= HEDGE_MAX_INTERVAL_MS) return true;
+    const ref = contexts.find(
+        (c) => c.config.hedgeRatio > 0 && ticks.has(c.config.id)
+    );
+    if (!ref) return false;
+    return isHedgeTriggered(
+        hedgeBand,
+        priceAtTick(
+            ref.config.base,
+            ref.config.quote,
+            ticks.get(ref.config.id)!
+        )
+    );
+}
 
-    const pos = await npm.positions(tokenId);
-    if (pos.liquidity === 0n) {
-        await sendEmailAlert("CRITICAL: Position Closed.", `ID: ${tokenId}`);
-        // Mark as orphan or reset
-        await scanLocalOrphans(wallet); 
-        return null;
+// Hourly ATR of the first hedged market, refreshed every 15 min; 0 (the narrowest band) until known
+async function getHedgeVolatility(): Promise<number> {
+    const ctx = contexts.find((c) => c.config.hedgeRatio > 0);
+    if (!ctx || Date.now() - hedgeVolatility.time < VOLATILITY_REFRESH_MS)
+        return hedgeVolatility.atr;
+    try {
+        const market = {
+            symbol: ctx.config.marketSymbol,
+            pool: ctx.poolContract,
+            baseIsToken0: isBaseToken0(ctx.config.base),
+        };
+        hedgeVolatility = { atr: await getAtr(market, "1h"), time: Date.now() };
+    } catch (e) {
+        console.warn(
+            `[Hedge] No volatility for the hedge band, keeping ATR $${hedgeVolatility.atr.toFixed(2)}:`,
+            e
+        );
     }
+    return hedgeVolatility.atr;
+}
 
-    const tl = Number(pos.tickLower);
-    const tu = Number(pos.tickUpper);
+// Check Hedge (one netted short for all positions) and set the band for the next one
+async function adjustSharedHedge(
+    netLpEth: bigint,
+    exposures: HedgeExposure[],
+    withinBand = false
+) {
+    if (!venue)
+        throw new ControlError(
+            `LP-only mode: no hedge venue on ${NETWORK_PROFILE.name}`,
+            409
+        );
+    const band = computeHedgeBand(exposures, await getHedgeVolatility());
+    const hedged = getActivePositions();
+    await venue.adjustHedge(
+        netLpEth,
+        hedged,
+        withinBand ? band.bandEth : undefined
+    );
+    recordRebalancesHedged(hedged.map((p) => p.config.id));
 
-    if (currentTick < tl || currentTick > tu) {
-        console.log(`[Strategy] Out of Range. Rebalancing...`);    
-        await executeFullRebalance(wallet, configuredPool, tokenId);
-        lastHedgeTime = Date.now(); 
-        return;
+    const [hf, debt] = await Promise.all([
+        venue.getMarginHealth(),
+        venue.getShortSize(),
+    ]);
+    setGauge("unibot_aave_health_factor", hf);
+    setGauge("unibot_eth_debt", parseFloat(ethers.formatEther(debt)));
+    setGauge(
+        "unibot_net_delta_eth",
+        parseFloat(ethers.formatEther(netLpEth - debt))
+    );
+    setGauge(
+        "unibot_hedge_band_eth",
+        parseFloat(ethers.formatEther(band.bandEth))
+    );
+    setGauge("unibot_hedge_gamma_eth", band.gammaEth);
+
+    hedgeBand = band;
+    if (band.gammaEth > 0) {
+        console.log(
+            `[Hedge] Band ${ethers.formatEther(band.bandEth)} ETH. Next hedge at $${band.lowerTrigger.toFixed(2)} / $${band.upperTrigger.toFixed(2)}`
+        );
+    }
+    setLastHedgeTime(Date.now());
+}
+
+// Hedge against the current LP amounts of every hedged position, outside the price triggers
+async function hedgeNow() {
+    let netLpEth = 0n;
+    const exposures: HedgeExposure[] = [];
+    for (const { config, tokenId } of getActivePositions()) {
+        if (config.hedgeRatio <= 0) continue;
+        const ctx = contexts.find((c) => c.config.id === config.id)!;
+        const configuredPool = await fetchPositionPool(
+            config,
+            ctx.poolContract
+        );
+        const { base } = await getPositionAmounts(
+            wallet,
+            tokenId,
+            configuredPool
+        );
+        const hedgeRatio = effectiveHedgeRatio(config);
+        netLpEth += (base * BigInt(Math.round(hedgeRatio * 10_000))) / 10_000n;
+        const pos = await getExecutor(wallet).getPosition(tokenId);
+        exposures.push({
+            greeks: lpGreeks(
+                configuredPool,
+                config.base,
+                pos.liquidity,
+                pos.tickLower,
+                pos.tickUpper
+            ),
+            hedgeRatio,
+        });
     }
+    await adjustSharedHedge(netLpEth, exposures);
+}
+
+function setSafeMode(enabled: boolean, reason: string) {
+    console.warn(
+        `[System] ${enabled ? "Entering" : "Leaving"} SAFE MODE: ${reason}`
+    );
+    isSafeMode = enabled;
+    updateState({ isSafeMode: enabled });
+    setGauge("unibot_safe_mode", enabled ? 1 : 0);
+}
+
+// ============================================================
+// OPERATOR CONTROL API (src/control.ts)
+// ============================================================
+
+// Run an operator command while holding the block handler's lock
+async function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + CONTROL_LOCK_TIMEOUT_MS;
+    while (isProcessing) {
+        if (Date.now() > deadline)
+            throw new ControlError("Bot is busy. Try again later.", 503);
+        await sleep(500);
+    }
+    isProcessing = true;
+    try {
+        return await fn();
+    } finally {
+        isProcessing = false;
+    }
+}
+
+function requireRunning() {
+    if (isSafeMode)
+        throw new ControlError("Bot is in SAFE MODE. Resume it first.", 409);
+}
+
+// Active positions selected by `--position`; all of them when omitted
+function selectPositions(args: ControlArgs) {
+    const active = getActivePositions();
+    if (!args.position) return active;
+    const selected = active.filter((p) => p.config.id === args.position);
+    if (selected.length === 0)
+        throw new ControlError(`No open position ${args.position}`, 404);
+    return selected;
+}
+
+async function controlStatus() {
+    const state = loadState();
+    const [hf, debt, carry] = venue
+        ? await Promise.all([
+              venue.getMarginHealth(),
+              venue.getShortSize(),
+              venue.getCarryApr(),
+          ])
+        : [null, 0n, null];
+    return {
+        safeMode: isSafeMode,
+        dryRun: DRY_RUN,
+        busy: isProcessing,
+        network: NETWORK_NAME,
+        lpOnly: !venue,
+        hedgeVenue: venue?.name ?? null,
+        negativeCarry: isCarryNegative(),
+        lastHedgeTime: new Date(lastHedgeTime).toISOString(),
+        hedgeBand: hedgeBand && {
+            bandEth: ethers.formatEther(hedgeBand.bandEth),
+            lowerTrigger: hedgeBand.lowerTrigger,
+            upperTrigger: hedgeBand.upperTrigger,
+        },
+        healthFactor: hf,
+        debtEth: ethers.formatEther(debt),
+        carryApr: carry,
+        positions: POSITIONS.map((p) => ({
+            id: p.id,
+            tokenId: getPositionTokenId(state, p.id),
+            range: state.positions[p.id]?.activeRange ?? null,
+            breaker:
+                contexts
+                    .find((c) => c.config.id === p.id)
+                    ?.breaker.getTripReason() || null,
+            pendingRebalance: getPendingRebalance(state, p.id)?.phase ?? null,
+        })),
+    };
+}
 
-    // Check Hedge
-    const positionSDK = new Position({
-        pool: configuredPool,
-        liquidity: pos.liquidity.toString(),
-        tickLower: tl,
-        tickUpper: tu,
+// Rebalance now with the strategy range, skipping the cost/benefit decision
+async function controlRebalance(args: ControlArgs) {
+    requireRunning();
+    const selected = selectPositions(args);
+    return runExclusive(async () => {
+        for (const { config, tokenId } of selected) {
+            const ctx = contexts.find((c) => c.config.id === config.id)!;
+            const configuredPool = await fetchPositionPool(
+                config,
+                ctx.poolContract
+            );
+            await executeFullRebalance(
+                wallet,
+                config,
+                configuredPool,
+                tokenId,
+                venue ?? undefined
+            );
+            markInRange(config.id);
+        }
+        hedgeOnNextBlock(); // Hedge the new positions
+        return selected.map((p) => p.config.id);
     });
+}
 
-    const amount0 = BigInt(positionSDK.amount0.quotient.toString());
-    const amount1 = BigInt(positionSDK.amount1.quotient.toString());
+async function controlSetRange(args: ControlArgs) {
+    requireRunning();
+    const lower = Number(args.lower);
+    const upper = Number(args.upper);
+    if (
+        !Number.isInteger(lower) ||
+        !Number.isInteger(upper) ||
+        lower >= upper
+    ) {
+        throw new ControlError("set-range needs integer ticks lower < upper");
+    }
+    const selected = selectPositions(args);
+    if (selected.length !== 1) {
+        throw new ControlError(
+            "set-range needs a position when several are open"
+        );
+    }
+    const { config, tokenId } = selected[0];
+    const ctx = contexts.find((c) => c.config.id === config.id)!;
 
-    const lpEthAmount =
-        WETH_TOKEN.address.toLowerCase() < USDC_TOKEN.address.toLowerCase()
-            ? amount0
-            : amount1;
+    return runExclusive(async () => {
+        const configuredPool = await fetchPositionPool(
+            config,
+            ctx.poolContract
+        );
+        const spacing = configuredPool.tickSpacing;
+        if (lower % spacing !== 0 || upper % spacing !== 0) {
+            throw new ControlError(
+                `Ticks must be multiples of the tick spacing (${spacing})`
+            );
+        }
+        await executeFullRebalance(
+            wallet,
+            config,
+            configuredPool,
+            tokenId,
+            venue ?? undefined,
+            {
+                range: { tickLower: lower, tickUpper: upper },
+            }
+        );
+        markInRange(config.id);
+        hedgeOnNextBlock();
+        return { position: config.id, tickLower: lower, tickUpper: upper };
+    });
+}
 
-    await aave.adjustHedge(lpEthAmount, tokenId);
+// Close every LP and repay the debt (same path as a panic), then stay in SAFE MODE
+async function controlExitAll() {
+    return runExclusive(async () => {
+        await alert(
+            "critical",
+            "Operator Exit",
+            "exit-all requested. Closing all positions."
+        );
+        if (venue) {
+            await venue.panicExitAll(getActivePositions());
+        } else {
+            await closeAllPositions(wallet, getActivePositions());
+        }
+        setSafeMode(true, "exit-all by operator");
+        return { safeMode: true };
+    });
+}
+
+// Run the strategy pass on the next block and hedge back to neutral there
+function hedgeOnNextBlock() {
+    hedgeBand = null;
+    lastStrategyTime = 0;
+}
 
-    lastHedgeTime = Date.now();
+function setLastHedgeTime(time: number) {
+    lastHedgeTime = time;
+    updateState({ lastHedgeTime: time });
 }
 
-initialize().catch(console.error);
\ No newline at end of file
+initialize().catch((e) => {
+    console.error("[System] Startup failed:", e);
+    process.exit(1);
+});
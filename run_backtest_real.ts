@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+
+import {
+    DEFAULT_BACKTEST_CONFIG,
+    BacktestConfig,
+    loadCandles,
+    loadPoolSnapshots,
+    runBacktest,
+    formatBacktestReport,
+} from "./src/backtest";
+
+// Usage:
+// npx ts-node run_backtest_real.ts --candles data/ethusdt_1h.csv --pool data/pool_snapshots.json
+//     [--strategy ATR_RSI|FIXED|BOLLINGER|TWAP] [--capital 3000] [--collateral 3000] [--atr-factor 4] [--delta-threshold 0.02]
+//     [--borrow-apr 0.02] [--gas-gwei 0.02] [--liq-threshold 0.78] [--no-hedge]
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith("--")) continue;
+        const key = argv[i].slice(2);
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith("--")) {
+            args[key] = "true";
+        } else {
+            args[key] = next;
+            i++;
+        }
+    }
+    return args;
+}
+
+function main() {
+    const args = parseArgs(process.argv.slice(2));
+
+    if (!args["candles"]) {
+        throw new Error("--candles <file.csv|file.json> is required");
+    }
+
+    const candles = loadCandles(args["candles"]);
+    const snapshots = args["pool"] ? loadPoolSnapshots(args["pool"]) : [];
+
+    if (snapshots.length === 0) {
+        console.warn(
+            "[Backtest] No pool snapshots. Ticks are derived from candle closes and no fees are earned."
+        );
+    }
+
+    const config: BacktestConfig = {
+        ...DEFAULT_BACKTEST_CONFIG,
+        strategy: args["strategy"] ?? DEFAULT_BACKTEST_CONFIG.strategy,
+        initialCapitalUsdc: Number(
+            args["capital"] ?? DEFAULT_BACKTEST_CONFIG.initialCapitalUsdc
+        ),
+        collateralUsdc: Number(
+            args["collateral"] ?? DEFAULT_BACKTEST_CONFIG.collateralUsdc
+        ),
+        atrSafetyFactor: Number(
+            args["atr-factor"] ?? DEFAULT_BACKTEST_CONFIG.atrSafetyFactor
+        ),
+        deltaThresholdEth: args["delta-threshold"]
+            ? ethers.parseEther(args["delta-threshold"])
+            : DEFAULT_BACKTEST_CONFIG.deltaThresholdEth,
+        hedgeEnabled: args["no-hedge"] !== "true",
+        borrowApr: Number(
+            args["borrow-apr"] ?? DEFAULT_BACKTEST_CONFIG.borrowApr
+        ),
+        gasPriceGwei: Number(
+            args["gas-gwei"] ?? DEFAULT_BACKTEST_CONFIG.gasPriceGwei
+        ),
+        liquidationThreshold: Number(
+            args["liq-threshold"] ??
+                DEFAULT_BACKTEST_CONFIG.liquidationThreshold
+        ),
+    };
+
+    console.log(
+        `[Backtest] ${candles.length} candles, ${snapshots.length} pool snapshots. Strategy: ${config.strategy}, ATR factor: ${config.atrSafetyFactor}`
+    );
+
+    const report = runBacktest(candles, snapshots, config);
+    console.log(formatBacktestReport(report));
+}
+
+try {
+    main();
+} catch (e) {
+    console.error("[Backtest] Failed:", (e as Error).message);
+    process.exit(1);
+}
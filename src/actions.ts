@@ -1,12 +1,11 @@
 import { ethers } from "ethers";
 
 import { Pool, Position } from "@uniswap/v3-sdk";
-import { Token, CurrencyAmount, Percent } from "@uniswap/sdk-core";
+import { Token, CurrencyAmount } from "@uniswap/sdk-core";
 
 import {
     USDC_TOKEN,
     WETH_TOKEN,
-    POOL_FEE,
     ERC20_ABI,
     NPM_ABI,
     SWAP_ROUTER_ABI,
@@ -14,54 +13,84 @@ import {
     SWAP_ROUTER_ADDR,
     MAX_UINT128,
     SLIPPAGE_TOLERANCE,
-    TX_TIMEOUT_MS,
-    POOL_ABI,
-    V3_FACTORY_ADDR,
-    RSI_OVERBOUGHT,
-    RSI_OVERSOLD,
     AAVE_POOL_ADDR,
+    AAVE_ENABLED,
+    HEDGE_ENABLED,
+    HEDGE_VENUE,
+    PERP_ADAPTER_ADDR,
     REBALANCE_THRESHOLD_USDC,
     REBALANCE_THRESHOLD_WETH,
-    ATR_SAFETY_FACTOR,
     QUOTER_ADDR,
     QUOTER_ABI,
+    AAVE_TARGET_HEALTH_FACTOR,
+    AAVE_MIN_COLLATERAL_CHANGE_USDC,
+    DELTA_NEUTRAL_THRESHOLD,
+    POSITIONS,
+    MANAGED_TOKENS,
+    PositionConfig,
 } from "../config";
 
-import { withRetry, waitWithTimeout, getPoolTwap, sendEmailAlert } from "./utils";
-import { saveState } from "./state";
-import { getEthAtr, getEthRsi } from "./analytics";
+import {
+    getBaseToken,
+    getPositionPoolContract,
+    fetchPositionPool,
+} from "./utils";
+import { loadState, getPositionTokenId } from "./state";
+import { getExecutor } from "./executor";
+import {
+    planCapitalAllocation,
+    requiredCollateralUsdc,
+    solveRangeSwap,
+    CapitalPlan,
+    SwapQuoter,
+} from "./planner";
+import type { HedgeVenue } from "./hedge";
+import { setGauge } from "./metrics";
+import {
+    recordLedgerEntry,
+    parseExitAmounts,
+    parseMintAmounts,
+    parseTokenReceived,
+    getEthPrice,
+} from "./ledger";
+
+const npmInterface = new ethers.Interface(NPM_ABI);
 
 // --- Wallet Utilities ---
 export async function getBalance(
     token: Token,
     wallet: ethers.Wallet
 ): Promise<bigint> {
-    const contract = new ethers.Contract(token.address, ERC20_ABI, wallet);
-    return await withRetry(() => contract.balanceOf(wallet.address));
+    return getExecutor(wallet).getTokenBalance(token);
 }
 
 export async function approveAll(wallet: ethers.Wallet) {
-    const tokens = [USDC_TOKEN, WETH_TOKEN];
+    const executor = getExecutor(wallet);
+    const tokens = MANAGED_TOKENS;
     const spenders = [
         NONFUNGIBLE_POSITION_MANAGER_ADDR,
         SWAP_ROUTER_ADDR,
-        AAVE_POOL_ADDR,
+        ...(AAVE_ENABLED ? [AAVE_POOL_ADDR] : []),
+        ...(HEDGE_VENUE === "PERP" ? [PERP_ADAPTER_ADDR] : []),
     ];
 
     for (const token of tokens) {
         const contract = new ethers.Contract(token.address, ERC20_ABI, wallet);
         for (const spender of spenders) {
-            const allowance = await withRetry(() =>
-                contract.allowance(wallet.address, spender)
-            );
+            const allowance = await executor.getAllowance(token, spender);
             const threshold = ethers.MaxUint256 / 2n;
 
             if (allowance < threshold) {
                 console.log(
                     `[Approve] Authorizing ${token.symbol} for ${spender}...`
                 );
-                const tx = await contract.approve(spender, ethers.MaxUint256);
-                await waitWithTimeout(tx, TX_TIMEOUT_MS);
+                const receipt = await executor.send(contract, "approve", [
+                    spender,
+                    ethers.MaxUint256,
+                ]);
+                await recordLedgerEntry(wallet, "APPROVE", receipt, {
+                    note: `${token.symbol} -> ${spender}`,
+                });
                 console.log(`[Approve] Success.`);
             }
         }
@@ -69,22 +98,33 @@ export async function approveAll(wallet: ethers.Wallet) {
 }
 
 // --- Core Actions ---
-export async function atomicExitPosition(
-    wallet: ethers.Wallet,
-    tokenId: string
-) {
-    console.log(`\n[Exit] Executing Atomic Exit for Token ${tokenId}...`);
-    const npm = new ethers.Contract(
-        NONFUNGIBLE_POSITION_MANAGER_ADDR,
-        NPM_ABI,
-        wallet
-    );
+// "Eth" amounts are in the position's base token
+export interface ExitResult {
+    principalEth: bigint;
+    principalUsdc: bigint;
+    feesEth: bigint;
+    feesUsdc: bigint;
+}
 
-    const pos = await withRetry(() => npm.positions(tokenId));
-    const liquidity = pos.liquidity;
+// Collect everything owed to the position (fees, plus principal after a decrease)
+function encodeCollect(tokenId: string, recipient: string): string {
+    return npmInterface.encodeFunctionData("collect", [
+        {
+            tokenId,
+            recipient,
+            amount0Max: MAX_UINT128,
+            amount1Max: MAX_UINT128,
+        },
+    ]);
+}
 
+// Multicall payload of an atomic exit: Decrease Liquidity -> Collect Fees -> Burn NFT
+export function buildExitCalls(
+    tokenId: string,
+    liquidity: bigint,
+    recipient: string
+): string[] {
     const calls: string[] = [];
-    const iface = npm.interface;
 
     // 1. Decrease Liquidity
     if (liquidity > 0n) {
@@ -96,55 +136,390 @@ export async function atomicExitPosition(
             deadline: Math.floor(Date.now() / 1000) + 120,
         };
         calls.push(
-            iface.encodeFunctionData("decreaseLiquidity", [decreaseData])
+            npmInterface.encodeFunctionData("decreaseLiquidity", [decreaseData])
         );
     }
 
     // 2. Collect Fees
-    const collectData = {
-        tokenId: tokenId,
-        recipient: wallet.address,
-        amount0Max: MAX_UINT128,
-        amount1Max: MAX_UINT128,
-    };
-    calls.push(iface.encodeFunctionData("collect", [collectData]));
+    calls.push(encodeCollect(tokenId, recipient));
 
     // 3. Burn NFT
-    calls.push(iface.encodeFunctionData("burn", [tokenId]));
+    calls.push(npmInterface.encodeFunctionData("burn", [tokenId]));
+
+    return calls;
+}
+
+export async function atomicExitPosition(
+    wallet: ethers.Wallet,
+    tokenId: string,
+    position: PositionConfig,
+    onSubmitted?: (hash: string) => void
+): Promise<ExitResult> {
+    console.log(
+        `\n[Exit] Executing Atomic Exit for ${position.id} Token ${tokenId}...`
+    );
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        wallet
+    );
+
+    const executor = getExecutor(wallet);
+    const pos = await executor.getPosition(tokenId);
+    const calls = buildExitCalls(tokenId, pos.liquidity, wallet.address);
 
     try {
-        const tx = await npm.multicall(calls, { value: 0 });
-        await waitWithTimeout(tx, TX_TIMEOUT_MS);
-        console.log(`   Atomic Exit Successful! (Tx: ${tx.hash})`);
+        const receipt = await executor.send(
+            npm,
+            "multicall",
+            [calls],
+            { value: 0 },
+            onSubmitted
+        );
+        console.log(`   Atomic Exit Successful! (Tx: ${receipt.hash})`);
+
+        const result = parseExitAmounts(receipt, position.base);
+        const base = position.base.symbol;
+        console.log(
+            `   [Exit] Principal: ${ethers.formatEther(result.principalEth)} ${base} + ${ethers.formatUnits(result.principalUsdc, 6)} USDC | Fees: ${ethers.formatEther(result.feesEth)} ${base} + ${ethers.formatUnits(result.feesUsdc, 6)} USDC`
+        );
+        await recordLedgerEntry(wallet, "EXIT", receipt, {
+            tokenId,
+            positionId: position.id,
+            amountEth: result.principalEth.toString(),
+            amountUsdc: result.principalUsdc.toString(),
+            feesEth: result.feesEth.toString(),
+            feesUsdc: result.feesUsdc.toString(),
+        });
+        return result;
     } catch (e) {
         console.error(`   Atomic Exit Failed:`, e);
         throw e;
     }
 }
 
-export async function rebalancePortfolio(
+// Collect trading fees, leaving the liquidity in place
+export async function collectFees(
     wallet: ethers.Wallet,
-    configuredPool: Pool
-) {
-    console.log(`\n[Rebalance] Calculating Optimal Swap with RSI Filter...`);
+    tokenId: string,
+    position: PositionConfig
+): Promise<{ feesEth: bigint; feesUsdc: bigint }> {
+    console.log(
+        `\n[Collect] Collecting fees of ${position.id} Token ${tokenId}...`
+    );
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        wallet
+    );
 
-    const balUSDC = await getBalance(USDC_TOKEN, wallet);
-    const balWETH = await getBalance(WETH_TOKEN, wallet);
+    // Sent as a multicall like the exit, so the dry-run executor simulates it the same way
+    const receipt = await getExecutor(wallet).send(npm, "multicall", [
+        [encodeCollect(tokenId, wallet.address)],
+    ]);
+    const { feesEth, feesUsdc } = parseExitAmounts(receipt, position.base);
+    console.log(
+        `   [Collect] ${ethers.formatEther(feesEth)} ${position.base.symbol} + ${ethers.formatUnits(feesUsdc, 6)} USDC (Tx: ${receipt.hash})`
+    );
+    await recordLedgerEntry(wallet, "COLLECT", receipt, {
+        tokenId,
+        positionId: position.id,
+        feesEth: feesEth.toString(),
+        feesUsdc: feesUsdc.toString(),
+    });
+    return { feesEth, feesUsdc };
+}
 
-    const priceWethToUsdc =
-        configuredPool.token0.address === WETH_TOKEN.address
-            ? configuredPool.token0Price
-            : configuredPool.token1Price;
+export interface RebalanceSwap {
+    tokenIn: Token;
+    tokenOut: Token;
+    amountIn: bigint;
+}
 
-    const wethAmount = CurrencyAmount.fromRawAmount(
-        WETH_TOKEN,
-        balWETH.toString()
-    );
+/**
+ * Pure 50/50 swap sizing used by rebalancePortfolio and the backtester.
+ * Works on the pool's base token (the non-USDC side).
+ * Returns null when the imbalance is below the REBALANCE_THRESHOLD_* limits.
+ */
+export function calculateRebalanceSwap(
+    configuredPool: Pool,
+    balUSDC: bigint,
+    balBase: bigint
+): RebalanceSwap | null {
+    const base = getBaseToken(configuredPool);
+    const priceBaseToUsdc = configuredPool.priceOf(base);
+
+    const baseAmount = CurrencyAmount.fromRawAmount(base, balBase.toString());
     const usdcAmount = CurrencyAmount.fromRawAmount(
         USDC_TOKEN,
         balUSDC.toString()
     );
-    const wethValueInUsdc = priceWethToUsdc.quote(wethAmount);
+    const baseValueInUsdc = priceBaseToUsdc.quote(baseAmount);
+
+    if (usdcAmount.greaterThan(baseValueInUsdc)) {
+        // Sell USDC
+        const diff = usdcAmount.subtract(baseValueInUsdc);
+        const amountIn = BigInt(diff.divide(2).quotient.toString());
+
+        if (amountIn < REBALANCE_THRESHOLD_USDC) return null;
+        return { tokenIn: USDC_TOKEN, tokenOut: base, amountIn };
+    }
+
+    // Sell the base token
+    const diffValueInUsdc = baseValueInUsdc.subtract(usdcAmount);
+    const amountToSellValue = diffValueInUsdc.divide(2);
+
+    const priceUsdcToBase = configuredPool.priceOf(USDC_TOKEN);
+
+    const amountIn = BigInt(
+        priceUsdcToBase.quote(amountToSellValue).quotient.toString()
+    );
+
+    if (amountIn < REBALANCE_THRESHOLD_WETH) return null;
+    return { tokenIn: base, tokenOut: USDC_TOKEN, amountIn };
+}
+
+// Wallet balances a position needs before it can be funded (raw amounts)
+export interface SwapTarget {
+    base: bigint;
+    usdc: bigint;
+    // Range the funds are minted into. The swap is then solved for the range's ratio at the
+    // post-swap price rather than for `base`/`usdc`, which were sized at spot.
+    range?: RangeTarget;
+}
+
+export interface RangeTarget {
+    tickLower: number;
+    tickUpper: number;
+    borrowBase: bigint; // Added to the LP between swap and mint (the hedge's borrow)
+    supplyUsdc: bigint; // Taken out between swap and mint (Aave collateral)
+}
+
+// Result of rebalancePortfolio
+export interface SwapOutcome {
+    amountIn: bigint; // 0 if no swap was needed
+    amountOut: bigint;
+    // With `target.range`: what the position deposits into the LP after the swap
+    deposit: { base: bigint; usdc: bigint } | null;
+}
+
+/**
+ * Swap sizing that covers a shortfall in one leg of `target` with the surplus of the other.
+ * Balances above target on both legs are left alone (they belong to other positions).
+ * The swap is grossed up by the pool fee so the target is met after fees.
+ */
+export function calculateTargetSwap(
+    configuredPool: Pool,
+    balUSDC: bigint,
+    balBase: bigint,
+    target: SwapTarget
+): RebalanceSwap | null {
+    const base = getBaseToken(configuredPool);
+    const grossUp = (amount: bigint) =>
+        (amount * 1_000_000n) / (1_000_000n - BigInt(configuredPool.fee));
+
+    if (balBase < target.base && balUSDC > target.usdc) {
+        // Buy the base token with surplus USDC
+        const deficit = CurrencyAmount.fromRawAmount(
+            base,
+            (target.base - balBase).toString()
+        );
+        const usdcNeeded = grossUp(
+            BigInt(
+                configuredPool.priceOf(base).quote(deficit).quotient.toString()
+            )
+        );
+        const surplus = balUSDC - target.usdc;
+        const amountIn = usdcNeeded < surplus ? usdcNeeded : surplus;
+
+        if (amountIn < REBALANCE_THRESHOLD_USDC) return null;
+        return { tokenIn: USDC_TOKEN, tokenOut: base, amountIn };
+    }
+
+    if (balUSDC < target.usdc && balBase > target.base) {
+        // Sell surplus base token for USDC
+        const deficit = CurrencyAmount.fromRawAmount(
+            USDC_TOKEN,
+            (target.usdc - balUSDC).toString()
+        );
+        const baseNeeded = grossUp(
+            BigInt(
+                configuredPool
+                    .priceOf(USDC_TOKEN)
+                    .quote(deficit)
+                    .quotient.toString()
+            )
+        );
+        const surplus = balBase - target.base;
+        const amountIn = baseNeeded < surplus ? baseNeeded : surplus;
+
+        if (amountIn < REBALANCE_THRESHOLD_WETH) return null;
+        return { tokenIn: base, tokenOut: USDC_TOKEN, amountIn };
+    }
+
+    return null;
+}
+
+/**
+ * The part of the wallet that belongs to a position funded up to `target`: a leg below target is
+ * all its own, and the other leg is its target plus the spot value of that shortfall.
+ */
+function targetHoldings(
+    configuredPool: Pool,
+    balUSDC: bigint,
+    balBase: bigint,
+    target: SwapTarget
+): { base: bigint; usdc: bigint } {
+    const base = getBaseToken(configuredPool);
+    const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+    if (balBase < target.base) {
+        const deficit = CurrencyAmount.fromRawAmount(
+            base,
+            (target.base - balBase).toString()
+        );
+        const value = BigInt(
+            configuredPool.priceOf(base).quote(deficit).quotient.toString()
+        );
+        return { base: balBase, usdc: min(balUSDC, target.usdc + value) };
+    }
+    if (balUSDC < target.usdc) {
+        const deficit = CurrencyAmount.fromRawAmount(
+            USDC_TOKEN,
+            (target.usdc - balUSDC).toString()
+        );
+        const value = BigInt(
+            configuredPool
+                .priceOf(USDC_TOKEN)
+                .quote(deficit)
+                .quotient.toString()
+        );
+        return { base: min(balBase, target.base + value), usdc: balUSDC };
+    }
+    return { base: target.base, usdc: target.usdc };
+}
+
+// QuoterV2 quotes for single-pool swaps in `configuredPool`
+export function poolQuoter(
+    wallet: ethers.Wallet,
+    configuredPool: Pool
+): SwapQuoter {
+    const quoter = new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, wallet);
+    return async (zeroForOne, amountIn) => {
+        const [tokenIn, tokenOut] = zeroForOne
+            ? [configuredPool.token0, configuredPool.token1]
+            : [configuredPool.token1, configuredPool.token0];
+        const [amountOut, sqrtPriceX96After] = await quoter
+            .getFunction("quoteExactInputSingle")
+            .staticCall({
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                amountIn,
+                fee: configuredPool.fee,
+                sqrtPriceLimitX96: 0,
+            });
+        return { amountOut, sqrtPriceX96After };
+    };
+}
+
+/**
+ * Swap sizing for a position minted into `target.range`: its own funds (see targetHoldings), plus
+ * the borrow and minus the collateral, are swapped so that they fit the range at the post-swap
+ * price, with fee and price impact quoted by QuoterV2.
+ */
+async function calculateRangeSwap(
+    wallet: ethers.Wallet,
+    configuredPool: Pool,
+    balUSDC: bigint,
+    balBase: bigint,
+    target: SwapTarget & { range: RangeTarget }
+): Promise<{
+    swap: RebalanceSwap | null;
+    quotedOut: bigint;
+    deposit: { base: bigint; usdc: bigint };
+}> {
+    const base = getBaseToken(configuredPool);
+    const baseIsToken0 = configuredPool.token0.equals(base);
+    const own = targetHoldings(configuredPool, balUSDC, balBase, target);
+    const { tickLower, tickUpper, borrowBase, supplyUsdc } = target.range;
+    const deposit = {
+        base: own.base + borrowBase,
+        usdc: own.usdc > supplyUsdc ? own.usdc - supplyUsdc : 0n,
+    };
+
+    const solved = await solveRangeSwap(
+        configuredPool,
+        tickLower,
+        tickUpper,
+        baseIsToken0 ? deposit.base : deposit.usdc,
+        baseIsToken0 ? deposit.usdc : deposit.base,
+        poolQuoter(wallet, configuredPool)
+    );
+    if (!solved) return { swap: null, quotedOut: 0n, deposit };
+
+    const sellsBase = solved.zeroForOne === baseIsToken0;
+    // Borrowed base only arrives after the swap
+    const amountIn =
+        sellsBase && solved.amountIn > own.base ? own.base : solved.amountIn;
+    const threshold = sellsBase
+        ? REBALANCE_THRESHOLD_WETH
+        : REBALANCE_THRESHOLD_USDC;
+    if (amountIn < threshold) return { swap: null, quotedOut: 0n, deposit };
+
+    const quotedOut =
+        amountIn === solved.amountIn
+            ? solved.amountOut
+            : (solved.amountOut * amountIn) / solved.amountIn;
+    return {
+        swap: sellsBase
+            ? { tokenIn: base, tokenOut: USDC_TOKEN, amountIn }
+            : { tokenIn: USDC_TOKEN, tokenOut: base, amountIn },
+        quotedOut,
+        deposit,
+    };
+}
+
+// Swap the wallet towards `target` (without one: 50/50 by value).
+export async function rebalancePortfolio(
+    wallet: ethers.Wallet,
+    configuredPool: Pool,
+    target?: SwapTarget,
+    positionId?: string,
+    onSubmitted?: (hash: string) => void
+): Promise<SwapOutcome> {
+    console.log(`\n[Rebalance] Calculating Optimal Swap with RSI Filter...`);
+
+    const base = getBaseToken(configuredPool);
+    const balUSDC = await getBalance(USDC_TOKEN, wallet);
+    const balBase = await getBalance(base, wallet);
+
+    let swap: RebalanceSwap | null;
+    let solvedOut: bigint | null = null;
+    let deposit: { base: bigint; usdc: bigint } | null = null;
+    if (target?.range) {
+        const sized = await calculateRangeSwap(
+            wallet,
+            configuredPool,
+            balUSDC,
+            balBase,
+            {
+                ...target,
+                range: target.range,
+            }
+        );
+        swap = sized.swap;
+        solvedOut = sized.quotedOut;
+        deposit = sized.deposit;
+    } else {
+        swap =
+            target === undefined
+                ? calculateRebalanceSwap(configuredPool, balUSDC, balBase)
+                : calculateTargetSwap(configuredPool, balUSDC, balBase, target);
+    }
+    if (!swap) {
+        console.log("   Balance is good enough. Skipping swap.");
+        return { amountIn: 0n, amountOut: 0n, deposit };
+    }
 
     const router = new ethers.Contract(
         SWAP_ROUTER_ADDR,
@@ -152,119 +527,153 @@ export async function rebalancePortfolio(
         wallet
     );
 
-    const quoter = new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, wallet);
-
     // Slippage Helper
     const calculateMinOut = (quotedAmount: bigint) => {
         const tolerance = BigInt(SLIPPAGE_TOLERANCE.numerator.toString());
         const basis = BigInt(SLIPPAGE_TOLERANCE.denominator.toString());
-        return quotedAmount * (basis - tolerance) / basis;
+        return (quotedAmount * (basis - tolerance)) / basis;
     };
 
-    if (usdcAmount.greaterThan(wethValueInUsdc)) {
-        // Sell USDC
-        const diff = usdcAmount.subtract(wethValueInUsdc);
-        const amountToSell = diff.divide(2);
+    const { tokenIn, tokenOut, amountIn } = swap;
+    console.log(
+        `   [Swap] Selling ${ethers.formatUnits(amountIn, tokenIn.decimals)} ${tokenIn.symbol} for ${tokenOut.symbol}`
+    );
 
-        if (BigInt(amountToSell.quotient.toString()) < REBALANCE_THRESHOLD_USDC) {
-            console.log("   Balance is good enough. Skipping swap.");
-            return;
-        }
-    
-        const amountIn = BigInt(amountToSell.quotient.toString());
-        console.log(`   [Swap] Selling ${amountToSell.toSignificant(6)} USDC for WETH`);
-
-        // 1. Quote
-        const quoteParams = {
-            tokenIn: USDC_TOKEN.address,
-            tokenOut: WETH_TOKEN.address,
-            amountIn: amountIn,
-            fee: POOL_FEE,
-            sqrtPriceLimitX96: 0
-        };
-        // QuoterV2 returns struct, ethers v6 parses it. First return value is amountOut.
-        const [quotedAmountOut] = await quoter.getFunction("quoteExactInputSingle").staticCall(quoteParams);
-        const amountOutMin = calculateMinOut(quotedAmountOut);
+    // 1. Quote (already done while solving for a range)
+    const quotedAmountOut =
+        solvedOut ??
+        (
+            await poolQuoter(wallet, configuredPool)(
+                tokenIn.equals(configuredPool.token0),
+                amountIn
+            )
+        ).amountOut;
+    const amountOutMin = calculateMinOut(quotedAmountOut);
 
-        console.log(`   [Quote] Expect: ${ethers.formatEther(quotedAmountOut)} ETH, Min: ${ethers.formatEther(amountOutMin)}`);
+    console.log(
+        `   [Quote] Expect: ${ethers.formatUnits(quotedAmountOut, tokenOut.decimals)} ${tokenOut.symbol}, Min: ${ethers.formatUnits(amountOutMin, tokenOut.decimals)}`
+    );
 
-       const tx = await router.exactInputSingle({
-            tokenIn: USDC_TOKEN.address,
-            tokenOut: WETH_TOKEN.address,
-            fee: POOL_FEE,
-            recipient: wallet.address,
-            deadline: Math.floor(Date.now() / 1000) + 120,
-            amountIn: amountIn,
-            amountOutMinimum: amountOutMin,
-            sqrtPriceLimitX96: 0,
-        });
+    const receipt = await getExecutor(wallet).send(
+        router,
+        "exactInputSingle",
+        [
+            {
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                fee: configuredPool.fee,
+                recipient: wallet.address,
+                deadline: Math.floor(Date.now() / 1000) + 120,
+                amountIn: amountIn,
+                amountOutMinimum: amountOutMin,
+                sqrtPriceLimitX96: 0,
+            },
+        ],
+        {},
+        onSubmitted
+    );
+    const amountOut = parseTokenReceived(receipt, tokenOut, wallet.address);
+    console.log(
+        `   [Swap] Received ${ethers.formatUnits(amountOut, tokenOut.decimals)} ${tokenOut.symbol}`
+    );
 
-        await waitWithTimeout(tx, TX_TIMEOUT_MS);
-    } else {
-        // Sell WETH
-        const diffValueInUsdc = wethValueInUsdc.subtract(usdcAmount);
-        const amountToSellValue = diffValueInUsdc.divide(2);
+    await recordLedgerEntry(wallet, "SWAP", receipt, {
+        positionId,
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: amountIn.toString(),
+        quotedOut: quotedAmountOut.toString(),
+        amountOut: amountOut.toString(),
+        note: "REBALANCE",
+    });
+
+    if (deposit) {
+        deposit = tokenIn.equals(base)
+            ? { base: deposit.base - amountIn, usdc: deposit.usdc + amountOut }
+            : { base: deposit.base + amountOut, usdc: deposit.usdc - amountIn };
+    }
+    return { amountIn, amountOut, deposit };
+}
 
-        const priceUsdcToWeth =
-            configuredPool.token0.address === USDC_TOKEN.address
-                ? configuredPool.token0Price
-                : configuredPool.token1Price;
+// Token ID of the NFT a mint transferred to `owner`
+export function parseMintedTokenId(
+    receipt: ethers.TransactionReceipt,
+    owner: string
+): string {
+    const transferEventSig = ethers.id("Transfer(address,address,uint256)");
 
-        const amountToSell = priceUsdcToWeth.quote(amountToSellValue);
+    const transferLog = receipt.logs.find((log) => {
+        if (log.topics[0] !== transferEventSig) return false;
 
-        if (BigInt(amountToSell.quotient.toString()) < REBALANCE_THRESHOLD_WETH) {
-            console.log("   Balance is good enough. Skipping swap.");
-            return;
+        try {
+            const toAddress = ethers.dataSlice(log.topics[2], 12);
+            return ethers.getAddress(toAddress) === ethers.getAddress(owner);
+        } catch {
+            return false;
         }
+    });
 
-       const amountIn = BigInt(amountToSell.quotient.toString());
-        console.log(`   [Swap] Selling ${amountToSell.toSignificant(6)} WETH for USDC`);
+    if (!transferLog) {
+        throw new Error(
+            "Mint successful but failed to parse Token ID from logs (Transfer event not found)."
+        );
+    }
 
-        // 1. Quote
-        const quoteParams = {
-            tokenIn: WETH_TOKEN.address,
-            tokenOut: USDC_TOKEN.address,
-            amountIn: amountIn,
-            fee: POOL_FEE,
-            sqrtPriceLimitX96: 0
-        };
-        const [quotedAmountOut] = await quoter.getFunction("quoteExactInputSingle").staticCall(quoteParams);
-        const amountOutMin = calculateMinOut(quotedAmountOut);
+    return BigInt(transferLog.topics[3]).toString();
+}
 
-        console.log(`   [Quote] Expect: ${ethers.formatUnits(quotedAmountOut, 6)} USDC, Min: ${ethers.formatUnits(amountOutMin, 6)}`);
+// Log and export what a mint left of the funds it was given (the position's idle dust)
+function reportMintLeftover(
+    configuredPool: Pool,
+    input: { base: bigint; usdc: bigint },
+    deposited: { base: bigint; usdc: bigint },
+    positionId?: string
+): { base: bigint; usdc: bigint } {
+    const base = getBaseToken(configuredPool);
+    const leftover = {
+        base: input.base > deposited.base ? input.base - deposited.base : 0n,
+        usdc: input.usdc > deposited.usdc ? input.usdc - deposited.usdc : 0n,
+    };
+    const basePrice = parseFloat(
+        configuredPool.priceOf(base).toSignificant(12)
+    );
+    const toUsd = (amounts: { base: bigint; usdc: bigint }) =>
+        parseFloat(ethers.formatUnits(amounts.base, base.decimals)) *
+            basePrice +
+        parseFloat(ethers.formatUnits(amounts.usdc, USDC_TOKEN.decimals));
+    const leftoverUsd = toUsd(leftover);
+    const inputUsd = toUsd(input);
 
-        const tx = await router.exactInputSingle({
-            tokenIn: WETH_TOKEN.address,
-            tokenOut: USDC_TOKEN.address,
-            fee: POOL_FEE,
-            recipient: wallet.address,
-            deadline: Math.floor(Date.now() / 1000) + 120,
-            amountIn: amountIn,
-            amountOutMinimum: amountOutMin,
-            sqrtPriceLimitX96: 0,
+    console.log(
+        `   [Mint] Leftover: ${ethers.formatUnits(leftover.base, base.decimals)} ${base.symbol} + ${ethers.formatUnits(leftover.usdc, USDC_TOKEN.decimals)} USDC ($${leftoverUsd.toFixed(2)}, ${inputUsd > 0 ? ((leftoverUsd / inputUsd) * 100).toFixed(2) : "0.00"}% of the funds)`
+    );
+    if (positionId)
+        setGauge("unibot_mint_leftover_usd", leftoverUsd, {
+            position: positionId,
         });
-
-        await waitWithTimeout(tx, TX_TIMEOUT_MS);
-    }
+    return leftover;
 }
 
+// Mints with the wallet balances, capped at `maxAmounts` (the capital plan) when given
 export async function mintMaxLiquidity(
     wallet: ethers.Wallet,
     configuredPool: Pool,
     tickLower: number,
-    tickUpper: number
+    tickUpper: number,
+    maxAmounts?: { base: bigint; usdc: bigint },
+    positionId?: string,
+    onSubmitted?: (hash: string) => void
 ): Promise<string> {
-    const balUSDC = await getBalance(USDC_TOKEN, wallet);
-    const balWETH = await getBalance(WETH_TOKEN, wallet);
+    const base = getBaseToken(configuredPool);
+    let balUSDC = await getBalance(USDC_TOKEN, wallet);
+    let balBase = await getBalance(base, wallet);
+    if (maxAmounts) {
+        if (balUSDC > maxAmounts.usdc) balUSDC = maxAmounts.usdc;
+        if (balBase > maxAmounts.base) balBase = maxAmounts.base;
+    }
 
-    const amount0Input =
-        configuredPool.token0.address === WETH_TOKEN.address
-            ? balWETH
-            : balUSDC;
-    const amount1Input =
-        configuredPool.token1.address === WETH_TOKEN.address
-            ? balWETH
-            : balUSDC;
+    const amount0Input = configuredPool.token0.equals(base) ? balBase : balUSDC;
+    const amount1Input = configuredPool.token1.equals(base) ? balBase : balUSDC;
 
     // 99.9% Buffer
     const amount0Safe = (amount0Input * 999n) / 1000n;
@@ -285,7 +694,7 @@ export async function mintMaxLiquidity(
     const mintParams = {
         token0: configuredPool.token0.address,
         token1: configuredPool.token1.address,
-        fee: POOL_FEE,
+        fee: configuredPool.fee,
         tickLower,
         tickUpper,
         amount0Desired: position.mintAmounts.amount0.toString(),
@@ -304,196 +713,240 @@ export async function mintMaxLiquidity(
         NPM_ABI,
         wallet
     );
-    const tx = await npm.mint(mintParams, { gasLimit: 1_000_000 });
-    const receipt = await waitWithTimeout(tx, TX_TIMEOUT_MS);
-
-    const transferEventSig = ethers.id("Transfer(address,address,uint256)");
+    const receipt = await getExecutor(wallet).send(
+        npm,
+        "mint",
+        [mintParams],
+        {},
+        onSubmitted
+    );
+    const newTokenId = parseMintedTokenId(receipt, wallet.address);
 
-    const transferLog = receipt.logs.find((log: any) => {
-        if (log.topics[0] !== transferEventSig) return false;
+    console.log(`   Success! Token ID: ${newTokenId}`);
 
-        try {
-            const toAddress = ethers.dataSlice(log.topics[2], 12); 
-            return ethers.getAddress(toAddress) === wallet.address;
-        } catch {
-            return false;
-        }
+    const deposited = parseMintAmounts(receipt, base);
+    const leftover = reportMintLeftover(
+        configuredPool,
+        { base: balBase, usdc: balUSDC },
+        { base: deposited.eth, usdc: deposited.usdc },
+        positionId
+    );
+    await recordLedgerEntry(wallet, "MINT", receipt, {
+        tokenId: newTokenId,
+        positionId,
+        amountEth: deposited.eth.toString(),
+        amountUsdc: deposited.usdc.toString(),
+        leftoverEth: leftover.base.toString(),
+        leftoverUsdc: leftover.usdc.toString(),
     });
-
-    if (!transferLog) {
-        throw new Error(
-            "Mint successful but failed to parse Token ID from logs (Transfer event not found)."
-        );
-    }
-
-    const newTokenId = BigInt(transferLog.topics[3]).toString();
-
-    console.log(`   Success! Token ID: ${newTokenId}`);
     return newTokenId;
 }
 
-// Full Rebalancing Process: Remove Old -> Swap -> Refresh Price -> Mint New
-export async function executeFullRebalance(
+// Token amounts currently held by an open LP position (principal only)
+export async function getPositionAmounts(
     wallet: ethers.Wallet,
-    configuredPool: Pool,
-    oldTokenId: string
-) {
-    console.log(`[Rebalance] Starting full rebalance sequence...`);
+    tokenId: string,
+    configuredPool: Pool
+): Promise<{ base: bigint; usdc: bigint }> {
+    const pos = await getExecutor(wallet).getPosition(tokenId);
+    if (pos.liquidity === 0n) return { base: 0n, usdc: 0n };
 
-    // 0. TWAP Price Safety Check
-    // Prevents price manipulation via flash loans from triggering a rebalance at a bad price.
-    const poolAddr = Pool.getAddress(USDC_TOKEN, WETH_TOKEN, POOL_FEE, undefined, V3_FACTORY_ADDR);
-    const poolContract = new ethers.Contract(poolAddr, POOL_ABI, wallet);
+    const position = new Position({
+        pool: configuredPool,
+        liquidity: pos.liquidity.toString(),
+        tickLower: pos.tickLower,
+        tickUpper: pos.tickUpper,
+    });
+    const amount0 = BigInt(position.amount0.quotient.toString());
+    const amount1 = BigInt(position.amount1.quotient.toString());
+    return configuredPool.token0.equals(getBaseToken(configuredPool))
+        ? { base: amount0, usdc: amount1 }
+        : { base: amount1, usdc: amount0 };
+}
 
-    try {
-        // Get TWAP Tick for the last 5 minutes (300 seconds)
-        const twapTick = Number(await getPoolTwap(poolContract, 300));
-        const currentTick = configuredPool.tickCurrent;
-        
-        // Calculate tick difference
-        const tickDiff = Math.abs(currentTick - twapTick);
-        
-        // 1% price deviation is roughly 100 ticks (Basis Points)
-        // Threshold: If Spot deviates from TWAP by more than 200 ticks (~2%), reject the trade.
-        const MAX_TICK_DEVIATION = 200; 
-
-        console.log(`   [Safety] Spot Tick: ${currentTick} | TWAP Tick: ${twapTick} | Diff: ${tickDiff}`);
-
-        if (tickDiff > MAX_TICK_DEVIATION) {
-            const msg = `Price manipulation detected! Spot price deviates from TWAP by ${tickDiff} ticks.`;
-            await sendEmailAlert("TWAP Check Failed", msg);
-            throw new Error(`Price manipulation detected! Spot price deviates from TWAP by ${tickDiff} ticks.`);
+interface PortfolioSnapshot {
+    equityUsd: number; // Wallet tokens + other open LPs + collateral - borrowed WETH
+    ethPrice: number;
+    otherHedgeEth: bigint; // Debt the other open positions' hedges need
+}
+
+/**
+ * Value everything the bot manages, excluding `current`'s old LP (already exited into the wallet).
+ * Tokens are priced from their positions' pools, WETH from the hedge pool.
+ */
+async function getPortfolioSnapshot(
+    wallet: ethers.Wallet,
+    current: PositionConfig,
+    currentPool: Pool,
+    collateralUsdc: bigint,
+    debtEth: bigint
+): Promise<PortfolioSnapshot> {
+    const state = loadState();
+    const ethPrice = await getEthPrice(wallet);
+    const prices = new Map<string, number>([[WETH_TOKEN.address, ethPrice]]);
+    const toUsd = (raw: bigint, token: Token) =>
+        parseFloat(ethers.formatUnits(raw, token.decimals)) *
+        (token.equals(USDC_TOKEN) ? 1 : (prices.get(token.address) ?? 0));
+
+    let equityUsd =
+        toUsd(collateralUsdc, USDC_TOKEN) - toUsd(debtEth, WETH_TOKEN);
+    let otherHedgeEth = 0n;
+
+    for (const config of POSITIONS) {
+        const pool =
+            config.id === current.id
+                ? currentPool
+                : await fetchPositionPool(
+                      config,
+                      getPositionPoolContract(config, wallet)
+                  );
+        if (!prices.has(config.base.address)) {
+            prices.set(
+                config.base.address,
+                parseFloat(pool.priceOf(config.base).toSignificant(12))
+            );
         }
-    } catch (e) {
-        console.error("   [Safety] TWAP check failed:", e);
-        await sendEmailAlert("TWAP Check Error", `Error checking TWAP: ${e}`);
-        throw e; // Must throw exception to stop further operations
-    }
 
-    
-    console.log("   [Strategy] Pre-fetching market analytics...");
-    let atr, rsi;
-    try {
-        [atr, rsi] = await Promise.all([
-            getEthAtr("1h"),
-            getEthRsi("1h")
-        ]);
-        console.log(`   [Strategy] Data acquired. ATR: ${atr}, RSI: ${rsi}`);
-    } catch (e) {
-        console.error("   [Strategy] Failed to fetch market data. Aborting rebalance to keep old position safe.");
-        throw e; // keep old position
-    }
+        const tokenId = getPositionTokenId(state, config.id);
+        if (config.id === current.id || tokenId === "0") continue;
 
-    // 1. Exit Old Position
-    if (oldTokenId !== "0") {
-        await atomicExitPosition(wallet, oldTokenId);
+        const held = await getPositionAmounts(wallet, tokenId, pool);
+        equityUsd +=
+            toUsd(held.base, config.base) + toUsd(held.usdc, USDC_TOKEN);
+        if (config.hedgeRatio > 0) {
+            otherHedgeEth +=
+                (held.base * BigInt(Math.round(config.hedgeRatio * 10_000))) /
+                10_000n;
+        }
     }
 
-    // 2. Swap to align portfolio ratio
-    try {
-        await rebalancePortfolio(wallet, configuredPool);
-    } catch (e) {
-        console.error("   [Rebalance] Swap failed:", e);
-        await sendEmailAlert("Rebalance Swap Failed", `Swap likely reverted due to Slippage or Gas: ${e}`);
-        throw e; 
+    // Idle WETH (e.g. hedge leftovers) counts even when no WETH position is configured
+    const walletTokens = MANAGED_TOKENS.some((t) => t.equals(WETH_TOKEN))
+        ? MANAGED_TOKENS
+        : [...MANAGED_TOKENS, WETH_TOKEN];
+    for (const token of walletTokens) {
+        equityUsd += toUsd(await getBalance(token, wallet), token);
     }
 
-    console.log("   [System] Refreshing market data...");
+    return { equityUsd, ethPrice, otherHedgeEth };
+}
 
-    // 3. Refresh Data (Fetch latest Price/Liquidity)
-    // Need to re-fetch data because the swap above changed the pool state
-    const [newSlot0, newLiquidity] = await Promise.all([
-        poolContract.slot0(),
-        poolContract.liquidity(),
+/**
+ * Move capital to the planned split: repay / withdraw first (frees funds), swap so the wallet
+ * holds the LP's USDC leg plus any collateral still to supply, then supply and borrow.
+ * The position gets its capitalShare of portfolio equity. The short is shared: the target is
+ * this position's hedge plus the hedges of the other open positions, so the new position starts
+ * delta neutral without disturbing the others.
+ */
+export async function allocateCapital(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    configuredPool: Pool,
+    tickLower: number,
+    tickUpper: number,
+    venue?: HedgeVenue,
+    onSubmitted?: (hash: string) => void // Swap transaction
+): Promise<CapitalPlan> {
+    const hedge = venue !== undefined && HEDGE_ENABLED;
+
+    const [collateralUsdc, debtEth, liquidationThreshold] = await Promise.all([
+        hedge ? venue!.getCollateralUsdc() : 0n,
+        hedge ? venue!.getShortSize() : 0n,
+        hedge ? venue!.getCollateralFactor() : 0,
     ]);
-
-    const newCurrentTick = Number(newSlot0.tick);
-
-    const freshPool = new Pool(
-        USDC_TOKEN,
-        WETH_TOKEN,
-        POOL_FEE,
-        newSlot0.sqrtPriceX96.toString(),
-        newLiquidity.toString(),
-        newCurrentTick
+    // A perp short is not a WETH liability: its margin already includes the PnL
+    const portfolio = await getPortfolioSnapshot(
+        wallet,
+        position,
+        configuredPool,
+        collateralUsdc,
+        hedge && venue!.borrowsBase ? debtEth : 0n
     );
 
-    console.log(`   [Update] Tick: ${newCurrentTick}`);
-
-    // ============================================================
-    // DYNAMIC RANGE CALCULATION (ATR + RSI SKEW)
-    // ============================================================
-
-    const priceStr =
-        freshPool.token0.address === WETH_TOKEN.address
-            ? freshPool.token0Price.toSignificant(6)
-            : freshPool.token1Price.toSignificant(6);
-    const currentPrice = parseFloat(priceStr);
-
-    const volPercent = (atr / currentPrice) * 100;
-
-    let dynamicWidth = Math.floor(volPercent * 100 * ATR_SAFETY_FACTOR);
+    const plan = planCapitalAllocation(
+        configuredPool,
+        tickLower,
+        tickUpper,
+        portfolio.equityUsd * position.capitalShare,
+        {
+            base: position.base,
+            hedgeRatio: hedge ? position.hedgeRatio : 0,
+            borrowsBase: hedge && venue!.borrowsBase,
+            targetHf: AAVE_TARGET_HEALTH_FACTOR,
+            liquidationThreshold,
+        }
+    );
 
+    const base = position.base.symbol;
     console.log(
-        `   [Strategy] ATR: $${atr.toFixed(2)} | Vol: ${volPercent.toFixed(2)}% | Calc Width: ${dynamicWidth}`
+        `   [Planner] ${position.id} budget: $${plan.budgetUsd.toFixed(2)} of $${portfolio.equityUsd.toFixed(2)} @ ${plan.price.toFixed(4)} | LP: ${ethers.formatEther(plan.lpBase)} ${base} + ${ethers.formatUnits(plan.lpQuote, 6)} USDC | Collateral: ${ethers.formatUnits(plan.collateralUsdc, 6)} USDC | Debt: ${ethers.formatEther(plan.debtEth)} WETH`
     );
 
-    const WIDTH = Math.max(500, Math.min(dynamicWidth, 4000));
-
-    console.log(`   [Strategy] Base Radius Width: ${WIDTH}`);
-
-    const tickSpace = freshPool.tickSpacing;
-    const MIN_TICK = -887272;
-    const MAX_TICK = 887272;
-
-
-    let skew = 0.5;
-
-    if (rsi > 75) {
-        skew = 0.3;
-        console.log(`   [Strategy] RSI High -> Skewing Range DOWN (Bearish Setup)`);
-    } else if (rsi < 25) {
-        skew = 0.7;
-        console.log(`   [Strategy] RSI Low -> Skewing Range UP (Bullish Setup)`);
-    } else {
-        console.log(`   [Strategy] RSI Neutral -> Symmetric Range`);
+    // Venue targets cover this position and the hedges of the others
+    const targetDebt = portfolio.otherHedgeEth + plan.debtEth;
+    const targetCollateral =
+        hedge && targetDebt > 0n
+            ? plan.collateralUsdc +
+              requiredCollateralUsdc(
+                  portfolio.otherHedgeEth,
+                  portfolio.ethPrice,
+                  AAVE_TARGET_HEALTH_FACTOR,
+                  liquidationThreshold
+              )
+            : 0n;
+
+    if (hedge) {
+        if (debtEth > targetDebt + DELTA_NEUTRAL_THRESHOLD) {
+            await venue!.decreaseShort(debtEth - targetDebt);
+        }
+        if (
+            collateralUsdc >
+            targetCollateral + AAVE_MIN_COLLATERAL_CHANGE_USDC
+        ) {
+            await venue!.withdrawCollateral(collateralUsdc - targetCollateral);
+        }
     }
 
-    const totalSpan = WIDTH * 2;
-
-    const upperTickDiff = Math.floor(totalSpan * skew);
-    const lowerTickDiff = Math.floor(totalSpan * (1 - skew));
-
-    let tickLower =
-        Math.floor((newCurrentTick - lowerTickDiff) / tickSpace) * tickSpace;
-    let tickUpper =
-        Math.floor((newCurrentTick + upperTickDiff) / tickSpace) * tickSpace;
-
-    if (tickLower < MIN_TICK)
-        tickLower = Math.ceil(MIN_TICK / tickSpace) * tickSpace;
-    if (tickUpper > MAX_TICK)
-        tickUpper = Math.floor(MAX_TICK / tickSpace) * tickSpace;
-
-    if (tickLower >= tickUpper) {
-        tickUpper = tickLower + tickSpace;
-    }
+    const toSupply =
+        targetCollateral > collateralUsdc
+            ? targetCollateral - collateralUsdc
+            : 0n;
+    // Only this position's hedge is opened here; shortfalls of the other positions are left to
+    // adjustHedge (which sells what it borrows)
+    const debtNow = hedge ? await venue!.getShortSize() : 0n;
+    const shortfall = targetDebt > debtNow ? targetDebt - debtNow : 0n;
+    const toBorrow = shortfall < plan.debtEth ? shortfall : plan.debtEth;
+    // A borrowed part of the base leg arrives after the swap
+    const borrowBase = hedge && venue!.borrowsBase ? toBorrow : 0n;
+    const ownBase = plan.lpBase - borrowBase;
+    const { deposit } = await rebalancePortfolio(
+        wallet,
+        configuredPool,
+        {
+            base: ownBase,
+            usdc: plan.lpQuote + toSupply,
+            range: { tickLower, tickUpper, borrowBase, supplyUsdc: toSupply },
+        },
+        position.id,
+        onSubmitted
+    );
 
-    if (tickUpper > MAX_TICK) {
-        tickUpper = Math.floor(MAX_TICK / tickSpace) * tickSpace;
-        tickLower = tickUpper - tickSpace;
+    if (hedge) {
+        if (toSupply >= AAVE_MIN_COLLATERAL_CHANGE_USDC) {
+            const available = await getBalance(USDC_TOKEN, wallet);
+            await venue!.supplyCollateral(
+                toSupply < available ? toSupply : available
+            );
+        }
+        if (toBorrow > DELTA_NEUTRAL_THRESHOLD) {
+            await venue!.openLpShort(toBorrow);
+        }
     }
 
+    // The mint is capped at the LP amounts: use the ones the swap was solved for
+    if (!deposit) return plan;
     console.log(
-        `   New Range: [${tickLower}, ${tickUpper}] (Skew: ${skew}, Span: ${
-            tickUpper - tickLower
-        })`
+        `   [Planner] ${position.id} LP after swap: ${ethers.formatUnits(deposit.base, position.base.decimals)} ${base} + ${ethers.formatUnits(deposit.usdc, 6)} USDC`
     );
-
-    const newTokenId = await mintMaxLiquidity(
-        wallet,
-        freshPool,
-        tickLower,
-        tickUpper
-    );
-    saveState(newTokenId);
-}
\ No newline at end of file
+    return { ...plan, lpBase: deposit.base, lpQuote: deposit.usdc };
+}
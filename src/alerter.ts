@@ -0,0 +1,414 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import axios from "axios";
+import * as nodemailer from "nodemailer";
+
+import {
+    DRY_RUN,
+    ALERT_CHANNELS,
+    ALERT_RATE_LIMIT_MS,
+    ALERT_DEDUPE_MS,
+    ALERT_BATCH_MS,
+    ALERT_DIGEST_HOUR_UTC,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+
+export type Severity = "info" | "warn" | "critical";
+
+const SEVERITY_RANK: Record<Severity, number> = {
+    info: 0,
+    warn: 1,
+    critical: 2,
+};
+
+export interface Alert {
+    key: string; // De-duplication / rate limiting key, defaults to the title
+    severity: Severity;
+    title: string;
+    message: string;
+    timestamp: number;
+    suppressed: number; // Alerts with the same key dropped since the last one sent
+}
+
+// What a sink delivers: one alert, a batch of info alerts, or the daily digest
+export interface AlertMessage {
+    severity: Severity;
+    subject: string;
+    text: string;
+    alerts: Alert[];
+}
+
+export interface AlertSink {
+    readonly name: string;
+    send(message: AlertMessage): Promise<void>;
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+const TICK_MS = 60_000;
+
+const ALERTS_FILE = path.join(
+    STATE_DIR,
+    DRY_RUN ? "alerts.dry-run.jsonl" : "alerts.jsonl"
+);
+
+const prefix = (subject: string) =>
+    `[UniBot Alert]${DRY_RUN ? " [DRY RUN]" : ""} ${subject}`;
+
+// Chat APIs reject long messages
+const truncate = (text: string, max: number) =>
+    text.length > max ? `${text.slice(0, max - 3)}...` : text;
+
+// --- Sinks ---
+
+export class EmailSink implements AlertSink {
+    readonly name = "EMAIL";
+    private transporter = nodemailer.createTransport({
+        service: process.env.EMAIL_SERVICE || "gmail",
+        auth: {
+            user: process.env.EMAIL_USER,
+            pass: process.env.EMAIL_PASS,
+        },
+    });
+
+    async send(message: AlertMessage) {
+        await this.transporter.sendMail({
+            from: process.env.EMAIL_USER,
+            to: process.env.EMAIL_TO,
+            subject: prefix(message.subject),
+            text: message.text,
+        });
+    }
+}
+
+export class TelegramSink implements AlertSink {
+    readonly name = "TELEGRAM";
+
+    constructor(
+        private token: string,
+        private chatId: string
+    ) {}
+
+    async send(message: AlertMessage) {
+        await axios.post(
+            `https://api.telegram.org/bot${this.token}/sendMessage`,
+            {
+                chat_id: this.chatId,
+                text: truncate(
+                    `${prefix(message.subject)}\n\n${message.text}`,
+                    4096
+                ),
+            },
+            { timeout: HTTP_TIMEOUT_MS }
+        );
+    }
+}
+
+export class DiscordSink implements AlertSink {
+    readonly name = "DISCORD";
+
+    constructor(private url: string) {}
+
+    async send(message: AlertMessage) {
+        await axios.post(
+            this.url,
+            {
+                content: truncate(
+                    `**${prefix(message.subject)}**\n${message.text}`,
+                    2000
+                ),
+            },
+            { timeout: HTTP_TIMEOUT_MS }
+        );
+    }
+}
+
+export class SlackSink implements AlertSink {
+    readonly name = "SLACK";
+
+    constructor(private url: string) {}
+
+    async send(message: AlertMessage) {
+        await axios.post(
+            this.url,
+            { text: `*${prefix(message.subject)}*\n${message.text}` },
+            { timeout: HTTP_TIMEOUT_MS }
+        );
+    }
+}
+
+// Generic JSON webhook: the message and its raw alerts
+export class WebhookSink implements AlertSink {
+    readonly name = "WEBHOOK";
+
+    constructor(private url: string) {}
+
+    async send(message: AlertMessage) {
+        await axios.post(
+            this.url,
+            { ...message, dryRun: DRY_RUN },
+            { timeout: HTTP_TIMEOUT_MS }
+        );
+    }
+}
+
+// One JSON line per delivered message
+export class FileSink implements AlertSink {
+    readonly name = "FILE";
+
+    constructor(private file: string = ALERTS_FILE) {}
+
+    async send(message: AlertMessage) {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.appendFileSync(
+            this.file,
+            JSON.stringify({ timestamp: Date.now(), ...message }) + "\n"
+        );
+    }
+}
+
+// null when the channel has no credentials in .env
+export function createAlertSink(name: string): AlertSink | null {
+    const env = process.env;
+    switch (name.toUpperCase()) {
+        case "EMAIL":
+            return env.EMAIL_USER && env.EMAIL_PASS ? new EmailSink() : null;
+        case "TELEGRAM":
+            return env.TELEGRAM_BOT_TOKEN && env.TELEGRAM_CHAT_ID
+                ? new TelegramSink(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID)
+                : null;
+        case "DISCORD":
+            return env.DISCORD_WEBHOOK_URL
+                ? new DiscordSink(env.DISCORD_WEBHOOK_URL)
+                : null;
+        case "SLACK":
+            return env.SLACK_WEBHOOK_URL
+                ? new SlackSink(env.SLACK_WEBHOOK_URL)
+                : null;
+        case "WEBHOOK":
+            return env.ALERT_WEBHOOK_URL
+                ? new WebhookSink(env.ALERT_WEBHOOK_URL)
+                : null;
+        case "FILE":
+            return new FileSink();
+        default:
+            throw new Error(`Unknown alert channel: ${name}`);
+    }
+}
+
+// --- Alerter ---
+
+interface Channel {
+    sink: AlertSink;
+    minSeverity: Severity;
+}
+
+/**
+ * Routes alerts to the configured channels:
+ * - critical: immediately, to every channel
+ * - warn: immediately, to channels whose minimum is warn or info
+ * - info: batched into one message every ALERT_BATCH_MS, to info channels
+ * Alerts with the same key are rate limited (critical excepted) and de-duplicated; the number
+ * dropped is reported with the next one that goes out. A failing sink never throws.
+ */
+export class Alerter {
+    private channels: Channel[];
+    private sent = new Map<string, Alert>();
+    private suppressed = new Map<string, number>();
+    private batch: Alert[] = [];
+    private batchStartedAt = 0;
+    private lastDigestDay = "";
+    private digestSource: (() => Promise<string>) | null = null;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(channels: Channel[]) {
+        this.channels = channels;
+    }
+
+    static fromConfig(specs: string[] = ALERT_CHANNELS): Alerter {
+        const channels: Channel[] = [];
+        for (const spec of specs) {
+            const [name, severity = "info"] = spec.split(":");
+            if (!(severity in SEVERITY_RANK)) {
+                throw new Error(
+                    `Invalid severity '${severity}' for alert channel ${name}`
+                );
+            }
+            const sink = createAlertSink(name);
+            if (sink) {
+                channels.push({ sink, minSeverity: severity as Severity });
+            }
+        }
+        console.log(
+            `[Alert] Channels: ${
+                channels
+                    .map((c) => `${c.sink.name} (${c.minSeverity}+)`)
+                    .join(", ") || "none"
+            }`
+        );
+        return new Alerter(channels);
+    }
+
+    // Builds the daily digest text (positions, Health Factor, PnL); registered by the bot
+    setDigestSource(source: () => Promise<string>) {
+        this.digestSource = source;
+        this.startTimer();
+    }
+
+    private startTimer() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.tick(), TICK_MS);
+        this.timer.unref(); // Never keeps a CLI process alive
+    }
+
+    async alert(
+        severity: Severity,
+        title: string,
+        message: string,
+        key: string = title
+    ) {
+        const log = severity === "info" ? console.log : console.warn;
+        log(`[Alert] ${severity.toUpperCase()} ${title}: ${message}`);
+
+        const now = Date.now();
+        const last = this.sent.get(key);
+        const duplicate =
+            last !== undefined &&
+            last.message === message &&
+            now - last.timestamp < ALERT_DEDUPE_MS;
+        const limited =
+            severity !== "critical" &&
+            last !== undefined &&
+            now - last.timestamp < ALERT_RATE_LIMIT_MS;
+        if (duplicate || limited) {
+            this.suppressed.set(key, (this.suppressed.get(key) ?? 0) + 1);
+            return;
+        }
+
+        const alert: Alert = {
+            key,
+            severity,
+            title,
+            message,
+            timestamp: now,
+            suppressed: this.suppressed.get(key) ?? 0,
+        };
+        this.sent.set(key, alert);
+        this.suppressed.delete(key);
+
+        if (severity === "info") {
+            if (this.batch.length === 0) this.batchStartedAt = now;
+            this.batch.push(alert);
+            this.startTimer();
+            return;
+        }
+
+        await this.deliver(severity, {
+            severity,
+            subject: title,
+            text: Alerter.render(alert),
+            alerts: [alert],
+        });
+    }
+
+    // Send batched info alerts now
+    async flush() {
+        if (this.batch.length === 0) return;
+        const alerts = this.batch;
+        this.batch = [];
+        await this.deliver("info", {
+            severity: "info",
+            subject:
+                alerts.length === 1
+                    ? alerts[0].title
+                    : `${alerts.length} updates`,
+            text: alerts.map(Alerter.render).join("\n\n"),
+            alerts,
+        });
+    }
+
+    async sendDigest() {
+        if (!this.digestSource) return;
+        let text: string;
+        try {
+            text = await this.digestSource();
+        } catch (e) {
+            text = `Digest unavailable: ${(e as Error).message}`;
+        }
+        // Every channel, like critical alerts
+        await this.deliver("critical", {
+            severity: "info",
+            subject: "Daily Digest",
+            text,
+            alerts: [],
+        });
+    }
+
+    private async tick() {
+        const now = Date.now();
+        if (
+            this.batch.length > 0 &&
+            now - this.batchStartedAt >= ALERT_BATCH_MS
+        ) {
+            await this.flush();
+        }
+
+        const date = new Date(now);
+        const day = date.toISOString().slice(0, 10);
+        if (
+            ALERT_DIGEST_HOUR_UTC >= 0 &&
+            date.getUTCHours() === ALERT_DIGEST_HOUR_UTC &&
+            day !== this.lastDigestDay
+        ) {
+            this.lastDigestDay = day;
+            await this.sendDigest();
+        }
+    }
+
+    private static render(alert: Alert): string {
+        const time = new Date(alert.timestamp).toISOString();
+        const suppressed =
+            alert.suppressed > 0
+                ? `\n(${alert.suppressed} similar alert(s) suppressed)`
+                : "";
+        return `[${alert.severity.toUpperCase()}] ${time} ${alert.title}\n${alert.message}${suppressed}`;
+    }
+
+    // Critical routing reaches every channel
+    private async deliver(routing: Severity, message: AlertMessage) {
+        const targets = this.channels.filter(
+            (c) =>
+                routing === "critical" ||
+                SEVERITY_RANK[c.minSeverity] <= SEVERITY_RANK[routing]
+        );
+        const results = await Promise.allSettled(
+            targets.map((c) => c.sink.send(message))
+        );
+        results.forEach((r, i) => {
+            if (r.status === "rejected") {
+                console.error(
+                    `[Alert] ${targets[i].sink.name} failed to send '${message.subject}':`,
+                    (r.reason as Error)?.message ?? r.reason
+                );
+            }
+        });
+    }
+}
+
+let alerter: Alerter | null = null;
+
+export function getAlerter(): Alerter {
+    if (!alerter) alerter = Alerter.fromConfig();
+    return alerter;
+}
+
+export async function alert(
+    severity: Severity,
+    title: string,
+    message: string,
+    key?: string
+) {
+    await getAlerter().alert(severity, title, message, key);
+}
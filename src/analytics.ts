@@ -1,56 +1,39 @@
-import axios from 'axios';
-import { RSI, ATR } from 'technicalindicators';
-import { withRetry } from './utils'; // Reuse retry logic
+import { withRetry } from "./utils"; // Reuse retry logic
+import { MarketRef } from "./marketData";
+import { CandleSeries, getCandleStore } from "./candleStore";
 
-// Binance API for public market data
-const BINANCE_API_URL = 'https://api.binance.com/api/v3/klines';
-
-interface CandleData {
-    high: number[];
-    low: number[];
-    close: number[];
-}
-
-async function fetchCandles(symbol: string, interval: string, limit: number): Promise<CandleData> {
+// Stored candle series (see src/candleStore.ts), topped up from the configured providers
+async function fetchSeries(
+    market: MarketRef,
+    interval: string,
+    minCandles: number
+): Promise<CandleSeries> {
     try {
-        const response = await axios.get(BINANCE_API_URL, {
-            params: {
-                symbol: symbol,
-                interval: interval,
-                limit: limit
-            }
-        });
-
-        // Binance API format: [open_time, open, high, low, close, ...]
-        // Index: 2=High, 3=Low, 4=Close
-        const highs = response.data.map((c: any[]) => parseFloat(c[2]));
-        const lows = response.data.map((c: any[]) => parseFloat(c[3]));
-        const closes = response.data.map((c: any[]) => parseFloat(c[4]));
-
-        return { high: highs, low: lows, close: closes };
+        return await getCandleStore().get(market, interval, minCandles);
     } catch (error) {
-        throw new Error(`Failed to fetch market data: ${(error as Error).message}`);
+        throw new Error(
+            `Failed to fetch market data: ${(error as Error).message}`
+        );
     }
 }
 
-export async function getEthRsi(interval: string = '1h', period: number = 14): Promise<number> {
+export async function getRsi(
+    market: MarketRef,
+    interval: string = "1h",
+    period: number = 14
+): Promise<number> {
     try {
         // Use withRetry to increase stability
-        const data = await withRetry(() => fetchCandles('ETHUSDT', interval, period + 50));
-        
-        const inputRSI = {
-            values: data.close,
-            period: period
-        };
-
-        const rsiResult = RSI.calculate(inputRSI);
-
-        if (rsiResult.length > 0) {
-            return rsiResult[rsiResult.length - 1];
-        }
-        throw new Error("Insufficient data for RSI");
+        const series = await withRetry(() =>
+            fetchSeries(market, interval, period + 50)
+        );
+        const rsi = series.rsi(period);
+        if (rsi === undefined) throw new Error("Insufficient data for RSI");
+        return rsi;
     } catch (error) {
-        console.error(`[Analytics] Failed to fetch RSI: ${(error as Error).message}`);
+        console.error(
+            `[Analytics] Failed to fetch ${market.symbol} RSI: ${(error as Error).message}`
+        );
         throw error; // Throw error to stop strategy execution and prevent wrong positioning
     }
 }
@@ -59,27 +42,42 @@ export async function getEthRsi(interval: string = '1h', period: number = 14): P
  * Calculate Average True Range (ATR) to measure volatility in USD.
  * Returns the average dollar movement per candle (e.g., $30).
  */
-export async function getEthAtr(interval: string = '1h', period: number = 14): Promise<number> {
+export async function getAtr(
+    market: MarketRef,
+    interval: string = "1h",
+    period: number = 14
+): Promise<number> {
     try {
         // Use withRetry to increase stability
-        const data = await withRetry(() => fetchCandles('ETHUSDT', interval, period + 20));
-        
-        const inputATR = {
-            high: data.high,
-            low: data.low,
-            close: data.close,
-            period: period
-        };
-
-        const atrResult = ATR.calculate(inputATR);
+        const series = await withRetry(() =>
+            fetchSeries(market, interval, period + 20)
+        );
+        const atr = series.atr(period);
+        if (atr === undefined) throw new Error("Insufficient data for ATR");
+        return atr;
+    } catch (error) {
+        console.error(
+            `[Analytics] Failed to fetch ${market.symbol} ATR: ${(error as Error).message}`
+        );
+        throw error;
+    }
+}
 
-        if (atrResult.length > 0) {
-            return atrResult[atrResult.length - 1];
-        }
-        
-        throw new Error("Insufficient data for ATR");
+// Recent closes (oldest first), used by band-based range strategies.
+export async function getCloses(
+    market: MarketRef,
+    interval: string = "1h",
+    limit: number = 30
+): Promise<number[]> {
+    try {
+        const series = await withRetry(() =>
+            fetchSeries(market, interval, limit)
+        );
+        return series.closes(limit);
     } catch (error) {
-        console.error(`[Analytics] Failed to fetch ATR: ${(error as Error).message}`);
-        throw error; 
+        console.error(
+            `[Analytics] Failed to fetch ${market.symbol} closes: ${(error as Error).message}`
+        );
+        throw error;
     }
-}
\ No newline at end of file
+}
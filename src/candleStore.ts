@@ -0,0 +1,314 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import { CANDLE_STORE_MAX_CANDLES } from "../config";
+
+import {
+    Candle,
+    MarketDataProvider,
+    MarketRef,
+    getMarketData,
+    intervalToSeconds,
+    loadCandles,
+    marketDataDir,
+} from "./marketData";
+import {
+    Atr,
+    Bands,
+    BollingerBands,
+    Ema,
+    Rsi,
+    StreamingIndicator,
+} from "./indicators";
+
+// Skip the provider if the series was refreshed this recently (parallel indicator reads)
+const REFRESH_MS = 60_000;
+
+interface Tracker {
+    indicator: StreamingIndicator<Candle, unknown>;
+    committed: number; // open time of the last candle fed to the indicator
+}
+
+// Feed a close-based indicator from candles
+function onClose<O>(
+    indicator: StreamingIndicator<number, O>
+): StreamingIndicator<Candle, O> {
+    return {
+        next: (c) => indicator.next(c.close),
+        peek: (c) => indicator.peek(c.close),
+        get value() {
+            return indicator.value;
+        },
+    };
+}
+
+/**
+ * Candles of one symbol and interval, oldest first, with the indicators computed on them.
+ * Indicators are created on first use, folded over the stored history once and then only fed
+ * new closed candles. The candle still in progress is never committed: reads peek() at it.
+ */
+export class CandleSeries {
+    private candles: Candle[] = [];
+    private trackers = new Map<string, Tracker>();
+    readonly intervalMs: number;
+
+    constructor(
+        readonly interval: string,
+        private maxCandles: number = CANDLE_STORE_MAX_CANDLES
+    ) {
+        this.intervalMs = intervalToSeconds(interval) * 1000;
+    }
+
+    get length() {
+        return this.candles.length;
+    }
+
+    get last(): Candle | undefined {
+        return this.candles[this.candles.length - 1];
+    }
+
+    tail(limit: number): Candle[] {
+        return this.candles.slice(-limit);
+    }
+
+    closes(limit: number): number[] {
+        return this.tail(limit).map((c) => c.close);
+    }
+
+    /**
+     * Merge candles by open time (new data wins). Indicators restart from scratch if a candle
+     * they have already consumed was changed or inserted.
+     */
+    merge(candles: Candle[]) {
+        if (candles.length === 0) return;
+
+        // Fast path for appending newer candles (backtests, incremental fetches)
+        const last = this.last;
+        if (!last || candles[0].timestamp > last.timestamp) {
+            const sorted = candles.every(
+                (c, i) => i === 0 || c.timestamp > candles[i - 1].timestamp
+            );
+            if (sorted) {
+                this.candles.push(...candles);
+                if (this.candles.length > this.maxCandles) {
+                    this.candles = this.candles.slice(-this.maxCandles);
+                }
+                return;
+            }
+        }
+
+        const byTime = new Map(this.candles.map((c) => [c.timestamp, c]));
+        let earliestChange = Infinity;
+        for (const c of candles) {
+            const old = byTime.get(c.timestamp);
+            if (
+                !old ||
+                old.open !== c.open ||
+                old.high !== c.high ||
+                old.low !== c.low ||
+                old.close !== c.close
+            ) {
+                earliestChange = Math.min(earliestChange, c.timestamp);
+            }
+            byTime.set(c.timestamp, c);
+        }
+
+        this.candles = [...byTime.values()]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-this.maxCandles);
+
+        for (const tracker of this.trackers.values()) {
+            if (earliestChange <= tracker.committed) {
+                this.trackers.clear();
+                break;
+            }
+        }
+    }
+
+    private isClosed(c: Candle, now: number) {
+        return c.timestamp + this.intervalMs <= now;
+    }
+
+    private read<O>(
+        key: string,
+        create: () => StreamingIndicator<Candle, O>,
+        now: number
+    ): O | undefined {
+        let tracker = this.trackers.get(key);
+        if (!tracker) {
+            tracker = { indicator: create(), committed: -Infinity };
+            this.trackers.set(key, tracker);
+        }
+        const indicator = tracker.indicator as StreamingIndicator<Candle, O>;
+
+        let open: Candle | undefined;
+        for (const c of this.candles) {
+            if (c.timestamp <= tracker.committed) continue;
+            if (!this.isClosed(c, now)) {
+                open = c;
+                break;
+            }
+            indicator.next(c);
+            tracker.committed = c.timestamp;
+        }
+        return open ? indicator.peek(open) : indicator.value;
+    }
+
+    rsi(period: number, now = Date.now()): number | undefined {
+        return this.read(`rsi:${period}`, () => onClose(new Rsi(period)), now);
+    }
+
+    atr(period: number, now = Date.now()): number | undefined {
+        return this.read(`atr:${period}`, () => new Atr(period), now);
+    }
+
+    ema(period: number, now = Date.now()): number | undefined {
+        return this.read(`ema:${period}`, () => onClose(new Ema(period)), now);
+    }
+
+    bollinger(
+        period: number,
+        stdDev: number,
+        now = Date.now()
+    ): Bands | undefined {
+        return this.read(
+            `bb:${period}:${stdDev}`,
+            () => onClose(new BollingerBands(period, stdDev)),
+            now
+        );
+    }
+}
+
+/**
+ * On-disk candle store shared by all indicator reads, one series per symbol and interval
+ * (<dir>/<SYMBOL>_<interval>.json, which the FILE provider also reads).
+ * Only candles newer than the stored ones are requested from the providers; a series that is
+ * too short, or whose gap is longer than what is needed, is fetched in full.
+ */
+export class CandleStore {
+    private series = new Map<string, CandleSeries>();
+    private fetchedAt = new Map<string, number>();
+    private inFlight = new Map<string, Promise<CandleSeries>>();
+
+    constructor(
+        private provider: MarketDataProvider = getMarketData(),
+        private dir: string = marketDataDir()
+    ) {}
+
+    private file(symbol: string, interval: string) {
+        return path.join(this.dir, `${symbol}_${interval}.json`);
+    }
+
+    private load(symbol: string, interval: string): CandleSeries {
+        const key = `${symbol}_${interval}`;
+        let series = this.series.get(key);
+        if (!series) {
+            series = new CandleSeries(interval);
+            const file = this.file(symbol, interval);
+            if (fs.existsSync(file)) {
+                try {
+                    series.merge(loadCandles(file));
+                } catch (e) {
+                    console.warn(
+                        `[Candles] Ignoring unreadable ${path.basename(file)}:`,
+                        (e as Error).message
+                    );
+                }
+            }
+            this.series.set(key, series);
+        }
+        return series;
+    }
+
+    private save(symbol: string, series: CandleSeries) {
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            fs.writeFileSync(
+                this.file(symbol, series.interval),
+                JSON.stringify(series.tail(series.length))
+            );
+        } catch (e) {
+            console.warn(`[Candles] Write failed:`, (e as Error).message);
+        }
+    }
+
+    // Series with at least `minCandles` candles, refreshed up to the candle in progress
+    async get(
+        market: MarketRef,
+        interval: string,
+        minCandles: number
+    ): Promise<CandleSeries> {
+        const key = `${market.symbol}_${interval}`;
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            const series = await pending.catch(() => null);
+            if (series && series.length >= minCandles) return series;
+        }
+
+        const refresh = this.refresh(market, interval, minCandles).finally(() =>
+            this.inFlight.delete(key)
+        );
+        this.inFlight.set(key, refresh);
+        return refresh;
+    }
+
+    private async refresh(
+        market: MarketRef,
+        interval: string,
+        minCandles: number
+    ): Promise<CandleSeries> {
+        const key = `${market.symbol}_${interval}`;
+        let series = this.load(market.symbol, interval);
+        const now = Date.now();
+
+        if (
+            series.length >= minCandles &&
+            now - (this.fetchedAt.get(key) ?? 0) < REFRESH_MS
+        ) {
+            return series;
+        }
+
+        // Candles from the last stored one (which may have been in progress) up to now
+        const currentOpen =
+            Math.floor(now / series.intervalMs) * series.intervalMs;
+        const missing = series.last
+            ? Math.floor(
+                  (currentOpen - series.last.timestamp) / series.intervalMs
+              ) + 1
+            : Infinity;
+
+        let limit = missing;
+        if (series.length < minCandles || missing > minCandles) {
+            if (missing > minCandles && series.length > 0) {
+                // Gap too long to bridge: start over rather than keep a hole in the series
+                series = new CandleSeries(interval);
+                this.series.set(key, series);
+            }
+            limit = minCandles;
+        }
+
+        const candles = await this.provider.getCandles(
+            market,
+            interval,
+            Math.max(limit, 1)
+        );
+        series.merge(candles);
+        this.fetchedAt.set(key, now);
+        this.save(market.symbol, series);
+
+        if (series.length < minCandles) {
+            throw new Error(
+                `Only ${series.length} of ${minCandles} ${interval} candles for ${market.symbol}`
+            );
+        }
+        return series;
+    }
+}
+
+let candleStore: CandleStore | null = null;
+
+export function getCandleStore(): CandleStore {
+    if (!candleStore) candleStore = new CandleStore();
+    return candleStore;
+}
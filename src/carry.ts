@@ -0,0 +1,138 @@
+import { ethers } from "ethers";
+
+import {
+    CARRY_CHECK_INTERVAL_MS,
+    CARRY_MIN_POSITION_AGE_MS,
+    CARRY_ACTION,
+} from "../config";
+
+import type { HedgeVenue } from "./hedge";
+import { ActivePosition } from "./state";
+import { alert } from "./alerter";
+import { setGauge } from "./metrics";
+import { getOpenPositionValue, loadLedger, summarizeLedger } from "./ledger";
+
+// Yearly hedge cost against the yearly fee income of the hedged LPs (USD)
+export interface CarryReport {
+    carryApr: number; // Venue's cost per short notional (borrow APR / funding)
+    hedgeNotionalUsd: number; // LP ETH at the configured hedge ratios, not the current short
+    hedgeCostUsd: number; // Per year
+    lpValueUsd: number; // Hedged LPs
+    feeAprPct: number; // Measured, value-weighted over positions older than CARRY_MIN_POSITION_AGE_MS
+    feeIncomeUsd: number; // Per year
+    netCarryUsd: number; // Fee income minus hedge cost, per year
+}
+
+let lastCheck = 0;
+let negative = false;
+
+// Whether the hedge cost more than the hedged LPs earned at the last check
+export function isCarryNegative(): boolean {
+    return negative;
+}
+
+/**
+ * Compare the venue's carry on the configured hedge with the fee APR measured by the ledger
+ * (collected + uncollected fees over entry value). The configured hedge rather than the current
+ * short, so a hedge scaled down by REDUCE_HEDGE doesn't turn the carry positive by itself.
+ * Returns null while no hedged position is old enough for its fee APR to mean anything.
+ */
+export async function assessCarry(
+    wallet: ethers.Wallet,
+    venue: HedgeVenue,
+    positions: ActivePosition[]
+): Promise<CarryReport | null> {
+    const hedged = positions.filter((p) => p.config.hedgeRatio > 0);
+    if (hedged.length === 0) return null;
+
+    const open = await Promise.all(
+        hedged.map((p) => getOpenPositionValue(wallet, p.tokenId, p.config))
+    );
+    const summary = summarizeLedger(loadLedger(), open);
+    const tokenIds = new Set(hedged.map((p) => p.tokenId));
+    const performance = summary.positions.filter(
+        (p) => tokenIds.has(p.tokenId) && p.currentValueUsd !== null
+    );
+
+    const now = Date.now();
+    const sampled = performance.filter(
+        (p) => now - p.openedAt >= CARRY_MIN_POSITION_AGE_MS
+    );
+    const sampledValue = sampled.reduce(
+        (sum, p) => sum + p.currentValueUsd!,
+        0
+    );
+    if (sampledValue <= 0) return null;
+    const feeAprPct =
+        sampled.reduce((sum, p) => sum + p.feeAprPct * p.currentValueUsd!, 0) /
+        sampledValue;
+
+    const carryApr = await venue.getCarryApr();
+    const hedgeNotionalUsd = hedged.reduce((sum, p, i) => {
+        const eth = parseFloat(
+            ethers.formatUnits(open[i].amountEth, p.config.base.decimals)
+        );
+        return sum + eth * open[i].basePrice * p.config.hedgeRatio;
+    }, 0);
+    const lpValueUsd = performance.reduce(
+        (sum, p) => sum + p.currentValueUsd!,
+        0
+    );
+    const hedgeCostUsd = carryApr * hedgeNotionalUsd;
+    const feeIncomeUsd = (feeAprPct / 100) * lpValueUsd;
+
+    return {
+        carryApr,
+        hedgeNotionalUsd,
+        hedgeCostUsd,
+        lpValueUsd,
+        feeAprPct,
+        feeIncomeUsd,
+        netCarryUsd: feeIncomeUsd - hedgeCostUsd,
+    };
+}
+
+/**
+ * Check the carry at most once per CARRY_CHECK_INTERVAL_MS and alert when it turns negative
+ * (and when it recovers). What else to do about it is up to the caller (CARRY_ACTION).
+ */
+export async function maybeCheckCarry(
+    wallet: ethers.Wallet,
+    venue: HedgeVenue,
+    positions: ActivePosition[]
+): Promise<CarryReport | null> {
+    if (CARRY_CHECK_INTERVAL_MS <= 0) return null;
+    const now = Date.now();
+    if (now - lastCheck < CARRY_CHECK_INTERVAL_MS) return null;
+    lastCheck = now;
+
+    const report = await assessCarry(wallet, venue, positions);
+    if (!report) return null;
+
+    setGauge("unibot_hedge_carry_apr", report.carryApr);
+    setGauge("unibot_net_carry_usd", report.netCarryUsd);
+    console.log(
+        `[Carry] ${venue.name} ${(report.carryApr * 100).toFixed(2)}% APR on $${report.hedgeNotionalUsd.toFixed(0)} hedged = $${report.hedgeCostUsd.toFixed(0)}/yr | LP fees ${report.feeAprPct.toFixed(2)}% APR on $${report.lpValueUsd.toFixed(0)} = $${report.feeIncomeUsd.toFixed(0)}/yr | Net $${report.netCarryUsd.toFixed(0)}/yr`
+    );
+
+    const wasNegative = negative;
+    negative = report.netCarryUsd < 0;
+    if (negative) {
+        await alert(
+            "warn",
+            "Negative Carry",
+            `${venue.name} hedge costs $${report.hedgeCostUsd.toFixed(0)}/yr (${(report.carryApr * 100).toFixed(2)}% APR), the hedged LPs earn $${report.feeIncomeUsd.toFixed(0)}/yr (${report.feeAprPct.toFixed(2)}% fee APR). Action: ${CARRY_ACTION}.`,
+            "negative-carry"
+        );
+    } else if (wasNegative) {
+        const lifted =
+            CARRY_ACTION === "ALERT" ? "" : ` ${CARRY_ACTION} lifted.`;
+        await alert(
+            "info",
+            "Carry Positive",
+            `Hedged LPs earn $${report.netCarryUsd.toFixed(0)}/yr more than the ${venue.name} hedge costs.${lifted}`,
+            "negative-carry"
+        );
+    }
+    return report;
+}
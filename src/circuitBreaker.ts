@@ -0,0 +1,165 @@
+import { ethers } from "ethers";
+
+import {
+    PRICE_SHOCK_THRESHOLD,
+    PRICE_SHOCK_WINDOW_SEC,
+    PRICE_SHOCK_TWAP_INTERVALS,
+    CIRCUIT_BREAKER_COOLDOWN_MS,
+    CIRCUIT_BREAKER_REARM_THRESHOLD,
+} from "../config";
+
+import { getPoolTwap } from "./utils";
+import { alert } from "./alerter";
+
+// observe() is comparatively expensive; TWAP deviations are refreshed at most this often
+const TWAP_CHECK_INTERVAL_MS = 15 * 1000;
+
+export type BreakerState = "ARMED" | "TRIPPED";
+
+interface PriceSample {
+    blockNumber: number;
+    tick: number;
+    timestamp: number;
+}
+
+// Percentage price change between two ticks (1 tick = 0.01%)
+export function tickMovePercent(tickA: number, tickB: number): number {
+    return (Math.pow(1.0001, Math.abs(tickA - tickB)) - 1) * 100;
+}
+
+/**
+ * Price Shock Circuit Breaker
+ * Pauses rebalancing and hedging on violent price moves and re-arms itself
+ * once the cooldown has passed and the price has stabilised.
+ */
+export class CircuitBreaker {
+    private samples: PriceSample[] = [];
+    private state: BreakerState = "ARMED";
+    private trippedAt = 0;
+    private tripReason = "";
+    private lastTwapCheck = 0;
+    private lastTwap = { deviation: 0, interval: 0 };
+
+    getState(): BreakerState {
+        return this.state;
+    }
+
+    getTripReason(): string {
+        return this.tripReason;
+    }
+
+    // Record the pool tick seen at a block. Samples older than the window are dropped.
+    recordSample(
+        blockNumber: number,
+        tick: number,
+        timestamp: number = Date.now()
+    ) {
+        this.samples.push({ blockNumber, tick, timestamp });
+
+        const cutoff = timestamp - PRICE_SHOCK_WINDOW_SEC * 1000;
+        while (this.samples.length > 0 && this.samples[0].timestamp < cutoff) {
+            this.samples.shift();
+        }
+    }
+
+    // Largest move (%) between any two samples in the rolling window
+    private windowMovePercent(): number {
+        if (this.samples.length < 2) return 0;
+        const ticks = this.samples.map((s) => s.tick);
+        return tickMovePercent(Math.max(...ticks), Math.min(...ticks));
+    }
+
+    // Largest spot vs. TWAP deviation (%) across the configured intervals
+    private async twapDeviationPercent(
+        poolContract: ethers.Contract,
+        currentTick: number
+    ): Promise<{ deviation: number; interval: number }> {
+        let worst = { deviation: 0, interval: 0 };
+
+        for (const interval of PRICE_SHOCK_TWAP_INTERVALS) {
+            try {
+                const twapTick = Number(
+                    await getPoolTwap(poolContract, interval)
+                );
+                const deviation = tickMovePercent(currentTick, twapTick);
+                if (deviation > worst.deviation)
+                    worst = { deviation, interval };
+            } catch (e) {
+                // Pool may not have enough observation history for long intervals
+                console.warn(
+                    `[Breaker] TWAP(${interval}s) unavailable:`,
+                    (e as Error).message
+                );
+            }
+        }
+        return worst;
+    }
+
+    /**
+     * Evaluate the breaker against the latest samples.
+     * @returns true if trading (rebalance / hedge) is allowed
+     */
+    async evaluate(poolContract: ethers.Contract): Promise<boolean> {
+        if (this.samples.length === 0) return this.state === "ARMED";
+
+        const latest = this.samples[this.samples.length - 1];
+        const windowMove = this.windowMovePercent();
+
+        if (Date.now() - this.lastTwapCheck >= TWAP_CHECK_INTERVAL_MS) {
+            this.lastTwap = await this.twapDeviationPercent(
+                poolContract,
+                latest.tick
+            );
+            this.lastTwapCheck = Date.now();
+        }
+        const twap = this.lastTwap;
+
+        if (this.state === "ARMED") {
+            if (
+                windowMove >= PRICE_SHOCK_THRESHOLD ||
+                twap.deviation >= PRICE_SHOCK_THRESHOLD
+            ) {
+                this.state = "TRIPPED";
+                this.trippedAt = Date.now();
+                this.tripReason =
+                    windowMove >= twap.deviation
+                        ? `Price moved ${windowMove.toFixed(2)}% within ${PRICE_SHOCK_WINDOW_SEC}s`
+                        : `Spot deviates ${twap.deviation.toFixed(2)}% from ${twap.interval}s TWAP`;
+
+                console.error(
+                    `[Breaker] TRIPPED at block ${latest.blockNumber}: ${this.tripReason}`
+                );
+                await alert(
+                    "warn",
+                    "Circuit Breaker Tripped",
+                    `${this.tripReason} (threshold ${PRICE_SHOCK_THRESHOLD}%). Rebalancing and hedging paused.`
+                );
+                return false;
+            }
+            return true;
+        }
+
+        // TRIPPED: wait out the cooldown, then require a calm market before re-arming
+        if (Date.now() - this.trippedAt < CIRCUIT_BREAKER_COOLDOWN_MS)
+            return false;
+
+        if (
+            windowMove < CIRCUIT_BREAKER_REARM_THRESHOLD &&
+            twap.deviation < CIRCUIT_BREAKER_REARM_THRESHOLD
+        ) {
+            this.state = "ARMED";
+            console.log(
+                `[Breaker] Re-armed at block ${latest.blockNumber}. Window move: ${windowMove.toFixed(2)}%, TWAP deviation: ${twap.deviation.toFixed(2)}%`
+            );
+            await alert(
+                "info",
+                "Circuit Breaker Re-armed",
+                `Price stabilised after: ${this.tripReason}. Resuming rebalancing and hedging.`
+            );
+            this.tripReason = "";
+            return true;
+        }
+
+        return false;
+    }
+}
@@ -0,0 +1,254 @@
+import { ethers } from "ethers";
+
+import { Pool, Position } from "@uniswap/v3-sdk";
+
+import {
+    NPM_ABI,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    SLIPPAGE_TOLERANCE,
+    USDC_TOKEN,
+    HEDGE_ENABLED,
+    COMPOUND_INTERVAL_MS,
+    COMPOUND_MIN_PROFIT_RATIO,
+    PositionConfig,
+} from "../config";
+
+import { getExecutor, TYPICAL_GAS } from "./executor";
+import { collectFees, getBalance, rebalancePortfolio } from "./actions";
+import { planCapitalAllocation } from "./planner";
+import { fetchPositionPool, getPositionPoolContract } from "./utils";
+import {
+    getEthPrice,
+    loadLedger,
+    parseMintAmounts,
+    recordLedgerEntry,
+} from "./ledger";
+
+// Per position: last compounding check (in memory, seeded from the ledger after a restart)
+const lastCheck = new Map<string, number>();
+
+export interface CompoundEstimate {
+    feesBase: bigint;
+    feesUsdc: bigint;
+    feesUsd: number;
+    gasUsd: number; // Collect + swap + increaseLiquidity (+ the hedge's borrow)
+}
+
+export interface CompoundResult {
+    feesBase: bigint;
+    feesUsdc: bigint;
+    addedBase: bigint;
+    addedUsdc: bigint;
+}
+
+// Fee amounts split into the token ratio of the position's range at the current price
+function compoundSplit(
+    pool: Pool,
+    position: PositionConfig,
+    tickLower: number,
+    tickUpper: number,
+    feesUsd: number
+) {
+    const plan = planCapitalAllocation(pool, tickLower, tickUpper, feesUsd, {
+        base: position.base,
+        hedgeRatio: 0,
+        targetHf: 1,
+        liquidationThreshold: 1,
+    });
+    return { base: plan.lpBase, usdc: plan.lpQuote };
+}
+
+export async function estimateCompound(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    pool: Pool,
+    tokenId: string
+): Promise<CompoundEstimate> {
+    const executor = getExecutor(wallet);
+    const [fees0, fees1] = await executor.getUncollectedFees(tokenId);
+    const [feesBase, feesUsdc] = pool.token0.equals(position.base)
+        ? [fees0, fees1]
+        : [fees1, fees0];
+    const basePrice = parseFloat(pool.priceOf(position.base).toSignificant(12));
+    const feesUsd =
+        parseFloat(ethers.formatUnits(feesBase, position.base.decimals)) *
+            basePrice +
+        parseFloat(ethers.formatUnits(feesUsdc, USDC_TOKEN.decimals));
+
+    const [feeData, ethPrice] = await Promise.all([
+        wallet.provider!.getFeeData(),
+        getEthPrice(wallet),
+    ]);
+    const gas =
+        TYPICAL_GAS.multicall +
+        TYPICAL_GAS.exactInputSingle +
+        TYPICAL_GAS.increaseLiquidity +
+        (position.hedgeRatio > 0 && HEDGE_ENABLED ? TYPICAL_GAS.borrow : 0n);
+    const gasUsd =
+        parseFloat(ethers.formatEther(gas * (feeData.gasPrice ?? 0n))) *
+        ethPrice;
+
+    return { feesBase, feesUsdc, feesUsd, gasUsd };
+}
+
+/**
+ * Collect the position's fees, swap them into the range's token ratio and add them to its
+ * liquidity. The NFT and its range stay as they are; leftovers stay in the wallet.
+ */
+export async function compoundPosition(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    pool: Pool,
+    tokenId: string
+): Promise<CompoundResult> {
+    console.log(
+        `\n[Compound] Compounding fees of ${position.id} Token ${tokenId}...`
+    );
+    const executor = getExecutor(wallet);
+    const pos = await executor.getPosition(tokenId);
+
+    // Wallet funds that were there before belong to other positions / the hedge
+    const [baseBefore, usdcBefore] = await Promise.all([
+        getBalance(position.base, wallet),
+        getBalance(USDC_TOKEN, wallet),
+    ]);
+    const { feesEth: feesBase, feesUsdc } = await collectFees(
+        wallet,
+        tokenId,
+        position
+    );
+
+    const basePrice = parseFloat(pool.priceOf(position.base).toSignificant(12));
+    const feesUsd =
+        parseFloat(ethers.formatUnits(feesBase, position.base.decimals)) *
+            basePrice +
+        parseFloat(ethers.formatUnits(feesUsdc, USDC_TOKEN.decimals));
+    if (feesUsd <= 0)
+        return { feesBase, feesUsdc, addedBase: 0n, addedUsdc: 0n };
+
+    // Only the fees are swapped: the target keeps the rest of the wallet where it was
+    const want = compoundSplit(
+        pool,
+        position,
+        pos.tickLower,
+        pos.tickUpper,
+        feesUsd
+    );
+    await rebalancePortfolio(
+        wallet,
+        pool,
+        { base: baseBefore + want.base, usdc: usdcBefore + want.usdc },
+        position.id
+    );
+
+    const poolAfter = await fetchPositionPool(
+        position,
+        getPositionPoolContract(position, wallet)
+    );
+    const [baseNow, usdcNow] = await Promise.all([
+        getBalance(position.base, wallet),
+        getBalance(USDC_TOKEN, wallet),
+    ]);
+    const available = {
+        base: baseNow > baseBefore ? baseNow - baseBefore : 0n,
+        usdc: usdcNow > usdcBefore ? usdcNow - usdcBefore : 0n,
+    };
+    const baseIsToken0 = poolAfter.token0.equals(position.base);
+
+    // 99.9% buffer, as for a mint
+    const sized = Position.fromAmounts({
+        pool: poolAfter,
+        tickLower: pos.tickLower,
+        tickUpper: pos.tickUpper,
+        amount0: (
+            ((baseIsToken0 ? available.base : available.usdc) * 999n) /
+            1000n
+        ).toString(),
+        amount1: (
+            ((baseIsToken0 ? available.usdc : available.base) * 999n) /
+            1000n
+        ).toString(),
+        useFullPrecision: true,
+    });
+    if (BigInt(sized.liquidity.toString()) === 0n) {
+        console.log(
+            "   [Compound] Collected fees are too small to add liquidity. Left in the wallet."
+        );
+        return { feesBase, feesUsdc, addedBase: 0n, addedUsdc: 0n };
+    }
+    const { amount0: amount0Min, amount1: amount1Min } =
+        sized.mintAmountsWithSlippage(SLIPPAGE_TOLERANCE);
+
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        wallet
+    );
+    const receipt = await executor.send(npm, "increaseLiquidity", [
+        {
+            tokenId,
+            amount0Desired: sized.mintAmounts.amount0.toString(),
+            amount1Desired: sized.mintAmounts.amount1.toString(),
+            amount0Min: amount0Min.toString(),
+            amount1Min: amount1Min.toString(),
+            deadline: Math.floor(Date.now() / 1000) + 120,
+        },
+    ]);
+    const added = parseMintAmounts(receipt, position.base);
+    console.log(
+        `   [Compound] Added ${ethers.formatUnits(added.eth, position.base.decimals)} ${position.base.symbol} + ${ethers.formatUnits(added.usdc, USDC_TOKEN.decimals)} USDC (Tx: ${receipt.hash})`
+    );
+    await recordLedgerEntry(wallet, "INCREASE", receipt, {
+        tokenId,
+        positionId: position.id,
+        amountEth: added.eth.toString(),
+        amountUsdc: added.usdc.toString(),
+        note: "COMPOUND",
+    });
+    return { feesBase, feesUsdc, addedBase: added.eth, addedUsdc: added.usdc };
+}
+
+// Time of the position's last fee collection, mint or compound according to the ledger
+function lastFeeEvent(tokenId: string): number | null {
+    const entries = loadLedger().filter(
+        (e) =>
+            e.tokenId === tokenId &&
+            (e.type === "MINT" || e.type === "INCREASE" || e.type === "COLLECT")
+    );
+    return entries.length > 0 ? entries[entries.length - 1].timestamp : null;
+}
+
+/**
+ * Compound an in-range position at most once per COMPOUND_INTERVAL_MS, when its uncollected
+ * fees are worth COMPOUND_MIN_PROFIT_RATIO times the gas. Returns true when liquidity was added;
+ * the caller re-hedges with the new amounts.
+ */
+export async function maybeCompound(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    pool: Pool,
+    tokenId: string
+): Promise<boolean> {
+    if (COMPOUND_INTERVAL_MS <= 0) return false;
+
+    const now = Date.now();
+    if (!lastCheck.has(position.id)) {
+        lastCheck.set(position.id, lastFeeEvent(tokenId) ?? now);
+    }
+    if (now - lastCheck.get(position.id)! < COMPOUND_INTERVAL_MS) return false;
+    lastCheck.set(position.id, now);
+
+    const estimate = await estimateCompound(wallet, position, pool, tokenId);
+    if (
+        estimate.feesUsd <= 0 ||
+        estimate.feesUsd < estimate.gasUsd * COMPOUND_MIN_PROFIT_RATIO
+    ) {
+        console.log(
+            `[Compound] ${position.id}: fees $${estimate.feesUsd.toFixed(2)} < ${COMPOUND_MIN_PROFIT_RATIO}x gas $${estimate.gasUsd.toFixed(2)}. Not compounding.`
+        );
+        return false;
+    }
+
+    const result = await compoundPosition(wallet, position, pool, tokenId);
+    return result.addedBase > 0n || result.addedUsdc > 0n;
+}
@@ -1,5 +1,10 @@
 import { ethers } from "ethers";
-import { sendEmailAlert } from "./utils";
+import { alert } from "./alerter";
+import { setGauge } from "./metrics";
+
+type ClosableSocket = ethers.WebSocketLike & {
+    onclose: ((code: unknown) => void) | null;
+};
 
 export class RobustProvider {
     private urls: string[]; // Store all available nodes
@@ -7,13 +12,13 @@ export class RobustProvider {
     private provider: ethers.WebSocketProvider | ethers.JsonRpcProvider;
     private pingInterval: NodeJS.Timeout | null = null;
     private reconnectCallback: () => void;
-    
+
     // Constructor accepts an array of URLs
     constructor(urls: string[], onReconnect: () => void) {
         if (urls.length === 0) throw new Error("No RPC URLs provided");
         this.urls = urls;
         this.reconnectCallback = onReconnect;
-        
+
         // Initialize the first node
         this.provider = this.initProvider(this.urls[0]);
     }
@@ -21,19 +26,23 @@ export class RobustProvider {
     // Initialize with a specific URL
     private initProvider(url: string) {
         const isWs = url.startsWith("ws");
-        console.log(`[Network] Initializing Provider: ${url} (Type: ${isWs ? 'WS' : 'HTTP'})...`);
+        console.log(
+            `[Network] Initializing Provider: ${url} (Type: ${isWs ? "WS" : "HTTP"})...`
+        );
+        setGauge("unibot_rpc_node_index", this.currentUrlIndex);
 
         if (isWs) {
             const provider = new ethers.WebSocketProvider(url);
 
             // Error Handling
-            provider.websocket.onerror = (error: any) => {
+            provider.websocket.onerror = (error: unknown) => {
                 console.error("[Network] WebSocket Error:", error);
                 this.triggerNextProvider(); // [Modified] Switch node on error
             };
 
             // Close Handling
-            (provider.websocket as any).onclose = (code: any) => {
+            // WebSocketLike doesn't declare onclose, the underlying socket has it
+            (provider.websocket as ClosableSocket).onclose = (code) => {
                 console.warn(
                     `[Network] WebSocket Closed (Code: ${code}). Switching node...`
                 );
@@ -60,7 +69,7 @@ export class RobustProvider {
         this.pingInterval = setInterval(async () => {
             try {
                 await provider.getBlockNumber();
-            } catch (e) {
+            } catch {
                 console.error("[Network] Heartbeat failed. Switching node...");
                 this.triggerNextProvider();
             }
@@ -78,14 +87,24 @@ export class RobustProvider {
         this.currentUrlIndex = (this.currentUrlIndex + 1) % this.urls.length;
         const nextUrl = this.urls[this.currentUrlIndex];
 
-        console.log(`[Network] Switching to next RPC node [${this.currentUrlIndex + 1}/${this.urls.length}]: ${nextUrl}`);
-        sendEmailAlert(`[Network] switching`, `switch to ${nextUrl}`)
+        console.log(
+            `[Network] Switching to next RPC node [${this.currentUrlIndex + 1}/${this.urls.length}]: ${nextUrl}`
+        );
+        // Rate limited: with every node down this fires every few seconds
+        alert(
+            "warn",
+            "RPC Switch",
+            `Switched to RPC node ${this.currentUrlIndex + 1}/${this.urls.length}`,
+            "rpc-switch"
+        );
 
         // Destroy old connection (if WS)
         if (this.provider instanceof ethers.WebSocketProvider) {
             try {
-                await this.provider.destroy(); 
-            } catch (e) { /* ignore */ }
+                await this.provider.destroy();
+            } catch {
+                /* ignore */
+            }
         }
 
         this.provider = this.initProvider(nextUrl);
@@ -95,4 +114,4 @@ export class RobustProvider {
     public getProvider() {
         return this.provider;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,234 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import * as crypto from "crypto";
+import * as http from "http";
+
+import {
+    DRY_RUN,
+    CONTROL_TOKEN,
+    CONTROL_HOST,
+    CONTROL_PORT,
+    CONTROL_CONFIRM_TTL_MS,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+import { alert } from "./alerter";
+
+export const CONTROL_COMMANDS = [
+    "status",
+    "pause",
+    "resume",
+    "rebalance",
+    "hedge",
+    "exit-all",
+    "set-range",
+] as const;
+
+export type ControlCommand = (typeof CONTROL_COMMANDS)[number];
+
+// Commands that move funds or undo a pause need a second call with a confirmation code
+const CONFIRM_REQUIRED: ReadonlySet<ControlCommand> = new Set([
+    "resume",
+    "rebalance",
+    "exit-all",
+    "set-range",
+]);
+
+export type ControlArgs = Record<string, string>;
+export type ControlHandlers = Record<
+    ControlCommand,
+    (args: ControlArgs) => Promise<unknown>
+>;
+
+// Rejected command (bad arguments, wrong bot state); reported to the caller with `status`
+export class ControlError extends Error {
+    constructor(
+        message: string,
+        public status = 400
+    ) {
+        super(message);
+        this.name = "ControlError";
+    }
+}
+
+const AUDIT_FILE = path.join(
+    STATE_DIR,
+    DRY_RUN ? "control_audit.dry-run.jsonl" : "control_audit.jsonl"
+);
+const MAX_BODY_BYTES = 10_000;
+
+interface PendingConfirmation {
+    command: ControlCommand;
+    args: string; // Canonical JSON, so the confirmed call must repeat the same arguments
+    expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+const canonical = (args: ControlArgs) =>
+    JSON.stringify(
+        Object.keys(args)
+            .sort()
+            .map((k) => [k, args[k]])
+    );
+
+function audit(entry: Record<string, unknown>) {
+    const line = { timestamp: Date.now(), ...entry };
+    console.log(`[Control] ${JSON.stringify(line)}`);
+    try {
+        fs.mkdirSync(path.dirname(AUDIT_FILE), { recursive: true });
+        fs.appendFileSync(AUDIT_FILE, JSON.stringify(line) + "\n");
+    } catch (e) {
+        console.error("[Control] Audit write failed:", (e as Error).message);
+    }
+}
+
+function authorized(req: http.IncomingMessage): boolean {
+    const header = req.headers["authorization"] || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+    const expected = Buffer.from(CONTROL_TOKEN || "");
+    const given = Buffer.from(token);
+    return (
+        expected.length > 0 &&
+        given.length === expected.length &&
+        crypto.timingSafeEqual(given, expected)
+    );
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.on("data", (chunk) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new ControlError("Request body too large", 413));
+                req.destroy();
+            }
+        });
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Operator control API: POST /<command> with a JSON body of string arguments, authenticated with
+ * `Authorization: Bearer <CONTROL_TOKEN>`. Commands in CONFIRM_REQUIRED first answer 409 with a
+ * one-time code; repeating the call with the same arguments plus `"confirm": "<code>"` within
+ * CONTROL_CONFIRM_TTL_MS runs it. Every request is written to the audit log.
+ * Not started when CONTROL_TOKEN is unset.
+ */
+export function startControlServer(
+    handlers: ControlHandlers
+): http.Server | null {
+    if (!CONTROL_TOKEN) {
+        console.log("[Control] CONTROL_TOKEN not set. Control API disabled.");
+        return null;
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const remote = req.socket.remoteAddress;
+        const command = (req.url || "").split("?")[0].replace(/^\//, "");
+
+        if (!authorized(req)) {
+            audit({ remote, command, outcome: "UNAUTHORIZED" });
+            return reply(res, 401, { error: "Unauthorized" });
+        }
+        if (
+            !(CONTROL_COMMANDS as readonly string[]).includes(command) ||
+            (req.method !== "POST" &&
+                !(req.method === "GET" && command === "status"))
+        ) {
+            return reply(res, 404, {
+                error: `Unknown command. Available: POST /${CONTROL_COMMANDS.join(", /")}`,
+            });
+        }
+        const cmd = command as ControlCommand;
+
+        let args: ControlArgs = {};
+        let confirm: string | undefined;
+        try {
+            const body = await readBody(req);
+            const parsed = body ? JSON.parse(body) : {};
+            if (typeof parsed !== "object" || parsed === null) {
+                throw new ControlError("Body must be a JSON object");
+            }
+            ({ confirm, ...args } = Object.fromEntries(
+                Object.entries(parsed).map(([k, v]) => [k, String(v)])
+            ));
+        } catch (e) {
+            const status = e instanceof ControlError ? e.status : 400;
+            return reply(res, status, { error: (e as Error).message });
+        }
+
+        if (CONFIRM_REQUIRED.has(cmd)) {
+            const now = Date.now();
+            for (const [code, p] of pending) {
+                if (p.expiresAt < now) pending.delete(code);
+            }
+            const confirmation = confirm ? pending.get(confirm) : undefined;
+            if (
+                !confirmation ||
+                confirmation.command !== cmd ||
+                confirmation.args !== canonical(args)
+            ) {
+                const code = crypto.randomBytes(3).toString("hex");
+                pending.set(code, {
+                    command: cmd,
+                    args: canonical(args),
+                    expiresAt: now + CONTROL_CONFIRM_TTL_MS,
+                });
+                audit({
+                    remote,
+                    command: cmd,
+                    args,
+                    outcome: "CONFIRMATION_ISSUED",
+                });
+                return reply(res, 409, {
+                    confirmationRequired: true,
+                    command: cmd,
+                    args,
+                    confirm: code,
+                    expiresInSec: CONTROL_CONFIRM_TTL_MS / 1000,
+                });
+            }
+            pending.delete(confirm!);
+        }
+
+        try {
+            const result = await handlers[cmd](args);
+            audit({ remote, command: cmd, args, outcome: "OK" });
+            if (cmd !== "status") {
+                await alert(
+                    "warn",
+                    "Operator Command",
+                    `${cmd} ${JSON.stringify(args)} from ${remote}`,
+                    `control-${cmd}`
+                );
+            }
+            return reply(res, 200, { ok: true, result: result ?? null });
+        } catch (e) {
+            const status = e instanceof ControlError ? e.status : 500;
+            audit({
+                remote,
+                command: cmd,
+                args,
+                outcome: "ERROR",
+                error: (e as Error).message,
+            });
+            return reply(res, status, { error: (e as Error).message });
+        }
+    });
+
+    server.on("error", (e) => console.error("[Control] Server error:", e));
+    server.listen(CONTROL_PORT, CONTROL_HOST, () =>
+        console.log(`[Control] Listening on ${CONTROL_HOST}:${CONTROL_PORT}`)
+    );
+    return server;
+}
@@ -0,0 +1,465 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import { ethers } from "ethers";
+import { Pool } from "@uniswap/v3-sdk";
+import { CurrencyAmount } from "@uniswap/sdk-core";
+
+import {
+    DRY_RUN,
+    USDC_TOKEN,
+    NPM_ABI,
+    SWAP_ROUTER_ABI,
+    QUOTER_ABI,
+    QUOTER_ADDR,
+    SWAP_ROUTER_ADDR,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    HEDGE_ENABLED,
+    CURRENT_CHAIN_ID,
+    ARB_NODE_INTERFACE_ADDR,
+    ARB_NODE_INTERFACE_ABI,
+    REBALANCE_MIN_PROFIT_RATIO,
+    REBALANCE_WIDEN_FACTOR,
+    REBALANCE_WAIT_MS,
+    REBALANCE_MAX_WAIT_MS,
+    DECISION_MIN_HISTORY,
+    PositionConfig,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+import { getExecutor, PositionInfo, TYPICAL_GAS } from "./executor";
+import {
+    buildExitCalls,
+    calculateRebalanceSwap,
+    getPositionAmounts,
+} from "./actions";
+import { getEthPrice, loadLedger, summarizeLedger } from "./ledger";
+import { isBaseToken0 } from "./utils";
+
+const DECISIONS_FILE = path.join(
+    STATE_DIR,
+    DRY_RUN ? "decisions.dry-run.jsonl" : "decisions.jsonl"
+);
+
+const ARBITRUM_ONE_CHAIN_ID = 42161;
+// Closed positions used for the fee income estimate (most recent first)
+const HISTORY_WINDOW = 10;
+const YEAR_MS = 365 * 24 * 3600 * 1000;
+
+const npmInterface = new ethers.Interface(NPM_ABI);
+const routerInterface = new ethers.Interface(SWAP_ROUTER_ABI);
+
+// REBALANCE: exit, re-plan capital and mint the strategy range
+// WIDEN: same, with the range widened by REBALANCE_WIDEN_FACTOR (longer-lived, earns per rebalance)
+// PARTIAL: exit and re-mint the exited tokens next to spot; no swap, no Aave changes
+// WAIT: keep the out-of-range position and look again after REBALANCE_WAIT_MS
+export type RebalanceAction = "REBALANCE" | "WIDEN" | "PARTIAL" | "WAIT";
+
+// Gas in units, everything else in USD
+export interface RebalanceCost {
+    gasPriceGwei: number;
+    ethPrice: number;
+    exitGas: number; // estimated on chain when possible, else TYPICAL_GAS
+    swapGas: number;
+    mintGas: number;
+    hedgeGas: number; // Aave repay / borrow of the capital re-plan
+    l1Gas: number; // Arbitrum L1 data fee, in L2 gas units
+    gasUsd: number;
+    swapImpactUsd: number; // Quoted output vs. mid price, including the pool fee
+    totalUsd: number;
+    partialUsd: number; // Cost of a PARTIAL rebalance (exit + mint only)
+}
+
+export interface FeeIncome {
+    positionValueUsd: number;
+    feeAprPct: number; // Average of the recent closed positions of this pool
+    expectedHours: number; // Average lifetime of those positions
+    expectedUsd: number;
+    historyCount: number;
+}
+
+export interface RebalanceDecision {
+    timestamp: number;
+    positionId: string;
+    tokenId: string;
+    tick: number;
+    tickLower: number;
+    tickUpper: number;
+    outOfRangeMinutes: number;
+    action: RebalanceAction;
+    reason: string;
+    cost: RebalanceCost | null;
+    income: FeeIncome | null;
+}
+
+// Per position: when it left its range, the last WAIT decision, and whether a PARTIAL rebalance
+// minted it (in memory: after a restart the out-of-range clock starts again)
+const outOfRangeSince = new Map<string, number>();
+const waiting = new Map<string, RebalanceDecision>();
+const partialMints = new Set<string>();
+
+// Reset the out-of-range clock once a position is back in range (or replaced)
+export function markInRange(positionId: string) {
+    outOfRangeSince.delete(positionId);
+    waiting.delete(positionId);
+    partialMints.delete(positionId);
+}
+
+// PARTIAL mints next to spot, so the new position starts out of range: it waits for price to
+// enter it (or REBALANCE_MAX_WAIT_MS) instead of being decided, and re-minted, every pass
+export function markPartialMint(positionId: string) {
+    outOfRangeSince.set(positionId, Date.now());
+    waiting.delete(positionId);
+    partialMints.add(positionId);
+}
+
+// L2 gas units charged for posting `data` to L1 (0 outside Arbitrum)
+async function estimateL1Gas(
+    runner: ethers.ContractRunner,
+    to: string,
+    data: string
+): Promise<bigint> {
+    if (CURRENT_CHAIN_ID !== ARBITRUM_ONE_CHAIN_ID) return 0n;
+    const nodeInterface = new ethers.Contract(
+        ARB_NODE_INTERFACE_ADDR,
+        ARB_NODE_INTERFACE_ABI,
+        runner
+    );
+    const [gasEstimateForL1] = await nodeInterface
+        .getFunction("gasEstimateL1Component")
+        .staticCall(to, false, data);
+    return gasEstimateForL1;
+}
+
+/**
+ * Estimate what rebalancing `tokenId` would cost right now.
+ * The swap is sized as a 50/50 split of the exited principal; the planner's split is only
+ * known after the exit, but this is the same order of magnitude.
+ */
+export async function estimateRebalanceCost(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    pool: Pool,
+    tokenId: string,
+    pos: PositionInfo,
+    held: { base: bigint; usdc: bigint }
+): Promise<RebalanceCost> {
+    const provider = wallet.provider!;
+    const [feeData, ethPrice] = await Promise.all([
+        provider.getFeeData(),
+        getEthPrice(wallet),
+    ]);
+    const gasPrice = feeData.gasPrice ?? 0n;
+    const deadline = Math.floor(Date.now() / 1000) + 120;
+
+    // 1. Exit multicall
+    const exitData = npmInterface.encodeFunctionData("multicall", [
+        buildExitCalls(tokenId, pos.liquidity, wallet.address),
+    ]);
+    const exitL1 = await estimateL1Gas(
+        wallet,
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        exitData
+    );
+    let exitGas = TYPICAL_GAS.multicall;
+    if (!getExecutor(wallet).isDryRun) {
+        try {
+            // eth_estimateGas on Arbitrum includes the L1 component; it is counted separately
+            const estimate = await provider.estimateGas({
+                from: wallet.address,
+                to: NONFUNGIBLE_POSITION_MANAGER_ADDR,
+                data: exitData,
+            });
+            exitGas = estimate > exitL1 ? estimate - exitL1 : estimate;
+        } catch (e) {
+            console.warn(
+                `[Decision] Exit gas estimate failed, using typical usage:`,
+                (e as Error).message
+            );
+        }
+    }
+
+    // 2. Swap: price impact from the quoter
+    const swap = calculateRebalanceSwap(pool, held.usdc, held.base);
+    let swapGas = 0n;
+    let swapL1 = 0n;
+    let swapImpactUsd = 0;
+    if (swap) {
+        const quoter = new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, wallet);
+        const [quotedOut] = await quoter
+            .getFunction("quoteExactInputSingle")
+            .staticCall({
+                tokenIn: swap.tokenIn.address,
+                tokenOut: swap.tokenOut.address,
+                amountIn: swap.amountIn,
+                fee: pool.fee,
+                sqrtPriceLimitX96: 0,
+            });
+        const midOut = BigInt(
+            pool
+                .priceOf(swap.tokenIn)
+                .quote(
+                    CurrencyAmount.fromRawAmount(
+                        swap.tokenIn,
+                        swap.amountIn.toString()
+                    )
+                )
+                .quotient.toString()
+        );
+        const shortfall = parseFloat(
+            ethers.formatUnits(midOut - quotedOut, swap.tokenOut.decimals)
+        );
+        swapImpactUsd = swap.tokenOut.equals(USDC_TOKEN)
+            ? shortfall
+            : shortfall *
+              parseFloat(pool.priceOf(position.base).toSignificant(12));
+
+        swapGas = TYPICAL_GAS.exactInputSingle;
+        swapL1 = await estimateL1Gas(
+            wallet,
+            SWAP_ROUTER_ADDR,
+            routerInterface.encodeFunctionData("exactInputSingle", [
+                {
+                    tokenIn: swap.tokenIn.address,
+                    tokenOut: swap.tokenOut.address,
+                    fee: pool.fee,
+                    recipient: wallet.address,
+                    deadline,
+                    amountIn: swap.amountIn,
+                    amountOutMinimum: quotedOut,
+                    sqrtPriceLimitX96: 0,
+                },
+            ])
+        );
+    }
+
+    // 3. Mint: cannot be estimated before the tokens are in the wallet
+    const baseIsToken0 = isBaseToken0(position.base);
+    const mintGas = TYPICAL_GAS.mint;
+    const mintL1 = await estimateL1Gas(
+        wallet,
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        npmInterface.encodeFunctionData("mint", [
+            {
+                token0: pool.token0.address,
+                token1: pool.token1.address,
+                fee: pool.fee,
+                tickLower: pos.tickLower,
+                tickUpper: pos.tickUpper,
+                amount0Desired: baseIsToken0 ? held.base : held.usdc,
+                amount1Desired: baseIsToken0 ? held.usdc : held.base,
+                amount0Min: 0,
+                amount1Min: 0,
+                recipient: wallet.address,
+                deadline,
+            },
+        ])
+    );
+
+    // 4. Hedged positions move the short when the capital is re-planned
+    const hedgeGas =
+        position.hedgeRatio > 0 && HEDGE_ENABLED
+            ? TYPICAL_GAS.repay + TYPICAL_GAS.borrow
+            : 0n;
+
+    const toUsd = (gas: bigint) =>
+        parseFloat(ethers.formatEther(gas * gasPrice)) * ethPrice;
+    const l1Gas = exitL1 + swapL1 + mintL1;
+    const gasUsd = toUsd(exitGas + swapGas + mintGas + hedgeGas + l1Gas);
+
+    return {
+        gasPriceGwei: parseFloat(ethers.formatUnits(gasPrice, "gwei")),
+        ethPrice,
+        exitGas: Number(exitGas),
+        swapGas: Number(swapGas),
+        mintGas: Number(mintGas),
+        hedgeGas: Number(hedgeGas),
+        l1Gas: Number(l1Gas),
+        gasUsd,
+        swapImpactUsd,
+        totalUsd: gasUsd + swapImpactUsd,
+        partialUsd: toUsd(exitGas + mintGas + exitL1 + mintL1),
+    };
+}
+
+/**
+ * Expected fees of the next range: the position's value at the fee APR and lifetime of the
+ * recent closed positions of the same pool. Null until DECISION_MIN_HISTORY positions closed.
+ */
+export function estimateFeeIncome(
+    position: PositionConfig,
+    positionValueUsd: number
+): FeeIncome | null {
+    const closed = summarizeLedger(loadLedger())
+        .positions.filter(
+            (p) =>
+                p.positionId === position.id &&
+                p.closedAt !== null &&
+                p.entryValueUsd > 0
+        )
+        .slice(-HISTORY_WINDOW);
+    if (closed.length < DECISION_MIN_HISTORY) return null;
+
+    const feeAprPct =
+        closed.reduce((sum, p) => sum + p.feeAprPct, 0) / closed.length;
+    const durationMs =
+        closed.reduce((sum, p) => sum + (p.closedAt! - p.openedAt), 0) /
+        closed.length;
+
+    return {
+        positionValueUsd,
+        feeAprPct,
+        expectedHours: durationMs / 3600_000,
+        expectedUsd:
+            positionValueUsd * (feeAprPct / 100) * (durationMs / YEAR_MS),
+        historyCount: closed.length,
+    };
+}
+
+function choose(
+    cost: RebalanceCost,
+    income: FeeIncome
+): { action: RebalanceAction; reason: string } {
+    const needed = cost.totalUsd * REBALANCE_MIN_PROFIT_RATIO;
+    const summary = `income $${income.expectedUsd.toFixed(2)} vs cost $${cost.totalUsd.toFixed(2)}`;
+
+    if (income.expectedUsd >= needed) {
+        return { action: "REBALANCE", reason: summary };
+    }
+    // Fee rate scales with 1 / width and time in range with width^2, so income grows ~ linearly
+    if (income.expectedUsd * REBALANCE_WIDEN_FACTOR >= needed) {
+        return {
+            action: "WIDEN",
+            reason: `${summary}; x${REBALANCE_WIDEN_FACTOR} width earns $${(income.expectedUsd * REBALANCE_WIDEN_FACTOR).toFixed(2)}`,
+        };
+    }
+    if (income.expectedUsd >= cost.partialUsd * REBALANCE_MIN_PROFIT_RATIO) {
+        return {
+            action: "PARTIAL",
+            reason: `${summary}; partial costs $${cost.partialUsd.toFixed(2)}`,
+        };
+    }
+    return { action: "WAIT", reason: summary };
+}
+
+/**
+ * Decide what to do with an out-of-range position. Estimation failures and missing history
+ * fall back to REBALANCE (the behaviour without the engine), as does being out of range for
+ * longer than REBALANCE_MAX_WAIT_MS. A position minted by a PARTIAL rebalance WAITs until then.
+ * Every fresh decision is appended to the decisions log.
+ */
+export async function decideRebalance(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    pool: Pool,
+    tokenId: string,
+    pos: PositionInfo
+): Promise<RebalanceDecision> {
+    const now = Date.now();
+    if (!outOfRangeSince.has(position.id))
+        outOfRangeSince.set(position.id, now);
+    const outOfRangeMs = now - outOfRangeSince.get(position.id)!;
+
+    if (partialMints.has(position.id) && outOfRangeMs < REBALANCE_MAX_WAIT_MS) {
+        return {
+            timestamp: now,
+            positionId: position.id,
+            tokenId,
+            tick: pool.tickCurrent,
+            tickLower: pos.tickLower,
+            tickUpper: pos.tickUpper,
+            outOfRangeMinutes: Math.round(outOfRangeMs / 60_000),
+            action: "WAIT",
+            reason: "Minted next to spot by a PARTIAL rebalance",
+            cost: null,
+            income: null,
+        };
+    }
+
+    const pending = waiting.get(position.id);
+    if (
+        pending &&
+        pending.tokenId === tokenId &&
+        now - pending.timestamp < REBALANCE_WAIT_MS &&
+        outOfRangeMs < REBALANCE_MAX_WAIT_MS
+    ) {
+        return pending;
+    }
+
+    let cost: RebalanceCost | null = null;
+    let income: FeeIncome | null = null;
+    let action: RebalanceAction = "REBALANCE";
+    let reason: string;
+
+    try {
+        const held = await getPositionAmounts(wallet, tokenId, pool);
+        const valueUsd =
+            parseFloat(ethers.formatUnits(held.base, position.base.decimals)) *
+                parseFloat(pool.priceOf(position.base).toSignificant(12)) +
+            parseFloat(ethers.formatUnits(held.usdc, USDC_TOKEN.decimals));
+
+        cost = await estimateRebalanceCost(
+            wallet,
+            position,
+            pool,
+            tokenId,
+            pos,
+            held
+        );
+        income = estimateFeeIncome(position, valueUsd);
+
+        if (outOfRangeMs >= REBALANCE_MAX_WAIT_MS) {
+            reason = `Out of range for ${(outOfRangeMs / 3600_000).toFixed(1)}h`;
+        } else if (!income) {
+            reason = `Fewer than ${DECISION_MIN_HISTORY} closed positions to estimate fee income`;
+        } else {
+            ({ action, reason } = choose(cost, income));
+        }
+    } catch (e) {
+        reason = `Cost estimate failed: ${(e as Error).message}`;
+    }
+
+    const decision: RebalanceDecision = {
+        timestamp: now,
+        positionId: position.id,
+        tokenId,
+        tick: pool.tickCurrent,
+        tickLower: pos.tickLower,
+        tickUpper: pos.tickUpper,
+        outOfRangeMinutes: Math.round(outOfRangeMs / 60_000),
+        action,
+        reason,
+        cost,
+        income,
+    };
+
+    if (action === "WAIT") {
+        waiting.set(position.id, decision);
+    } else {
+        waiting.delete(position.id);
+    }
+
+    console.log(`[Decision] ${position.id} ${action}: ${reason}`);
+    recordDecision(decision);
+    return decision;
+}
+
+// Append-only; never throws (logging must not block the trading path)
+function recordDecision(decision: RebalanceDecision) {
+    try {
+        fs.mkdirSync(STATE_DIR, { recursive: true });
+        fs.appendFileSync(DECISIONS_FILE, JSON.stringify(decision) + "\n");
+    } catch (e) {
+        console.error("[Decision] Failed to record decision:", e);
+    }
+}
+
+export function loadDecisions(): RebalanceDecision[] {
+    if (!fs.existsSync(DECISIONS_FILE)) return [];
+    return fs
+        .readFileSync(DECISIONS_FILE, "utf8")
+        .split("\n")
+        .filter((l) => l.trim().length > 0)
+        .map((l) => JSON.parse(l) as RebalanceDecision);
+}
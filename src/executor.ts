@@ -0,0 +1,1253 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import { ethers } from "ethers";
+import { Pool, Position } from "@uniswap/v3-sdk";
+import { Token } from "@uniswap/sdk-core";
+
+import {
+    DRY_RUN,
+    DRY_RUN_WETH,
+    DRY_RUN_USDC,
+    USDC_TOKEN,
+    WETH_TOKEN,
+    POOL_FEE,
+    POOL_ABI,
+    NPM_ABI,
+    ERC20_ABI,
+    AAVE_POOL_ABI,
+    AAVE_POOL_ADDR,
+    AAVE_ENABLED,
+    QUOTER_ABI,
+    QUOTER_ADDR,
+    V3_FACTORY_ADDR,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    WETH_DEBT_TOKEN_ADDR,
+    TX_TIMEOUT_MS,
+    MANAGED_TOKENS,
+    MAX_UINT128,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+import {
+    withRetry,
+    getAaveAssetPrice,
+    getAaveLiquidationThreshold,
+    isInRange,
+} from "./utils";
+import { incCounter } from "./metrics";
+import { getTxManager, toTxError } from "./txManager";
+
+const PORTFOLIO_FILE = path.join(STATE_DIR, "dry_run_portfolio.json");
+
+const Q128 = 1n << 128n;
+const UINT256 = 1n << 256n;
+
+// Typical Arbitrum gas usage, used to price simulated transactions and to estimate
+// rebalance costs before a transaction can be estimated (e.g. mint before the swap)
+export const TYPICAL_GAS: Record<string, bigint> = {
+    approve: 50_000n,
+    mint: 500_000n,
+    increaseLiquidity: 250_000n,
+    multicall: 300_000n,
+    exactInputSingle: 200_000n,
+    exactOutputSingle: 200_000n,
+    borrow: 350_000n,
+    repay: 250_000n,
+    supply: 250_000n,
+    withdraw: 250_000n,
+};
+
+// Headroom added to estimated gas limits of live transactions
+const GAS_LIMIT_BUFFER_PCT = 20n;
+
+const npmInterface = new ethers.Interface(NPM_ABI);
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const erc721Interface = new ethers.Interface([
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+export interface PositionInfo {
+    token0: string;
+    token1: string;
+    fee: number;
+    liquidity: bigint;
+    tickLower: number;
+    tickUpper: number;
+}
+
+// Aave getUserAccountData subset (base currency = USD, 8 decimals)
+export interface AccountData {
+    totalCollateralBase: bigint;
+    totalDebtBase: bigint;
+    currentLiquidationThreshold: bigint; // bps
+    healthFactor: bigint; // 18 decimals
+}
+
+/**
+ * Everything that changes on-chain state goes through an executor, together with the
+ * reads that depend on it, so the bot can run unchanged against a simulated portfolio.
+ */
+export interface TxExecutor {
+    readonly isDryRun: boolean;
+    send(
+        contract: ethers.Contract,
+        method: string,
+        args: ReadonlyArray<unknown>,
+        overrides?: ethers.Overrides,
+        onSubmitted?: (hash: string) => void // Called once the tx is sent, before waiting for it
+    ): Promise<ethers.TransactionReceipt>;
+    // Receipt of an earlier transaction or one of its replacements (fee bumps), whichever was
+    // mined; null if none is known or mined within TX_TIMEOUT_MS
+    getReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null>;
+    getTokenBalance(token: Token): Promise<bigint>;
+    getAllowance(token: Token, spender: string): Promise<bigint>;
+    getPosition(tokenId: string): Promise<PositionInfo>;
+    // Fees a collect would pay out right now, as [amount0, amount1]
+    getUncollectedFees(tokenId: string): Promise<[bigint, bigint]>;
+    getEthDebt(): Promise<bigint>;
+    getAccountData(): Promise<AccountData>;
+}
+
+// --- Live ---
+
+class LiveExecutor implements TxExecutor {
+    readonly isDryRun = false;
+
+    constructor(private wallet: ethers.Wallet) {}
+
+    async send(
+        contract: ethers.Contract,
+        method: string,
+        args: ReadonlyArray<unknown>,
+        overrides: ethers.Overrides = {},
+        onSubmitted?: (hash: string) => void
+    ): Promise<ethers.TransactionReceipt> {
+        const fn = contract.getFunction(method);
+        try {
+            if (overrides.gasLimit === undefined) {
+                // Usage varies (e.g. mints that initialise ticks); leave headroom over the estimate.
+                // A transaction that would revert fails here, before anything is sent.
+                const estimate = await fn.estimateGas(...args, overrides);
+                overrides = {
+                    ...overrides,
+                    gasLimit: (estimate * (100n + GAS_LIMIT_BUFFER_PCT)) / 100n,
+                };
+            }
+            const tx = await fn.populateTransaction(...args, overrides);
+            return await getTxManager(this.wallet).send(
+                tx,
+                method,
+                onSubmitted
+            );
+        } catch (e) {
+            const error = toTxError(e, method);
+            incCounter("unibot_failed_tx_total", { method, kind: error.kind });
+            throw error;
+        }
+    }
+
+    async getReceipt(
+        hashes: string[]
+    ): Promise<ethers.TransactionReceipt | null> {
+        if (hashes.length === 0) return null;
+        return getTxManager(this.wallet).waitForAny(hashes, TX_TIMEOUT_MS);
+    }
+
+    async getTokenBalance(token: Token): Promise<bigint> {
+        const contract = new ethers.Contract(
+            token.address,
+            ERC20_ABI,
+            this.wallet
+        );
+        return await withRetry(() => contract.balanceOf(this.wallet.address));
+    }
+
+    async getAllowance(token: Token, spender: string): Promise<bigint> {
+        const contract = new ethers.Contract(
+            token.address,
+            ERC20_ABI,
+            this.wallet
+        );
+        return await withRetry(() =>
+            contract.allowance(this.wallet.address, spender)
+        );
+    }
+
+    async getPosition(tokenId: string): Promise<PositionInfo> {
+        const npm = new ethers.Contract(
+            NONFUNGIBLE_POSITION_MANAGER_ADDR,
+            NPM_ABI,
+            this.wallet
+        );
+        const pos = await withRetry(() => npm.positions(tokenId));
+        return {
+            token0: pos.token0,
+            token1: pos.token1,
+            fee: Number(pos.fee),
+            liquidity: pos.liquidity,
+            tickLower: Number(pos.tickLower),
+            tickUpper: Number(pos.tickUpper),
+        };
+    }
+
+    // positions() only shows fees as of the last touch; a collect staticCall includes the latest
+    async getUncollectedFees(tokenId: string): Promise<[bigint, bigint]> {
+        const npm = new ethers.Contract(
+            NONFUNGIBLE_POSITION_MANAGER_ADDR,
+            NPM_ABI,
+            this.wallet
+        );
+        const [amount0, amount1] = await withRetry(() =>
+            npm.getFunction("collect").staticCall({
+                tokenId,
+                recipient: this.wallet.address,
+                amount0Max: MAX_UINT128,
+                amount1Max: MAX_UINT128,
+            })
+        );
+        return [amount0, amount1];
+    }
+
+    async getEthDebt(): Promise<bigint> {
+        if (!AAVE_ENABLED) return 0n;
+        const debtContract = new ethers.Contract(
+            WETH_DEBT_TOKEN_ADDR,
+            ["function balanceOf(address) view returns (uint256)"],
+            this.wallet
+        );
+        return await withRetry(() =>
+            debtContract.balanceOf(this.wallet.address)
+        );
+    }
+
+    async getAccountData(): Promise<AccountData> {
+        const aavePool = new ethers.Contract(
+            AAVE_POOL_ADDR,
+            AAVE_POOL_ABI,
+            this.wallet
+        );
+        const data = await withRetry(() =>
+            aavePool.getUserAccountData(this.wallet.address)
+        );
+        return {
+            totalCollateralBase: data.totalCollateralBase,
+            totalDebtBase: data.totalDebtBase,
+            currentLiquidationThreshold: data.currentLiquidationThreshold,
+            healthFactor: data.healthFactor,
+        };
+    }
+}
+
+// --- Dry Run ---
+
+interface VirtualPosition {
+    token0?: string; // Pool of the position (absent in old portfolios: WETH/USDC at POOL_FEE)
+    token1?: string;
+    fee?: number;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: string;
+    tokensOwed0: string;
+    tokensOwed1: string;
+    feeGrowthGlobal0: string; // Pool fee growth at the last accrual
+    feeGrowthGlobal1: string;
+}
+
+// Persisted so paper positions survive restarts (all amounts are raw integer strings)
+interface VirtualPortfolio {
+    balances: Record<string, string>;
+    allowances: Record<string, string>; // "token:spender"
+    debt: string; // Aave WETH variable debt
+    collateralUsdc?: string; // USDC supplied (negative: withdrawn) on top of the real Aave collateral
+    nextTokenId: number;
+    positions: Record<string, VirtualPosition>;
+}
+
+interface PoolKey {
+    token0: Token;
+    token1: Token;
+    fee: number;
+}
+
+interface SimulatedLog {
+    address: string;
+    topics: ReadonlyArray<string>;
+    data: string;
+}
+
+// Call structs of the simulated NonfungiblePositionManager and SwapRouter methods
+interface MintParams {
+    token0: string;
+    token1: string;
+    fee: ethers.BigNumberish;
+    tickLower: ethers.BigNumberish;
+    tickUpper: ethers.BigNumberish;
+    amount0Desired: ethers.BigNumberish;
+    amount1Desired: ethers.BigNumberish;
+    amount0Min: ethers.BigNumberish;
+    amount1Min: ethers.BigNumberish;
+    recipient: string;
+    deadline: ethers.BigNumberish;
+}
+
+interface IncreaseLiquidityParams {
+    tokenId: ethers.BigNumberish;
+    amount0Desired: ethers.BigNumberish;
+    amount1Desired: ethers.BigNumberish;
+    amount0Min: ethers.BigNumberish;
+    amount1Min: ethers.BigNumberish;
+    deadline: ethers.BigNumberish;
+}
+
+interface ExactInputSingleParams {
+    tokenIn: string;
+    tokenOut: string;
+    fee: ethers.BigNumberish;
+    recipient: string;
+    deadline?: ethers.BigNumberish; // SwapRouter only, not SwapRouter02
+    amountIn: ethers.BigNumberish;
+    amountOutMinimum: ethers.BigNumberish;
+    sqrtPriceLimitX96: ethers.BigNumberish;
+}
+
+interface ExactOutputSingleParams {
+    tokenIn: string;
+    tokenOut: string;
+    fee: ethers.BigNumberish;
+    recipient: string;
+    deadline?: ethers.BigNumberish;
+    amountOut: ethers.BigNumberish;
+    amountInMaximum: ethers.BigNumberish;
+    sqrtPriceLimitX96: ethers.BigNumberish;
+}
+
+/**
+ * Paper-trading executor. Reads prices from the live chain (pool state, QuoterV2 staticCalls,
+ * Aave collateral) but applies every state change to a virtual portfolio and returns a
+ * synthetic receipt whose logs mirror the real events, so ledger and tokenId parsing keep working.
+ *
+ * Simplifications: swaps have no price impact beyond the quote, fees accrue at the pool's global
+ * fee growth while the position is in range, and borrow interest is not accrued.
+ */
+class DryRunExecutor implements TxExecutor {
+    readonly isDryRun = true;
+    private wallet!: ethers.Wallet;
+    private portfolio: VirtualPortfolio | null = null;
+
+    bind(wallet: ethers.Wallet) {
+        this.wallet = wallet;
+    }
+
+    // --- Reads ---
+
+    async getTokenBalance(token: Token): Promise<bigint> {
+        const portfolio = await this.load();
+        return BigInt(portfolio.balances[token.address.toLowerCase()] ?? "0");
+    }
+
+    async getAllowance(token: Token, spender: string): Promise<bigint> {
+        const portfolio = await this.load();
+        const key = `${token.address}:${spender}`.toLowerCase();
+        if (portfolio.allowances[key] !== undefined) {
+            return BigInt(portfolio.allowances[key]);
+        }
+        return new LiveExecutor(this.wallet).getAllowance(token, spender);
+    }
+
+    async getPosition(tokenId: string): Promise<PositionInfo> {
+        const portfolio = await this.load();
+        const pos = portfolio.positions[tokenId];
+        if (!pos) {
+            return {
+                token0: ethers.ZeroAddress,
+                token1: ethers.ZeroAddress,
+                fee: 0,
+                liquidity: 0n,
+                tickLower: 0,
+                tickUpper: 0,
+            };
+        }
+
+        await this.accrueFees(pos);
+        this.save();
+        const key = this.positionPool(pos);
+        return {
+            token0: key.token0.address,
+            token1: key.token1.address,
+            fee: key.fee,
+            liquidity: BigInt(pos.liquidity),
+            tickLower: pos.tickLower,
+            tickUpper: pos.tickUpper,
+        };
+    }
+
+    async getUncollectedFees(tokenId: string): Promise<[bigint, bigint]> {
+        const portfolio = await this.load();
+        const pos = portfolio.positions[tokenId];
+        if (!pos) return [0n, 0n];
+        await this.accrueFees(pos);
+        this.save();
+        return [BigInt(pos.tokensOwed0), BigInt(pos.tokensOwed1)];
+    }
+
+    async getEthDebt(): Promise<bigint> {
+        return BigInt((await this.load()).debt);
+    }
+
+    // Real collateral plus virtual USDC supplied, virtual WETH debt, valued at Aave oracle prices
+    async getAccountData(): Promise<AccountData> {
+        const live = await new LiveExecutor(this.wallet).getAccountData();
+        const portfolio = await this.load();
+        const [ethPrice, usdcPrice, usdcLt] = await Promise.all([
+            getAaveAssetPrice(this.wallet, WETH_TOKEN.address),
+            getAaveAssetPrice(this.wallet, USDC_TOKEN.address),
+            getAaveLiquidationThreshold(this.wallet, USDC_TOKEN.address),
+        ]);
+
+        const virtualCollateralBase =
+            (BigInt(portfolio.collateralUsdc ?? "0") * usdcPrice) /
+            10n ** BigInt(USDC_TOKEN.decimals);
+        const totalCollateralBase =
+            live.totalCollateralBase + virtualCollateralBase;
+        const weighted =
+            live.totalCollateralBase * live.currentLiquidationThreshold +
+            virtualCollateralBase * usdcLt;
+        const currentLiquidationThreshold =
+            totalCollateralBase > 0n ? weighted / totalCollateralBase : 0n;
+
+        const totalDebtBase = (BigInt(portfolio.debt) * ethPrice) / 10n ** 18n;
+        const healthFactor =
+            totalDebtBase === 0n
+                ? ethers.MaxUint256
+                : (weighted * 10n ** 18n) / (totalDebtBase * 10_000n);
+
+        return {
+            totalCollateralBase,
+            totalDebtBase,
+            currentLiquidationThreshold,
+            healthFactor,
+        };
+    }
+
+    // --- Writes ---
+
+    async send(
+        contract: ethers.Contract,
+        method: string,
+        args: ReadonlyArray<unknown>,
+        _overrides?: ethers.Overrides,
+        onSubmitted?: (hash: string) => void
+    ): Promise<ethers.TransactionReceipt> {
+        const target = (await contract.getAddress()).toLowerCase();
+        await this.load();
+
+        let logs: SimulatedLog[];
+        switch (method) {
+            case "approve":
+                logs = this.simulateApprove(
+                    target,
+                    args[0] as string,
+                    args[1] as bigint
+                );
+                break;
+            case "mint":
+                logs = await this.simulateMint(args[0] as MintParams);
+                break;
+            case "increaseLiquidity":
+                logs = await this.simulateIncreaseLiquidity(
+                    args[0] as IncreaseLiquidityParams
+                );
+                break;
+            case "multicall":
+                logs = await this.simulateMulticall(args[0] as string[]);
+                break;
+            case "exactInputSingle":
+                logs = await this.simulateExactInput(
+                    args[0] as ExactInputSingleParams
+                );
+                break;
+            case "exactOutputSingle":
+                logs = await this.simulateExactOutput(
+                    args[0] as ExactOutputSingleParams
+                );
+                break;
+            case "borrow":
+                logs = await this.simulateBorrow(
+                    args[0] as string,
+                    args[1] as bigint
+                );
+                break;
+            case "repay":
+                logs = this.simulateRepay(args[0] as string, args[1] as bigint);
+                break;
+            case "supply":
+                logs = this.simulateSupply(
+                    args[0] as string,
+                    args[1] as bigint
+                );
+                break;
+            case "withdraw":
+                logs = await this.simulateWithdraw(
+                    args[0] as string,
+                    args[1] as bigint
+                );
+                break;
+            default:
+                throw new Error(`[DryRun] Unsupported call: ${method}`);
+        }
+
+        this.save();
+        const receipt = await this.buildReceipt(target, method, logs);
+        onSubmitted?.(receipt.hash);
+        return receipt;
+    }
+
+    // Simulated receipts are not kept: an applied tx shows in the virtual portfolio instead
+    async getReceipt(): Promise<ethers.TransactionReceipt | null> {
+        return null;
+    }
+
+    private simulateApprove(
+        token: string,
+        spender: string,
+        amount: bigint
+    ): SimulatedLog[] {
+        this.portfolio!.allowances[`${token}:${spender}`.toLowerCase()] =
+            amount.toString();
+        console.log(`   [DryRun] approve ${spender} on ${token}`);
+        return [];
+    }
+
+    private async simulateMint(params: MintParams): Promise<SimulatedLog[]> {
+        const key: PoolKey = {
+            token0: this.tokenByAddress(params.token0),
+            token1: this.tokenByAddress(params.token1),
+            fee: Number(params.fee),
+        };
+        const pool = await this.loadPool(key);
+        const position = Position.fromAmounts({
+            pool,
+            tickLower: Number(params.tickLower),
+            tickUpper: Number(params.tickUpper),
+            amount0: params.amount0Desired.toString(),
+            amount1: params.amount1Desired.toString(),
+            useFullPrecision: true,
+        });
+
+        const amount0 = BigInt(position.mintAmounts.amount0.toString());
+        const amount1 = BigInt(position.mintAmounts.amount1.toString());
+        if (
+            amount0 < BigInt(params.amount0Min) ||
+            amount1 < BigInt(params.amount1Min)
+        ) {
+            throw new Error("[DryRun] Reverted: Price slippage check");
+        }
+
+        this.debit(pool.token0, amount0);
+        this.debit(pool.token1, amount1);
+
+        const tokenId = String(this.portfolio!.nextTokenId++);
+        const liquidity = BigInt(position.liquidity.toString());
+        const [g0, g1] = await this.feeGrowthGlobal(key);
+        this.portfolio!.positions[tokenId] = {
+            token0: key.token0.address,
+            token1: key.token1.address,
+            fee: key.fee,
+            tickLower: Number(params.tickLower),
+            tickUpper: Number(params.tickUpper),
+            liquidity: liquidity.toString(),
+            tokensOwed0: "0",
+            tokensOwed1: "0",
+            feeGrowthGlobal0: g0.toString(),
+            feeGrowthGlobal1: g1.toString(),
+        };
+
+        console.log(
+            `   [DryRun] mint #${tokenId} [${params.tickLower}, ${params.tickUpper}] liquidity ${liquidity}`
+        );
+
+        const poolAddr = this.poolAddress(key);
+        return [
+            this.erc20Transfer(
+                pool.token0,
+                this.wallet.address,
+                poolAddr,
+                amount0
+            ),
+            this.erc20Transfer(
+                pool.token1,
+                this.wallet.address,
+                poolAddr,
+                amount1
+            ),
+            this.nftTransfer(ethers.ZeroAddress, this.wallet.address, tokenId),
+            this.npmEvent("IncreaseLiquidity", [
+                tokenId,
+                liquidity,
+                amount0,
+                amount1,
+            ]),
+        ];
+    }
+
+    private async simulateIncreaseLiquidity(
+        params: IncreaseLiquidityParams
+    ): Promise<SimulatedLog[]> {
+        const tokenId = params.tokenId.toString();
+        const pos = this.portfolio!.positions[tokenId];
+        if (!pos)
+            throw new Error(`[DryRun] Reverted: Invalid token ID ${tokenId}`);
+        // Fees earned so far belong to the old liquidity
+        await this.accrueFees(pos);
+
+        const key = this.positionPool(pos);
+        const pool = await this.loadPool(key);
+        const position = Position.fromAmounts({
+            pool,
+            tickLower: pos.tickLower,
+            tickUpper: pos.tickUpper,
+            amount0: params.amount0Desired.toString(),
+            amount1: params.amount1Desired.toString(),
+            useFullPrecision: true,
+        });
+
+        const amount0 = BigInt(position.mintAmounts.amount0.toString());
+        const amount1 = BigInt(position.mintAmounts.amount1.toString());
+        if (
+            amount0 < BigInt(params.amount0Min) ||
+            amount1 < BigInt(params.amount1Min)
+        ) {
+            throw new Error("[DryRun] Reverted: Price slippage check");
+        }
+
+        this.debit(pool.token0, amount0);
+        this.debit(pool.token1, amount1);
+        const liquidity = BigInt(position.liquidity.toString());
+        pos.liquidity = (BigInt(pos.liquidity) + liquidity).toString();
+
+        console.log(
+            `   [DryRun] increaseLiquidity #${tokenId} liquidity +${liquidity}`
+        );
+
+        const poolAddr = this.poolAddress(key);
+        return [
+            this.erc20Transfer(
+                pool.token0,
+                this.wallet.address,
+                poolAddr,
+                amount0
+            ),
+            this.erc20Transfer(
+                pool.token1,
+                this.wallet.address,
+                poolAddr,
+                amount1
+            ),
+            this.npmEvent("IncreaseLiquidity", [
+                tokenId,
+                liquidity,
+                amount0,
+                amount1,
+            ]),
+        ];
+    }
+
+    private async simulateMulticall(calls: string[]): Promise<SimulatedLog[]> {
+        const logs: SimulatedLog[] = [];
+
+        for (const data of calls) {
+            const call = npmInterface.parseTransaction({ data });
+            if (!call) throw new Error("[DryRun] Unknown multicall payload");
+
+            const tokenId =
+                call.args[0].tokenId?.toString() ?? call.args[0].toString();
+            const pos = this.portfolio!.positions[tokenId];
+            if (!pos)
+                throw new Error(
+                    `[DryRun] Reverted: Invalid token ID ${tokenId}`
+                );
+            await this.accrueFees(pos);
+            const key = this.positionPool(pos);
+
+            if (call.name === "decreaseLiquidity") {
+                const pool = await this.loadPool(key);
+                const { liquidity, amount0Min, amount1Min } = call.args[0];
+                const sdkPosition = new Position({
+                    pool,
+                    liquidity: liquidity.toString(),
+                    tickLower: pos.tickLower,
+                    tickUpper: pos.tickUpper,
+                });
+                const amount0 = BigInt(sdkPosition.amount0.quotient.toString());
+                const amount1 = BigInt(sdkPosition.amount1.quotient.toString());
+                if (amount0 < amount0Min || amount1 < amount1Min) {
+                    throw new Error("[DryRun] Reverted: Price slippage check");
+                }
+
+                pos.liquidity = (BigInt(pos.liquidity) - liquidity).toString();
+                pos.tokensOwed0 = (
+                    BigInt(pos.tokensOwed0) + amount0
+                ).toString();
+                pos.tokensOwed1 = (
+                    BigInt(pos.tokensOwed1) + amount1
+                ).toString();
+                logs.push(
+                    this.npmEvent("DecreaseLiquidity", [
+                        tokenId,
+                        liquidity,
+                        amount0,
+                        amount1,
+                    ])
+                );
+            } else if (call.name === "collect") {
+                const { recipient, amount0Max, amount1Max } = call.args[0];
+                const owed0 = BigInt(pos.tokensOwed0);
+                const owed1 = BigInt(pos.tokensOwed1);
+                const amount0 = owed0 < amount0Max ? owed0 : amount0Max;
+                const amount1 = owed1 < amount1Max ? owed1 : amount1Max;
+
+                pos.tokensOwed0 = (owed0 - amount0).toString();
+                pos.tokensOwed1 = (owed1 - amount1).toString();
+                this.credit(key.token0, amount0);
+                this.credit(key.token1, amount1);
+
+                const poolAddr = this.poolAddress(key);
+                logs.push(
+                    this.erc20Transfer(
+                        key.token0,
+                        poolAddr,
+                        recipient,
+                        amount0
+                    ),
+                    this.erc20Transfer(
+                        key.token1,
+                        poolAddr,
+                        recipient,
+                        amount1
+                    ),
+                    this.npmEvent("Collect", [
+                        tokenId,
+                        recipient,
+                        amount0,
+                        amount1,
+                    ])
+                );
+            } else if (call.name === "burn") {
+                if (
+                    BigInt(pos.liquidity) > 0n ||
+                    BigInt(pos.tokensOwed0) > 0n ||
+                    BigInt(pos.tokensOwed1) > 0n
+                ) {
+                    throw new Error("[DryRun] Reverted: Not cleared");
+                }
+                delete this.portfolio!.positions[tokenId];
+                logs.push(
+                    this.nftTransfer(
+                        this.wallet.address,
+                        ethers.ZeroAddress,
+                        tokenId
+                    )
+                );
+            } else {
+                throw new Error(
+                    `[DryRun] Unsupported multicall call: ${call.name}`
+                );
+            }
+        }
+
+        console.log(`   [DryRun] multicall (${calls.length} calls)`);
+        return logs;
+    }
+
+    private async simulateExactInput(
+        params: ExactInputSingleParams
+    ): Promise<SimulatedLog[]> {
+        const [amountOut] = await this.quoter()
+            .getFunction("quoteExactInputSingle")
+            .staticCall({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                amountIn: params.amountIn,
+                fee: params.fee,
+                sqrtPriceLimitX96: params.sqrtPriceLimitX96,
+            });
+        if (amountOut < BigInt(params.amountOutMinimum)) {
+            throw new Error("[DryRun] Reverted: Too little received");
+        }
+        return this.applySwap(
+            params.tokenIn,
+            params.tokenOut,
+            Number(params.fee),
+            BigInt(params.amountIn),
+            amountOut,
+            params.recipient
+        );
+    }
+
+    private async simulateExactOutput(
+        params: ExactOutputSingleParams
+    ): Promise<SimulatedLog[]> {
+        const [amountIn] = await this.quoter()
+            .getFunction("quoteExactOutputSingle")
+            .staticCall({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                amount: params.amountOut,
+                fee: params.fee,
+                sqrtPriceLimitX96: params.sqrtPriceLimitX96,
+            });
+        if (amountIn > BigInt(params.amountInMaximum)) {
+            throw new Error("[DryRun] Reverted: Too much requested");
+        }
+        return this.applySwap(
+            params.tokenIn,
+            params.tokenOut,
+            Number(params.fee),
+            amountIn,
+            BigInt(params.amountOut),
+            params.recipient
+        );
+    }
+
+    private applySwap(
+        tokenIn: string,
+        tokenOut: string,
+        fee: number,
+        amountIn: bigint,
+        amountOut: bigint,
+        recipient: string
+    ): SimulatedLog[] {
+        const inToken = this.tokenByAddress(tokenIn);
+        const outToken = this.tokenByAddress(tokenOut);
+        this.debit(inToken, amountIn);
+        this.credit(outToken, amountOut);
+
+        console.log(
+            `   [DryRun] swap ${ethers.formatUnits(amountIn, inToken.decimals)} ${inToken.symbol} -> ${ethers.formatUnits(amountOut, outToken.decimals)} ${outToken.symbol}`
+        );
+
+        const poolAddr = this.poolAddress({
+            token0: inToken,
+            token1: outToken,
+            fee,
+        });
+        return [
+            this.erc20Transfer(outToken, poolAddr, recipient, amountOut),
+            this.erc20Transfer(
+                inToken,
+                this.wallet.address,
+                poolAddr,
+                amountIn
+            ),
+        ];
+    }
+
+    private async simulateBorrow(
+        asset: string,
+        amount: bigint
+    ): Promise<SimulatedLog[]> {
+        if (asset.toLowerCase() !== WETH_TOKEN.address.toLowerCase()) {
+            throw new Error(
+                `[DryRun] Only WETH borrowing is simulated (got ${asset})`
+            );
+        }
+
+        const debtBefore = BigInt(this.portfolio!.debt);
+        this.portfolio!.debt = (debtBefore + amount).toString();
+        const { healthFactor } = await this.getAccountData();
+        if (healthFactor < 10n ** 18n) {
+            this.portfolio!.debt = debtBefore.toString();
+            throw new Error(
+                "[DryRun] Reverted: Health factor lower than liquidation threshold"
+            );
+        }
+
+        this.credit(WETH_TOKEN, amount);
+        console.log(`   [DryRun] borrow ${ethers.formatEther(amount)} WETH`);
+        return [
+            this.erc20Transfer(
+                WETH_TOKEN,
+                AAVE_POOL_ADDR,
+                this.wallet.address,
+                amount
+            ),
+        ];
+    }
+
+    private simulateSupply(asset: string, amount: bigint): SimulatedLog[] {
+        if (asset.toLowerCase() !== USDC_TOKEN.address.toLowerCase()) {
+            throw new Error(
+                `[DryRun] Only USDC collateral is simulated (got ${asset})`
+            );
+        }
+
+        this.debit(USDC_TOKEN, amount);
+        this.adjustCollateral(amount);
+
+        console.log(
+            `   [DryRun] supply ${ethers.formatUnits(amount, USDC_TOKEN.decimals)} USDC`
+        );
+        return [
+            this.erc20Transfer(
+                USDC_TOKEN,
+                this.wallet.address,
+                AAVE_POOL_ADDR,
+                amount
+            ),
+        ];
+    }
+
+    private async simulateWithdraw(
+        asset: string,
+        amount: bigint
+    ): Promise<SimulatedLog[]> {
+        if (asset.toLowerCase() !== USDC_TOKEN.address.toLowerCase()) {
+            throw new Error(
+                `[DryRun] Only USDC collateral is simulated (got ${asset})`
+            );
+        }
+
+        // Assumes all collateral is USDC (as supplied by AaveManager)
+        const { totalCollateralBase } = await this.getAccountData();
+        const usdcPrice = await getAaveAssetPrice(
+            this.wallet,
+            USDC_TOKEN.address
+        );
+        const available =
+            (totalCollateralBase * 10n ** BigInt(USDC_TOKEN.decimals)) /
+            usdcPrice;
+        if (amount !== ethers.MaxUint256 && amount > available) {
+            throw new Error(
+                "[DryRun] Reverted: Not enough available user balance"
+            );
+        }
+        const withdrawn = amount === ethers.MaxUint256 ? available : amount;
+
+        this.adjustCollateral(-withdrawn);
+        const { healthFactor } = await this.getAccountData();
+        if (healthFactor < 10n ** 18n) {
+            this.adjustCollateral(withdrawn);
+            throw new Error(
+                "[DryRun] Reverted: Health factor lower than liquidation threshold"
+            );
+        }
+        this.credit(USDC_TOKEN, withdrawn);
+
+        console.log(
+            `   [DryRun] withdraw ${ethers.formatUnits(withdrawn, USDC_TOKEN.decimals)} USDC`
+        );
+        return [
+            this.erc20Transfer(
+                USDC_TOKEN,
+                AAVE_POOL_ADDR,
+                this.wallet.address,
+                withdrawn
+            ),
+        ];
+    }
+
+    private simulateRepay(asset: string, amount: bigint): SimulatedLog[] {
+        if (asset.toLowerCase() !== WETH_TOKEN.address.toLowerCase()) {
+            throw new Error(
+                `[DryRun] Only WETH repayment is simulated (got ${asset})`
+            );
+        }
+
+        const debt = BigInt(this.portfolio!.debt);
+        const paid = amount < debt ? amount : debt;
+        this.debit(WETH_TOKEN, paid);
+        this.portfolio!.debt = (debt - paid).toString();
+
+        console.log(`   [DryRun] repay ${ethers.formatEther(paid)} WETH`);
+        return [
+            this.erc20Transfer(
+                WETH_TOKEN,
+                this.wallet.address,
+                AAVE_POOL_ADDR,
+                paid
+            ),
+        ];
+    }
+
+    // --- Virtual Portfolio ---
+
+    private async load(): Promise<VirtualPortfolio> {
+        if (this.portfolio) return this.portfolio;
+
+        if (fs.existsSync(PORTFOLIO_FILE)) {
+            this.portfolio = JSON.parse(
+                fs.readFileSync(PORTFOLIO_FILE, "utf8")
+            );
+            console.log(
+                `[DryRun] Loaded virtual portfolio from ${PORTFOLIO_FILE}`
+            );
+            return this.portfolio!;
+        }
+
+        // Seed from the real wallet unless starting balances are configured
+        const live = new LiveExecutor(this.wallet);
+        const weth =
+            DRY_RUN_WETH !== undefined
+                ? ethers.parseUnits(DRY_RUN_WETH, WETH_TOKEN.decimals)
+                : await live.getTokenBalance(WETH_TOKEN);
+        const usdc =
+            DRY_RUN_USDC !== undefined
+                ? ethers.parseUnits(DRY_RUN_USDC, USDC_TOKEN.decimals)
+                : await live.getTokenBalance(USDC_TOKEN);
+
+        // Other position tokens start empty when balances are configured
+        const balances: Record<string, string> = {};
+        for (const token of MANAGED_TOKENS) {
+            if (token.equals(WETH_TOKEN) || token.equals(USDC_TOKEN)) continue;
+            const seeded =
+                DRY_RUN_WETH !== undefined || DRY_RUN_USDC !== undefined
+                    ? 0n
+                    : await live.getTokenBalance(token);
+            balances[token.address.toLowerCase()] = seeded.toString();
+        }
+        balances[WETH_TOKEN.address.toLowerCase()] = weth.toString();
+        balances[USDC_TOKEN.address.toLowerCase()] = usdc.toString();
+
+        this.portfolio = {
+            balances,
+            allowances: {},
+            debt: (await live.getEthDebt()).toString(),
+            collateralUsdc: "0",
+            nextTokenId: 1,
+            positions: {},
+        };
+        console.log(
+            `[DryRun] New virtual portfolio: ${ethers.formatEther(weth)} WETH, ${ethers.formatUnits(usdc, 6)} USDC`
+        );
+        this.save();
+        return this.portfolio;
+    }
+
+    private save() {
+        fs.mkdirSync(STATE_DIR, { recursive: true });
+        fs.writeFileSync(
+            PORTFOLIO_FILE,
+            JSON.stringify(this.portfolio, null, 2)
+        );
+    }
+
+    private credit(token: Token, amount: bigint) {
+        const key = token.address.toLowerCase();
+        this.portfolio!.balances[key] = (
+            BigInt(this.portfolio!.balances[key] ?? "0") + amount
+        ).toString();
+    }
+
+    private adjustCollateral(amountUsdc: bigint) {
+        this.portfolio!.collateralUsdc = (
+            BigInt(this.portfolio!.collateralUsdc ?? "0") + amountUsdc
+        ).toString();
+    }
+
+    private debit(token: Token, amount: bigint) {
+        const key = token.address.toLowerCase();
+        const balance = BigInt(this.portfolio!.balances[key] ?? "0");
+        if (balance < amount) {
+            throw new Error(
+                `[DryRun] Reverted: insufficient ${token.symbol} (have ${ethers.formatUnits(balance, token.decimals)}, need ${ethers.formatUnits(amount, token.decimals)})`
+            );
+        }
+        this.portfolio!.balances[key] = (balance - amount).toString();
+    }
+
+    // Approximation: while in range, the position earns the pool's global fee growth per unit of liquidity
+    private async accrueFees(pos: VirtualPosition) {
+        const key = this.positionPool(pos);
+        const [[g0, g1], slot0] = await Promise.all([
+            this.feeGrowthGlobal(key),
+            this.poolContract(key).slot0(),
+        ]);
+        const tick = Number(slot0.tick);
+        const liquidity = BigInt(pos.liquidity);
+
+        if (liquidity > 0n && isInRange(tick, pos.tickLower, pos.tickUpper)) {
+            const delta0 =
+                (g0 - BigInt(pos.feeGrowthGlobal0) + UINT256) % UINT256;
+            const delta1 =
+                (g1 - BigInt(pos.feeGrowthGlobal1) + UINT256) % UINT256;
+            pos.tokensOwed0 = (
+                BigInt(pos.tokensOwed0) +
+                (liquidity * delta0) / Q128
+            ).toString();
+            pos.tokensOwed1 = (
+                BigInt(pos.tokensOwed1) +
+                (liquidity * delta1) / Q128
+            ).toString();
+        }
+        pos.feeGrowthGlobal0 = g0.toString();
+        pos.feeGrowthGlobal1 = g1.toString();
+    }
+
+    // --- Chain Helpers ---
+
+    private poolAddress(key: PoolKey): string {
+        return Pool.getAddress(
+            key.token0,
+            key.token1,
+            key.fee,
+            undefined,
+            V3_FACTORY_ADDR
+        );
+    }
+
+    private poolContract(key: PoolKey): ethers.Contract {
+        return new ethers.Contract(
+            this.poolAddress(key),
+            POOL_ABI,
+            this.wallet
+        );
+    }
+
+    private positionPool(pos: VirtualPosition): PoolKey {
+        const [token0, token1] = WETH_TOKEN.sortsBefore(USDC_TOKEN)
+            ? [WETH_TOKEN, USDC_TOKEN]
+            : [USDC_TOKEN, WETH_TOKEN];
+        return {
+            token0: pos.token0 ? this.tokenByAddress(pos.token0) : token0,
+            token1: pos.token1 ? this.tokenByAddress(pos.token1) : token1,
+            fee: pos.fee ?? POOL_FEE,
+        };
+    }
+
+    private quoter(): ethers.Contract {
+        return new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, this.wallet);
+    }
+
+    private async loadPool(key: PoolKey): Promise<Pool> {
+        const contract = this.poolContract(key);
+        const [slot0, liquidity] = await Promise.all([
+            contract.slot0(),
+            contract.liquidity(),
+        ]);
+        return new Pool(
+            key.token0,
+            key.token1,
+            key.fee,
+            slot0.sqrtPriceX96.toString(),
+            liquidity.toString(),
+            Number(slot0.tick)
+        );
+    }
+
+    private async feeGrowthGlobal(key: PoolKey): Promise<[bigint, bigint]> {
+        const contract = this.poolContract(key);
+        const [g0, g1] = await Promise.all([
+            contract.feeGrowthGlobal0X128(),
+            contract.feeGrowthGlobal1X128(),
+        ]);
+        return [g0, g1];
+    }
+
+    private tokenByAddress(address: string): Token {
+        const token = [WETH_TOKEN, USDC_TOKEN, ...MANAGED_TOKENS].find(
+            (t) => t.address.toLowerCase() === address.toLowerCase()
+        );
+        if (!token) throw new Error(`[DryRun] Unknown token ${address}`);
+        return token;
+    }
+
+    // --- Synthetic Logs & Receipts ---
+
+    private erc20Transfer(
+        token: Token,
+        from: string,
+        to: string,
+        amount: bigint
+    ): SimulatedLog {
+        const { topics, data } = erc20Interface.encodeEventLog("Transfer", [
+            from,
+            to,
+            amount,
+        ]);
+        return { address: token.address, topics, data };
+    }
+
+    private nftTransfer(
+        from: string,
+        to: string,
+        tokenId: string
+    ): SimulatedLog {
+        const { topics, data } = erc721Interface.encodeEventLog("Transfer", [
+            from,
+            to,
+            tokenId,
+        ]);
+        return { address: NONFUNGIBLE_POSITION_MANAGER_ADDR, topics, data };
+    }
+
+    private npmEvent(
+        name: string,
+        values: ReadonlyArray<unknown>
+    ): SimulatedLog {
+        const { topics, data } = npmInterface.encodeEventLog(name, values);
+        return { address: NONFUNGIBLE_POSITION_MANAGER_ADDR, topics, data };
+    }
+
+    private async buildReceipt(
+        to: string,
+        method: string,
+        logs: SimulatedLog[]
+    ): Promise<ethers.TransactionReceipt> {
+        const provider = this.wallet.provider!;
+        const [blockNumber, feeData] = await Promise.all([
+            provider.getBlockNumber(),
+            provider.getFeeData(),
+        ]);
+        const hash = ethers.id(
+            `dry-run:${method}:${Date.now()}:${Math.random()}`
+        );
+        const gasUsed = TYPICAL_GAS[method] ?? 0n;
+        const gasPrice = feeData.gasPrice ?? 0n;
+
+        return new ethers.TransactionReceipt(
+            {
+                to,
+                from: this.wallet.address,
+                contractAddress: null,
+                hash,
+                index: 0,
+                blockHash: ethers.ZeroHash,
+                blockNumber,
+                logsBloom: "0x",
+                logs: logs.map((log, index) => ({
+                    ...log,
+                    transactionHash: hash,
+                    blockHash: ethers.ZeroHash,
+                    blockNumber,
+                    removed: false,
+                    index,
+                    transactionIndex: 0,
+                })),
+                gasUsed,
+                cumulativeGasUsed: gasUsed,
+                gasPrice,
+                effectiveGasPrice: gasPrice,
+                type: 2,
+                status: 1,
+                root: null,
+            },
+            provider
+        );
+    }
+}
+
+const dryRunExecutor = new DryRunExecutor();
+
+/**
+ * Executor for the given wallet. In DRY_RUN mode all callers share one virtual portfolio;
+ * the wallet is re-bound on every call so provider failover keeps working.
+ */
+export function getExecutor(wallet: ethers.Wallet): TxExecutor {
+    if (DRY_RUN) {
+        dryRunExecutor.bind(wallet);
+        return dryRunExecutor;
+    }
+    return new LiveExecutor(wallet);
+}
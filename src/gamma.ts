@@ -0,0 +1,122 @@
+import { ethers } from "ethers";
+import { Pool, tickToPrice } from "@uniswap/v3-sdk";
+import { Token } from "@uniswap/sdk-core";
+
+import {
+    DELTA_NEUTRAL_THRESHOLD,
+    HEDGE_BAND_VOL_MULTIPLIER,
+    HEDGE_BAND_MAX_ETH,
+} from "../config";
+
+// Delta and gamma of an LP position against the base price in the quote token (USDC)
+export interface LpGreeks {
+    price: number; // Quote per base
+    lowerPrice: number; // Range bounds, same unit
+    upperPrice: number;
+    delta: number; // Base held, dV/dP
+    gamma: number; // d delta / dP; negative inside the range (the LP is short gamma), 0 outside
+}
+
+// A hedged position: its greeks and the share of its delta that is shorted
+export interface HedgeExposure {
+    greeks: LpGreeks;
+    hedgeRatio: number;
+}
+
+export interface HedgeBand {
+    price: number; // Where the hedge was last set
+    gammaEth: number; // Hedged gamma, ETH per USD (absolute)
+    bandEth: bigint; // Delta drift tolerated between hedges
+    lowerTrigger: number; // Prices that trigger the next hedge
+    upperTrigger: number;
+}
+
+// Base price in `quote` at `tick`, whichever token of the pool the base is
+export function priceAtTick(base: Token, quote: Token, tick: number): number {
+    return parseFloat(tickToPrice(base, quote, tick).toSignificant(12));
+}
+
+/**
+ * The base held by a position is L * (1/sqrt(P) - 1/sqrt(upper)) inside its range, for either
+ * token order, with L scaled by 10^((decimals0 + decimals1) / 2) to human units. It is all base
+ * below the range and none above, so gamma only exists inside it.
+ */
+export function lpGreeks(
+    pool: Pool,
+    base: Token,
+    liquidity: bigint,
+    tickLower: number,
+    tickUpper: number
+): LpGreeks {
+    const quote = pool.token0.equals(base) ? pool.token1 : pool.token0;
+    const price = parseFloat(pool.priceOf(base).toSignificant(12));
+    const a = priceAtTick(base, quote, tickLower);
+    const b = priceAtTick(base, quote, tickUpper);
+    const lowerPrice = Math.min(a, b);
+    const upperPrice = Math.max(a, b);
+
+    const l =
+        Number(liquidity) /
+        10 ** ((pool.token0.decimals + pool.token1.decimals) / 2);
+    const p = Math.min(Math.max(price, lowerPrice), upperPrice);
+    return {
+        price,
+        lowerPrice,
+        upperPrice,
+        delta: l * (1 / Math.sqrt(p) - 1 / Math.sqrt(upperPrice)),
+        gamma:
+            price > lowerPrice && price < upperPrice
+                ? -l / (2 * price ** 1.5)
+                : 0,
+    };
+}
+
+/**
+ * Hedge band for the netted short: the delta drift a `volatilityUsd` price move (hourly ATR)
+ * causes through the hedged gamma, times HEDGE_BAND_VOL_MULTIPLIER, clamped to
+ * [DELTA_NEUTRAL_THRESHOLD, HEDGE_BAND_MAX_ETH]. The next hedge is due when the price has moved
+ * far enough to cause that drift, or reaches a range edge first: gamma changes there, and past
+ * the edge the position is all one token.
+ */
+export function computeHedgeBand(
+    exposures: HedgeExposure[],
+    volatilityUsd: number,
+    multiplier: number = HEDGE_BAND_VOL_MULTIPLIER,
+    minBand: bigint = DELTA_NEUTRAL_THRESHOLD,
+    maxBand: bigint = HEDGE_BAND_MAX_ETH
+): HedgeBand {
+    const price = exposures.length > 0 ? exposures[0].greeks.price : 0;
+    const gammaEth = exposures.reduce(
+        (sum, e) => sum + e.hedgeRatio * Math.abs(e.greeks.gamma),
+        0
+    );
+
+    const min = parseFloat(ethers.formatEther(minBand));
+    const max = parseFloat(ethers.formatEther(maxBand));
+    const band = Math.min(
+        Math.max(multiplier * gammaEth * volatilityUsd, min),
+        max
+    );
+
+    const distance = gammaEth > 0 ? band / gammaEth : Infinity;
+    let lowerTrigger = price - distance;
+    let upperTrigger = price + distance;
+    for (const { greeks } of exposures) {
+        for (const edge of [greeks.lowerPrice, greeks.upperPrice]) {
+            if (edge > price) upperTrigger = Math.min(upperTrigger, edge);
+            if (edge < price) lowerTrigger = Math.max(lowerTrigger, edge);
+        }
+    }
+
+    return {
+        price,
+        gammaEth,
+        bandEth: ethers.parseEther(band.toFixed(18)),
+        lowerTrigger,
+        upperTrigger,
+    };
+}
+
+export function isHedgeTriggered(band: HedgeBand, price: number): boolean {
+    return price <= band.lowerTrigger || price >= band.upperTrigger;
+}
@@ -3,127 +3,787 @@ import { ethers } from "ethers";
 import {
     AAVE_POOL_ADDR,
     AAVE_POOL_ABI,
-    WETH_DEBT_TOKEN_ADDR,
     USDC_TOKEN,
     WETH_TOKEN,
-    ERC20_ABI,
     SWAP_ROUTER_ADDR,
     SWAP_ROUTER_ABI,
     POOL_FEE,
-    TX_TIMEOUT_MS,
     AAVE_TARGET_HEALTH_FACTOR,
     AAVE_MIN_HEALTH_FACTOR,
+    AAVE_MAX_HEALTH_FACTOR,
+    AAVE_MIN_COLLATERAL_CHANGE_USDC,
     DELTA_NEUTRAL_THRESHOLD,
     QUOTER_ADDR,
     QUOTER_ABI,
     SLIPPAGE_TOLERANCE,
+    ERC20_ABI,
 } from "../config";
 
-import { withRetry, waitWithTimeout, sendEmailAlert, getPoolTwap } from "./utils";
-import { saveState } from "./state";
+import {
+    getPoolTwap,
+    getAaveAssetPrice,
+    getAaveLiquidationThreshold,
+    withRetry,
+} from "./utils";
+import { recordPositionClosed, ActivePosition } from "./state";
+import { alert } from "./alerter";
 import { atomicExitPosition } from "./actions";
+import { getExecutor, TxExecutor } from "./executor";
+import {
+    recordLedgerEntry,
+    parseTokenReceived,
+    parseTokenSent,
+    getLastRecordedDebt,
+    getEthPrice,
+} from "./ledger";
 
 const RATE_MODE_VARIABLE = 2; // Aave Variable Rate
 
-export class AaveManager {
-    private wallet: ethers.Wallet;
-    private poolContract: ethers.Contract;
-    private swapRouter: ethers.Contract;
-    private quoter: ethers.Contract;
+const DEBT_TOKEN_ABI = ["function totalSupply() view returns (uint256)"];
+
+// State of the Aave WETH reserve that decides whether, and how much, can be borrowed
+export interface AaveReserveStatus {
+    variableBorrowApr: number;
+    utilization: number; // Borrowed share of the supplied WETH
+    totalDebt: bigint; // WETH wei, variable + stable
+    borrowCap: bigint; // WETH wei, 0 = no cap
+    active: boolean;
+    frozen: boolean;
+    paused: boolean;
+    borrowingEnabled: boolean;
+}
+
+// Why nothing can be borrowed from the reserve, or null
+export function reserveBlockReason(status: AaveReserveStatus): string | null {
+    if (!status.active) return "WETH reserve is not active";
+    if (status.paused) return "WETH reserve is paused";
+    if (status.frozen) return "WETH reserve is frozen";
+    if (!status.borrowingEnabled) return "WETH borrowing is disabled";
+    return null;
+}
+
+export type HedgeAction = "INCREASE" | "DECREASE" | "NONE";
+
+export interface HedgeAdjustment {
+    action: HedgeAction;
+    amount: bigint; // ETH (wei) to borrow or repay
+}
+
+/**
+ * Pure delta-neutral decision shared by adjustHedge and the backtester.
+ * Differences within DELTA_NEUTRAL_THRESHOLD are ignored to avoid wasting gas.
+ */
+export function calculateHedgeAdjustment(
+    lpEthAmount: bigint,
+    currentDebt: bigint,
+    threshold: bigint = DELTA_NEUTRAL_THRESHOLD
+): HedgeAdjustment {
+    const diff = lpEthAmount - currentDebt;
+
+    if (diff > threshold) {
+        return { action: "INCREASE", amount: diff };
+    }
+    if (diff < -threshold) {
+        return { action: "DECREASE", amount: -diff };
+    }
+    return { action: "NONE", amount: 0n };
+}
+
+// Ledger attribution for the shared hedge: the hedged position if there is exactly one
+export function getHedgeTokenId(positions: ActivePosition[]): string {
+    const hedged = positions.filter((p) => p.config.hedgeRatio > 0);
+    return hedged.length === 1 ? hedged[0].tokenId : "0";
+}
+
+// Panic exit of every LP (also the whole panic exit in LP-only mode, where there is no debt)
+export async function closeAllPositions(
+    wallet: ethers.Wallet,
+    positions: ActivePosition[]
+) {
+    for (const position of positions) {
+        try {
+            await atomicExitPosition(wallet, position.tokenId, position.config);
+
+            recordPositionClosed(position.config.id, "PANIC"); // The program will restart itself; it is important to reset position token
+            console.log(
+                `   [Panic] ${position.config.id} LP Closed & State Reset.`
+            );
+        } catch (e) {
+            console.error(
+                `   [Panic] Failed to close ${position.config.id} LP:`,
+                e
+            );
+            await alert(
+                "critical",
+                "[Panic] Failed to close LP",
+                `${position.config.id}: ${e}`
+            );
+        }
+    }
+}
+
+/**
+ * Where the shared short is held (HEDGE_VENUE, see src/venues.ts). Sizes are WETH wei, collateral
+ * USDC. Health is on Aave's scale on every venue: 1 is liquidation, 999 when nothing is at risk.
+ */
+export interface HedgeVenue {
+    readonly name: string;
+    // Opening the short puts the WETH in the wallet (an Aave borrow), so the capital planner
+    // funds that part of the LP with it instead of buying it
+    readonly borrowsBase: boolean;
+
+    getShortSize(): Promise<bigint>;
+    getMarginHealth(): Promise<number>;
+    getCollateralUsdc(): Promise<bigint>;
+    // health = collateral * factor / short value (Aave: the USDC liquidation threshold)
+    getCollateralFactor(): Promise<number>;
+    // Yearly cost of holding the short per notional: borrow APR or funding (< 0: the short earns)
+    getCarryApr(): Promise<number>;
+
+    supplyCollateral(amountUsdc: bigint, lpTokenId?: string): Promise<void>;
+    withdrawCollateral(amountUsdc: bigint, lpTokenId?: string): Promise<void>;
+    // Short for a position being minted. Borrowing venues leave the WETH in the wallet for the LP.
+    openLpShort(amountEth: bigint, lpTokenId?: string): Promise<boolean>;
+    increaseShort(amountEth: bigint, lpTokenId?: string): Promise<void>;
+    decreaseShort(
+        amountEth: bigint,
+        force?: boolean,
+        lpTokenId?: string
+    ): Promise<void>;
+
+    adjustHedge(
+        lpEthAmount: bigint,
+        positions: ActivePosition[],
+        threshold?: bigint
+    ): Promise<void>;
+    checkHealthAndPanic(
+        positions: ActivePosition[],
+        uniPoolContract: ethers.Contract
+    ): Promise<boolean>;
+    panicExitAll(positions: ActivePosition[]): Promise<void>;
+}
+
+/**
+ * Collateral upkeep, health checks, panic exit and delta netting shared by all venues.
+ * Implementations provide the venue's reads and its short / collateral transactions.
+ */
+export abstract class MarginHedgeVenue implements HedgeVenue {
+    abstract readonly name: string;
+    abstract readonly borrowsBase: boolean;
+    protected wallet: ethers.Wallet;
+    protected executor: TxExecutor;
 
     constructor(wallet: ethers.Wallet) {
         this.wallet = wallet;
-        this.poolContract = new ethers.Contract(
-            AAVE_POOL_ADDR,
-            AAVE_POOL_ABI,
-            wallet
-        );
-        this.swapRouter = new ethers.Contract(
-            SWAP_ROUTER_ADDR,
-            SWAP_ROUTER_ABI,
-            wallet
-        );
-        this.quoter = new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, wallet);
+        this.executor = getExecutor(wallet);
     }
 
-    // --- Info Getters ---
+    abstract getShortSize(): Promise<bigint>;
+    abstract getMarginHealth(): Promise<number>;
+    abstract getCollateralUsdc(): Promise<bigint>;
+    abstract getCollateralFactor(): Promise<number>;
+    abstract getCarryApr(): Promise<number>;
+    abstract supplyCollateral(
+        amountUsdc: bigint,
+        lpTokenId?: string
+    ): Promise<void>;
+    abstract withdrawCollateral(
+        amountUsdc: bigint,
+        lpTokenId?: string
+    ): Promise<void>;
+    abstract increaseShort(
+        amountEth: bigint,
+        lpTokenId?: string
+    ): Promise<void>;
+    abstract decreaseShort(
+        amountEth: bigint,
+        force?: boolean,
+        lpTokenId?: string
+    ): Promise<void>;
 
-    async getHealthFactor(): Promise<number> {
-        const data = await withRetry(() =>
-            this.poolContract.getUserAccountData(this.wallet.address)
-        );
-        // If totalCollateralBase is very small, HF might be huge, treat as safe (999.0)
-        if (data.totalCollateralBase === 0n) return 999.0;
-        if (data.healthFactor > 100n * 10n ** 18n) return 999.0;
-        return parseFloat(ethers.formatUnits(data.healthFactor, 18));
+    async openLpShort(
+        amountEth: bigint,
+        lpTokenId: string = "0"
+    ): Promise<boolean> {
+        try {
+            await this.increaseShort(amountEth, lpTokenId);
+            return true;
+        } catch (e) {
+            console.error(`   [Hedge] ${this.name} short failed:`, e);
+            return false;
+        }
     }
 
-    async getCurrentEthDebt(): Promise<bigint> {
-        if (WETH_DEBT_TOKEN_ADDR === ethers.ZeroAddress) return 0n;
-        const debtContract = new ethers.Contract(
-            WETH_DEBT_TOKEN_ADDR,
-            ["function balanceOf(address) view returns (uint256)"],
-            this.wallet
+    // Logs what holding the short has cost since the last recorded change (if the venue knows)
+    protected reportAccruedCost?(currentShort: bigint): Promise<void>;
+
+    // Health of a USDC-margined short: collateral * factor / short value
+    protected async healthFromMargin(
+        short: bigint,
+        collateralUsdc: bigint,
+        factor: number
+    ): Promise<number> {
+        if (short === 0n) return 999.0;
+        const shortUsd =
+            parseFloat(ethers.formatEther(short)) *
+            (await getEthPrice(this.wallet));
+        const collateralUsd = parseFloat(
+            ethers.formatUnits(collateralUsdc, USDC_TOKEN.decimals)
         );
-        return await withRetry(() =>
-            debtContract.balanceOf(this.wallet.address)
+        return Math.min((collateralUsd * factor) / shortUsd, 999.0);
+    }
+
+    /**
+     * USDC collateral change that brings health to `targetHf` after shorting `additionalShortEth` more.
+     * Positive: amount to supply. Negative: excess that can be withdrawn.
+     */
+    async getCollateralAdjustment(
+        additionalShortEth: bigint = 0n,
+        targetHf: number = AAVE_TARGET_HEALTH_FACTOR
+    ): Promise<bigint> {
+        const [short, collateral, factor, ethPrice] = await Promise.all([
+            this.getShortSize(),
+            this.getCollateralUsdc(),
+            this.getCollateralFactor(),
+            getEthPrice(this.wallet),
+        ]);
+        const shortUsd =
+            parseFloat(ethers.formatEther(short + additionalShortEth)) *
+            ethPrice;
+        const required = ethers.parseUnits(
+            ((targetHf * shortUsd) / factor).toFixed(USDC_TOKEN.decimals),
+            USDC_TOKEN.decimals
         );
+        return required - collateral;
     }
 
-    // --- Safety Checks ---
+    /**
+     * Supply idle wallet USDC so health stays at target after borrowing `additionalShortEth`.
+     * Supplies what the wallet has if it cannot cover the full amount.
+     * @returns USDC supplied
+     */
+    async topUpCollateral(
+        additionalShortEth: bigint = 0n,
+        lpTokenId: string = "0"
+    ): Promise<bigint> {
+        const needed = await this.getCollateralAdjustment(additionalShortEth);
+        if (needed < AAVE_MIN_COLLATERAL_CHANGE_USDC) return 0n;
 
+        const available = await this.executor.getTokenBalance(USDC_TOKEN);
+        const amount = needed < available ? needed : available;
+        if (amount < AAVE_MIN_COLLATERAL_CHANGE_USDC) {
+            console.warn(
+                `   [Hedge] Need ${ethers.formatUnits(needed, 6)} USDC collateral but wallet only has ${ethers.formatUnits(available, 6)}.`
+            );
+            return 0n;
+        }
+
+        try {
+            await this.supplyCollateral(amount, lpTokenId);
+            return amount;
+        } catch (e) {
+            console.error("   [Hedge] Collateral supply failed:", e);
+            return 0n;
+        }
+    }
 
     /**
-     * Checks health factor. If low, verifies price integrity before panicking.
-     * @param lpTokenId Token ID of the position
-     * @param uniPoolContract Uniswap V3 Pool Contract (for TWAP check)
+     * Keep health near target: top up when below it, and return excess collateral to the
+     * wallet (where the next mint picks it up) when it exceeds AAVE_MAX_HEALTH_FACTOR.
      */
-    async checkHealthAndPanic(lpTokenId: string, uniPoolContract: ethers.Contract): Promise<boolean> {
+    async maintainCollateral(lpTokenId: string = "0") {
+        const hf = await this.getMarginHealth();
+
+        if (hf < AAVE_TARGET_HEALTH_FACTOR) {
+            const supplied = await this.topUpCollateral(0n, lpTokenId);
+            if (supplied > 0n) {
+                console.log(
+                    `   [Hedge] Health ${hf.toFixed(2)} below target. Collateral topped up.`
+                );
+            }
+            return;
+        }
+
+        if (hf <= AAVE_MAX_HEALTH_FACTOR) return;
+
+        const short = await this.getShortSize();
+        const change = await this.getCollateralAdjustment();
+        if (-change < AAVE_MIN_COLLATERAL_CHANGE_USDC) return;
+
         try {
-            const hf = await this.getHealthFactor();
+            // No short left: withdraw everything rather than leaving interest-rounding dust
+            await this.withdrawCollateral(
+                short === 0n ? ethers.MaxUint256 : -change,
+                lpTokenId
+            );
+            console.log(
+                `   [Hedge] Health ${hf.toFixed(2)} above ${AAVE_MAX_HEALTH_FACTOR}. Excess collateral returned to wallet.`
+            );
+        } catch (e) {
+            console.error("   [Hedge] Collateral withdraw failed:", e);
+        }
+    }
+
+    // --- Safety Checks ---
+
+    /**
+     * Checks margin health. If low, verifies price integrity before panicking.
+     * @param positions Open LP positions (all of them are closed on panic)
+     * @param uniPoolContract Hedge (WETH/USDC) Uniswap V3 Pool Contract (for TWAP check)
+     */
+    async checkHealthAndPanic(
+        positions: ActivePosition[],
+        uniPoolContract: ethers.Contract
+    ): Promise<boolean> {
+        const lpTokenId = getHedgeTokenId(positions);
+        try {
+            const hf = await this.getMarginHealth();
 
             // Thresholds
             const HF_WARNING = AAVE_MIN_HEALTH_FACTOR; // e.g., 1.5
             const HF_CRITICAL = 1.1; // Absolute liquidation danger zone
 
             if (hf < HF_WARNING) {
-                console.warn(`[Risk] Health Factor Low: ${hf.toFixed(4)} < ${HF_WARNING}`);
+                console.warn(
+                    `[Risk] Health Factor Low: ${hf.toFixed(4)} < ${HF_WARNING}`
+                );
+
+                // 0. Add idle wallet USDC as collateral before considering an exit
+                if ((await this.topUpCollateral(0n, lpTokenId)) > 0n) {
+                    const newHf = await this.getMarginHealth();
+                    console.log(
+                        `[Risk] Collateral topped up. HF: ${hf.toFixed(4)} -> ${newHf.toFixed(4)}`
+                    );
+                    if (newHf >= HF_WARNING) return true;
+                }
 
                 // 1. Check for Price Manipulation (Flash Increase)
                 // If HF is low BUT not yet critical (1.1 < HF < 1.5), we check if this is a temporary spike.
                 if (hf > HF_CRITICAL) {
                     try {
-                        const twapTick = Number(await getPoolTwap(uniPoolContract, 300)); // 5 min TWAP
+                        const twapTick = Number(
+                            await getPoolTwap(uniPoolContract, 300)
+                        ); // 5 min TWAP
                         const slot0 = await uniPoolContract.slot0();
                         const currentTick = Number(slot0.tick);
                         const tickDiff = Math.abs(currentTick - twapTick);
-                        
+
                         // 2% deviation threshold (~200 ticks)
                         if (tickDiff > 200) {
-                            console.warn(`[Hedge] Price deviation detected (${tickDiff} ticks). Possible Flash Manipulation.`);
-                            console.warn(`[Hedge] HF (${hf.toFixed(2)}) is above Critical (${HF_CRITICAL}). SUPPRESSING PANIC.`);
-                            await sendEmailAlert("Hedge Warning", `HF Low (${hf}) but Price Deviated. Holding position to avoid buying top.`);
-                            
-                            // Return true (Pretend safe) to avoid locking the bot in Safe Mode, 
+                            console.warn(
+                                `[Hedge] Price deviation detected (${tickDiff} ticks). Possible Flash Manipulation.`
+                            );
+                            console.warn(
+                                `[Hedge] HF (${hf.toFixed(2)}) is above Critical (${HF_CRITICAL}). SUPPRESSING PANIC.`
+                            );
+                            await alert(
+                                "warn",
+                                "Hedge Warning",
+                                `HF Low (${hf}) but Price Deviated. Holding position to avoid buying top.`,
+                                "hedge-panic-suppressed"
+                            );
+
+                            // Return true (Pretend safe) to avoid locking the bot in Safe Mode,
                             // allowing it to check again in the next block.
-                            return true; 
+                            return true;
                         }
                     } catch (e) {
-                        console.error("[Hedge] Failed to check TWAP during risk assessment:", e);
+                        console.error(
+                            "[Hedge] Failed to check TWAP during risk assessment:",
+                            e
+                        );
                         // If check fails, default to safety -> proceed to panic logic below
                     }
                 }
 
                 // 2. If HF is Critical OR Price is consistent (Real crash) -> PANIC
-                console.warn(`[Risk] Executing PANIC EXIT. (HF: ${hf.toFixed(4)})`);
-                await this.panicExitAll(lpTokenId);
+                console.warn(
+                    `[Risk] Executing PANIC EXIT. (HF: ${hf.toFixed(4)})`
+                );
+                await this.panicExitAll(positions);
                 return false; // Signal Safe Mode
             }
 
             return true;
         } catch (e) {
-            console.error("[Aave] Health check failed:", e);
+            console.error(`[Hedge] ${this.name} health check failed:`, e);
+            return true;
+        }
+    }
+
+    async panicExitAll(positions: ActivePosition[]) {
+        console.log(`\n[CRITICAL EXIT] Initiating panic cleanup!`);
+        const lpTokenId = getHedgeTokenId(positions);
+
+        // 1. Alert (Fail-safe)
+        try {
+            const hf = await this.getMarginHealth();
+            await alert(
+                "critical",
+                "Panic Exit",
+                `${this.name} health ${hf}. Exiting all positions.`
+            );
+        } catch (e) {
+            console.error("   [Panic] Failed to send initial alert:", e);
+        }
+
+        // 2. BREAK LPs FIRST (Get the WETH back!)
+        await closeAllPositions(this.wallet, positions);
+
+        // 3. Close the short
+        try {
+            const currentShort = await this.getShortSize();
+            if (currentShort > 0n) {
+                console.log(
+                    `   [Hedge] Found ${this.name} short: ${ethers.formatEther(currentShort)} ETH`
+                );
+                await this.decreaseShort(currentShort, true, lpTokenId); // Force: use all assets in the wallet
+            }
+        } catch (e) {
+            console.error(
+                `   [Panic] Failed to close the ${this.name} short:`,
+                e
+            );
+            await alert(
+                "critical",
+                `[Panic] Failed to close the ${this.name} short`,
+                String(e)
+            );
+        }
+
+        console.log(`[EXIT] Panic Cleanup Complete. Entering SAFE MODE.`);
+    }
+
+    /**
+     * Net the hedge across positions: one short covers the hedged ETH of all of them.
+     * @param lpEthAmount Sum of each position's LP ETH times its hedge ratio
+     * @param positions Open LP positions (for panic exit and ledger attribution)
+     * @param threshold Drift left alone (the hedge band, see src/gamma.ts)
+     */
+    async adjustHedge(
+        lpEthAmount: bigint,
+        positions: ActivePosition[],
+        threshold: bigint = DELTA_NEUTRAL_THRESHOLD
+    ) {
+        const lpTokenId = getHedgeTokenId(positions);
+
+        // Double check safety level
+        const hf = await this.getMarginHealth();
+        if (hf < AAVE_MIN_HEALTH_FACTOR) {
+            await this.panicExitAll(positions);
+            return;
+        }
+
+        console.log(`\n[Hedge] Checking Delta Neutrality...`);
+
+        const currentDebt = await this.getShortSize();
+        const diff = lpEthAmount - currentDebt;
+        await this.reportAccruedCost?.(currentDebt);
+
+        console.log(
+            `   [Status] LP Long (hedged): ${ethers.formatEther(lpEthAmount)} ETH | ${this.name} Short: ${ethers.formatEther(currentDebt)} ETH`
+        );
+        console.log(`   [Status] Net Delta: ${ethers.formatEther(diff)} ETH`);
+
+        const adjustment = calculateHedgeAdjustment(
+            lpEthAmount,
+            currentDebt,
+            threshold
+        );
+
+        if (adjustment.action === "INCREASE") {
+            // Long > Short -> Increase Hedge
+            await this.increaseShort(adjustment.amount, lpTokenId);
+        } else if (adjustment.action === "DECREASE") {
+            // Short > Long -> Decrease Hedge
+            await this.decreaseShort(adjustment.amount, false, lpTokenId);
+        } else {
+            console.log(
+                `   [Hedge] Balanced (band ${ethers.formatEther(threshold)} ETH).`
+            );
+        }
+
+        await this.maintainCollateral(lpTokenId);
+    }
+}
+
+// HEDGE_VENUE=AAVE: borrow WETH against USDC collateral and sell it on the hedge pool
+export class AaveManager extends MarginHedgeVenue {
+    readonly name = "Aave V3";
+    readonly borrowsBase = true;
+    private poolContract: ethers.Contract;
+    private swapRouter: ethers.Contract;
+    private quoter: ethers.Contract;
+
+    constructor(wallet: ethers.Wallet) {
+        super(wallet);
+        this.poolContract = new ethers.Contract(
+            AAVE_POOL_ADDR,
+            AAVE_POOL_ABI,
+            wallet
+        );
+        this.swapRouter = new ethers.Contract(
+            SWAP_ROUTER_ADDR,
+            SWAP_ROUTER_ABI,
+            wallet
+        );
+        this.quoter = new ethers.Contract(QUOTER_ADDR, QUOTER_ABI, wallet);
+    }
+
+    // --- Info Getters ---
+
+    async getMarginHealth(): Promise<number> {
+        const data = await this.executor.getAccountData();
+        // If totalCollateralBase is very small, HF might be huge, treat as safe (999.0)
+        if (data.totalCollateralBase === 0n) return 999.0;
+        if (data.healthFactor > 100n * 10n ** 18n) return 999.0;
+        return parseFloat(ethers.formatUnits(data.healthFactor, 18));
+    }
+
+    async getShortSize(): Promise<bigint> {
+        return this.executor.getEthDebt();
+    }
+
+    async getCollateralFactor(): Promise<number> {
+        const lt = await getAaveLiquidationThreshold(
+            this.wallet,
+            USDC_TOKEN.address
+        );
+        return Number(lt) / 10_000;
+    }
+
+    // Variable WETH borrow rate (ray, 1e27 = 100% a year)
+    async getCarryApr(): Promise<number> {
+        const reserve = await withRetry(() =>
+            this.poolContract.getReserveData(WETH_TOKEN.address)
+        );
+        return parseFloat(
+            ethers.formatUnits(reserve.currentVariableBorrowRate, 27)
+        );
+    }
+
+    /**
+     * WETH reserve data: rate, utilisation (debt / (debt + WETH held by the aToken)), borrow cap
+     * and status flags from the configuration bitmap (bit 56 active, 57 frozen, 58 borrowing
+     * enabled, 60 paused, bits 80-115 borrow cap in whole tokens).
+     */
+    async getReserveStatus(): Promise<AaveReserveStatus> {
+        const reserve = await withRetry(() =>
+            this.poolContract.getReserveData(WETH_TOKEN.address)
+        );
+        const supply = (token: string): Promise<bigint> =>
+            token === ethers.ZeroAddress
+                ? Promise.resolve(0n)
+                : withRetry(() =>
+                      new ethers.Contract(
+                          token,
+                          DEBT_TOKEN_ABI,
+                          this.wallet
+                      ).totalSupply()
+                  );
+        const weth = new ethers.Contract(
+            WETH_TOKEN.address,
+            ERC20_ABI,
+            this.wallet
+        );
+        const [variableDebt, stableDebt, available] = await Promise.all([
+            supply(reserve.variableDebtTokenAddress),
+            supply(reserve.stableDebtTokenAddress),
+            withRetry(() =>
+                weth.balanceOf(reserve.aTokenAddress)
+            ) as Promise<bigint>,
+        ]);
+
+        const config = BigInt(reserve.configuration);
+        const flag = (bit: bigint) => ((config >> bit) & 1n) === 1n;
+        const totalDebt = variableDebt + stableDebt;
+        return {
+            variableBorrowApr: parseFloat(
+                ethers.formatUnits(reserve.currentVariableBorrowRate, 27)
+            ),
+            utilization:
+                totalDebt + available > 0n
+                    ? Number((totalDebt * 10_000n) / (totalDebt + available)) /
+                      10_000
+                    : 0,
+            totalDebt,
+            borrowCap:
+                ((config >> 80n) & ((1n << 36n) - 1n)) *
+                10n ** BigInt(WETH_TOKEN.decimals),
+            active: flag(56n),
+            frozen: flag(57n),
+            paused: flag(60n),
+            borrowingEnabled: flag(58n),
+        };
+    }
+
+    /**
+     * The part of `amountEth` the WETH reserve will lend: 0 when it is paused, frozen or not
+     * lending, at most the room left under the borrow cap. Checked before sending the borrow
+     * rather than learning it from a revert.
+     */
+    async getBorrowableEth(amountEth: bigint): Promise<bigint> {
+        const status = await this.getReserveStatus();
+        let reason = reserveBlockReason(status);
+        let allowed = reason ? 0n : amountEth;
+        if (!reason && status.borrowCap > 0n) {
+            // Keep 0.1% of the room for interest accrued before the borrow lands
+            const room =
+                status.borrowCap > status.totalDebt
+                    ? status.borrowCap - status.totalDebt
+                    : 0n;
+            const usable = (room * 999n) / 1000n;
+            if (usable < amountEth) {
+                allowed = usable;
+                reason = `WETH borrow cap ${ethers.formatEther(status.borrowCap)} nearly reached (${ethers.formatEther(room)} left)`;
+            }
+        }
+        if (reason) {
+            const message = `${reason}. Borrowing ${ethers.formatEther(allowed)} of ${ethers.formatEther(amountEth)} ETH.`;
+            console.warn(`   [Hedge] ${message}`);
+            await alert(
+                "warn",
+                "Hedge Borrow Limited",
+                message,
+                "hedge-borrow-limited"
+            );
+        }
+        return allowed > DELTA_NEUTRAL_THRESHOLD ? allowed : 0n;
+    }
+
+    protected async reportAccruedCost(currentShort: bigint) {
+        const lastDebt = getLastRecordedDebt();
+        if (lastDebt !== null && currentShort > lastDebt) {
+            console.log(
+                `   [Status] Borrow interest accrued since last Aave tx: ${ethers.formatEther(currentShort - lastDebt)} ETH`
+            );
+        }
+    }
+
+    // --- Collateral Management ---
+
+    // Aave collateral in USDC terms (the bot only supplies USDC)
+    async getCollateralUsdc(): Promise<bigint> {
+        const data = await this.executor.getAccountData();
+        if (data.totalCollateralBase === 0n) return 0n;
+        const usdcPrice = await getAaveAssetPrice(
+            this.wallet,
+            USDC_TOKEN.address
+        );
+        return (
+            (data.totalCollateralBase * 10n ** BigInt(USDC_TOKEN.decimals)) /
+            usdcPrice
+        );
+    }
+
+    /**
+     * USDC collateral change that brings HF to `targetHf` after borrowing `additionalShortEth` more.
+     * Positive: amount to supply. Negative: excess that can be withdrawn.
+     * HF = sum(collateral * LT) / debt, so the change is priced at the USDC reserve's LT.
+     */
+    async getCollateralAdjustment(
+        additionalShortEth: bigint = 0n,
+        targetHf: number = AAVE_TARGET_HEALTH_FACTOR
+    ): Promise<bigint> {
+        const data = await this.executor.getAccountData();
+        const [usdcPrice, ethPrice, usdcLt] = await Promise.all([
+            getAaveAssetPrice(this.wallet, USDC_TOKEN.address),
+            getAaveAssetPrice(this.wallet, WETH_TOKEN.address),
+            getAaveLiquidationThreshold(this.wallet, USDC_TOKEN.address),
+        ]);
+
+        const debtBase =
+            data.totalDebtBase + (additionalShortEth * ethPrice) / 10n ** 18n;
+        const targetBps = BigInt(Math.round(targetHf * 10_000));
+
+        // Both sides in (base currency * bps)
+        const required = debtBase * targetBps;
+        const current =
+            data.totalCollateralBase * data.currentLiquidationThreshold;
+
+        const changeBase = (required - current) / usdcLt;
+        return (changeBase * 10n ** BigInt(USDC_TOKEN.decimals)) / usdcPrice;
+    }
+
+    async supplyCollateral(amountUsdc: bigint, lpTokenId: string = "0") {
+        console.log(
+            `   [Aave] Supplying ${ethers.formatUnits(amountUsdc, 6)} USDC collateral...`
+        );
+        const receipt = await this.executor.send(this.poolContract, "supply", [
+            USDC_TOKEN.address,
+            amountUsdc,
+            this.wallet.address,
+            0,
+        ]);
+        await recordLedgerEntry(this.wallet, "SUPPLY", receipt, {
+            tokenId: lpTokenId,
+            amountUsdc: amountUsdc.toString(),
+        });
+    }
+
+    async withdrawCollateral(amountUsdc: bigint, lpTokenId: string = "0") {
+        const all = amountUsdc === ethers.MaxUint256;
+        console.log(
+            `   [Aave] Withdrawing ${all ? "all" : ethers.formatUnits(amountUsdc, 6)} USDC collateral...`
+        );
+        const receipt = await this.executor.send(
+            this.poolContract,
+            "withdraw",
+            [USDC_TOKEN.address, amountUsdc, this.wallet.address]
+        );
+        const withdrawn = parseTokenReceived(
+            receipt,
+            USDC_TOKEN,
+            this.wallet.address
+        );
+        await recordLedgerEntry(this.wallet, "WITHDRAW", receipt, {
+            tokenId: lpTokenId,
+            amountUsdc: withdrawn.toString(),
+        });
+    }
+
+    // The borrowed WETH stays in the wallet for the LP
+    async openLpShort(
+        amountEth: bigint,
+        lpTokenId: string = "0"
+    ): Promise<boolean> {
+        const borrowable = await this.getBorrowableEth(amountEth);
+        if (borrowable === 0n) return false;
+        return this.borrowEth(borrowable, lpTokenId);
+    }
+
+    /**
+     * Borrow WETH into the wallet without selling it (the capital planner puts it into the LP).
+     * @returns false if the borrow failed
+     */
+    async borrowEth(
+        amountEth: bigint,
+        lpTokenId: string = "0"
+    ): Promise<boolean> {
+        try {
+            const debtBefore = await this.getShortSize();
+            const receipt = await this.executor.send(
+                this.poolContract,
+                "borrow",
+                [
+                    WETH_TOKEN.address,
+                    amountEth,
+                    RATE_MODE_VARIABLE,
+                    0,
+                    this.wallet.address,
+                ]
+            );
+            const debtAfter = await this.getShortSize();
+            await recordLedgerEntry(this.wallet, "BORROW", receipt, {
+                tokenId: lpTokenId,
+                amountEth: amountEth.toString(),
+                debtBefore: debtBefore.toString(),
+                debtAfter: debtAfter.toString(),
+            });
             return true;
+        } catch (e) {
+            console.error("   [Hedge] Borrow failed (Check Collateral):", e);
+            return false;
         }
     }
 
@@ -131,17 +791,26 @@ export class AaveManager {
      * Borrow more WETH from Aave and swap them to USDC for hedging.
      * Includes slippage protection via Quoter.
      * @param amountEth
+     * @param lpTokenId LP position the hedge belongs to (for the ledger)
      * @returns
      */
-    async increaseShort(amountEth: bigint) {
-        const hf = await this.getHealthFactor();
+    async increaseShort(amountEth: bigint, lpTokenId: string = "0") {
+        amountEth = await this.getBorrowableEth(amountEth);
+        if (amountEth === 0n) return;
+
+        // Supply enough collateral that HF is still at target once the new debt is added
+        await this.topUpCollateral(amountEth, lpTokenId);
+
+        const hf = await this.getMarginHealth();
         if (hf < AAVE_TARGET_HEALTH_FACTOR) {
             console.warn(
                 `   [Hedge] Health Factor low (${hf.toFixed(2)}). Skipping borrow.`
             );
-            await sendEmailAlert(
+            await alert(
+                "warn",
                 "Hedge Warning",
-                `Health Factor low (${hf}). Skipping borrow.`
+                `Health Factor low (${hf}). Skipping borrow.`,
+                "hedge-borrow-skipped"
             );
             return;
         }
@@ -150,19 +819,7 @@ export class AaveManager {
             `   [Hedge] OPEN SHORT: Borrowing ${ethers.formatUnits(amountEth, 18)} ETH...`
         );
 
-        try {
-            const txBorrow = await this.poolContract.borrow(
-                WETH_TOKEN.address,
-                amountEth,
-                RATE_MODE_VARIABLE,
-                0,
-                this.wallet.address
-            );
-            await waitWithTimeout(txBorrow, TX_TIMEOUT_MS);
-        } catch (e) {
-            console.error("   [Hedge] Borrow failed (Check Collateral):", e);
-            return;
-        }
+        if (!(await this.borrowEth(amountEth, lpTokenId))) return;
 
         console.log(`   [Hedge] Selling borrowed ETH for USDC...`);
 
@@ -172,59 +829,83 @@ export class AaveManager {
             tokenOut: USDC_TOKEN.address,
             amountIn: amountEth,
             fee: POOL_FEE,
-            sqrtPriceLimitX96: 0
+            sqrtPriceLimitX96: 0,
         };
-        const [quotedOut] = await this.quoter.getFunction("quoteExactInputSingle").staticCall(quoteParams);
-        
+        const [quotedOut] = await this.quoter
+            .getFunction("quoteExactInputSingle")
+            .staticCall(quoteParams);
+
         // Apply Slippage
         const tolerance = BigInt(SLIPPAGE_TOLERANCE.numerator.toString());
         const basis = BigInt(SLIPPAGE_TOLERANCE.denominator.toString());
-        const amountOutMin = quotedOut * (basis - tolerance) / basis;
+        const amountOutMin = (quotedOut * (basis - tolerance)) / basis;
 
         // 2. Execute Swap
-        const txSwap = await this.swapRouter.exactInputSingle({
-            tokenIn: WETH_TOKEN.address,
-            tokenOut: USDC_TOKEN.address,
-            fee: POOL_FEE,
-            recipient: this.wallet.address,
-            deadline: Math.floor(Date.now() / 1000) + 300,
-            amountIn: amountEth,
-            amountOutMinimum: amountOutMin,
-            sqrtPriceLimitX96: 0,
+        const swapReceipt = await this.executor.send(
+            this.swapRouter,
+            "exactInputSingle",
+            [
+                {
+                    tokenIn: WETH_TOKEN.address,
+                    tokenOut: USDC_TOKEN.address,
+                    fee: POOL_FEE,
+                    recipient: this.wallet.address,
+                    deadline: Math.floor(Date.now() / 1000) + 300,
+                    amountIn: amountEth,
+                    amountOutMinimum: amountOutMin,
+                    sqrtPriceLimitX96: 0,
+                },
+            ]
+        );
+        const usdcOut = parseTokenReceived(
+            swapReceipt,
+            USDC_TOKEN,
+            this.wallet.address
+        );
+        await recordLedgerEntry(this.wallet, "SWAP", swapReceipt, {
+            tokenId: lpTokenId,
+            tokenIn: WETH_TOKEN.symbol,
+            tokenOut: USDC_TOKEN.symbol,
+            amountIn: amountEth.toString(),
+            quotedOut: quotedOut.toString(),
+            amountOut: usdcOut.toString(),
+            note: "HEDGE",
         });
-        await waitWithTimeout(txSwap, TX_TIMEOUT_MS);
-        console.log(`   [Hedge] Short Position Increased. Sold for ${ethers.formatUnits(quotedOut, 6)} USDC`);
+        console.log(
+            `   [Hedge] Short Position Increased. Sold for ${ethers.formatUnits(usdcOut, 6)} USDC (Quoted: ${ethers.formatUnits(quotedOut, 6)})`
+        );
     }
 
     /**
      * Pay back Aave with WETH. If not enough WETH in wallet, try swapping USDC first.
      * Includes slippage protection and insufficient balance deadlock prevention.
      * @param amountEth
+     * @param lpTokenId LP position the hedge belongs to (for the ledger)
      * @returns
      */
-    async decreaseShort(amountEth: bigint, force: boolean = false) {
+    async decreaseShort(
+        amountEth: bigint,
+        force: boolean = false,
+        lpTokenId: string = "0"
+    ) {
         console.log(
             `   [Hedge] CLOSE SHORT: Repaying ${ethers.formatUnits(amountEth, 18)} ETH...`
         );
 
         if (force) {
-            console.warn("   [Hedge] FORCE MODE: Increasing slippage tolerance to 5% to ensure execution.");
+            console.warn(
+                "   [Hedge] FORCE MODE: Increasing slippage tolerance to 5% to ensure execution."
+            );
         }
 
-        const wethContract = new ethers.Contract(
-            WETH_TOKEN.address,
-            ERC20_ABI,
-            this.wallet
-        );
-        let currentWeth = await wethContract.balanceOf(this.wallet.address);
+        let currentWeth = await this.executor.getTokenBalance(WETH_TOKEN);
 
         // --- Auto-Swap Logic ---
         if (currentWeth < amountEth) {
             const deficit = amountEth - currentWeth;
 
             // Check USDC Balance first
-            const usdcContract = new ethers.Contract(USDC_TOKEN.address, ERC20_ABI, this.wallet);
-            const usdcBal = await usdcContract.balanceOf(this.wallet.address);
+            const usdcBal = await this.executor.getTokenBalance(USDC_TOKEN);
 
             // 1. Quote ExactOutput (How much USDC needed to buy exactly `deficit` ETH?)
             const quoteParams = {
@@ -232,7 +913,7 @@ export class AaveManager {
                 tokenOut: WETH_TOKEN.address,
                 amount: deficit,
                 fee: POOL_FEE,
-                sqrtPriceLimitX96: 0
+                sqrtPriceLimitX96: 0,
             };
 
             let amountInMax: bigint;
@@ -240,35 +921,44 @@ export class AaveManager {
 
             try {
                 // QuoterV2 return: (amountIn, ... )
-                const [quotedIn] = await this.quoter.getFunction("quoteExactOutputSingle").staticCall(quoteParams);
-                
+                const [quotedIn] = await this.quoter
+                    .getFunction("quoteExactOutputSingle")
+                    .staticCall(quoteParams);
+
                 // Calculate Slippage: Max In = Quoted * (1 + tolerance)
-              let toleranceNumerator: bigint;  
+                let toleranceNumerator: bigint;
                 if (force) {
                     toleranceNumerator = 500n; // Force: 5%
                 } else {
-                    toleranceNumerator = BigInt(SLIPPAGE_TOLERANCE.numerator.toString()); // Normal: 0.5%
+                    toleranceNumerator = BigInt(
+                        SLIPPAGE_TOLERANCE.numerator.toString()
+                    ); // Normal: 0.5%
                 }
-                
+
                 const basis = 10000n;
-                amountInMax = quotedIn * (basis + toleranceNumerator) / basis;
+                amountInMax = (quotedIn * (basis + toleranceNumerator)) / basis;
 
-                console.log(`   [Quote] Need ~${ethers.formatUnits(quotedIn, 6)} USDC to buy deficit ETH.`);
+                console.log(
+                    `   [Quote] Need ~${ethers.formatUnits(quotedIn, 6)} USDC to buy deficit ETH.`
+                );
 
                 // [Deadlock Logic Fix] Check if USDC is sufficient
                 if (amountInMax > usdcBal) {
-                    console.warn(`   [Hedge] Insufficient USDC for exact repayment. Swapping ALL USDC (${ethers.formatUnits(usdcBal, 6)}) instead.`);
+                    console.warn(
+                        `   [Hedge] Insufficient USDC for exact repayment. Swapping ALL USDC (${ethers.formatUnits(usdcBal, 6)}) instead.`
+                    );
                     useExactInput = true;
                 }
-
-            } catch (e) {
-                console.warn("   [Hedge] Quote failed (likely insufficient liquidity for ExactOutput). Falling back to ExactInput.");
+            } catch {
+                console.warn(
+                    "   [Hedge] Quote failed (likely insufficient liquidity for ExactOutput). Falling back to ExactInput."
+                );
                 useExactInput = true;
                 amountInMax = 0n; // Not used
             }
 
             try {
-                let txSwap;
+                let swapReceipt: ethers.TransactionReceipt;
                 if (useExactInput) {
                     // Fallback: ExactInputSingle (Sell all USDC)
                     // We need to re-quote to get minOut
@@ -277,48 +967,79 @@ export class AaveManager {
                         tokenOut: WETH_TOKEN.address,
                         amountIn: usdcBal,
                         fee: POOL_FEE,
-                        sqrtPriceLimitX96: 0
+                        sqrtPriceLimitX96: 0,
                     };
-                    const [qOut] = await this.quoter.getFunction("quoteExactInputSingle").staticCall(quoteInParams);
-                   let toleranceNumerator: bigint;
+                    const [qOut] = await this.quoter
+                        .getFunction("quoteExactInputSingle")
+                        .staticCall(quoteInParams);
+                    let toleranceNumerator: bigint;
                     if (force) {
                         toleranceNumerator = 500n; // 5%
                     } else {
-                        toleranceNumerator = BigInt(SLIPPAGE_TOLERANCE.numerator.toString()); // 0.5%
+                        toleranceNumerator = BigInt(
+                            SLIPPAGE_TOLERANCE.numerator.toString()
+                        ); // 0.5%
                     }
-                    
+
                     const basis = 10000n;
-                    const minOut = qOut * (basis - toleranceNumerator) / basis;
+                    const minOut =
+                        (qOut * (basis - toleranceNumerator)) / basis;
 
-                    txSwap = await this.swapRouter.exactInputSingle({
-                        tokenIn: USDC_TOKEN.address,
-                        tokenOut: WETH_TOKEN.address,
-                        fee: POOL_FEE,
-                        recipient: this.wallet.address,
-                        deadline: Math.floor(Date.now() / 1000) + 300,
-                        amountIn: usdcBal,
-                        amountOutMinimum: minOut,
-                        sqrtPriceLimitX96: 0,
-                    });
+                    swapReceipt = await this.executor.send(
+                        this.swapRouter,
+                        "exactInputSingle",
+                        [
+                            {
+                                tokenIn: USDC_TOKEN.address,
+                                tokenOut: WETH_TOKEN.address,
+                                fee: POOL_FEE,
+                                recipient: this.wallet.address,
+                                deadline: Math.floor(Date.now() / 1000) + 300,
+                                amountIn: usdcBal,
+                                amountOutMinimum: minOut,
+                                sqrtPriceLimitX96: 0,
+                            },
+                        ]
+                    );
                 } else {
                     // Standard: ExactOutputSingle
-                    txSwap = await this.swapRouter.exactOutputSingle({
-                        tokenIn: USDC_TOKEN.address,
-                        tokenOut: WETH_TOKEN.address,
-                        fee: POOL_FEE,
-                        recipient: this.wallet.address,
-                        deadline: Math.floor(Date.now() / 1000) + 300,
-                        amountOut: deficit,
-                        amountInMaximum: amountInMax, // Set slippage cap
-                        sqrtPriceLimitX96: 0,
-                    });
+                    swapReceipt = await this.executor.send(
+                        this.swapRouter,
+                        "exactOutputSingle",
+                        [
+                            {
+                                tokenIn: USDC_TOKEN.address,
+                                tokenOut: WETH_TOKEN.address,
+                                fee: POOL_FEE,
+                                recipient: this.wallet.address,
+                                deadline: Math.floor(Date.now() / 1000) + 300,
+                                amountOut: deficit,
+                                amountInMaximum: amountInMax, // Set slippage cap
+                                sqrtPriceLimitX96: 0,
+                            },
+                        ]
+                    );
                 }
-                
-                await waitWithTimeout(txSwap, TX_TIMEOUT_MS);
-                
-                // Update balance after swap
-                currentWeth = await wethContract.balanceOf(this.wallet.address);
 
+                await recordLedgerEntry(this.wallet, "SWAP", swapReceipt, {
+                    tokenId: lpTokenId,
+                    tokenIn: USDC_TOKEN.symbol,
+                    tokenOut: WETH_TOKEN.symbol,
+                    amountIn: parseTokenSent(
+                        swapReceipt,
+                        USDC_TOKEN,
+                        this.wallet.address
+                    ).toString(),
+                    amountOut: parseTokenReceived(
+                        swapReceipt,
+                        WETH_TOKEN,
+                        this.wallet.address
+                    ).toString(),
+                    note: "HEDGE",
+                });
+
+                // Update balance after swap
+                currentWeth = await this.executor.getTokenBalance(WETH_TOKEN);
             } catch (e) {
                 console.error("   [Hedge] Swap USDC->WETH failed:", e);
                 return; // Stop if swap fails
@@ -331,86 +1052,34 @@ export class AaveManager {
         const repayAmount = currentWeth < amountEth ? currentWeth : amountEth;
 
         try {
-            const tx = await this.poolContract.repay(
-                WETH_TOKEN.address,
-                force === true ? ethers.MaxUint256 : repayAmount, // If force is true, use MaxUint256 to repay all
-                RATE_MODE_VARIABLE,
-                this.wallet.address
+            const debtBefore = await this.getShortSize();
+            const receipt = await this.executor.send(
+                this.poolContract,
+                "repay",
+                [
+                    WETH_TOKEN.address,
+                    force === true ? ethers.MaxUint256 : repayAmount, // If force is true, use MaxUint256 to repay all
+                    RATE_MODE_VARIABLE,
+                    this.wallet.address,
+                ]
+            );
+            const debtAfter = await this.getShortSize();
+            await recordLedgerEntry(this.wallet, "REPAY", receipt, {
+                tokenId: lpTokenId,
+                amountEth: (debtBefore - debtAfter).toString(),
+                debtBefore: debtBefore.toString(),
+                debtAfter: debtAfter.toString(),
+            });
+            console.log(
+                `   [Hedge] Repay Confirmed (${ethers.formatEther(repayAmount)} ETH).`
             );
-            await waitWithTimeout(tx, TX_TIMEOUT_MS);
-            console.log(`   [Hedge] Repay Confirmed (${ethers.formatEther(repayAmount)} ETH).`);
         } catch (e) {
             console.error(`   [Aave] Repay Failed:`, e);
-            sendEmailAlert("[Aave] Repay Failed", "Tx Failed or Insufficient Balance");
-        }
-    }
-    
-    async panicExitAll(lpTokenId: string) {
-        console.log(`\n[CRITICAL EXIT] Initiating panic cleanup!`);
-
-        // 1. Alert (Fail-safe)
-        try {
-            const hf = await this.getHealthFactor();
-            await sendEmailAlert("CRITICAL: Panic Exit", `HF ${hf}. Exiting all positions.`);
-        } catch (e) {
-            console.error("   [Panic] Failed to send initial alert:", e);
-        }
-
-        // 2. BREAK LP FIRST (Get the WETH back!)
-        try {
-            if (lpTokenId && lpTokenId !== "0") {
-               await atomicExitPosition(this.wallet, lpTokenId);
-
-                await saveState("0"); // The program will restart itself; it is important to reset position token
-                console.log("   [Panic] LP Closed & State Reset.");
-            }
-        } catch (e) {
-            console.error("   [Panic] Failed to close LP:", e);
-            await sendEmailAlert("[Panic] Failed to close LP", String(e));
-        }
-
-        // 3. Repay Debt
-        try {
-            const currentDebt = await this.getCurrentEthDebt();
-            if (currentDebt > 0n) {
-                console.log(`   [Aave] Found debt: ${ethers.formatEther(currentDebt)} ETH`);
-                await this.decreaseShort(currentDebt, true); // Force usage of all assets in wallet to repay Aave
-            }
-        } catch (e) {
-            console.error("   [Panic] Failed to repay Aave debt:", e);
-            await sendEmailAlert("[Panic] Failed to repay Aave debt", String(e));
-        }
-
-        console.log(`[EXIT] Panic Cleanup Complete. Entering SAFE MODE.`);
-    }
-
-    async adjustHedge(lpEthAmount: bigint, lpTokenId: string) {
-        // Double check safety level 
-        const hf = await this.getHealthFactor();
-        if (hf < AAVE_MIN_HEALTH_FACTOR) {
-            await this.panicExitAll(lpTokenId);
-            return;
-        }
-
-        console.log(`\n[Hedge] Checking Delta Neutrality...`);
-
-        const currentDebt = await this.getCurrentEthDebt();
-        const diff = lpEthAmount - currentDebt;
-
-        console.log(
-            `   [Status] LP Long: ${ethers.formatEther(lpEthAmount)} ETH | Aave Short: ${ethers.formatEther(currentDebt)} ETH`
-        );
-        console.log(`   [Status] Net Delta: ${ethers.formatEther(diff)} ETH`);
-
-        if (diff > DELTA_NEUTRAL_THRESHOLD) {
-            // Long > Short -> Increase Hedge
-            await this.increaseShort(diff);
-        } else if (diff < -DELTA_NEUTRAL_THRESHOLD) {
-            // Short > Long -> Decrease Hedge
-            const repayAmt = -diff;
-            await this.decreaseShort(repayAmt);
-        } else {
-            console.log(`   [Hedge] Balanced.`);
+            await alert(
+                "critical",
+                "[Aave] Repay Failed",
+                "Tx Failed or Insufficient Balance"
+            );
         }
     }
-}
\ No newline at end of file
+}
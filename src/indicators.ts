@@ -0,0 +1,212 @@
+/**
+ * Streaming technical indicators: each value is folded in once with `next()`, so a series that
+ * grows by one candle costs O(1) instead of a full recomputation. `peek()` returns the value the
+ * indicator would have after the given input without consuming it (used for the candle that is
+ * still in progress). Formulas follow the usual conventions (Wilder smoothing for RSI and ATR,
+ * SMA-seeded EMA, population standard deviation for Bollinger Bands).
+ */
+
+export interface Ohlc {
+    high: number;
+    low: number;
+    close: number;
+}
+
+export interface Bands {
+    middle: number;
+    upper: number;
+    lower: number;
+}
+
+export interface StreamingIndicator<I, O> {
+    next(input: I): O | undefined;
+    peek(input: I): O | undefined;
+    readonly value: O | undefined;
+}
+
+// Wilder's moving average, seeded with the simple average of the first `period` values
+class WilderAverage {
+    private count = 0;
+    private sum = 0;
+    private avg: number | undefined;
+
+    constructor(private period: number) {}
+
+    get value() {
+        return this.avg;
+    }
+
+    peek(x: number): number | undefined {
+        if (this.avg !== undefined)
+            return (this.avg * (this.period - 1) + x) / this.period;
+        return this.count + 1 === this.period
+            ? (this.sum + x) / this.period
+            : undefined;
+    }
+
+    next(x: number): number | undefined {
+        const avg = this.peek(x);
+        this.count++;
+        this.sum += x;
+        this.avg = avg;
+        return avg;
+    }
+}
+
+export class Ema implements StreamingIndicator<number, number> {
+    private k: number;
+    private count = 0;
+    private sum = 0;
+    private ema: number | undefined;
+
+    constructor(private period: number) {
+        this.k = 2 / (period + 1);
+    }
+
+    get value() {
+        return this.ema;
+    }
+
+    peek(close: number): number | undefined {
+        if (this.ema !== undefined)
+            return (close - this.ema) * this.k + this.ema;
+        return this.count + 1 === this.period
+            ? (this.sum + close) / this.period
+            : undefined;
+    }
+
+    next(close: number): number | undefined {
+        const ema = this.peek(close);
+        this.count++;
+        this.sum += close;
+        this.ema = ema;
+        return ema;
+    }
+}
+
+export class Rsi implements StreamingIndicator<number, number> {
+    private gains: WilderAverage;
+    private losses: WilderAverage;
+    private prevClose: number | undefined;
+    private rsi: number | undefined;
+
+    constructor(period: number) {
+        this.gains = new WilderAverage(period);
+        this.losses = new WilderAverage(period);
+    }
+
+    get value() {
+        return this.rsi;
+    }
+
+    private static toRsi(gain: number | undefined, loss: number | undefined) {
+        if (gain === undefined || loss === undefined) return undefined;
+        if (loss === 0) return 100;
+        return 100 - 100 / (1 + gain / loss);
+    }
+
+    peek(close: number): number | undefined {
+        if (this.prevClose === undefined) return undefined;
+        const change = close - this.prevClose;
+        return Rsi.toRsi(
+            this.gains.peek(Math.max(change, 0)),
+            this.losses.peek(Math.max(-change, 0))
+        );
+    }
+
+    next(close: number): number | undefined {
+        if (this.prevClose !== undefined) {
+            const change = close - this.prevClose;
+            this.rsi = Rsi.toRsi(
+                this.gains.next(Math.max(change, 0)),
+                this.losses.next(Math.max(-change, 0))
+            );
+        }
+        this.prevClose = close;
+        return this.rsi;
+    }
+}
+
+// Average True Range in price units; the first candle only provides the previous close
+export class Atr implements StreamingIndicator<Ohlc, number> {
+    private tr: WilderAverage;
+    private prevClose: number | undefined;
+
+    constructor(period: number) {
+        this.tr = new WilderAverage(period);
+    }
+
+    get value() {
+        return this.tr.value;
+    }
+
+    private trueRange(c: Ohlc): number {
+        const prev = this.prevClose as number;
+        return Math.max(
+            c.high - c.low,
+            Math.abs(c.high - prev),
+            Math.abs(c.low - prev)
+        );
+    }
+
+    peek(c: Ohlc): number | undefined {
+        if (this.prevClose === undefined) return undefined;
+        return this.tr.peek(this.trueRange(c));
+    }
+
+    next(c: Ohlc): number | undefined {
+        const atr =
+            this.prevClose === undefined
+                ? undefined
+                : this.tr.next(this.trueRange(c));
+        this.prevClose = c.close;
+        return atr;
+    }
+}
+
+export class BollingerBands implements StreamingIndicator<number, Bands> {
+    private window: number[] = [];
+    private bands: Bands | undefined;
+
+    constructor(
+        private period: number,
+        private stdDev: number
+    ) {}
+
+    get value() {
+        return this.bands;
+    }
+
+    private compute(window: number[]): Bands | undefined {
+        if (window.length < this.period) return undefined;
+        const mean = window.reduce((a, b) => a + b, 0) / window.length;
+        const variance =
+            window.reduce((a, b) => a + (b - mean) ** 2, 0) / window.length;
+        const sd = Math.sqrt(variance);
+        return {
+            middle: mean,
+            upper: mean + this.stdDev * sd,
+            lower: mean - this.stdDev * sd,
+        };
+    }
+
+    peek(close: number): Bands | undefined {
+        return this.compute([...this.window, close].slice(-this.period));
+    }
+
+    next(close: number): Bands | undefined {
+        this.window.push(close);
+        if (this.window.length > this.period) this.window.shift();
+        this.bands = this.compute(this.window);
+        return this.bands;
+    }
+}
+
+// Latest value after folding a whole series (undefined if the series is too short)
+export function lastValue<I, O>(
+    indicator: StreamingIndicator<I, O>,
+    inputs: I[]
+): O | undefined {
+    for (const input of inputs) indicator.next(input);
+    return indicator.value;
+}
@@ -0,0 +1,654 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import { ethers } from "ethers";
+import { Pool, Position } from "@uniswap/v3-sdk";
+import { Token } from "@uniswap/sdk-core";
+
+import {
+    USDC_TOKEN,
+    WETH_TOKEN,
+    POOL_FEE,
+    POOL_ABI,
+    NPM_ABI,
+    ERC20_ABI,
+    V3_FACTORY_ADDR,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    MAX_UINT128,
+    DRY_RUN,
+    DEFAULT_POSITION_ID,
+    PositionConfig,
+    getPositionConfig,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+import {
+    getPoolPrice,
+    isBaseToken0,
+    getPositionPoolContract,
+    fetchPositionPool,
+} from "./utils";
+
+const LEDGER_FILE = path.join(
+    STATE_DIR,
+    DRY_RUN ? "ledger.dry-run.jsonl" : "ledger.jsonl"
+);
+
+const npmInterface = new ethers.Interface(NPM_ABI);
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+export type LedgerEntryType =
+    | "MINT"
+    | "INCREASE"
+    | "EXIT"
+    | "COLLECT"
+    | "SWAP"
+    | "BORROW"
+    | "REPAY"
+    | "SUPPLY"
+    | "WITHDRAW"
+    | "PERP"
+    | "APPROVE";
+
+// All token amounts are raw integer strings (wei / USDC 6-decimals).
+// For positions whose base token is not WETH, the "Eth" amounts hold the base token.
+export interface LedgerEntry {
+    timestamp: number;
+    type: LedgerEntryType;
+    txHash: string;
+    tokenId: string; // LP position the entry is attributed to ("0" if none)
+    positionId?: string; // PositionConfig id (absent before multi-position support: WETH-USDC-3000)
+    ethPrice: number; // USDC per WETH when recorded
+    basePrice?: number; // USDC per base token, for positions whose base is not WETH
+    gasUsed: string;
+    gasCostEth: string;
+    gasCostUsd: number;
+    amountEth?: string; // MINT / INCREASE: deposited, EXIT: principal withdrawn, BORROW/REPAY: debt change, PERP: short size change
+    amountUsdc?: string; // SUPPLY/WITHDRAW: hedge venue USDC collateral change
+    leftoverEth?: string; // MINT: funds given to the mint that it did not take (idle in the wallet)
+    leftoverUsdc?: string;
+    feesEth?: string; // EXIT/COLLECT: trading fees collected
+    feesUsdc?: string;
+    tokenIn?: string; // SWAP
+    tokenOut?: string;
+    amountIn?: string;
+    quotedOut?: string;
+    amountOut?: string;
+    debtBefore?: string; // BORROW/REPAY: Aave WETH debt around the tx
+    debtAfter?: string;
+    note?: string;
+}
+
+export type LedgerDetails = Partial<
+    Omit<
+        LedgerEntry,
+        | "timestamp"
+        | "type"
+        | "txHash"
+        | "ethPrice"
+        | "basePrice"
+        | "gasUsed"
+        | "gasCostEth"
+        | "gasCostUsd"
+    >
+>;
+
+// --- Receipt Parsing ---
+
+// `eth` is the base token of the pool (WETH unless `base` says otherwise)
+function toEthUsdc(amount0: bigint, amount1: bigint, base: Token) {
+    return isBaseToken0(base)
+        ? { eth: amount0, usdc: amount1 }
+        : { eth: amount1, usdc: amount0 };
+}
+
+function parseNpmEvent(
+    receipt: ethers.TransactionReceipt,
+    eventName: string
+): ethers.LogDescription | null {
+    for (const log of receipt.logs) {
+        if (
+            log.address.toLowerCase() !==
+            NONFUNGIBLE_POSITION_MANAGER_ADDR.toLowerCase()
+        )
+            continue;
+        try {
+            const parsed = npmInterface.parseLog(log);
+            if (parsed && parsed.name === eventName) return parsed;
+        } catch {
+            // Not an NPM event we know
+        }
+    }
+    return null;
+}
+
+// Amounts deposited by a mint (IncreaseLiquidity event)
+export function parseMintAmounts(
+    receipt: ethers.TransactionReceipt,
+    base: Token = WETH_TOKEN
+) {
+    const event = parseNpmEvent(receipt, "IncreaseLiquidity");
+    if (!event) return { eth: 0n, usdc: 0n };
+    return toEthUsdc(event.args.amount0, event.args.amount1, base);
+}
+
+// Split of an exit into principal (DecreaseLiquidity) and trading fees (Collect - principal)
+export function parseExitAmounts(
+    receipt: ethers.TransactionReceipt,
+    base: Token = WETH_TOKEN
+) {
+    const decrease = parseNpmEvent(receipt, "DecreaseLiquidity");
+    const collect = parseNpmEvent(receipt, "Collect");
+
+    const principal = decrease
+        ? toEthUsdc(decrease.args.amount0, decrease.args.amount1, base)
+        : { eth: 0n, usdc: 0n };
+    const collected = collect
+        ? toEthUsdc(collect.args.amount0, collect.args.amount1, base)
+        : { eth: 0n, usdc: 0n };
+
+    return {
+        principalEth: principal.eth,
+        principalUsdc: principal.usdc,
+        feesEth: collected.eth - principal.eth,
+        feesUsdc: collected.usdc - principal.usdc,
+    };
+}
+
+function sumTransfers(
+    receipt: ethers.TransactionReceipt,
+    token: Token,
+    side: "from" | "to",
+    account: string
+): bigint {
+    let total = 0n;
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== token.address.toLowerCase()) continue;
+        try {
+            const parsed = erc20Interface.parseLog(log);
+            if (
+                parsed &&
+                parsed.name === "Transfer" &&
+                parsed.args[side].toLowerCase() === account.toLowerCase()
+            ) {
+                total += parsed.args.value;
+            }
+        } catch {
+            // ignore
+        }
+    }
+    return total;
+}
+
+// Total of `token` transferred to `recipient` in the tx (realised swap output)
+export function parseTokenReceived(
+    receipt: ethers.TransactionReceipt,
+    token: Token,
+    recipient: string
+): bigint {
+    return sumTransfers(receipt, token, "to", recipient);
+}
+
+// Total of `token` transferred out of `sender` in the tx (realised swap input)
+export function parseTokenSent(
+    receipt: ethers.TransactionReceipt,
+    token: Token,
+    sender: string
+): bigint {
+    return sumTransfers(receipt, token, "from", sender);
+}
+
+// --- Recording ---
+
+export async function getEthPrice(
+    runner: ethers.ContractRunner
+): Promise<number> {
+    const poolAddr = Pool.getAddress(
+        USDC_TOKEN,
+        WETH_TOKEN,
+        POOL_FEE,
+        undefined,
+        V3_FACTORY_ADDR
+    );
+    return getPoolPrice(new ethers.Contract(poolAddr, POOL_ABI, runner));
+}
+
+// USDC per base token of a position
+export async function getBasePrice(
+    runner: ethers.ContractRunner,
+    position: PositionConfig
+): Promise<number> {
+    return getPoolPrice(
+        getPositionPoolContract(position, runner),
+        isBaseToken0(position.base)
+    );
+}
+
+/**
+ * Append a transaction to the ledger. Gas cost is taken from the receipt.
+ * Never throws: accounting must not break the trading path.
+ */
+export async function recordLedgerEntry(
+    runner: ethers.ContractRunner,
+    type: LedgerEntryType,
+    receipt: ethers.TransactionReceipt,
+    details: LedgerDetails = {}
+) {
+    try {
+        let ethPrice = 0;
+        try {
+            ethPrice = await getEthPrice(runner);
+        } catch (e) {
+            console.warn(
+                "[Ledger] Price unavailable, recording without USD values:",
+                (e as Error).message
+            );
+        }
+
+        // Entries of non-WETH positions also need the base token price
+        let basePrice: number | undefined;
+        if (details.positionId) {
+            try {
+                const position = getPositionConfig(details.positionId);
+                if (!position.base.equals(WETH_TOKEN)) {
+                    basePrice = await getBasePrice(runner, position);
+                }
+            } catch (e) {
+                console.warn(
+                    `[Ledger] ${details.positionId} price unavailable:`,
+                    (e as Error).message
+                );
+            }
+        }
+
+        const gasCostEth = receipt.gasUsed * receipt.gasPrice;
+        const entry: LedgerEntry = {
+            timestamp: Date.now(),
+            type,
+            txHash: receipt.hash,
+            tokenId: "0",
+            ethPrice,
+            ...(basePrice !== undefined && { basePrice }),
+            gasUsed: receipt.gasUsed.toString(),
+            gasCostEth: gasCostEth.toString(),
+            gasCostUsd: parseFloat(ethers.formatEther(gasCostEth)) * ethPrice,
+            ...details,
+        };
+
+        fs.mkdirSync(STATE_DIR, { recursive: true });
+        fs.appendFileSync(LEDGER_FILE, JSON.stringify(entry) + "\n");
+    } catch (e) {
+        console.error(
+            `[Ledger] Failed to record ${type} (${receipt.hash}):`,
+            e
+        );
+    }
+}
+
+export function loadLedger(): LedgerEntry[] {
+    if (!fs.existsSync(LEDGER_FILE)) return [];
+    return fs
+        .readFileSync(LEDGER_FILE, "utf8")
+        .split("\n")
+        .filter((l) => l.trim().length > 0)
+        .map((l) => JSON.parse(l) as LedgerEntry);
+}
+
+// Debt after the most recent Aave operation, used to measure interest accrued since then
+export function getLastRecordedDebt(
+    entries: LedgerEntry[] = loadLedger()
+): bigint | null {
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].debtAfter !== undefined)
+            return BigInt(entries[i].debtAfter!);
+    }
+    return null;
+}
+
+// --- Performance ---
+
+export interface PositionPerformance {
+    positionId: string;
+    tokenId: string;
+    openedAt: number;
+    closedAt: number | null;
+    entryValueUsd: number;
+    exitValueUsd: number | null; // principal withdrawn, at exit price
+    currentValueUsd: number | null; // open positions, when live data is supplied
+    feesUsd: number; // collected (+ uncollected for open positions)
+    impermanentLossUsd: number; // principal vs. holding the deposited amounts, at exit/current price
+    gasUsd: number; // LP transactions (mint / exit / collect)
+    hedgeCostUsd: number; // borrow interest + hedge gas + swap slippage vs quote
+    realisedPnlUsd: number | null;
+    unrealisedPnlUsd: number | null;
+    feeAprPct: number;
+}
+
+export interface LedgerSummary {
+    positions: PositionPerformance[];
+    totalFeesUsd: number;
+    totalGasUsd: number;
+    totalInterestUsd: number;
+    totalSlippageUsd: number;
+    realisedPnlUsd: number;
+    unrealisedPnlUsd: number;
+}
+
+// Live valuation of an open position (principal + uncollected fees, "Eth" = base token)
+export interface OpenPositionValue {
+    tokenId: string;
+    basePrice: number;
+    amountEth: bigint;
+    amountUsdc: bigint;
+    feesEth: bigint;
+    feesUsdc: bigint;
+}
+
+const ethUsd = (wei: bigint | string | undefined, price: number) =>
+    parseFloat(ethers.formatUnits(BigInt(wei ?? 0), WETH_TOKEN.decimals)) *
+    price;
+const usdcUsd = (raw: bigint | string | undefined) =>
+    parseFloat(ethers.formatUnits(BigInt(raw ?? 0), USDC_TOKEN.decimals));
+
+const YEAR_MS = 365 * 24 * 3600 * 1000;
+
+export function summarizeLedger(
+    entries: LedgerEntry[] = loadLedger(),
+    open: OpenPositionValue[] = []
+): LedgerSummary {
+    const positions = new Map<string, PositionPerformance>();
+    const deposits = new Map<string, { eth: bigint; usdc: bigint }>();
+
+    const summary: LedgerSummary = {
+        positions: [],
+        totalFeesUsd: 0,
+        totalGasUsd: 0,
+        totalInterestUsd: 0,
+        totalSlippageUsd: 0,
+        realisedPnlUsd: 0,
+        unrealisedPnlUsd: 0,
+    };
+
+    const getPosition = (entry: LedgerEntry) => {
+        let pos = positions.get(entry.tokenId);
+        if (!pos) {
+            pos = {
+                positionId: entry.positionId ?? DEFAULT_POSITION_ID,
+                tokenId: entry.tokenId,
+                openedAt: entry.timestamp,
+                closedAt: null,
+                entryValueUsd: 0,
+                exitValueUsd: null,
+                currentValueUsd: null,
+                feesUsd: 0,
+                impermanentLossUsd: 0,
+                gasUsd: 0,
+                hedgeCostUsd: 0,
+                realisedPnlUsd: null,
+                unrealisedPnlUsd: null,
+                feeAprPct: 0,
+            };
+            positions.set(entry.tokenId, pos);
+        }
+        return pos;
+    };
+
+    let lastDebtAfter: bigint | null = null;
+
+    for (const entry of entries) {
+        // Position amounts are in the base token; gas and Aave debt are always WETH
+        const price = entry.basePrice ?? entry.ethPrice;
+        summary.totalGasUsd += entry.gasCostUsd;
+
+        const pos = entry.tokenId !== "0" ? getPosition(entry) : null;
+        const isHedge =
+            entry.type === "BORROW" ||
+            entry.type === "REPAY" ||
+            entry.type === "SUPPLY" ||
+            entry.type === "WITHDRAW" ||
+            entry.type === "PERP" ||
+            entry.note === "HEDGE";
+        // Hedge gas is part of hedgeCostUsd, not LP gas
+        if (pos && !isHedge) pos.gasUsd += entry.gasCostUsd;
+
+        switch (entry.type) {
+            case "MINT": {
+                const eth = BigInt(entry.amountEth ?? 0);
+                const usdc = BigInt(entry.amountUsdc ?? 0);
+                deposits.set(entry.tokenId, { eth, usdc });
+                if (pos) {
+                    pos.positionId = entry.positionId ?? DEFAULT_POSITION_ID;
+                    pos.openedAt = entry.timestamp;
+                    pos.entryValueUsd = ethUsd(eth, price) + usdcUsd(usdc);
+                }
+                break;
+            }
+            case "INCREASE": {
+                // Liquidity added to an open position (compounded fees): more capital at stake
+                const eth = BigInt(entry.amountEth ?? 0);
+                const usdc = BigInt(entry.amountUsdc ?? 0);
+                const deposit = deposits.get(entry.tokenId) ?? {
+                    eth: 0n,
+                    usdc: 0n,
+                };
+                deposits.set(entry.tokenId, {
+                    eth: deposit.eth + eth,
+                    usdc: deposit.usdc + usdc,
+                });
+                if (pos)
+                    pos.entryValueUsd += ethUsd(eth, price) + usdcUsd(usdc);
+                break;
+            }
+            case "EXIT":
+            case "COLLECT": {
+                const fees =
+                    ethUsd(entry.feesEth, price) + usdcUsd(entry.feesUsdc);
+                summary.totalFeesUsd += fees;
+                if (!pos) break;
+                pos.feesUsd += fees;
+
+                if (entry.type === "EXIT") {
+                    const deposit = deposits.get(entry.tokenId) ?? {
+                        eth: 0n,
+                        usdc: 0n,
+                    };
+                    pos.closedAt = entry.timestamp;
+                    pos.exitValueUsd =
+                        ethUsd(entry.amountEth, price) +
+                        usdcUsd(entry.amountUsdc);
+                    pos.impermanentLossUsd =
+                        pos.exitValueUsd -
+                        (ethUsd(deposit.eth, price) + usdcUsd(deposit.usdc));
+                }
+                break;
+            }
+            case "SWAP": {
+                if (entry.quotedOut && entry.amountOut && entry.tokenOut) {
+                    const diff =
+                        BigInt(entry.amountOut) - BigInt(entry.quotedOut);
+                    const slippageUsd =
+                        entry.tokenOut === USDC_TOKEN.symbol
+                            ? -usdcUsd(diff)
+                            : -ethUsd(diff, price);
+                    summary.totalSlippageUsd += slippageUsd;
+                    if (pos && entry.note === "HEDGE")
+                        pos.hedgeCostUsd += slippageUsd;
+                }
+                if (pos && entry.note === "HEDGE")
+                    pos.hedgeCostUsd += entry.gasCostUsd;
+                break;
+            }
+            case "BORROW":
+            case "REPAY": {
+                // Interest = debt growth between the previous Aave op and this one
+                if (lastDebtAfter !== null && entry.debtBefore !== undefined) {
+                    const interest = BigInt(entry.debtBefore) - lastDebtAfter;
+                    if (interest > 0n) {
+                        const interestUsd = ethUsd(interest, entry.ethPrice);
+                        summary.totalInterestUsd += interestUsd;
+                        if (pos) pos.hedgeCostUsd += interestUsd;
+                    }
+                }
+                if (entry.debtAfter !== undefined)
+                    lastDebtAfter = BigInt(entry.debtAfter);
+                if (pos) pos.hedgeCostUsd += entry.gasCostUsd;
+                break;
+            }
+            case "SUPPLY":
+            case "WITHDRAW":
+            case "PERP": {
+                // Collateral moves are transfers, not PnL; only the gas counts (perp funding and
+                // trading fees are settled in the margin)
+                if (pos) pos.hedgeCostUsd += entry.gasCostUsd;
+                break;
+            }
+        }
+    }
+
+    const openById = new Map(open.map((value) => [value.tokenId, value]));
+    const now = Date.now();
+    for (const pos of positions.values()) {
+        if (pos.exitValueUsd !== null) {
+            pos.realisedPnlUsd =
+                pos.exitValueUsd +
+                pos.feesUsd -
+                pos.entryValueUsd -
+                pos.gasUsd -
+                pos.hedgeCostUsd;
+            summary.realisedPnlUsd += pos.realisedPnlUsd;
+        } else if (openById.has(pos.tokenId)) {
+            const value = openById.get(pos.tokenId)!;
+            const deposit = deposits.get(pos.tokenId) ?? { eth: 0n, usdc: 0n };
+            const uncollected =
+                ethUsd(value.feesEth, value.basePrice) +
+                usdcUsd(value.feesUsdc);
+            pos.currentValueUsd =
+                ethUsd(value.amountEth, value.basePrice) +
+                usdcUsd(value.amountUsdc);
+            pos.feesUsd += uncollected;
+            pos.impermanentLossUsd =
+                pos.currentValueUsd -
+                (ethUsd(deposit.eth, value.basePrice) + usdcUsd(deposit.usdc));
+            pos.unrealisedPnlUsd =
+                pos.currentValueUsd +
+                pos.feesUsd -
+                pos.entryValueUsd -
+                pos.gasUsd -
+                pos.hedgeCostUsd;
+            summary.unrealisedPnlUsd += pos.unrealisedPnlUsd;
+        }
+
+        const duration = (pos.closedAt ?? now) - pos.openedAt;
+        if (pos.entryValueUsd > 0 && duration > 0) {
+            pos.feeAprPct =
+                (pos.feesUsd / pos.entryValueUsd) * (YEAR_MS / duration) * 100;
+        }
+        summary.positions.push(pos);
+    }
+
+    return summary;
+}
+
+/**
+ * Value an open position from chain: principal via the SDK and uncollected fees via a collect staticCall.
+ * `runner` must be the position owner for the staticCall to succeed.
+ */
+export async function getOpenPositionValue(
+    runner: ethers.Wallet,
+    tokenId: string,
+    config: PositionConfig
+): Promise<OpenPositionValue> {
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        runner
+    );
+    const poolContract = getPositionPoolContract(config, runner);
+
+    const [pos, pool] = await Promise.all([
+        npm.positions(tokenId),
+        fetchPositionPool(config, poolContract),
+    ]);
+    const position = new Position({
+        pool,
+        liquidity: pos.liquidity.toString(),
+        tickLower: Number(pos.tickLower),
+        tickUpper: Number(pos.tickUpper),
+    });
+
+    const [fees0, fees1] = await npm.getFunction("collect").staticCall({
+        tokenId,
+        recipient: runner.address,
+        amount0Max: MAX_UINT128,
+        amount1Max: MAX_UINT128,
+    });
+
+    const principal = toEthUsdc(
+        BigInt(position.amount0.quotient.toString()),
+        BigInt(position.amount1.quotient.toString()),
+        config.base
+    );
+    const fees = toEthUsdc(fees0, fees1, config.base);
+    const basePrice = await getPoolPrice(
+        poolContract,
+        isBaseToken0(config.base)
+    );
+
+    return {
+        tokenId,
+        basePrice,
+        amountEth: principal.eth,
+        amountUsdc: principal.usdc,
+        feesEth: fees.eth,
+        feesUsdc: fees.usdc,
+    };
+}
+
+// --- Export ---
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+    "timestamp",
+    "type",
+    "txHash",
+    "tokenId",
+    "positionId",
+    "ethPrice",
+    "basePrice",
+    "gasUsed",
+    "gasCostEth",
+    "gasCostUsd",
+    "amountEth",
+    "amountUsdc",
+    "feesEth",
+    "feesUsdc",
+    "tokenIn",
+    "tokenOut",
+    "amountIn",
+    "quotedOut",
+    "amountOut",
+    "debtBefore",
+    "debtAfter",
+    "note",
+];
+
+export function exportLedgerCsv(
+    file: string,
+    entries: LedgerEntry[] = loadLedger()
+) {
+    const escape = (v: unknown) => {
+        const s = v === undefined ? "" : String(v);
+        return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+
+    const rows = [
+        ["date", ...CSV_COLUMNS].join(","),
+        ...entries.map((e) =>
+            [
+                new Date(e.timestamp).toISOString(),
+                ...CSV_COLUMNS.map((c) => escape(e[c])),
+            ].join(",")
+        ),
+    ];
+    fs.writeFileSync(file, rows.join("\n") + "\n");
+}
@@ -0,0 +1,476 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import axios from "axios";
+import { ethers } from "ethers";
+
+import {
+    MARKET_DATA_PROVIDERS,
+    MARKET_DATA_DIR,
+    ONCHAIN_CANDLE_SAMPLES,
+} from "../config";
+
+import { STATE_DIR } from "./state";
+import { tickToPrice } from "./utils";
+
+export interface Candle {
+    timestamp: number; // ms, candle open time
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+// What to fetch candles for. CEX providers use the symbol, the on-chain provider the pool.
+export interface MarketRef {
+    symbol: string; // Binance format, e.g. ETHUSDT
+    pool?: ethers.Contract; // Uniswap V3 pool quoted in USDC
+    baseIsToken0?: boolean;
+}
+
+/**
+ * A source of OHLC candles, oldest first. `interval` uses Binance notation (15m, 1h, 4h, 1d).
+ * Providers make one attempt and throw on any failure; FallbackMarketData handles the rest.
+ */
+export interface MarketDataProvider {
+    readonly name: string;
+    getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]>;
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+const INTERVAL_UNITS: Record<string, number> = {
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 604800,
+};
+
+// FILE provider and candle store directory
+export function marketDataDir(): string {
+    return MARKET_DATA_DIR || path.join(STATE_DIR, "market_data");
+}
+
+export function intervalToSeconds(interval: string): number {
+    const match = /^(\d+)([mhdw])$/.exec(interval);
+    if (!match) throw new Error(`Unsupported candle interval: ${interval}`);
+    return Number(match[1]) * INTERVAL_UNITS[match[2]];
+}
+
+// --- Loading (shared with the backtester) ---
+
+// Accepts seconds or milliseconds
+export function toMs(ts: number): number {
+    return ts < 1e12 ? ts * 1000 : ts;
+}
+
+export function parseCsv(file: string): string[][] {
+    const lines = fs
+        .readFileSync(file, "utf8")
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter((l) => l.length > 0);
+
+    const rows = lines.map((l) => l.split(",").map((c) => c.trim()));
+    // Skip header row if present
+    if (rows.length > 0 && isNaN(Number(rows[0][0]))) rows.shift();
+    return rows;
+}
+
+// [time, open, high, low, close, volume?, ...] as exchanges return it, strings or numbers
+type KlineValue = string | number;
+type KlineRow = [
+    KlineValue,
+    KlineValue,
+    KlineValue,
+    KlineValue,
+    KlineValue,
+    ...unknown[],
+];
+
+const isKlineValue = (v: unknown): v is KlineValue =>
+    typeof v === "string" || typeof v === "number";
+
+function isKlineRow(row: unknown): row is KlineRow {
+    return (
+        Array.isArray(row) &&
+        row.length >= 5 &&
+        row.slice(0, 5).every(isKlineValue) &&
+        (row[5] === undefined || isKlineValue(row[5]))
+    );
+}
+
+// Rejects candles with a field that did not parse, rather than passing NaN to the indicators
+function checkCandle(candle: Candle, source: string): Candle {
+    for (const [field, value] of Object.entries(candle)) {
+        if (!Number.isFinite(value)) {
+            throw new Error(
+                `Malformed candle in ${source}: ${field} is ${value}`
+            );
+        }
+    }
+    return candle;
+}
+
+function parseKlineRow(row: unknown, source: string): Candle {
+    if (!isKlineRow(row)) {
+        throw new Error(`Malformed kline in ${source}: ${JSON.stringify(row)}`);
+    }
+    const num = (v: unknown) => parseFloat(String(v));
+    return checkCandle(
+        {
+            timestamp: toMs(Number(row[0])),
+            open: num(row[1]),
+            high: num(row[2]),
+            low: num(row[3]),
+            close: num(row[4]),
+            volume: row[5] === undefined ? 0 : num(row[5]),
+        },
+        source
+    );
+}
+
+function parseCandleObject(c: unknown, source: string): Candle {
+    if (typeof c !== "object" || c === null) {
+        throw new Error(`Malformed candle in ${source}: ${JSON.stringify(c)}`);
+    }
+    const {
+        timestamp,
+        open,
+        high,
+        low,
+        close,
+        volume = 0,
+    } = c as Record<string, unknown>;
+    return checkCandle(
+        {
+            timestamp: toMs(Number(timestamp)),
+            open: Number(open),
+            high: Number(high),
+            low: Number(low),
+            close: Number(close),
+            volume: Number(volume),
+        },
+        source
+    );
+}
+
+/**
+ * Load candles from CSV (timestamp,open,high,low,close[,volume]) or JSON.
+ * JSON may be an array of candle objects or raw Binance kline arrays.
+ * Throws on a row that doesn't parse.
+ */
+export function loadCandles(file: string): Candle[] {
+    let candles: Candle[];
+
+    if (path.extname(file).toLowerCase() === ".json") {
+        const raw: unknown = JSON.parse(fs.readFileSync(file, "utf8"));
+        if (!Array.isArray(raw)) {
+            throw new Error(`${file} must contain an array of candles`);
+        }
+        candles = raw.map((c: unknown) =>
+            Array.isArray(c)
+                ? parseKlineRow(c, file)
+                : parseCandleObject(c, file)
+        );
+    } else {
+        candles = parseCsv(file).map((r) => parseKlineRow(r, file));
+    }
+
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Kline rows of an exchange response, in any order
+function fromKlineRows(rows: unknown, source: string): Candle[] {
+    if (!Array.isArray(rows)) {
+        throw new Error(`${source} returned no kline list`);
+    }
+    return rows
+        .map((r: unknown) => parseKlineRow(r, source))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// --- CEX Providers ---
+
+export class BinanceMarketData implements MarketDataProvider {
+    readonly name = "BINANCE";
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        const response = await axios.get(
+            "https://api.binance.com/api/v3/klines",
+            {
+                params: { symbol: market.symbol, interval, limit },
+                timeout: HTTP_TIMEOUT_MS,
+            }
+        );
+        // [open_time, open, high, low, close, volume, ...]
+        return fromKlineRows(response.data, "Binance");
+    }
+}
+
+export class BybitMarketData implements MarketDataProvider {
+    readonly name = "BYBIT";
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        // Minutes as a number, D / W for days and weeks
+        const seconds = intervalToSeconds(interval);
+        const bybitInterval =
+            seconds >= 604800
+                ? "W"
+                : seconds >= 86400
+                  ? "D"
+                  : String(seconds / 60);
+
+        const response = await axios.get(
+            "https://api.bybit.com/v5/market/kline",
+            {
+                params: {
+                    category: "spot",
+                    symbol: market.symbol,
+                    interval: bybitInterval,
+                    limit,
+                },
+                timeout: HTTP_TIMEOUT_MS,
+            }
+        );
+        if (response.data.retCode !== 0) {
+            throw new Error(
+                `Bybit error ${response.data.retCode}: ${response.data.retMsg}`
+            );
+        }
+        // Newest first: [start, open, high, low, close, volume, turnover]
+        return fromKlineRows(response.data.result?.list, "Bybit");
+    }
+}
+
+export class OkxMarketData implements MarketDataProvider {
+    readonly name = "OKX";
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        // ETHUSDT -> ETH-USDT
+        const quote = /(USDT|USDC|USD)$/.exec(market.symbol)?.[1];
+        if (!quote)
+            throw new Error(`Cannot map ${market.symbol} to an OKX instrument`);
+        const instId = `${market.symbol.slice(0, -quote.length)}-${quote}`;
+        // 1m / 1H / 1D / 1W
+        const bar = interval.replace(/[hdw]$/, (unit) => unit.toUpperCase());
+
+        const response = await axios.get(
+            "https://www.okx.com/api/v5/market/candles",
+            {
+                params: { instId, bar, limit },
+                timeout: HTTP_TIMEOUT_MS,
+            }
+        );
+        if (response.data.code !== "0") {
+            throw new Error(
+                `OKX error ${response.data.code}: ${response.data.msg}`
+            );
+        }
+        // Newest first: [ts, open, high, low, close, volume, ...]
+        return fromKlineRows(response.data.data, "OKX");
+    }
+}
+
+// --- On-Chain ---
+
+/**
+ * Candles built from the pool's observe() history, so no off-chain API is needed.
+ * Each candle is split into ONCHAIN_CANDLE_SAMPLES sub-intervals whose TWAPs give open, high,
+ * low and close; highs and lows are therefore smoothed and ATR reads lower than on a CEX.
+ * The pool's observation cardinality must cover `limit` candles, otherwise observe() reverts.
+ */
+export class OnChainMarketData implements MarketDataProvider {
+    readonly name = "ONCHAIN";
+
+    constructor(private samples: number = ONCHAIN_CANDLE_SAMPLES) {}
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        if (!market.pool) throw new Error(`No pool for ${market.symbol}`);
+
+        const candleSeconds = intervalToSeconds(interval);
+        const step = Math.floor(candleSeconds / this.samples);
+        const now = Math.floor(Date.now() / 1000);
+        // Align to candle boundaries like a CEX; the last candle is the one in progress
+        const start =
+            (Math.floor(now / candleSeconds) - limit + 1) * candleSeconds;
+
+        const secondsAgos: number[] = [];
+        for (let t = start; t < now; t += step) secondsAgos.push(now - t);
+        secondsAgos.push(0);
+
+        const [tickCumulatives] = await market.pool.observe(secondsAgos);
+
+        const candles: Candle[] = [];
+        for (let i = 0; i + 1 < secondsAgos.length; i++) {
+            const elapsed = secondsAgos[i] - secondsAgos[i + 1];
+            if (elapsed <= 0) continue;
+            const tick = Number(
+                (BigInt(tickCumulatives[i + 1]) - BigInt(tickCumulatives[i])) /
+                    BigInt(elapsed)
+            );
+            const price = tickToPrice(tick, market.baseIsToken0);
+
+            const timestamp =
+                (start + Math.floor(i / this.samples) * candleSeconds) * 1000;
+            const candle = candles[candles.length - 1];
+            if (!candle || candle.timestamp !== timestamp) {
+                candles.push({
+                    timestamp,
+                    open: price,
+                    high: price,
+                    low: price,
+                    close: price,
+                    volume: 0,
+                });
+            } else {
+                candle.high = Math.max(candle.high, price);
+                candle.low = Math.min(candle.low, price);
+                candle.close = price;
+            }
+        }
+        return candles;
+    }
+}
+
+// --- Local Files ---
+
+/**
+ * Candles from <dir>/<SYMBOL>_<interval>.json or .csv (the backtester's candle format).
+ * Serves deterministic data for tests and hosts without API access. The candle store
+ * (src/candleStore.ts) persists its series to the same files, so this is also the last resort
+ * when every API is down.
+ */
+export class FileMarketData implements MarketDataProvider {
+    readonly name = "FILE";
+
+    constructor(private dir: string = marketDataDir()) {}
+
+    private file(symbol: string, interval: string, ext: string) {
+        return path.join(this.dir, `${symbol}_${interval}.${ext}`);
+    }
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        const file = [
+            this.file(market.symbol, interval, "json"),
+            this.file(market.symbol, interval, "csv"),
+        ].find((f) => fs.existsSync(f));
+        if (!file)
+            throw new Error(
+                `No candle file for ${market.symbol} ${interval} in ${this.dir}`
+            );
+
+        const candles = loadCandles(file).slice(-limit);
+        const last = candles[candles.length - 1];
+        if (last) {
+            const ageHours = (Date.now() - last.timestamp) / 3600_000;
+            if (ageHours * 3600 > intervalToSeconds(interval) * 2) {
+                console.warn(
+                    `[MarketData] ${path.basename(file)} is ${ageHours.toFixed(1)}h old`
+                );
+            }
+        }
+        return candles;
+    }
+}
+
+// --- Fallback ---
+
+// Tries each provider in priority order and returns the first result with `limit` candles.
+export class FallbackMarketData implements MarketDataProvider {
+    readonly name = "FALLBACK";
+
+    constructor(private providers: MarketDataProvider[]) {
+        if (providers.length === 0)
+            throw new Error("No market data providers configured");
+    }
+
+    async getCandles(
+        market: MarketRef,
+        interval: string,
+        limit: number
+    ): Promise<Candle[]> {
+        const errors: string[] = [];
+
+        for (const provider of this.providers) {
+            try {
+                const candles = await provider.getCandles(
+                    market,
+                    interval,
+                    limit
+                );
+                if (candles.length < limit) {
+                    throw new Error(
+                        `only ${candles.length} of ${limit} candles`
+                    );
+                }
+                if (errors.length > 0) {
+                    console.warn(
+                        `[MarketData] ${market.symbol} ${interval} from ${provider.name} (${errors.join("; ")})`
+                    );
+                }
+                return candles;
+            } catch (e) {
+                errors.push(`${provider.name}: ${(e as Error).message}`);
+            }
+        }
+        throw new Error(
+            `No market data for ${market.symbol} ${interval}: ${errors.join("; ")}`
+        );
+    }
+}
+
+export function createMarketDataProvider(name: string): MarketDataProvider {
+    switch (name.toUpperCase()) {
+        case "BINANCE":
+            return new BinanceMarketData();
+        case "BYBIT":
+            return new BybitMarketData();
+        case "OKX":
+            return new OkxMarketData();
+        case "ONCHAIN":
+            return new OnChainMarketData();
+        case "FILE":
+            return new FileMarketData();
+        default:
+            throw new Error(`Unknown market data provider: ${name}`);
+    }
+}
+
+let marketData: MarketDataProvider | null = null;
+
+// The configured provider chain (MARKET_DATA_PROVIDERS)
+export function getMarketData(): MarketDataProvider {
+    if (!marketData) {
+        marketData = new FallbackMarketData(
+            MARKET_DATA_PROVIDERS.map(createMarketDataProvider)
+        );
+    }
+    return marketData;
+}
@@ -0,0 +1,170 @@
+import * as http from "http";
+
+import { METRICS_PORT, HEALTH_MAX_BLOCK_AGE_SEC } from "../config";
+
+type Labels = Record<string, string>;
+
+// Exported series. Per-position series carry a `position` label (PositionConfig id).
+const METRICS = {
+    unibot_pool_tick: { type: "gauge", help: "Current pool tick" },
+    unibot_range_lower_tick: {
+        type: "gauge",
+        help: "Lower tick of the open LP position",
+    },
+    unibot_range_upper_tick: {
+        type: "gauge",
+        help: "Upper tick of the open LP position",
+    },
+    unibot_in_range: {
+        type: "gauge",
+        help: "1 if the pool tick is inside the position's range",
+    },
+    unibot_lp_base_amount: {
+        type: "gauge",
+        help: "Base token (ETH / ARB) held by the LP position",
+    },
+    unibot_mint_leftover_usd: {
+        type: "gauge",
+        help: "USD value the last mint left idle in the wallet",
+    },
+    unibot_aave_health_factor: { type: "gauge", help: "Aave Health Factor" },
+    unibot_eth_debt: { type: "gauge", help: "Aave WETH debt in ETH" },
+    unibot_net_delta_eth: {
+        type: "gauge",
+        help: "Hedged LP ETH minus Aave ETH debt",
+    },
+    unibot_hedge_band_eth: {
+        type: "gauge",
+        help: "Delta drift tolerated by the hedge band, in ETH",
+    },
+    unibot_hedge_gamma_eth: {
+        type: "gauge",
+        help: "Hedged LP gamma, ETH of delta per USD of price",
+    },
+    unibot_hedge_carry_apr: {
+        type: "gauge",
+        help: "Yearly hedge cost per short notional (borrow APR / funding)",
+    },
+    unibot_net_carry_usd: {
+        type: "gauge",
+        help: "Hedged LP fee income minus hedge cost, USD per year",
+    },
+    unibot_rpc_node_index: {
+        type: "gauge",
+        help: "Index of the RPC node in use (RPC_URL order)",
+    },
+    unibot_failed_tx_total: {
+        type: "counter",
+        help: "Transactions that failed to send or reverted",
+    },
+    unibot_last_block: { type: "gauge", help: "Last block processed" },
+    unibot_last_block_timestamp_seconds: {
+        type: "gauge",
+        help: "Unix time the last block was processed",
+    },
+    unibot_safe_mode: { type: "gauge", help: "1 if SAFE MODE is active" },
+} as const;
+
+export type MetricName = keyof typeof METRICS;
+
+// name -> serialised labels -> value
+const values = new Map<MetricName, Map<string, number>>();
+
+const startedAt = Date.now();
+let lastBlockAt = 0;
+
+const escape = (v: string) =>
+    v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function labelKey(labels: Labels): string {
+    const entries = Object.entries(labels).sort(([a], [b]) =>
+        a.localeCompare(b)
+    );
+    if (entries.length === 0) return "";
+    return `{${entries.map(([k, v]) => `${k}="${escape(v)}"`).join(",")}}`;
+}
+
+export function setGauge(name: MetricName, value: number, labels: Labels = {}) {
+    if (!values.has(name)) values.set(name, new Map());
+    values.get(name)!.set(labelKey(labels), value);
+}
+
+export function incCounter(name: MetricName, labels: Labels = {}, by = 1) {
+    if (!values.has(name)) values.set(name, new Map());
+    const series = values.get(name)!;
+    const key = labelKey(labels);
+    series.set(key, (series.get(key) ?? 0) + by);
+}
+
+// Drop a position's series once it is closed, so dashboards don't show a stale range
+export function clearPositionMetrics(positionId: string) {
+    const key = labelKey({ position: positionId });
+    for (const series of values.values()) series.delete(key);
+}
+
+export function recordBlockProcessed(blockNumber: number) {
+    lastBlockAt = Date.now();
+    setGauge("unibot_last_block", blockNumber);
+    setGauge(
+        "unibot_last_block_timestamp_seconds",
+        Math.floor(lastBlockAt / 1000)
+    );
+}
+
+// Prometheus text exposition format
+export function renderMetrics(): string {
+    const lines: string[] = [];
+    for (const [name, def] of Object.entries(METRICS)) {
+        const series = values.get(name as MetricName);
+        if (!series || series.size === 0) continue;
+        lines.push(`# HELP ${name} ${def.help}`);
+        lines.push(`# TYPE ${name} ${def.type}`);
+        for (const [labels, value] of series) {
+            lines.push(`${name}${labels} ${value}`);
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Unhealthy when no block has been processed for HEALTH_MAX_BLOCK_AGE_SEC (counted from startup
+ * until the first block). Safe mode still counts as processing: the bot is alive, just idle.
+ */
+export function getHealth(now: number = Date.now()) {
+    const since = lastBlockAt || startedAt;
+    const ageSec = Math.floor((now - since) / 1000);
+    return {
+        healthy: ageSec <= HEALTH_MAX_BLOCK_AGE_SEC,
+        lastBlockAgeSec: lastBlockAt ? ageSec : null,
+        uptimeSec: Math.floor((now - startedAt) / 1000),
+    };
+}
+
+// GET /metrics and /healthz. Returns null when METRICS_PORT is 0.
+export function startMetricsServer(
+    port: number = METRICS_PORT
+): http.Server | null {
+    if (!port) return null;
+
+    const server = http.createServer((req, res) => {
+        const url = (req.url || "").split("?")[0];
+        if (req.method === "GET" && url === "/metrics") {
+            res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+            res.end(renderMetrics());
+        } else if (req.method === "GET" && url === "/healthz") {
+            const health = getHealth();
+            res.writeHead(health.healthy ? 200 : 503, {
+                "Content-Type": "application/json",
+            });
+            res.end(JSON.stringify(health));
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    });
+    server.on("error", (e) => console.error("[Metrics] Server error:", e));
+    server.listen(port, () =>
+        console.log(`[Metrics] Serving /metrics and /healthz on port ${port}`)
+    );
+    return server;
+}
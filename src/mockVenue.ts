@@ -0,0 +1,91 @@
+import { ethers } from "ethers";
+
+import {
+    MOCK_VENUE_FUNDING_APR,
+    MOCK_VENUE_MAINTENANCE_MARGIN,
+} from "../config";
+
+import { MarginHedgeVenue } from "./hedge";
+
+// Shared by all instances, so a venue re-created on reconnect keeps the book
+const book = { short: 0n, collateral: 0n };
+
+// Empty the shared book (between tests)
+export function resetMockVenue() {
+    book.short = 0n;
+    book.collateral = 0n;
+}
+
+/**
+ * HEDGE_VENUE=MOCK: an in-memory short, priced from the hedge pool. Nothing is sent and the
+ * margin is virtual (the wallet keeps its USDC), so the hedging logic can run locally or in
+ * tests against any venue parameters.
+ */
+export class MockVenue extends MarginHedgeVenue {
+    readonly name = "Mock";
+    readonly borrowsBase = false;
+
+    constructor(
+        wallet: ethers.Wallet,
+        private fundingApr: number = MOCK_VENUE_FUNDING_APR,
+        private maintenanceMargin: number = MOCK_VENUE_MAINTENANCE_MARGIN
+    ) {
+        super(wallet);
+    }
+
+    async getShortSize(): Promise<bigint> {
+        return book.short;
+    }
+
+    async getCollateralUsdc(): Promise<bigint> {
+        return book.collateral;
+    }
+
+    async getCollateralFactor(): Promise<number> {
+        return 1 / this.maintenanceMargin;
+    }
+
+    async getMarginHealth(): Promise<number> {
+        return this.healthFromMargin(
+            book.short,
+            book.collateral,
+            1 / this.maintenanceMargin
+        );
+    }
+
+    async getCarryApr(): Promise<number> {
+        return this.fundingApr;
+    }
+
+    async supplyCollateral(amountUsdc: bigint) {
+        console.log(
+            `   [Mock] Depositing ${ethers.formatUnits(amountUsdc, 6)} USDC margin`
+        );
+        book.collateral += amountUsdc;
+    }
+
+    async withdrawCollateral(amountUsdc: bigint) {
+        const amount =
+            amountUsdc < book.collateral ? amountUsdc : book.collateral;
+        console.log(
+            `   [Mock] Withdrawing ${ethers.formatUnits(amount, 6)} USDC margin`
+        );
+        book.collateral -= amount;
+    }
+
+    async increaseShort(amountEth: bigint, lpTokenId: string = "0") {
+        await this.topUpCollateral(amountEth, lpTokenId);
+        book.short += amountEth;
+        console.log(
+            `   [Mock] OPEN SHORT: ${ethers.formatEther(amountEth)} ETH (now ${ethers.formatEther(book.short)})`
+        );
+    }
+
+    async decreaseShort(amountEth: bigint, force: boolean = false) {
+        const amount = force || amountEth > book.short ? book.short : amountEth;
+        book.short -= amount;
+        console.log(
+            `   [Mock] CLOSE SHORT: ${ethers.formatEther(amount)} ETH (now ${ethers.formatEther(book.short)})`
+        );
+    }
+}
@@ -0,0 +1,317 @@
+import { ethers } from "ethers";
+
+// Loaded by config.ts, so nothing here may import it
+const DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+
+export interface TokenSpec {
+    address: string;
+    decimals: number;
+    symbol: string;
+    name: string;
+}
+
+// Chain data the bot needs, selected with NETWORK
+export interface NetworkProfile {
+    name: string;
+    chainId: number;
+    tokens: {
+        WETH: TokenSpec;
+        USDC: TokenSpec;
+        ARB?: TokenSpec;
+    };
+    uniswap: {
+        factory: string;
+        positionManager: string;
+        swapRouter: string;
+        swapRouter02: boolean; // SwapRouter02: swap params have no deadline
+        quoter: string; // QuoterV2
+    };
+    // null: no Aave V3 market for these tokens. The bot runs LP-only (no hedge).
+    aave: {
+        pool: string;
+        oracle: string;
+        wethDebtToken: string; // Variable debt WETH
+    } | null;
+}
+
+const WETH: Omit<TokenSpec, "address"> = {
+    decimals: 18,
+    symbol: "WETH",
+    name: "Wrapped Ether",
+};
+const USDC: Omit<TokenSpec, "address"> = {
+    decimals: 6,
+    symbol: "USDC",
+    name: "USD Coin",
+};
+
+// https://docs.uniswap.org/contracts/v3/reference/deployments/ (same on Ethereum, Arbitrum, Optimism, Polygon)
+const UNISWAP_CANONICAL: NetworkProfile["uniswap"] = {
+    factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+    positionManager: "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+    swapRouter: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+    swapRouter02: false,
+    quoter: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e",
+};
+
+const ARBITRUM: NetworkProfile = {
+    // https://docs.arbitrum.io/for-devs/dev-tools-and-resources/chain-info
+    name: "Arbitrum One",
+    chainId: 42161,
+    tokens: {
+        // https://arbiscan.io/token/0x82af49447d8a07e3bd95bd0d56f35241523fbab1
+        WETH: {
+            ...WETH,
+            address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+        },
+        // https://arbiscan.io/token/0xaf88d065e77c8cc2239327c5edb3a432268e5831
+        USDC: {
+            ...USDC,
+            address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+        },
+        // https://arbiscan.io/token/0x912ce59144191c1204e64559fe8253a0e49e6548
+        ARB: {
+            address: "0x912CE59144191C1204E64559FE8253a0e49E6548",
+            decimals: 18,
+            symbol: "ARB",
+            name: "Arbitrum",
+        },
+    },
+    uniswap: UNISWAP_CANONICAL,
+    // https://aave.com/docs/resources/addresses (Aave V3 Arbitrum)
+    aave: {
+        pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+        oracle: "0xb56c2F0B653B2e0b10C9b928C8580Ac5Df02C7C7",
+        wethDebtToken: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
+    },
+};
+
+// Selected with NETWORK=<key>
+export const NETWORKS: Record<string, NetworkProfile> = {
+    ARBITRUM,
+    MAINNET: ARBITRUM, // The name Arbitrum One had before other chains were supported
+    ETHEREUM: {
+        name: "Ethereum",
+        chainId: 1,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+            },
+            USDC: {
+                ...USDC,
+                address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+            },
+        },
+        uniswap: UNISWAP_CANONICAL,
+        aave: {
+            pool: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2",
+            oracle: "0x54586bE62E3c3580375aE3723C145253060Ca0C2",
+            wethDebtToken: "0xeA51d7853EEFb32b6ee06b1C12E6dcCA88Be0fFE",
+        },
+    },
+    OPTIMISM: {
+        name: "OP Mainnet",
+        chainId: 10,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0x4200000000000000000000000000000000000006",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+            }, // Native USDC
+        },
+        uniswap: UNISWAP_CANONICAL,
+        aave: {
+            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+            oracle: "0xD81eb3728a631871a7eBBaD631b5f424909f0c77",
+            wethDebtToken: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
+        },
+    },
+    BASE: {
+        name: "Base",
+        chainId: 8453,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0x4200000000000000000000000000000000000006",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+            },
+        },
+        uniswap: {
+            factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+            positionManager: "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1",
+            swapRouter: "0x2626664c2603336E57B271c5C0b26F421741e481",
+            swapRouter02: true,
+            quoter: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+        },
+        aave: {
+            pool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5",
+            oracle: "0x2Cc0Fc26eD4563A5ce5e8bdcfe1A2878676Ae156",
+            wethDebtToken: "0x24e6e0795b3c7c71D965fCc4f371803d1c1DcA1E",
+        },
+    },
+    POLYGON: {
+        // Gas is paid in POL; the ledger still values gas at the ETH price
+        name: "Polygon PoS",
+        chainId: 137,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+            }, // Native USDC
+        },
+        uniswap: UNISWAP_CANONICAL,
+        aave: {
+            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+            oracle: "0xb023e699F5a33916Ea823A16485e259257cA8Bd1",
+            wethDebtToken: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
+        },
+    },
+
+    // Testnets: Aave's testnet markets list their own faucet tokens, not these, so they run LP-only
+    SEPOLIA: {
+        name: "Sepolia",
+        chainId: 11155111,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+            },
+        },
+        uniswap: {
+            factory: "0x0227628f3F023bb0B980b67D528571c95c6DaC1c",
+            positionManager: "0x1238536071E1c677A632429e3655c799b22cDA52",
+            swapRouter: "0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E",
+            swapRouter02: true,
+            quoter: "0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3",
+        },
+        aave: null,
+    },
+    ARBITRUM_SEPOLIA: {
+        name: "Arbitrum Sepolia",
+        chainId: 421614,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0x980B62Da83eFf3D4576C647993b0c1D7faf17c73",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+            },
+        },
+        uniswap: {
+            factory: "0x248AB79Bbb9bC29bB72f7Cd42F17e054Fc40188e",
+            positionManager: "0x6b2937Bde17889EDCf8fbD8dE31C3C2a70Bc4d65",
+            swapRouter: "0x101F443B4d1b059569D643917553c771E1b9663E",
+            swapRouter02: true,
+            quoter: "0x2779a0CC1c3e0E44D2542EC3e79e3864Ae93Ef0B",
+        },
+        aave: null,
+    },
+    BASE_SEPOLIA: {
+        name: "Base Sepolia",
+        chainId: 84532,
+        tokens: {
+            WETH: {
+                ...WETH,
+                address: "0x4200000000000000000000000000000000000006",
+            },
+            USDC: {
+                ...USDC,
+                address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+            },
+        },
+        uniswap: {
+            factory: "0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24",
+            positionManager: "0x27F971cb582BF9E50F397e4d29a5C7A34f11faA2",
+            swapRouter: "0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4",
+            swapRouter02: true,
+            quoter: "0xC5290058841028F1614F3A6F0F5816cAd0df5E27",
+        },
+        aave: null,
+    },
+};
+
+// Every contract address of a profile, labelled for error messages
+export function profileAddresses(profile: NetworkProfile): [string, string][] {
+    return [
+        ...Object.entries(profile.tokens).map(
+            ([symbol, t]) =>
+                [`tokens.${symbol}`, t!.address] as [string, string]
+        ),
+        ...Object.entries(profile.uniswap)
+            .filter(([, a]) => typeof a === "string")
+            .map(([k, a]) => [`uniswap.${k}`, a] as [string, string]),
+        ...Object.entries(profile.aave ?? {}).map(
+            ([k, a]) => [`aave.${k}`, a] as [string, string]
+        ),
+    ];
+}
+
+/**
+ * Compare the profile with the chain behind `provider`: chain id, a contract at every address
+ * and token decimals. Throws with every mismatch found.
+ */
+export async function verifyNetwork(
+    provider: ethers.Provider,
+    networkName: string,
+    profile: NetworkProfile
+) {
+    const errors: string[] = [];
+
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== profile.chainId) {
+        errors.push(
+            `RPC is on chain ${chainId}, ${networkName} is ${profile.name} (${profile.chainId})`
+        );
+    } else {
+        for (const [label, address] of profileAddresses(profile)) {
+            if ((await provider.getCode(address)) === "0x") {
+                errors.push(`${label}: no contract at ${address}`);
+            }
+        }
+        for (const [symbol, token] of Object.entries(profile.tokens)) {
+            const erc20 = new ethers.Contract(
+                token!.address,
+                DECIMALS_ABI,
+                provider
+            );
+            try {
+                const decimals = Number(await erc20.decimals());
+                if (decimals !== token!.decimals) {
+                    errors.push(
+                        `tokens.${symbol}: ${decimals} decimals on chain, ${token!.decimals} configured`
+                    );
+                }
+            } catch (e) {
+                errors.push(
+                    `tokens.${symbol}: decimals() failed (${(e as Error).message})`
+                );
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(
+            `${networkName} does not match the chain:\n - ${errors.join("\n - ")}`
+        );
+    }
+    console.log(
+        `[Config] Verified ${profile.name} contracts and token decimals.`
+    );
+}
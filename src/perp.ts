@@ -0,0 +1,205 @@
+import { ethers } from "ethers";
+
+import {
+    PERP_ADAPTER_ADDR,
+    PERP_ADAPTER_ABI,
+    USDC_TOKEN,
+    SLIPPAGE_TOLERANCE,
+    AAVE_TARGET_HEALTH_FACTOR,
+} from "../config";
+
+import { MarginHedgeVenue } from "./hedge";
+import { alert } from "./alerter";
+import { withRetry } from "./utils";
+import { getEthPrice, parseTokenReceived, recordLedgerEntry } from "./ledger";
+
+/**
+ * HEDGE_VENUE=PERP: a USDC-margined ETH short on a perpetual futures exchange, through an adapter
+ * contract with the generic interface of PERP_ADAPTER_ABI (wrapping GMX or any other venue).
+ * Nothing is borrowed, so the LP's ETH is bought in full. Health is margin over maintenance margin.
+ */
+export class PerpVenue extends MarginHedgeVenue {
+    readonly name = "Perp";
+    readonly borrowsBase = false;
+    private adapter: ethers.Contract;
+
+    constructor(wallet: ethers.Wallet) {
+        super(wallet);
+        this.adapter = new ethers.Contract(
+            PERP_ADAPTER_ADDR,
+            PERP_ADAPTER_ABI,
+            wallet
+        );
+    }
+
+    // --- Info Getters ---
+
+    async getShortSize(): Promise<bigint> {
+        return withRetry(() => this.adapter.shortSize(this.wallet.address));
+    }
+
+    // Margin including the short's unrealised PnL
+    async getCollateralUsdc(): Promise<bigint> {
+        return withRetry(() => this.adapter.collateral(this.wallet.address));
+    }
+
+    async getCollateralFactor(): Promise<number> {
+        const bps: bigint = await withRetry(() =>
+            this.adapter.maintenanceMarginBps()
+        );
+        return 10_000 / Number(bps);
+    }
+
+    async getMarginHealth(): Promise<number> {
+        const [short, collateral, factor] = await Promise.all([
+            this.getShortSize(),
+            this.getCollateralUsdc(),
+            this.getCollateralFactor(),
+        ]);
+        return this.healthFromMargin(short, collateral, factor);
+    }
+
+    // Funding paid by shorts (negative: shorts are paid)
+    async getCarryApr(): Promise<number> {
+        const bps: bigint = await withRetry(() =>
+            this.adapter.fundingRateBps()
+        );
+        return Number(bps) / 10_000;
+    }
+
+    // Worst acceptable fill (USDC per ETH) around the hedge pool price
+    private async priceLimit(
+        opening: boolean,
+        force: boolean = false
+    ): Promise<bigint> {
+        const ethPrice = await getEthPrice(this.wallet);
+        const tolerance = force
+            ? 0.05
+            : Number(SLIPPAGE_TOLERANCE.numerator.toString()) /
+              Number(SLIPPAGE_TOLERANCE.denominator.toString());
+        const limit = opening
+            ? ethPrice * (1 - tolerance)
+            : ethPrice * (1 + tolerance);
+        return ethers.parseUnits(
+            limit.toFixed(USDC_TOKEN.decimals),
+            USDC_TOKEN.decimals
+        );
+    }
+
+    // --- Collateral Management ---
+
+    async supplyCollateral(amountUsdc: bigint, lpTokenId: string = "0") {
+        console.log(
+            `   [Perp] Depositing ${ethers.formatUnits(amountUsdc, 6)} USDC margin...`
+        );
+        const receipt = await this.executor.send(
+            this.adapter,
+            "depositCollateral",
+            [amountUsdc]
+        );
+        await recordLedgerEntry(this.wallet, "SUPPLY", receipt, {
+            tokenId: lpTokenId,
+            amountUsdc: amountUsdc.toString(),
+            note: "PERP",
+        });
+    }
+
+    async withdrawCollateral(amountUsdc: bigint, lpTokenId: string = "0") {
+        const amount =
+            amountUsdc === ethers.MaxUint256
+                ? await this.getCollateralUsdc()
+                : amountUsdc;
+        console.log(
+            `   [Perp] Withdrawing ${ethers.formatUnits(amount, 6)} USDC margin...`
+        );
+        const receipt = await this.executor.send(
+            this.adapter,
+            "withdrawCollateral",
+            [amount]
+        );
+        const withdrawn = parseTokenReceived(
+            receipt,
+            USDC_TOKEN,
+            this.wallet.address
+        );
+        await recordLedgerEntry(this.wallet, "WITHDRAW", receipt, {
+            tokenId: lpTokenId,
+            amountUsdc: withdrawn.toString(),
+            note: "PERP",
+        });
+    }
+
+    // --- Short ---
+
+    async increaseShort(amountEth: bigint, lpTokenId: string = "0") {
+        // Margin for the new size first, so health is still at target once it is open
+        await this.topUpCollateral(amountEth, lpTokenId);
+
+        const hf = await this.getMarginHealth();
+        if (hf < AAVE_TARGET_HEALTH_FACTOR) {
+            console.warn(
+                `   [Perp] Margin health low (${hf.toFixed(2)}). Skipping short.`
+            );
+            await alert(
+                "warn",
+                "Hedge Warning",
+                `Perp margin health low (${hf}). Skipping short.`,
+                "hedge-borrow-skipped"
+            );
+            return;
+        }
+
+        console.log(
+            `   [Perp] OPEN SHORT: ${ethers.formatEther(amountEth)} ETH...`
+        );
+        const sizeBefore = await this.getShortSize();
+        const receipt = await this.executor.send(
+            this.adapter,
+            "increaseShort",
+            [amountEth, await this.priceLimit(true)]
+        );
+        const sizeAfter = await this.getShortSize();
+        await recordLedgerEntry(this.wallet, "PERP", receipt, {
+            tokenId: lpTokenId,
+            amountEth: (sizeAfter - sizeBefore).toString(),
+            note: "HEDGE",
+        });
+        console.log(
+            `   [Perp] Short Increased: ${ethers.formatEther(sizeAfter)} ETH.`
+        );
+    }
+
+    // `force` closes the whole short with a 5% price limit
+    async decreaseShort(
+        amountEth: bigint,
+        force: boolean = false,
+        lpTokenId: string = "0"
+    ) {
+        console.log(
+            `   [Perp] CLOSE SHORT: ${force ? "all" : ethers.formatEther(amountEth)} ETH...`
+        );
+        try {
+            const sizeBefore = await this.getShortSize();
+            const receipt = await this.executor.send(
+                this.adapter,
+                "decreaseShort",
+                [
+                    force ? ethers.MaxUint256 : amountEth,
+                    await this.priceLimit(false, force),
+                ]
+            );
+            const sizeAfter = await this.getShortSize();
+            await recordLedgerEntry(this.wallet, "PERP", receipt, {
+                tokenId: lpTokenId,
+                amountEth: (sizeAfter - sizeBefore).toString(),
+                note: "HEDGE",
+            });
+            console.log(
+                `   [Perp] Short Decreased: ${ethers.formatEther(sizeAfter)} ETH.`
+            );
+        } catch (e) {
+            console.error("   [Perp] Decrease failed:", e);
+            await alert("critical", "[Perp] Decrease Failed", String(e));
+        }
+    }
+}
@@ -0,0 +1,280 @@
+import { ethers } from "ethers";
+import { Pool, Position, TickMath } from "@uniswap/v3-sdk";
+import { Token } from "@uniswap/sdk-core";
+
+import { WETH_TOKEN, USDC_TOKEN } from "../config";
+
+export interface PlanParams {
+    base: Token; // Volatile token of the pool (quote is USDC)
+    hedgeRatio: number; // Share of the LP's base leg shorted (0 = unhedged)
+    borrowsBase?: boolean; // The short is a WETH borrow that funds the LP (Aave, the default)
+    targetHf: number;
+    liquidationThreshold: number; // Venue collateral factor, Aave: USDC reserve LT (0.78 = 78%)
+}
+
+// Target allocation (raw amounts)
+export interface CapitalPlan {
+    price: number; // USDC per base token used for the plan
+    budgetUsd: number;
+    lpBase: bigint;
+    lpQuote: bigint;
+    collateralUsdc: bigint;
+    debtEth: bigint;
+}
+
+const UNIT_LIQUIDITY = "1000000000000000000";
+
+const toUsdcRaw = (n: number) =>
+    ethers.parseUnits(n.toFixed(USDC_TOKEN.decimals), USDC_TOKEN.decimals);
+
+// USDC collateral that keeps HF at `targetHf` for `debtEth` of WETH debt at `ethPrice`
+export function requiredCollateralUsdc(
+    debtEth: bigint,
+    ethPrice: number,
+    targetHf: number,
+    liquidationThreshold: number
+): bigint {
+    const debtUsd =
+        parseFloat(ethers.formatUnits(debtEth, WETH_TOKEN.decimals)) * ethPrice;
+    return toUsdcRaw((targetHf * debtUsd) / liquidationThreshold);
+}
+
+/**
+ * Split a USD budget between the LP position and Aave collateral.
+ *
+ * A share r of the LP's base leg is borrowed (debt = r * lpBase), the rest is bought with the budget:
+ *   budget     = lpQuote + (1 - r) * lpBase * price + collateral
+ *   collateral = targetHf * r * lpBase * price / LT
+ * and lpQuote / lpBase is fixed by the range and current price.
+ * A short that doesn't borrow (perp) leaves the whole base leg to be bought.
+ * Unhedged (r = 0), the whole budget goes into the LP.
+ */
+export function planCapitalAllocation(
+    pool: Pool,
+    tickLower: number,
+    tickUpper: number,
+    budgetUsd: number,
+    params: PlanParams
+): CapitalPlan {
+    const baseIsToken0 = pool.token0.equals(params.base);
+    const price = parseFloat(
+        (baseIsToken0 ? pool.token0Price : pool.token1Price).toSignificant(12)
+    );
+
+    if (budgetUsd <= 0) {
+        throw new Error(
+            `Capital budget is not positive ($${budgetUsd.toFixed(2)}). Cannot plan allocation.`
+        );
+    }
+
+    // Token amounts held by one unit of liquidity in this range at the current price
+    const unit = new Position({
+        pool,
+        liquidity: UNIT_LIQUIDITY,
+        tickLower,
+        tickUpper,
+    });
+    const amount0 = parseFloat(unit.amount0.toExact());
+    const amount1 = parseFloat(unit.amount1.toExact());
+    const basePerUnit = baseIsToken0 ? amount0 : amount1;
+    const quotePerUnit = baseIsToken0 ? amount1 : amount0;
+
+    const r = params.hedgeRatio;
+    const collateralPerUnit =
+        (params.targetHf * r * basePerUnit * price) /
+        params.liquidationThreshold;
+    // The part of the base leg that isn't borrowed is bought with the budget
+    const bought = params.borrowsBase === false ? 1 : 1 - r;
+    const costPerUnit =
+        quotePerUnit + bought * basePerUnit * price + collateralPerUnit;
+
+    const units = budgetUsd / costPerUnit;
+    const lpBase = basePerUnit * units;
+
+    const toBaseRaw = (n: number) =>
+        ethers.parseUnits(
+            n.toFixed(params.base.decimals),
+            params.base.decimals
+        );
+
+    return {
+        price,
+        budgetUsd,
+        lpBase: toBaseRaw(lpBase),
+        lpQuote: toUsdcRaw(quotePerUnit * units),
+        collateralUsdc: r > 0 ? toUsdcRaw(collateralPerUnit * units) : 0n,
+        debtEth: r > 0 ? toBaseRaw(lpBase * r) : 0n,
+    };
+}
+
+// Output of swapping `amountIn` in the pool, and the pool price it leaves behind
+export interface SwapQuote {
+    amountOut: bigint;
+    sqrtPriceX96After: bigint;
+}
+
+export type SwapQuoter = (
+    zeroForOne: boolean,
+    amountIn: bigint
+) => Promise<SwapQuote>;
+
+// Swap that leaves a deposit in the ratio its range needs at the post-swap price (raw amounts)
+export interface RangeSwap {
+    zeroForOne: boolean;
+    amountIn: bigint;
+    amountOut: bigint; // As quoted
+    amount0After: bigint;
+    amount1After: bigint;
+}
+
+const Q96 = 2 ** 96;
+
+const toSqrtPrice = (sqrtX96: { toString(): string }) =>
+    Number(sqrtX96.toString()) / Q96;
+
+/**
+ * Quote from the pool's state alone: the swap is assumed to stay within the liquidity of the
+ * current tick (no crossings). Net of the pool fee, so only the impact beyond the tick is missed.
+ */
+export function estimateSwapInTick(
+    pool: Pool,
+    zeroForOne: boolean,
+    amountIn: bigint
+): SwapQuote {
+    const sqrtP = toSqrtPrice(pool.sqrtRatioX96);
+    const liquidity = Number(pool.liquidity.toString());
+    const amountNet = Number(amountIn) * (1 - pool.fee / 1_000_000);
+
+    let sqrtAfter = sqrtP;
+    let amountOut: number;
+    if (liquidity === 0) {
+        amountOut = zeroForOne
+            ? amountNet * sqrtP * sqrtP
+            : amountNet / (sqrtP * sqrtP);
+    } else if (zeroForOne) {
+        // 1/sqrtP grows by amountIn / L
+        sqrtAfter = liquidity / (liquidity / sqrtP + amountNet);
+        amountOut = liquidity * (sqrtP - sqrtAfter);
+    } else {
+        // sqrtP grows by amountIn / L
+        sqrtAfter = sqrtP + amountNet / liquidity;
+        amountOut = liquidity * (1 / sqrtP - 1 / sqrtAfter);
+    }
+    return {
+        amountOut: BigInt(Math.floor(Math.max(amountOut, 0))),
+        sqrtPriceX96After: BigInt(Math.floor(sqrtAfter * Q96)),
+    };
+}
+
+// Token amounts one unit of liquidity holds in [sqrtA, sqrtB] at sqrtP
+function unitAmounts(sqrtP: number, sqrtA: number, sqrtB: number) {
+    const p = Math.min(Math.max(sqrtP, sqrtA), sqrtB);
+    return { amount0: (sqrtB - p) / (p * sqrtB), amount1: p - sqrtA };
+}
+
+// What a range can't take of (amount0, amount1) at sqrtP, in token0: > 0 token0 is left over,
+// < 0 token1 is (valued at sqrtP)
+function leftoverInToken0(
+    sqrtP: number,
+    sqrtA: number,
+    sqrtB: number,
+    amount0: number,
+    amount1: number
+): number {
+    const price = sqrtP * sqrtP;
+    const unit = unitAmounts(sqrtP, sqrtA, sqrtB);
+    if (unit.amount1 === 0) return -amount1 / price; // Below the range: token0 only
+    if (unit.amount0 === 0) return amount0; // Above the range: token1 only
+
+    const units0 = amount0 / unit.amount0;
+    const units1 = amount1 / unit.amount1;
+    return units0 > units1
+        ? amount0 - units1 * unit.amount0
+        : -(amount1 - units0 * unit.amount1) / price;
+}
+
+/**
+ * Solve the swap that lets `amount0`/`amount1` be minted into [tickLower, tickUpper] with
+ * nothing left over. The range's ratio is taken at the post-swap price, and every step is
+ * priced by `quote` (QuoterV2 live), so the pool fee and price impact are part of the solution.
+ * Newton steps on the leftover, kept inside the bracket that holds the solution (bisecting when
+ * a step leaves it, e.g. under heavy price impact). Returns null when there is nothing to swap.
+ */
+export async function solveRangeSwap(
+    pool: Pool,
+    tickLower: number,
+    tickUpper: number,
+    amount0: bigint,
+    amount1: bigint,
+    quote: SwapQuoter,
+    maxSteps = 6
+): Promise<RangeSwap | null> {
+    const sqrtA = toSqrtPrice(TickMath.getSqrtRatioAtTick(tickLower));
+    const sqrtB = toSqrtPrice(TickMath.getSqrtRatioAtTick(tickUpper));
+    const sqrtSpot = toSqrtPrice(pool.sqrtRatioX96);
+    const a0 = Number(amount0);
+    const a1 = Number(amount1);
+
+    const leftover0 = leftoverInToken0(sqrtSpot, sqrtA, sqrtB, a0, a1);
+    if (leftover0 === 0) return null;
+    const zeroForOne = leftover0 > 0;
+    const maxIn = zeroForOne ? a0 : a1;
+    if (maxIn <= 0) return null;
+
+    const feeFactor = 1 - pool.fee / 1_000_000;
+    // The input leg is left over below the solution and short above it
+    let low = 0;
+    let high = maxIn;
+    let amountIn = 0;
+    let quoted: SwapQuote = {
+        amountOut: 0n,
+        sqrtPriceX96After: BigInt(pool.sqrtRatioX96.toString()),
+    };
+    for (let step = 0; step <= maxSteps; step++) {
+        const sqrtP = toSqrtPrice(quoted.sqrtPriceX96After);
+        const price = sqrtP * sqrtP;
+        const out = Number(quoted.amountOut);
+        const left0 = zeroForOne
+            ? leftoverInToken0(sqrtP, sqrtA, sqrtB, a0 - amountIn, a1 + out)
+            : leftoverInToken0(sqrtP, sqrtA, sqrtB, a0 + out, a1 - amountIn);
+        const leftIn = zeroForOne ? left0 : -left0 * price;
+        if (leftIn > 0) low = amountIn;
+        else high = amountIn;
+        if (step === maxSteps || high - low < maxIn * 1e-6) break;
+
+        // Swapping d more moves d out of the input leg and ~d * rate into the output leg,
+        // which in turn needs d * rate * need more of the input leg
+        const rate =
+            amountIn > 0
+                ? out / amountIn
+                : feeFactor * (zeroForOne ? price : 1 / price);
+        const unit = unitAmounts(sqrtP, sqrtA, sqrtB);
+        const need = zeroForOne
+            ? unit.amount1 > 0
+                ? unit.amount0 / unit.amount1
+                : 0
+            : unit.amount0 > 0
+              ? unit.amount1 / unit.amount0
+              : 0;
+        let next = amountIn + leftIn / (1 + rate * need);
+        if (!(next > low && next < high)) next = (low + high) / 2;
+        if (Math.abs(next - amountIn) < maxIn * 1e-6) break;
+
+        amountIn = next;
+        quoted = await quote(zeroForOne, BigInt(Math.floor(amountIn)));
+    }
+    if (amountIn <= 0) return null;
+
+    const amountInRaw = BigInt(Math.floor(amountIn));
+    return {
+        zeroForOne,
+        amountIn: amountInRaw,
+        amountOut: quoted.amountOut,
+        amount0After: zeroForOne
+            ? amount0 - amountInRaw
+            : amount0 + quoted.amountOut,
+        amount1After: zeroForOne
+            ? amount1 + quoted.amountOut
+            : amount1 - amountInRaw,
+    };
+}
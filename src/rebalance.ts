@@ -0,0 +1,518 @@
+import { ethers } from "ethers";
+
+import { Pool } from "@uniswap/v3-sdk";
+import { CurrencyAmount } from "@uniswap/sdk-core";
+
+import {
+    BOLLINGER_PERIOD,
+    RANGE_TWAP_INTERVAL,
+    PositionConfig,
+} from "../config";
+
+import {
+    getPoolTwap,
+    getPositionPoolContract,
+    fetchPositionPool,
+    isBaseToken0,
+    isInRange,
+} from "./utils";
+import {
+    loadState,
+    getPendingRebalance,
+    recordRebalanceStarted,
+    recordRebalanceTx,
+    recordRebalanceExited,
+    recordRebalanceSwapped,
+    recordRebalanceMinted,
+    recordRebalancesHedged,
+    recordRebalanceAbandoned,
+    RebalanceJournal,
+    RebalancePhase,
+} from "./state";
+import { getAtr, getRsi, getCloses } from "./analytics";
+import {
+    createRangeStrategy,
+    widenRange,
+    adjacentRange,
+    TickRange,
+} from "./strategy";
+import { getExecutor, TxExecutor } from "./executor";
+import {
+    atomicExitPosition,
+    allocateCapital,
+    mintMaxLiquidity,
+    parseMintedTokenId,
+} from "./actions";
+import type { HedgeVenue } from "./hedge";
+import { alert } from "./alerter";
+import {
+    loadLedger,
+    recordLedgerEntry,
+    parseExitAmounts,
+    parseMintAmounts,
+} from "./ledger";
+
+// Variants chosen by the decision engine (src/decision.ts)
+export interface RebalanceOptions {
+    widthMultiplier?: number; // WIDEN: scale the strategy range around spot
+    partial?: boolean; // PARTIAL: re-mint the exited tokens next to spot, skipping swap and hedge
+    range?: TickRange; // Operator-chosen range (control API set-range): no analytics, no strategy
+}
+
+// Full Rebalancing Process: Remove Old -> Plan Range & Capital -> Swap / Hedge -> Refresh Price -> Mint New
+// Each step is journaled in the state file (see runRebalance) so a restart can resume it.
+export async function executeFullRebalance(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    configuredPool: Pool,
+    oldTokenId: string,
+    venue?: HedgeVenue, // Omit for LP-only operation (no collateral / short management)
+    options: RebalanceOptions = {}
+) {
+    console.log(
+        `[Rebalance] Starting full rebalance sequence for ${position.id}...`
+    );
+
+    // 0. TWAP Price Safety Check
+    // Prevents price manipulation via flash loans from triggering a rebalance at a bad price.
+    const poolContract = getPositionPoolContract(position, wallet);
+
+    try {
+        // Get TWAP Tick for the last 5 minutes (300 seconds)
+        const twapTick = Number(await getPoolTwap(poolContract, 300));
+        const currentTick = configuredPool.tickCurrent;
+
+        // Calculate tick difference
+        const tickDiff = Math.abs(currentTick - twapTick);
+
+        // 1% price deviation is roughly 100 ticks (Basis Points)
+        // Threshold: If Spot deviates from TWAP by more than 200 ticks (~2%), reject the trade.
+        const MAX_TICK_DEVIATION = 200;
+
+        console.log(
+            `   [Safety] Spot Tick: ${currentTick} | TWAP Tick: ${twapTick} | Diff: ${tickDiff}`
+        );
+
+        if (tickDiff > MAX_TICK_DEVIATION) {
+            const msg = `Price manipulation detected! Spot price deviates from TWAP by ${tickDiff} ticks.`;
+            await alert("warn", "TWAP Check Failed", `${position.id}: ${msg}`);
+            throw new Error(
+                `Price manipulation detected! Spot price deviates from TWAP by ${tickDiff} ticks.`
+            );
+        }
+    } catch (e) {
+        console.error("   [Safety] TWAP check failed:", e);
+        await alert(
+            "warn",
+            "TWAP Check Error",
+            `${position.id}: Error checking TWAP: ${e}`
+        );
+        throw e; // Must throw exception to stop further operations
+    }
+
+    // ============================================================
+    // RANGE CALCULATION (Pluggable Strategy)
+    // ============================================================
+    // The exit does not move the pool price, so the range is chosen up front and the capital
+    // plan is sized for it.
+    const currentPrice = parseFloat(
+        configuredPool.priceOf(position.base).toSignificant(6)
+    );
+    let tickLower: number, tickUpper: number;
+    if (options.range) {
+        ({ tickLower, tickUpper } = options.range);
+        console.log(`   [Strategy] Operator range, skipping strategy`);
+    } else {
+        ({ tickLower, tickUpper } = await planStrategyRange(
+            position,
+            configuredPool,
+            poolContract,
+            options.widthMultiplier ?? 1
+        ));
+    }
+    console.log(
+        `   New Range: [${tickLower}, ${tickUpper}] (Span: ${
+            tickUpper - tickLower
+        })`
+    );
+
+    recordRebalanceStarted(
+        position.id,
+        oldTokenId,
+        { tickLower, tickUpper },
+        currentPrice,
+        options.partial === true && oldTokenId !== "0"
+    );
+    await runRebalance(wallet, position, poolContract, venue);
+}
+
+// Range from the position's strategy and fresh market analytics, widened by `widthMultiplier`
+async function planStrategyRange(
+    position: PositionConfig,
+    configuredPool: Pool,
+    poolContract: ethers.Contract,
+    widthMultiplier: number
+): Promise<TickRange> {
+    console.log("   [Strategy] Pre-fetching market analytics...");
+    const market = {
+        symbol: position.marketSymbol,
+        pool: poolContract,
+        baseIsToken0: isBaseToken0(position.base),
+    };
+    let atr, rsi, closes, rangeTwapTick;
+    try {
+        [atr, rsi, closes, rangeTwapTick] = await Promise.all([
+            getAtr(market, "1h"),
+            getRsi(market, "1h"),
+            getCloses(market, "1h", BOLLINGER_PERIOD + 10),
+            getPoolTwap(poolContract, RANGE_TWAP_INTERVAL),
+        ]);
+        console.log(`   [Strategy] Data acquired. ATR: ${atr}, RSI: ${rsi}`);
+    } catch (e) {
+        console.error(
+            "   [Strategy] Failed to fetch market data. Aborting rebalance to keep old position safe."
+        );
+        throw e; // keep old position
+    }
+
+    const currentPrice = parseFloat(
+        configuredPool.priceOf(position.base).toSignificant(6)
+    );
+
+    const strategy = createRangeStrategy(position.strategy);
+    let range = strategy.calculateRange({
+        tick: configuredPool.tickCurrent,
+        tickSpacing: configuredPool.tickSpacing,
+        baseIsToken0: market.baseIsToken0,
+        price: currentPrice,
+        atr,
+        rsi,
+        twapTick: Number(rangeTwapTick),
+        closes,
+    });
+
+    console.log(
+        `   [Strategy] ${strategy.name} | ATR: $${atr.toFixed(2)} | RSI: ${rsi.toFixed(1)} | Price: ${currentPrice}`
+    );
+    if (widthMultiplier !== 1) {
+        range = widenRange(
+            range,
+            configuredPool.tickCurrent,
+            widthMultiplier,
+            configuredPool.tickSpacing
+        );
+        console.log(`   [Strategy] Range widened x${widthMultiplier}`);
+    }
+    return range;
+}
+
+/**
+ * Run the journaled rebalance of `position` from its current phase:
+ * PENDING_EXIT -> EXITED -> SWAPPED -> MINTED -> HEDGED.
+ * Every transaction hash is journaled when sent, and every completed step together with the
+ * position change it causes, so a crash at any point leaves a state resumeRebalance understands.
+ */
+async function runRebalance(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    poolContract: ethers.Contract,
+    venue?: HedgeVenue
+) {
+    const id = position.id;
+    let journal = getPendingRebalance(loadState(), id);
+    if (!journal) throw new Error(`No rebalance in progress for ${id}`);
+    const journalTx = (phase: RebalancePhase) => (hash: string) =>
+        recordRebalanceTx(id, phase, hash);
+
+    // 1. Exit Old Position
+    if (journal.phase === "PENDING_EXIT") {
+        const exit = await atomicExitPosition(
+            wallet,
+            journal.oldTokenId,
+            position,
+            journalTx("EXITED")
+        );
+        journal = recordRebalanceExited(id, {
+            base: exit.principalEth,
+            usdc: exit.principalUsdc,
+        });
+    }
+
+    // 2. Split capital between LP and hedge, swap to the planned ratio
+    if (journal.phase === "EXITED") {
+        if (journal.partial && journal.exitBase !== null) {
+            journal = await mintSingleSided(
+                wallet,
+                position,
+                poolContract,
+                journal,
+                venue
+            );
+        } else {
+            const { tickLower, tickUpper } = journal.range;
+            try {
+                const pool = await fetchPositionPool(position, poolContract);
+                const plan = await allocateCapital(
+                    wallet,
+                    position,
+                    pool,
+                    tickLower,
+                    tickUpper,
+                    venue,
+                    journalTx("SWAPPED")
+                );
+                journal = recordRebalanceSwapped(id, plan);
+            } catch (e) {
+                console.error("   [Rebalance] Capital allocation failed:", e);
+                await alert(
+                    "warn",
+                    "Rebalance Swap Failed",
+                    `${id}: Swap likely reverted due to Slippage or Gas: ${e}`
+                );
+                throw e;
+            }
+        }
+    }
+
+    // 3. Refresh Data (Fetch latest Price/Liquidity), then mint
+    if (journal.phase === "SWAPPED") {
+        const { tickLower, tickUpper } = journal.range;
+        console.log("   [System] Refreshing market data...");
+
+        // Need to re-fetch data because the swap above changed the pool state
+        const freshPool = await fetchPositionPool(position, poolContract);
+        const newCurrentTick = freshPool.tickCurrent;
+
+        console.log(`   [Update] Tick: ${newCurrentTick}`);
+        if (!isInRange(newCurrentTick, tickLower, tickUpper)) {
+            console.warn(
+                `   [Strategy] Price left the planned range during the swap. Minting single-sided.`
+            );
+        }
+
+        const newTokenId = await mintMaxLiquidity(
+            wallet,
+            freshPool,
+            tickLower,
+            tickUpper,
+            { base: BigInt(journal.lpBase!), usdc: BigInt(journal.lpQuote!) },
+            id,
+            journalTx("MINTED")
+        );
+        journal = recordRebalanceMinted(
+            id,
+            newTokenId,
+            journal.range,
+            journal.entryPrice,
+            venue ? await venue.getShortSize() : 0n
+        );
+    }
+
+    // 4. Hedged positions complete once the shared hedge is adjusted (index.ts); the rest are done
+    if (journal.phase === "MINTED" && !(venue && position.hedgeRatio > 0)) {
+        recordRebalancesHedged([id]);
+    }
+
+    await alert(
+        "info",
+        "Rebalance Complete",
+        `${id}: Token ${journal.newTokenId} [${journal.range.tickLower}, ${journal.range.tickUpper}]`,
+        `rebalance-${id}`
+    );
+}
+
+/**
+ * PARTIAL rebalance: an out-of-range position exits into a single token, so it can be re-minted
+ * in a range of the planned width right next to spot without a swap. Capital and the hedge are
+ * left as they are (the base exposure does not change); collected fees stay in the wallet.
+ * The new range is journaled as SWAPPED before the mint is sent, so a restart looks the mint
+ * up (see resumeRebalance) instead of minting the same tokens again.
+ */
+async function mintSingleSided(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    poolContract: ethers.Contract,
+    journal: RebalanceJournal,
+    venue?: HedgeVenue
+): Promise<RebalanceJournal> {
+    const exitBase = BigInt(journal.exitBase!);
+    const exitUsdc = BigInt(journal.exitUsdc!);
+    const pool = await fetchPositionPool(position, poolContract);
+    const price = pool.priceOf(position.base);
+    const baseValue = BigInt(
+        price
+            .quote(
+                CurrencyAmount.fromRawAmount(position.base, exitBase.toString())
+            )
+            .quotient.toString()
+    );
+    const holdsBase = baseValue > exitUsdc;
+    // Only token0: range above spot. Only token1: range below spot.
+    const side =
+        holdsBase === pool.token0.equals(position.base) ? "above" : "below";
+    const range = adjacentRange(
+        pool.tickCurrent,
+        journal.range.tickUpper - journal.range.tickLower,
+        pool.tickSpacing,
+        side
+    );
+
+    console.log(
+        `   [Partial] Re-minting ${holdsBase ? position.base.symbol : "USDC"} ${side} spot: [${range.tickLower}, ${range.tickUpper}]`
+    );
+    recordRebalanceSwapped(
+        position.id,
+        { lpBase: exitBase, lpQuote: exitUsdc },
+        range
+    );
+    const newTokenId = await mintMaxLiquidity(
+        wallet,
+        pool,
+        range.tickLower,
+        range.tickUpper,
+        { base: exitBase, usdc: exitUsdc },
+        position.id,
+        (hash) => recordRebalanceTx(position.id, "MINTED", hash)
+    );
+    return recordRebalanceMinted(
+        position.id,
+        newTokenId,
+        range,
+        parseFloat(price.toSignificant(6)),
+        venue ? await venue.getShortSize() : 0n
+    );
+}
+
+// Transactions sent for a step, including fee-bump replacements (all share one nonce)
+function stepHashes(
+    journal: RebalanceJournal,
+    phase: RebalancePhase
+): string[] {
+    return journal.txs.filter((tx) => tx.phase === phase).map((tx) => tx.hash);
+}
+
+// Burned NFTs revert on live `positions()` and read as empty in dry-run
+async function positionExists(
+    executor: TxExecutor,
+    tokenId: string
+): Promise<boolean> {
+    try {
+        const pos = await executor.getPosition(tokenId);
+        return pos.token0 !== ethers.ZeroAddress;
+    } catch {
+        return false;
+    }
+}
+
+// Ledger entry of a transaction that was mined while the bot was down (unless already recorded)
+async function recordRecoveredTx(
+    wallet: ethers.Wallet,
+    type: "EXIT" | "MINT",
+    receipt: ethers.TransactionReceipt,
+    details: Parameters<typeof recordLedgerEntry>[3]
+) {
+    if (loadLedger().some((e) => e.txHash === receipt.hash)) return;
+    await recordLedgerEntry(wallet, type, receipt, {
+        ...details,
+        note: "RECOVERED",
+    });
+}
+
+/**
+ * Continue an interrupted rebalance of `position` (no-op without one).
+ * A transaction that was sent but not journaled is looked up by hash first; an exit that never
+ * happened abandons the rebalance (the old position is intact), and a planned range that spot
+ * has left since is re-planned from scratch.
+ * In dry-run, simulated receipts are not kept: a mint sent just before a crash is minted again.
+ */
+export async function resumeRebalance(
+    wallet: ethers.Wallet,
+    position: PositionConfig,
+    venue?: HedgeVenue
+) {
+    const id = position.id;
+    let journal = getPendingRebalance(loadState(), id);
+    if (!journal) return;
+
+    console.warn(
+        `[Recovery] ${id}: resuming rebalance interrupted at ${journal.phase} (started ${new Date(journal.startedAt).toISOString()})`
+    );
+    const executor = getExecutor(wallet);
+    const poolContract = getPositionPoolContract(position, wallet);
+
+    if (journal.phase === "PENDING_EXIT") {
+        const receipt = await executor.getReceipt(
+            stepHashes(journal, "EXITED")
+        );
+        if (receipt && receipt.status === 1) {
+            const exit = parseExitAmounts(receipt, position.base);
+            await recordRecoveredTx(wallet, "EXIT", receipt, {
+                tokenId: journal.oldTokenId,
+                positionId: id,
+                amountEth: exit.principalEth.toString(),
+                amountUsdc: exit.principalUsdc.toString(),
+                feesEth: exit.feesEth.toString(),
+                feesUsdc: exit.feesUsdc.toString(),
+            });
+            journal = recordRebalanceExited(id, {
+                base: exit.principalEth,
+                usdc: exit.principalUsdc,
+            });
+        } else if (!(await positionExists(executor, journal.oldTokenId))) {
+            // Gone, but the exit amounts are unknown: a partial rebalance falls back to a full one
+            journal = recordRebalanceExited(id, null);
+        } else {
+            recordRebalanceAbandoned(
+                id,
+                `Token ${journal.oldTokenId} was not exited`
+            );
+            return;
+        }
+    }
+
+    if (journal.phase === "SWAPPED" && journal.pendingTx) {
+        const receipt = await executor.getReceipt(
+            stepHashes(journal, "MINTED")
+        );
+        if (receipt && receipt.status === 1) {
+            const tokenId = parseMintedTokenId(receipt, wallet.address);
+            const deposited = parseMintAmounts(receipt, position.base);
+            await recordRecoveredTx(wallet, "MINT", receipt, {
+                tokenId,
+                positionId: id,
+                amountEth: deposited.eth.toString(),
+                amountUsdc: deposited.usdc.toString(),
+            });
+            journal = recordRebalanceMinted(
+                id,
+                tokenId,
+                journal.range,
+                journal.entryPrice,
+                venue ? await venue.getShortSize() : 0n
+            );
+        }
+    }
+
+    // After downtime the planned range may no longer contain spot
+    if (
+        (journal.phase === "EXITED" || journal.phase === "SWAPPED") &&
+        !(journal.partial && journal.exitBase !== null)
+    ) {
+        const pool = await fetchPositionPool(position, poolContract);
+        if (
+            !isInRange(
+                pool.tickCurrent,
+                journal.range.tickLower,
+                journal.range.tickUpper
+            )
+        ) {
+            console.warn(
+                `[Recovery] ${id}: price left the planned range. Planning a new one.`
+            );
+            await executeFullRebalance(wallet, position, pool, "0", venue);
+            return;
+        }
+    }
+
+    await runRebalance(wallet, position, poolContract, venue);
+}
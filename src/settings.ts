@@ -0,0 +1,787 @@
+import * as fs from "fs";
+
+import * as path from "path";
+
+import * as yaml from "js-yaml";
+import { ethers } from "ethers";
+
+import { NETWORKS, profileAddresses } from "./networks";
+
+// Loaded by config.ts, so nothing here may import it. Names below mirror src/strategy.ts,
+// src/marketData.ts and src/alerter.ts.
+const RANGE_STRATEGIES = ["ATR_RSI", "FIXED", "BOLLINGER", "TWAP"];
+const HEDGE_VENUES = ["AAVE", "PERP", "MOCK", "NONE"];
+const CARRY_ACTIONS = ["ALERT", "REDUCE_HEDGE", "WIDEN"];
+const MARKET_DATA_PROVIDERS = ["BINANCE", "BYBIT", "OKX", "ONCHAIN", "FILE"];
+const ALERT_CHANNELS = [
+    "EMAIL",
+    "TELEGRAM",
+    "DISCORD",
+    "SLACK",
+    "WEBHOOK",
+    "FILE",
+];
+const SEVERITIES = ["info", "warn", "critical"];
+
+// Searched in the working directory when CONFIG_FILE is not set
+const CONFIG_FILES = [
+    "unibot.config.yaml",
+    "unibot.config.yml",
+    "unibot.config.json",
+];
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigError";
+    }
+}
+
+// Amounts are in human units (USDC, ETH), durations in ms unless the name says otherwise
+export interface Settings {
+    network: string; // NETWORKS key (src/networks.ts)
+    dryRun: boolean;
+    dryRunWeth: string; // Paper wallet starting balances; empty = the real wallet's
+    dryRunUsdc: string;
+    positions: string; // <id>[:<strategy>[:<share>[:<hedgeRatio>]]],...
+    trading: {
+        slippageBps: number;
+        maxRetries: number; // RPC read retries
+        deltaNeutralThresholdEth: number; // Hedge drift ignored to avoid wasting gas
+        rebalanceThresholdUsdc: number; // Smallest imbalance worth a 50/50 swap
+        rebalanceThresholdWeth: number;
+    };
+    range: {
+        strategy: string; // ATR_RSI | FIXED | BOLLINGER | TWAP
+        minWidth: number; // Ticks
+        maxWidth: number;
+        atrSafetyFactor: number; // Range radius in ATRs (a move can be several times the average)
+        rsiOverbought: number;
+        rsiOversold: number;
+        rsiSkewBearish: number; // Share of the range above spot when overbought
+        rsiSkewBullish: number; // ... when oversold
+        fixedWidth: number; // FIXED radius in ticks
+        bollingerPeriod: number;
+        bollingerStdDev: number;
+        twapInterval: number; // TWAP centre, seconds
+    };
+    decision: {
+        minProfitRatio: number; // Expected fee income / rebalance cost needed to rebalance
+        widenFactor: number; // Range width multiplier when a rebalance is deferred
+        waitMs: number; // Out of range this long before the first decision
+        maxWaitMs: number; // Rebalance regardless after this long
+        minHistory: number; // Closed positions needed to estimate fee income
+    };
+    compound: {
+        intervalMs: number; // Fee compounding checks per position; 0 disables compounding
+        minProfitRatio: number; // Uncollected fees / compounding gas needed to compound
+    };
+    carry: {
+        checkIntervalMs: number; // Hedge cost vs LP fee income checks; 0 disables them
+        minPositionAgeMs: number; // Younger positions have no meaningful fee APR yet
+        action: string; // On negative carry: ALERT | REDUCE_HEDGE | WIDEN (always alerts)
+        reducedHedgeScale: number; // REDUCE_HEDGE: hedge ratios are multiplied by this
+    };
+    marketData: {
+        providers: string[]; // Tried in order
+        dir: string; // Empty = <STATE_DIR>/market_data
+        onchainCandleSamples: number; // TWAP observations per on-chain candle
+        candleStoreMaxCandles: number;
+    };
+    circuitBreaker: {
+        priceShockThreshold: number; // %, spot vs recent prices / TWAPs
+        windowSec: number;
+        twapIntervals: number[]; // Seconds
+        cooldownMs: number; // Minimum pause
+        rearmThreshold: number; // % move still considered stable for re-arming
+    };
+    tx: {
+        timeoutMs: number; // Unconfirmed for this long: cancelled
+        bumpAfterMs: number;
+        feeBumpPct: number; // Nodes need at least 10 to accept a replacement
+        maxBumps: number;
+        maxFeeGwei: number;
+        confirmations: number;
+    };
+    alerts: {
+        channels: string[]; // <CHANNEL>[:<minimum severity>]
+        rateLimitMs: number; // Per key, info / warn only
+        dedupeMs: number; // Same key and message
+        batchMs: number; // Info alerts are batched
+        digestHourUtc: number; // -1 disables the daily digest
+    };
+    monitoring: {
+        metricsPort: number; // 0 disables /metrics and /healthz
+        healthMaxBlockAgeSec: number;
+    };
+    control: {
+        host: string;
+        port: number;
+        confirmTtlMs: number;
+        lockTimeoutMs: number; // Wait for the block handler before giving up
+    };
+    aave: {
+        targetHealthFactor: number;
+        minHealthFactor: number; // Below this the hedge panics
+        maxHealthFactor: number; // Above this excess collateral goes back to the LP
+        minCollateralChangeUsdc: number;
+    };
+    hedge: {
+        venue: string; // AAVE / PERP / MOCK / NONE; empty = AAVE where the network has a market
+        perpAdapter: string; // PERP: adapter contract address
+        mockFundingApr: number; // MOCK: yearly funding paid by the short, per notional
+        mockMaintenanceMargin: number; // MOCK: margin per notional at liquidation
+        ratio: number; // Default hedge ratio of WETH positions (0.8 = 80% of the LP's ETH shorted)
+        bandVolMultiplier: number; // Hedge band in hourly-ATR moves of the hedged gamma
+        maxBandEth: number; // Widest band (the narrowest is trading.deltaNeutralThresholdEth)
+        maxIntervalMs: number; // The hedge is checked at least this often without a price trigger
+    };
+}
+
+const DEFAULTS: Settings = {
+    network: "",
+    dryRun: false,
+    dryRunWeth: "",
+    dryRunUsdc: "",
+    positions: "WETH-USDC-3000",
+    trading: {
+        slippageBps: 50,
+        maxRetries: 3,
+        deltaNeutralThresholdEth: 0.02,
+        rebalanceThresholdUsdc: 30,
+        rebalanceThresholdWeth: 0.01,
+    },
+    range: {
+        strategy: "ATR_RSI",
+        minWidth: 500,
+        maxWidth: 4000,
+        atrSafetyFactor: 4,
+        rsiOverbought: 75,
+        rsiOversold: 25,
+        rsiSkewBearish: 0.3,
+        rsiSkewBullish: 0.7,
+        fixedWidth: 1000,
+        bollingerPeriod: 20,
+        bollingerStdDev: 2,
+        twapInterval: 1800,
+    },
+    decision: {
+        minProfitRatio: 1.5,
+        widenFactor: 2,
+        waitMs: 15 * 60 * 1000,
+        maxWaitMs: 24 * 60 * 60 * 1000,
+        minHistory: 3,
+    },
+    compound: {
+        intervalMs: 24 * 60 * 60 * 1000,
+        minProfitRatio: 3,
+    },
+    carry: {
+        checkIntervalMs: 60 * 60 * 1000,
+        minPositionAgeMs: 24 * 60 * 60 * 1000,
+        action: "ALERT",
+        reducedHedgeScale: 0.5,
+    },
+    marketData: {
+        providers: ["BINANCE", "BYBIT", "OKX", "ONCHAIN", "FILE"],
+        dir: "",
+        onchainCandleSamples: 4,
+        candleStoreMaxCandles: 1000,
+    },
+    circuitBreaker: {
+        priceShockThreshold: 10,
+        windowSec: 300,
+        twapIntervals: [60, 300, 900],
+        cooldownMs: 30 * 60 * 1000,
+        rearmThreshold: 2,
+    },
+    tx: {
+        timeoutMs: 60 * 1000,
+        bumpAfterMs: 20 * 1000,
+        feeBumpPct: 15,
+        maxBumps: 3,
+        maxFeeGwei: 50,
+        confirmations: 1,
+    },
+    alerts: {
+        channels: ["EMAIL", "TELEGRAM", "DISCORD", "SLACK", "WEBHOOK", "FILE"],
+        rateLimitMs: 15 * 60 * 1000,
+        dedupeMs: 60 * 60 * 1000,
+        batchMs: 60 * 60 * 1000,
+        digestHourUtc: 8,
+    },
+    monitoring: {
+        metricsPort: 9464,
+        healthMaxBlockAgeSec: 600,
+    },
+    control: {
+        host: "127.0.0.1",
+        port: 9465,
+        confirmTtlMs: 2 * 60 * 1000,
+        lockTimeoutMs: 5 * 60 * 1000,
+    },
+    aave: {
+        targetHealthFactor: 1.7,
+        minHealthFactor: 1.5,
+        maxHealthFactor: 2.5,
+        minCollateralChangeUsdc: 20,
+    },
+    hedge: {
+        venue: "",
+        perpAdapter: "",
+        mockFundingApr: 0.05,
+        mockMaintenanceMargin: 0.05,
+        ratio: 1,
+        bandVolMultiplier: 1,
+        maxBandEth: 0.5,
+        maxIntervalMs: 60 * 60 * 1000,
+    },
+};
+
+// Environment variable overriding each setting (named like its config.ts constant)
+const ENV: Record<string, string> = {
+    network: "NETWORK",
+    dryRun: "DRY_RUN",
+    dryRunWeth: "DRY_RUN_WETH",
+    dryRunUsdc: "DRY_RUN_USDC",
+    positions: "POSITIONS",
+    "trading.slippageBps": "SLIPPAGE_BPS",
+    "trading.maxRetries": "MAX_RETRIES",
+    "trading.deltaNeutralThresholdEth": "DELTA_NEUTRAL_THRESHOLD",
+    "trading.rebalanceThresholdUsdc": "REBALANCE_THRESHOLD_USDC",
+    "trading.rebalanceThresholdWeth": "REBALANCE_THRESHOLD_WETH",
+    "range.strategy": "RANGE_STRATEGY",
+    "range.minWidth": "RANGE_MIN_WIDTH",
+    "range.maxWidth": "RANGE_MAX_WIDTH",
+    "range.atrSafetyFactor": "ATR_SAFETY_FACTOR",
+    "range.rsiOverbought": "RSI_OVERBOUGHT",
+    "range.rsiOversold": "RSI_OVERSOLD",
+    "range.rsiSkewBearish": "RSI_SKEW_BEARISH",
+    "range.rsiSkewBullish": "RSI_SKEW_BULLISH",
+    "range.fixedWidth": "FIXED_RANGE_WIDTH",
+    "range.bollingerPeriod": "BOLLINGER_PERIOD",
+    "range.bollingerStdDev": "BOLLINGER_STD_DEV",
+    "range.twapInterval": "RANGE_TWAP_INTERVAL",
+    "decision.minProfitRatio": "REBALANCE_MIN_PROFIT_RATIO",
+    "decision.widenFactor": "REBALANCE_WIDEN_FACTOR",
+    "decision.waitMs": "REBALANCE_WAIT_MS",
+    "decision.maxWaitMs": "REBALANCE_MAX_WAIT_MS",
+    "decision.minHistory": "DECISION_MIN_HISTORY",
+    "compound.intervalMs": "COMPOUND_INTERVAL_MS",
+    "compound.minProfitRatio": "COMPOUND_MIN_PROFIT_RATIO",
+    "carry.checkIntervalMs": "CARRY_CHECK_INTERVAL_MS",
+    "carry.minPositionAgeMs": "CARRY_MIN_POSITION_AGE_MS",
+    "carry.action": "CARRY_ACTION",
+    "carry.reducedHedgeScale": "CARRY_REDUCED_HEDGE_SCALE",
+    "marketData.providers": "MARKET_DATA_PROVIDERS",
+    "marketData.dir": "MARKET_DATA_DIR",
+    "marketData.onchainCandleSamples": "ONCHAIN_CANDLE_SAMPLES",
+    "marketData.candleStoreMaxCandles": "CANDLE_STORE_MAX_CANDLES",
+    "circuitBreaker.priceShockThreshold": "PRICE_SHOCK_THRESHOLD",
+    "circuitBreaker.windowSec": "PRICE_SHOCK_WINDOW_SEC",
+    "circuitBreaker.twapIntervals": "PRICE_SHOCK_TWAP_INTERVALS",
+    "circuitBreaker.cooldownMs": "CIRCUIT_BREAKER_COOLDOWN_MS",
+    "circuitBreaker.rearmThreshold": "CIRCUIT_BREAKER_REARM_THRESHOLD",
+    "tx.timeoutMs": "TX_TIMEOUT_MS",
+    "tx.bumpAfterMs": "TX_BUMP_AFTER_MS",
+    "tx.feeBumpPct": "TX_FEE_BUMP_PCT",
+    "tx.maxBumps": "TX_MAX_BUMPS",
+    "tx.maxFeeGwei": "TX_MAX_FEE_GWEI",
+    "tx.confirmations": "TX_CONFIRMATIONS",
+    "alerts.channels": "ALERT_CHANNELS",
+    "alerts.rateLimitMs": "ALERT_RATE_LIMIT_MS",
+    "alerts.dedupeMs": "ALERT_DEDUPE_MS",
+    "alerts.batchMs": "ALERT_BATCH_MS",
+    "alerts.digestHourUtc": "ALERT_DIGEST_HOUR_UTC",
+    "monitoring.metricsPort": "METRICS_PORT",
+    "monitoring.healthMaxBlockAgeSec": "HEALTH_MAX_BLOCK_AGE_SEC",
+    "control.host": "CONTROL_HOST",
+    "control.port": "CONTROL_PORT",
+    "control.confirmTtlMs": "CONTROL_CONFIRM_TTL_MS",
+    "control.lockTimeoutMs": "CONTROL_LOCK_TIMEOUT_MS",
+    "aave.targetHealthFactor": "AAVE_TARGET_HEALTH_FACTOR",
+    "aave.minHealthFactor": "AAVE_MIN_HEALTH_FACTOR",
+    "aave.maxHealthFactor": "AAVE_MAX_HEALTH_FACTOR",
+    "aave.minCollateralChangeUsdc": "AAVE_MIN_COLLATERAL_CHANGE_USDC",
+    "hedge.venue": "HEDGE_VENUE",
+    "hedge.perpAdapter": "PERP_ADAPTER_ADDR",
+    "hedge.mockFundingApr": "MOCK_VENUE_FUNDING_APR",
+    "hedge.mockMaintenanceMargin": "MOCK_VENUE_MAINTENANCE_MARGIN",
+    "hedge.ratio": "HEDGE_RATIO",
+    "hedge.bandVolMultiplier": "HEDGE_BAND_VOL_MULTIPLIER",
+    "hedge.maxBandEth": "HEDGE_BAND_MAX_ETH",
+    "hedge.maxIntervalMs": "HEDGE_MAX_INTERVAL_MS",
+};
+
+export interface LoadedSettings {
+    settings: Settings;
+    file: string | null;
+    sources: Record<string, string>; // Setting path -> "file", "profile <NETWORK>" or "env"
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Settings sections are interfaces, which lack the index signature of a Record
+const fieldsOf = (section: object) => section as Record<string, unknown>;
+
+// Parse a file / env value into the type of the default it replaces
+function coerce(value: unknown, fallback: unknown, name: string): unknown {
+    if (Array.isArray(fallback)) {
+        const items = Array.isArray(value)
+            ? value
+            : String(value)
+                  .split(",")
+                  .map((s) => s.trim())
+                  .filter((s) => s.length > 0);
+        return items.map((item) =>
+            typeof fallback[0] === "number"
+                ? coerce(item, 0, name)
+                : String(item)
+        );
+    }
+    switch (typeof fallback) {
+        case "number": {
+            const n =
+                typeof value === "string" && value.trim() !== ""
+                    ? Number(value)
+                    : value;
+            if (typeof n !== "number" || !Number.isFinite(n)) {
+                throw new ConfigError(
+                    `${name} must be a number, got ${JSON.stringify(value)}`
+                );
+            }
+            return n;
+        }
+        case "boolean":
+            if (value === true || value === "true") return true;
+            if (value === false || value === "false") return false;
+            throw new ConfigError(
+                `${name} must be true or false, got ${JSON.stringify(value)}`
+            );
+        default:
+            if (typeof value !== "string" && typeof value !== "number") {
+                throw new ConfigError(
+                    `${name} must be a string, got ${JSON.stringify(value)}`
+                );
+            }
+            return String(value);
+    }
+}
+
+// Apply a partial settings object; unknown keys are errors (typos would otherwise be ignored)
+function merge(
+    target: object,
+    patch: Record<string, unknown>,
+    source: string,
+    sources: Record<string, string>,
+    prefix = ""
+) {
+    const fields = fieldsOf(target);
+    for (const [key, value] of Object.entries(patch)) {
+        const name = prefix + key;
+        if (!Object.prototype.hasOwnProperty.call(fields, key))
+            throw new ConfigError(`Unknown setting ${name} (${source})`);
+        const current = fields[key];
+        if (isObject(current)) {
+            if (!isObject(value))
+                throw new ConfigError(`${name} must be a section (${source})`);
+            merge(current, value, source, sources, `${name}.`);
+        } else {
+            fields[key] = coerce(value, current, name);
+            sources[name] = source;
+        }
+    }
+}
+
+// Section holding a dotted setting path, and the setting's key in it
+function locate(
+    settings: Settings,
+    name: string
+): { section: Record<string, unknown>; key: string } {
+    const keys = name.split(".");
+    let section = fieldsOf(settings);
+    for (const key of keys.slice(0, -1)) {
+        const next = section[key];
+        if (!isObject(next)) throw new Error(`No settings section for ${name}`);
+        section = next;
+    }
+    return { section, key: keys[keys.length - 1] };
+}
+
+function setPath(settings: Settings, name: string, value: unknown) {
+    const { section, key } = locate(settings, name);
+    section[key] = value;
+}
+
+export function getPath(settings: Settings, name: string): unknown {
+    const { section, key } = locate(settings, name);
+    return section[key];
+}
+
+function readConfigFile(env: NodeJS.ProcessEnv): {
+    file: string | null;
+    data: Record<string, unknown>;
+} {
+    const file = env.CONFIG_FILE
+        ? path.resolve(env.CONFIG_FILE)
+        : CONFIG_FILES.map((f) => path.resolve(f)).find((f) =>
+              fs.existsSync(f)
+          );
+    if (!file) return { file: null, data: {} };
+    if (!fs.existsSync(file))
+        throw new ConfigError(`CONFIG_FILE ${file} does not exist`);
+
+    let data: unknown;
+    try {
+        const text = fs.readFileSync(file, "utf8");
+        data = file.endsWith(".json") ? JSON.parse(text) : yaml.load(text);
+    } catch (e) {
+        throw new ConfigError(`Cannot parse ${file}: ${(e as Error).message}`);
+    }
+    if (data === undefined || data === null) data = {};
+    if (!isObject(data))
+        throw new ConfigError(`${file} must contain a mapping of settings`);
+    return { file, data };
+}
+
+// Every problem found, so one run shows the whole list
+function validate(s: Settings): string[] {
+    const errors: string[] = [];
+    const check = (ok: boolean, message: string) => {
+        if (!ok) errors.push(message);
+    };
+    const int = (v: number) => Number.isInteger(v);
+
+    const profile = NETWORKS[s.network];
+    if (!s.network) {
+        errors.push(
+            `NETWORK is not set. Available: ${Object.keys(NETWORKS).join(", ")}`
+        );
+    } else if (!profile) {
+        errors.push(
+            `Unknown network ${s.network}. Available: ${Object.keys(NETWORKS).join(", ")}`
+        );
+    } else {
+        for (const [label, address] of profileAddresses(profile)) {
+            try {
+                check(
+                    ethers.getAddress(address) !== ethers.ZeroAddress,
+                    `${s.network} ${label} is the zero address`
+                );
+            } catch {
+                errors.push(
+                    `${s.network} ${label}: invalid address or checksum ${address}`
+                );
+            }
+        }
+    }
+    for (const [name, value] of [
+        ["dryRunWeth", s.dryRunWeth],
+        ["dryRunUsdc", s.dryRunUsdc],
+    ]) {
+        check(
+            value === "" || Number(value) >= 0,
+            `${name} must be an amount, got ${value}`
+        );
+    }
+    check(s.positions.trim().length > 0, "positions is empty");
+
+    const t = s.trading;
+    check(
+        t.slippageBps > 0 && t.slippageBps <= 1000,
+        "trading.slippageBps must be in (0, 1000]"
+    );
+    check(
+        int(t.maxRetries) && t.maxRetries >= 0,
+        "trading.maxRetries must be a whole number"
+    );
+    check(
+        t.deltaNeutralThresholdEth > 0,
+        "trading.deltaNeutralThresholdEth must be positive"
+    );
+    check(
+        t.rebalanceThresholdUsdc >= 0,
+        "trading.rebalanceThresholdUsdc must not be negative"
+    );
+    check(
+        t.rebalanceThresholdWeth >= 0,
+        "trading.rebalanceThresholdWeth must not be negative"
+    );
+
+    const r = s.range;
+    check(
+        RANGE_STRATEGIES.includes(r.strategy),
+        `range.strategy must be one of ${RANGE_STRATEGIES.join(", ")}`
+    );
+    check(
+        r.minWidth > 0 && r.minWidth <= r.maxWidth,
+        "range: 0 < minWidth <= maxWidth"
+    );
+    check(r.atrSafetyFactor > 0, "range.atrSafetyFactor must be positive");
+    check(
+        0 < r.rsiOversold &&
+            r.rsiOversold < r.rsiOverbought &&
+            r.rsiOverbought < 100,
+        "range: 0 < rsiOversold < rsiOverbought < 100"
+    );
+    check(
+        0 <= r.rsiSkewBearish &&
+            r.rsiSkewBearish <= r.rsiSkewBullish &&
+            r.rsiSkewBullish <= 1,
+        "range: 0 <= rsiSkewBearish <= rsiSkewBullish <= 1"
+    );
+    check(r.fixedWidth > 0, "range.fixedWidth must be positive");
+    check(
+        int(r.bollingerPeriod) && r.bollingerPeriod >= 2,
+        "range.bollingerPeriod must be a whole number >= 2"
+    );
+    check(r.bollingerStdDev > 0, "range.bollingerStdDev must be positive");
+    check(
+        int(r.twapInterval) && r.twapInterval > 0,
+        "range.twapInterval must be whole seconds"
+    );
+
+    const d = s.decision;
+    check(
+        d.minProfitRatio >= 0,
+        "decision.minProfitRatio must not be negative"
+    );
+    check(d.widenFactor >= 1, "decision.widenFactor must be at least 1");
+    check(
+        0 <= d.waitMs && d.waitMs <= d.maxWaitMs,
+        "decision: 0 <= waitMs <= maxWaitMs"
+    );
+    check(
+        int(d.minHistory) && d.minHistory >= 0,
+        "decision.minHistory must be a whole number"
+    );
+
+    check(
+        s.compound.intervalMs >= 0,
+        "compound.intervalMs must not be negative (0 disables)"
+    );
+    check(
+        s.compound.minProfitRatio >= 1,
+        "compound.minProfitRatio must be at least 1"
+    );
+
+    const carry = s.carry;
+    check(
+        carry.checkIntervalMs >= 0,
+        "carry.checkIntervalMs must not be negative (0 disables)"
+    );
+    check(
+        carry.minPositionAgeMs >= 0,
+        "carry.minPositionAgeMs must not be negative"
+    );
+    check(
+        CARRY_ACTIONS.includes(carry.action.toUpperCase()),
+        `carry.action must be one of ${CARRY_ACTIONS.join(", ")}`
+    );
+    check(
+        carry.reducedHedgeScale >= 0 && carry.reducedHedgeScale < 1,
+        "carry.reducedHedgeScale must be at least 0 and below 1"
+    );
+
+    const m = s.marketData;
+    check(m.providers.length > 0, "marketData.providers is empty");
+    for (const p of m.providers) {
+        check(
+            MARKET_DATA_PROVIDERS.includes(p.toUpperCase()),
+            `Unknown market data provider ${p}`
+        );
+    }
+    check(
+        int(m.onchainCandleSamples) && m.onchainCandleSamples >= 1,
+        "marketData.onchainCandleSamples must be >= 1"
+    );
+    check(
+        int(m.candleStoreMaxCandles) && m.candleStoreMaxCandles >= 100,
+        "marketData.candleStoreMaxCandles must be >= 100"
+    );
+
+    const c = s.circuitBreaker;
+    check(
+        0 < c.rearmThreshold && c.rearmThreshold < c.priceShockThreshold,
+        "circuitBreaker: 0 < rearmThreshold < priceShockThreshold"
+    );
+    check(c.windowSec > 0, "circuitBreaker.windowSec must be positive");
+    check(
+        c.twapIntervals.length > 0 &&
+            c.twapIntervals.every((i) => int(i) && i > 0),
+        "circuitBreaker.twapIntervals must be whole seconds"
+    );
+    check(c.cooldownMs >= 0, "circuitBreaker.cooldownMs must not be negative");
+
+    const x = s.tx;
+    check(
+        0 < x.bumpAfterMs && x.bumpAfterMs < x.timeoutMs,
+        "tx: 0 < bumpAfterMs < timeoutMs"
+    );
+    check(
+        int(x.feeBumpPct) && x.feeBumpPct >= 10,
+        "tx.feeBumpPct must be a whole number >= 10"
+    );
+    check(
+        int(x.maxBumps) && x.maxBumps >= 0,
+        "tx.maxBumps must be a whole number"
+    );
+    check(x.maxFeeGwei > 0, "tx.maxFeeGwei must be positive");
+    check(
+        int(x.confirmations) && x.confirmations >= 1,
+        "tx.confirmations must be >= 1"
+    );
+
+    const a = s.alerts;
+    for (const spec of a.channels) {
+        const [name, severity = "info"] = spec.split(":");
+        check(
+            ALERT_CHANNELS.includes(name.toUpperCase()),
+            `Unknown alert channel ${name}`
+        );
+        check(
+            SEVERITIES.includes(severity),
+            `Invalid severity '${severity}' for alert channel ${name}`
+        );
+    }
+    check(
+        a.rateLimitMs >= 0 && a.dedupeMs >= 0 && a.batchMs >= 0,
+        "alerts: windows must not be negative"
+    );
+    check(
+        int(a.digestHourUtc) && a.digestHourUtc >= -1 && a.digestHourUtc <= 23,
+        "alerts.digestHourUtc must be -1 (off) or 0-23"
+    );
+
+    const port = (p: number) => int(p) && p >= 0 && p <= 65535;
+    check(
+        port(s.monitoring.metricsPort),
+        "monitoring.metricsPort must be 0-65535"
+    );
+    check(
+        s.monitoring.healthMaxBlockAgeSec > 0,
+        "monitoring.healthMaxBlockAgeSec must be positive"
+    );
+    check(
+        port(s.control.port) && s.control.port > 0,
+        "control.port must be 1-65535"
+    );
+    check(
+        s.control.confirmTtlMs > 0 && s.control.lockTimeoutMs > 0,
+        "control: timeouts must be positive"
+    );
+
+    const h = s.aave;
+    check(
+        1 < h.minHealthFactor &&
+            h.minHealthFactor < h.targetHealthFactor &&
+            h.targetHealthFactor < h.maxHealthFactor,
+        "aave: 1 < minHealthFactor < targetHealthFactor < maxHealthFactor"
+    );
+    check(
+        h.minCollateralChangeUsdc >= 0,
+        "aave.minCollateralChangeUsdc must not be negative"
+    );
+
+    const v = s.hedge;
+    const venue = v.venue.toUpperCase();
+    check(
+        venue === "" || HEDGE_VENUES.includes(venue),
+        `hedge.venue must be one of ${HEDGE_VENUES.join(", ")}`
+    );
+    check(
+        venue !== "AAVE" || !profile || profile.aave !== null,
+        `hedge.venue AAVE: ${s.network} has no Aave market`
+    );
+    if (venue === "PERP") {
+        let valid = false;
+        try {
+            valid = ethers.getAddress(v.perpAdapter) !== ethers.ZeroAddress;
+        } catch {
+            // Reported below
+        }
+        check(
+            valid,
+            `hedge.perpAdapter: PERP needs the adapter contract address, got "${v.perpAdapter}"`
+        );
+    }
+    check(
+        v.mockMaintenanceMargin > 0 && v.mockMaintenanceMargin < 1,
+        "hedge.mockMaintenanceMargin must be between 0 and 1"
+    );
+    check(v.ratio >= 0 && v.ratio <= 1, "hedge.ratio must be between 0 and 1");
+    check(
+        v.bandVolMultiplier >= 0,
+        "hedge.bandVolMultiplier must not be negative"
+    );
+    check(
+        v.maxBandEth >= s.trading.deltaNeutralThresholdEth,
+        "hedge.maxBandEth must be at least trading.deltaNeutralThresholdEth"
+    );
+    check(v.maxIntervalMs > 0, "hedge.maxIntervalMs must be positive");
+
+    return errors;
+}
+
+/**
+ * Effective settings: defaults, then the config file (CONFIG_FILE or unibot.config.{yaml,yml,json}),
+ * then its `profiles.<NETWORK>` section, then environment variables (see ENV).
+ * Throws a ConfigError listing every invalid value.
+ */
+export function loadSettings(
+    env: NodeJS.ProcessEnv = process.env
+): LoadedSettings {
+    const settings: Settings = structuredClone(DEFAULTS);
+    const sources: Record<string, string> = {};
+    const { file, data } = readConfigFile(env);
+    const { profiles = {}, ...base } = data;
+
+    merge(settings, base, "file", sources);
+
+    const network = env.NETWORK || settings.network;
+    if (!isObject(profiles))
+        throw new ConfigError("profiles must map network names to settings");
+    for (const name of Object.keys(profiles)) {
+        if (!NETWORKS[name])
+            throw new ConfigError(`profiles.${name}: unknown network`);
+    }
+    const profile = profiles[network];
+    if (profile !== undefined && profile !== null) {
+        if (!isObject(profile))
+            throw new ConfigError(`profiles.${network} must be a section`);
+        merge(settings, profile, `profile ${network}`, sources);
+    }
+
+    for (const [name, variable] of Object.entries(ENV)) {
+        const value = env[variable];
+        if (value === undefined || value === "") continue;
+        setPath(
+            settings,
+            name,
+            coerce(value, getPath(settings, name), variable)
+        );
+        sources[name] = `env ${variable}`;
+    }
+
+    const errors = validate(settings);
+    if (errors.length > 0) {
+        throw new ConfigError(
+            `Invalid configuration${file ? ` (${file})` : ""}:\n - ${errors.join("\n - ")}`
+        );
+    }
+    return { settings, file, sources };
+}
+
+// One row per setting, for `bot config print`
+export function describeSettings(loaded: LoadedSettings) {
+    return Object.entries(ENV).map(([name, variable]) => {
+        const value = getPath(loaded.settings, name);
+        return {
+            setting: name,
+            value: Array.isArray(value) ? value.join(",") : String(value),
+            source: loaded.sources[name] ?? "default",
+            env: variable,
+        };
+    });
+}
@@ -4,60 +4,693 @@ import * as path from "path";
 
 import { ethers } from "ethers";
 
-import { NONFUNGIBLE_POSITION_MANAGER_ADDR, NPM_ABI } from "../config";
+import {
+    DRY_RUN,
+    NONFUNGIBLE_POSITION_MANAGER_ADDR,
+    NPM_ABI,
+    POSITIONS,
+    DEFAULT_POSITION_ID,
+    PositionConfig,
+    isPositionPool,
+} from "../config";
 
+// Directory is configurable so Docker can mount a volume (single-file bind mounts break rename())
+export const STATE_DIR = process.env.STATE_DIR || process.cwd();
+// Dry runs keep their own state so paper positions never mix with real ones
+const STATE_FILE = path.join(
+    STATE_DIR,
+    DRY_RUN ? "bot_state.dry-run.json" : "bot_state.json"
+);
+const BACKUP_FILE = `${STATE_FILE}.bak`;
+const TEMP_FILE = `${STATE_FILE}.tmp`;
 
-const STATE_FILE = path.join(process.cwd(), "bot_state.json");
+export const STATE_VERSION = 4;
+
+export interface TickRangeState {
+    tickLower: number;
+    tickUpper: number;
+}
+
+// An open LP position, keyed by its PositionConfig id
+export interface PositionState {
+    tokenId: string;
+    activeRange: TickRangeState | null;
+    entryPrice: number; // USDC per base token at mint (0 = unknown, e.g. adopted orphan)
+    debtAtEntry: string; // Hedge short (WETH wei) at mint
+    openedAt: number;
+}
+
+// A closed position, kept for auditing and PnL review
+export interface PositionRecord {
+    positionId: string;
+    tokenId: string;
+    range: TickRangeState | null;
+    entryPrice: number;
+    debtAtEntry: string;
+    openedAt: number;
+    closedAt: number;
+    closeReason: string;
+}
+
+// Rebalance steps, in order. HEDGED means the rebalance is complete.
+export type RebalancePhase =
+    | "PENDING_EXIT"
+    | "EXITED"
+    | "SWAPPED"
+    | "MINTED"
+    | "HEDGED";
+
+export interface RebalanceTx {
+    phase: RebalancePhase; // Step the transaction belongs to
+    hash: string;
+    sentAt: number;
+}
+
+// Journal of a position's latest rebalance, written before and after every step so a
+// restart can resume where it stopped. Amounts are raw integer strings.
+export interface RebalanceJournal {
+    phase: RebalancePhase;
+    oldTokenId: string; // "0" for an initial mint
+    newTokenId: string | null;
+    range: TickRangeState; // Planned range
+    entryPrice: number;
+    partial: boolean; // Re-mint the exited tokens without a swap (see src/decision.ts)
+    exitBase: string | null; // Principal returned by the exit
+    exitUsdc: string | null;
+    lpBase: string | null; // Capital plan, set once SWAPPED
+    lpQuote: string | null;
+    pendingTx: string | null; // Sent, outcome not journaled yet
+    txs: RebalanceTx[];
+    startedAt: number;
+    updatedAt: number;
+}
 
 export interface BotState {
-    tokenId: string; // tokenid from my last postion mint
+    version: number;
     lastCheck: number;
+    positions: Record<string, PositionState>; // Open positions only
+    rebalances: Record<string, RebalanceJournal>; // Latest rebalance per position
+    isSafeMode: boolean;
+    lastHedgeTime: number;
+    history: PositionRecord[];
+}
+
+export class StateCorruptError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StateCorruptError";
+    }
+}
+
+const REBALANCE_PHASES: RebalancePhase[] = [
+    "PENDING_EXIT",
+    "EXITED",
+    "SWAPPED",
+    "MINTED",
+    "HEDGED",
+];
+
+function defaultState(): BotState {
+    return {
+        version: STATE_VERSION,
+        lastCheck: 0,
+        positions: {},
+        rebalances: {},
+        isSafeMode: false,
+        lastHedgeTime: 0,
+        history: [],
+    };
+}
+
+// --- Schema Migrations ---
+// Earlier file formats, only read to upgrade them from version N to N + 1.
+// The result of the last step is checked by validate().
+
+// v1: no version field
+interface StateV1 {
+    version: 1;
+    tokenId?: string | number;
+    lastCheck?: number;
+}
+
+// v2: a single position at the top level
+interface StateV2 {
+    version: 2;
+    tokenId: string;
+    lastCheck: number;
+    activeRange: TickRangeState | null;
+    entryPrice: number;
+    debtAtEntry: string;
+    openedAt: number;
+    isSafeMode: boolean;
+    lastHedgeTime: number;
+    history: Omit<PositionRecord, "positionId">[];
+}
+
+// v3: positions by id, no rebalance journal
+type StateV3 = Omit<BotState, "version" | "rebalances"> & { version: 3 };
+
+type StateV4 = Omit<BotState, "version"> & { version: typeof STATE_VERSION };
+
+type VersionedState = StateV1 | StateV2 | StateV3 | StateV4;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+function fromV1(state: StateV1): StateV2 {
+    return {
+        version: 2,
+        tokenId: String(state.tokenId ?? "0"),
+        lastCheck: Number(state.lastCheck ?? 0),
+        activeRange: null,
+        entryPrice: 0,
+        debtAtEntry: "0",
+        openedAt: 0,
+        isSafeMode: false,
+        lastHedgeTime: 0,
+        history: [],
+    };
 }
 
+// It was always the WETH/USDC 0.3% pool
+function fromV2(state: StateV2): StateV3 {
+    const { tokenId, activeRange, entryPrice, debtAtEntry, openedAt, ...rest } =
+        state;
+    return {
+        ...rest,
+        positions:
+            tokenId !== "0"
+                ? {
+                      [DEFAULT_POSITION_ID]: {
+                          tokenId,
+                          activeRange,
+                          entryPrice,
+                          debtAtEntry,
+                          openedAt,
+                      },
+                  }
+                : {},
+        history: state.history.map((record) => ({
+            positionId: DEFAULT_POSITION_ID,
+            ...record,
+        })),
+        version: 3,
+    };
+}
+
+function fromV3(state: StateV3): StateV4 {
+    return { ...state, rebalances: {}, version: 4 };
+}
+
+function migrate(raw: unknown): { state: unknown; migrated: boolean } {
+    if (!isRecord(raw)) {
+        throw new StateCorruptError("State file failed schema validation.");
+    }
+    const version = typeof raw.version === "number" ? raw.version : 1;
+
+    if (version > STATE_VERSION) {
+        throw new StateCorruptError(
+            `State file version ${version} is newer than supported version ${STATE_VERSION}.`
+        );
+    }
+    if (!Number.isInteger(version) || version < 1) {
+        throw new StateCorruptError(
+            `No migration from state version ${version}.`
+        );
+    }
+
+    // Each version's own fields are read defensively by its step
+    let state = { ...raw, version } as VersionedState;
+    const migrated = state.version < STATE_VERSION;
+    while (state.version !== STATE_VERSION) {
+        console.log(
+            `[State] Migrating state v${state.version} -> v${state.version + 1}`
+        );
+        switch (state.version) {
+            case 1:
+                state = fromV1(state);
+                break;
+            case 2:
+                state = fromV2(state);
+                break;
+            case 3:
+                state = fromV3(state);
+                break;
+        }
+    }
+    return { state, migrated };
+}
+
+function validate(state: unknown): BotState {
+    const isRange = (r: unknown) =>
+        r === null ||
+        (isRecord(r) &&
+            Number.isInteger(r.tickLower) &&
+            Number.isInteger(r.tickUpper));
+
+    const isPosition = (p: unknown) =>
+        isRecord(p) &&
+        typeof p.tokenId === "string" &&
+        /^\d+$/.test(p.tokenId) &&
+        typeof p.debtAtEntry === "string" &&
+        isRange(p.activeRange);
+
+    const isJournal = (j: unknown) =>
+        isRecord(j) &&
+        REBALANCE_PHASES.some((phase) => phase === j.phase) &&
+        typeof j.oldTokenId === "string" &&
+        isRange(j.range) &&
+        j.range !== null &&
+        Array.isArray(j.txs);
+
+    if (
+        !isRecord(state) ||
+        !isRecord(state.positions) ||
+        !Object.values(state.positions).every(isPosition) ||
+        !isRecord(state.rebalances) ||
+        !Object.values(state.rebalances).every(isJournal) ||
+        typeof state.isSafeMode !== "boolean" ||
+        !Array.isArray(state.history)
+    ) {
+        throw new StateCorruptError("State file failed schema validation.");
+    }
+    return state as unknown as BotState;
+}
+
+/**
+ * Load the persisted state, migrating older versions in place.
+ * A missing file means a fresh install. A corrupt file throws StateCorruptError:
+ * assuming "no position" could mint a second position next to a live one.
+ */
 export function loadState(): BotState {
+    if (!fs.existsSync(STATE_FILE)) {
+        return defaultState();
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(STATE_FILE, "utf8"));
+    } catch (e) {
+        throw new StateCorruptError(
+            `Corrupt state file ${STATE_FILE} (${(e as Error).message}). ` +
+                `Verify on-chain positions and restore ${BACKUP_FILE} manually.`
+        );
+    }
+
+    const { state, migrated } = migrate(raw);
+    const valid = validate(state);
+    if (migrated) writeStateFile(valid);
+    return valid;
+}
+
+// Atomic write: temp file + fsync + rename, keeping the previous file as a backup.
+function writeStateFile(state: BotState) {
+    fs.mkdirSync(STATE_DIR, { recursive: true });
+
+    const fd = fs.openSync(TEMP_FILE, "w");
+    try {
+        fs.writeSync(fd, JSON.stringify(state, null, 2));
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+
     if (fs.existsSync(STATE_FILE)) {
-        try {
-            return JSON.parse(fs.readFileSync(STATE_FILE, "utf8"));
-        } catch (e) {
-            console.error("[System] Corrupt state file. Resetting.");
+        fs.copyFileSync(STATE_FILE, BACKUP_FILE);
+    }
+    fs.renameSync(TEMP_FILE, STATE_FILE);
+}
+
+export function saveState(state: BotState) {
+    writeStateFile({ ...state, version: STATE_VERSION, lastCheck: Date.now() });
+}
+
+export function updateState(patch: Partial<BotState>): BotState {
+    const state = { ...loadState(), ...patch };
+    saveState(state);
+    return state;
+}
+
+// A configured position with a live NFT
+export interface ActivePosition {
+    config: PositionConfig;
+    tokenId: string;
+}
+
+// Token ID of a configured position ("0" when it has no open position)
+export function getPositionTokenId(
+    state: BotState,
+    positionId: string
+): string {
+    return state.positions[positionId]?.tokenId ?? "0";
+}
+
+// Open positions that are still configured, in POSITIONS order
+export function getActivePositions(
+    state: BotState = loadState()
+): ActivePosition[] {
+    return POSITIONS.filter((config) => state.positions[config.id]).map(
+        (config) => ({
+            config,
+            tokenId: state.positions[config.id].tokenId,
+        })
+    );
+}
+
+function openPosition(
+    state: BotState,
+    positionId: string,
+    tokenId: string,
+    range: TickRangeState | null,
+    entryPrice: number,
+    debtAtEntry: bigint
+) {
+    state.positions[positionId] = {
+        tokenId,
+        activeRange: range,
+        entryPrice,
+        debtAtEntry: debtAtEntry.toString(),
+        openedAt: Date.now(),
+    };
+}
+
+// Move the position into history and clear it
+function closePosition(state: BotState, positionId: string, reason: string) {
+    const position = state.positions[positionId];
+    if (!position) return;
+
+    state.history.push({
+        positionId,
+        tokenId: position.tokenId,
+        range: position.activeRange,
+        entryPrice: position.entryPrice,
+        debtAtEntry: position.debtAtEntry,
+        openedAt: position.openedAt,
+        closedAt: Date.now(),
+        closeReason: reason,
+    });
+    delete state.positions[positionId];
+}
+
+export function recordPositionOpened(
+    positionId: string,
+    tokenId: string,
+    range: TickRangeState | null,
+    entryPrice: number,
+    debtAtEntry: bigint
+) {
+    const state = loadState();
+    openPosition(state, positionId, tokenId, range, entryPrice, debtAtEntry);
+    saveState(state);
+    console.log(`[System] State saved: ${positionId} Token ID ${tokenId}`);
+}
+
+export function recordPositionClosed(positionId: string, reason: string) {
+    const state = loadState();
+    const position = state.positions[positionId];
+    if (!position) return;
+
+    closePosition(state, positionId, reason);
+    saveState(state);
+    console.log(
+        `[System] ${positionId} position ${position.tokenId} closed (${reason}). State saved.`
+    );
+}
+
+// Path segments that would reach Object.prototype instead of a state field
+const UNSAFE_KEYS = ["__proto__", "prototype", "constructor"];
+
+/**
+ * Manual edit of one field by dotted path (bot CLI `state set`), e.g. "isSafeMode" or
+ * "positions.WETH-USDC-3000.activeRange". The edit is made on a copy, which is only saved
+ * once it passes validation.
+ */
+export function setStateValue(field: string, value: unknown): BotState {
+    const keys = field.split(".");
+    if (keys.some((key) => UNSAFE_KEYS.includes(key))) {
+        throw new Error(`Invalid state field ${field}`);
+    }
+    if (keys[0] === "version" || keys[0] === "lastCheck") {
+        throw new Error(`${keys[0]} is managed by the bot`);
+    }
+
+    const edited: Record<string, unknown> = { ...structuredClone(loadState()) };
+    let target = edited;
+    for (const key of keys.slice(0, -1)) {
+        // Own fields only: nothing inherited is read or written through the path
+        const next = Object.prototype.hasOwnProperty.call(target, key)
+            ? target[key]
+            : undefined;
+        if (typeof next !== "object" || next === null) {
+            throw new Error(`No state field ${field}`);
         }
+        target = next as Record<string, unknown>;
     }
-    return { tokenId: "0", lastCheck: 0 };
+    target[keys[keys.length - 1]] = value;
+
+    let state: BotState;
+    try {
+        state = validate(edited);
+    } catch {
+        throw new Error(
+            `Setting ${field} to ${JSON.stringify(value)} fails state validation`
+        );
+    }
+    saveState(state);
+    return state;
 }
 
-export function saveState(tokenId: string) {
-    const state: BotState = { tokenId, lastCheck: Date.now() };
-    fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
-    console.log(`[System] State saved: Token ID ${tokenId}`);
+// --- Rebalance Journal ---
+// Position changes and the step they belong to are saved in one write.
+
+// The position's rebalance if it has not completed
+export function getPendingRebalance(
+    state: BotState,
+    positionId: string
+): RebalanceJournal | null {
+    const journal = state.rebalances[positionId];
+    return journal && journal.phase !== "HEDGED" ? journal : null;
+}
+
+function updateJournal(
+    positionId: string,
+    update: (journal: RebalanceJournal, state: BotState) => void
+): RebalanceJournal {
+    const state = loadState();
+    const journal = state.rebalances[positionId];
+    if (!journal) {
+        throw new Error(`No rebalance journal for ${positionId}`);
+    }
+    update(journal, state);
+    journal.updatedAt = Date.now();
+    saveState(state);
+    return journal;
+}
+
+function advance(positionId: string, phase: RebalancePhase) {
+    console.log(`[Journal] ${positionId} rebalance -> ${phase}`);
+}
+
+// An initial mint (oldTokenId "0") has nothing to exit and starts as EXITED
+export function recordRebalanceStarted(
+    positionId: string,
+    oldTokenId: string,
+    range: TickRangeState,
+    entryPrice: number,
+    partial: boolean
+): RebalanceJournal {
+    const state = loadState();
+    const now = Date.now();
+    const journal: RebalanceJournal = {
+        phase: oldTokenId === "0" ? "EXITED" : "PENDING_EXIT",
+        oldTokenId,
+        newTokenId: null,
+        range,
+        entryPrice,
+        partial,
+        exitBase: null,
+        exitUsdc: null,
+        lpBase: null,
+        lpQuote: null,
+        pendingTx: null,
+        txs: [],
+        startedAt: now,
+        updatedAt: now,
+    };
+    state.rebalances[positionId] = journal;
+    saveState(state);
+    advance(positionId, journal.phase);
+    return journal;
+}
+
+// Called when a step's transaction is sent, before waiting for it
+export function recordRebalanceTx(
+    positionId: string,
+    phase: RebalancePhase,
+    hash: string
+) {
+    updateJournal(positionId, (journal) => {
+        journal.txs.push({ phase, hash, sentAt: Date.now() });
+        journal.pendingTx = hash;
+    });
+}
+
+// Old position gone: archive it. Amounts are null when the exit was only found on chain.
+export function recordRebalanceExited(
+    positionId: string,
+    amounts: { base: bigint; usdc: bigint } | null
+): RebalanceJournal {
+    const journal = updateJournal(positionId, (journal, state) => {
+        closePosition(state, positionId, "REBALANCE");
+        journal.phase = "EXITED";
+        journal.pendingTx = null;
+        journal.exitBase = amounts ? amounts.base.toString() : null;
+        journal.exitUsdc = amounts ? amounts.usdc.toString() : null;
+    });
+    advance(positionId, journal.phase);
+    return journal;
+}
+
+// A partial rebalance swaps nothing: it passes the exit amounts and its range next to spot
+export function recordRebalanceSwapped(
+    positionId: string,
+    plan: { lpBase: bigint; lpQuote: bigint },
+    range?: TickRangeState
+): RebalanceJournal {
+    const journal = updateJournal(positionId, (journal) => {
+        journal.phase = "SWAPPED";
+        journal.pendingTx = null;
+        journal.lpBase = plan.lpBase.toString();
+        journal.lpQuote = plan.lpQuote.toString();
+        if (range) journal.range = range;
+    });
+    advance(positionId, journal.phase);
+    return journal;
+}
+
+// New position live: track it. `range` differs from the plan for partial rebalances.
+export function recordRebalanceMinted(
+    positionId: string,
+    tokenId: string,
+    range: TickRangeState,
+    entryPrice: number,
+    debtAtEntry: bigint
+): RebalanceJournal {
+    const journal = updateJournal(positionId, (journal, state) => {
+        openPosition(
+            state,
+            positionId,
+            tokenId,
+            range,
+            entryPrice,
+            debtAtEntry
+        );
+        journal.phase = "MINTED";
+        journal.pendingTx = null;
+        journal.newTokenId = tokenId;
+        journal.range = range;
+    });
+    advance(positionId, journal.phase);
+    console.log(`[System] State saved: ${positionId} Token ID ${tokenId}`);
+    return journal;
+}
+
+// Minted positions are complete once the shared hedge has been adjusted for them
+export function recordRebalancesHedged(positionIds: string[]) {
+    const state = loadState();
+    const done = positionIds.filter(
+        (id) => state.rebalances[id]?.phase === "MINTED"
+    );
+    if (done.length === 0) return;
+
+    for (const id of done) {
+        state.rebalances[id].phase = "HEDGED";
+        state.rebalances[id].updatedAt = Date.now();
+    }
+    saveState(state);
+    done.forEach((id) => advance(id, "HEDGED"));
+}
+
+// The exit never happened: the old position is intact, drop the journal
+export function recordRebalanceAbandoned(positionId: string, reason: string) {
+    const state = loadState();
+    if (!state.rebalances[positionId]) return;
+    delete state.rebalances[positionId];
+    saveState(state);
+    console.warn(`[Journal] ${positionId} rebalance abandoned: ${reason}`);
 }
 
 // Orphan Position Scanning
-// Checks if the wallet holds any NFTs while the local state says "0".
+// Adopts wallet NFTs with liquidity that match a configured position (same tokens and fee)
+// which the local state has no position for.
 // This fixes race conditions where state save fails after minting.
-export async function scanLocalOrphans(wallet: ethers.Wallet): Promise<string> {
+// @returns ids of the positions that were adopted
+export async function scanLocalOrphans(
+    wallet: ethers.Wallet
+): Promise<string[]> {
+    // The virtual portfolio is authoritative in dry-run; real NFTs must not be adopted
+    if (DRY_RUN) return [];
+
     console.log("[State] Scanning for orphan positions...");
-    const npm = new ethers.Contract(NONFUNGIBLE_POSITION_MANAGER_ADDR, NPM_ABI, wallet);
-    
+    const npm = new ethers.Contract(
+        NONFUNGIBLE_POSITION_MANAGER_ADDR,
+        NPM_ABI,
+        wallet
+    );
+
     const balance = await npm.balanceOf(wallet.address);
     if (balance === 0n) {
         console.log("[State] No on-chain positions found.");
-        return "0";
+        return [];
     }
 
-    // Simple strategy: Check the last NFT owned by the wallet
-    // If running multiple bots/strategies, this logic needs to be more complex
-    // Right now it only manages one wallet
-    const idx = balance - 1n; 
-    const tokenId = await npm.tokenOfOwnerByIndex(wallet.address, idx);
-    
-    const pos = await npm.positions(tokenId);
-    
-    if (pos.liquidity > 0n) {
-        console.warn(`[State] FOUND ORPHAN POSITION: ID ${tokenId} (Liq: ${pos.liquidity})`);
-        console.warn(`[State] Adopting this position and updating state file.`);
-        saveState(tokenId.toString());
-        return tokenId.toString();
+    const state = loadState();
+    const tracked = new Set(
+        Object.values(state.positions).map((p) => p.tokenId)
+    );
+    const adopted: string[] = [];
+
+    // Newest first, so the latest mint wins if several NFTs match one position
+    for (let idx = balance - 1n; idx >= 0n; idx--) {
+        const tokenId = (
+            await npm.tokenOfOwnerByIndex(wallet.address, idx)
+        ).toString();
+        if (tracked.has(tokenId)) continue;
+
+        const pos = await npm.positions(tokenId);
+        if (pos.liquidity === 0n) continue;
+
+        const match = POSITIONS.find(
+            (config) =>
+                !state.positions[config.id] &&
+                !adopted.includes(config.id) &&
+                isPositionPool(config, pos.token0, pos.token1, Number(pos.fee))
+        );
+        if (!match) {
+            console.warn(
+                `[State] NFT ${tokenId} has liquidity but matches no configured position. Ignoring.`
+            );
+            continue;
+        }
+
+        console.warn(
+            `[State] FOUND ORPHAN POSITION: ID ${tokenId} (Liq: ${pos.liquidity})`
+        );
+        console.warn(
+            `[State] Adopting it as ${match.id} and updating state file.`
+        );
+        recordPositionOpened(
+            match.id,
+            tokenId,
+            {
+                tickLower: Number(pos.tickLower),
+                tickUpper: Number(pos.tickUpper),
+            },
+            0,
+            0n
+        );
+        adopted.push(match.id);
     }
 
-    return "0";
+    return adopted;
 }
@@ -0,0 +1,244 @@
+import {
+    ATR_SAFETY_FACTOR,
+    RSI_OVERBOUGHT,
+    RSI_OVERSOLD,
+    RANGE_STRATEGY,
+    RANGE_MIN_WIDTH,
+    RANGE_MAX_WIDTH,
+    RSI_SKEW_BEARISH,
+    RSI_SKEW_BULLISH,
+    FIXED_RANGE_WIDTH,
+    BOLLINGER_PERIOD,
+    BOLLINGER_STD_DEV,
+} from "../config";
+
+import { BollingerBands, lastValue } from "./indicators";
+import { isInRange } from "./utils";
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+// Everything a strategy may look at. Strategies must be pure functions of this snapshot.
+export interface MarketSnapshot {
+    tick: number;
+    tickSpacing: number;
+    baseIsToken0: boolean; // Otherwise ticks fall as the base price rises
+    price: number; // USDC per WETH
+    atr: number; // USD
+    rsi: number;
+    twapTick: number;
+    closes: number[]; // Recent candle closes, oldest first
+}
+
+export interface TickRange {
+    tickLower: number;
+    tickUpper: number;
+}
+
+export interface RangeStrategy {
+    readonly name: string;
+    calculateRange(snapshot: MarketSnapshot): TickRange;
+}
+
+const clampWidth = (width: number) =>
+    Math.max(RANGE_MIN_WIDTH, Math.min(width, RANGE_MAX_WIDTH));
+
+/**
+ * Place a span of `radius * 2` ticks around `center`, with `skew` of it above the centre.
+ * Snaps to tick spacing and keeps the range inside [MIN_TICK, MAX_TICK].
+ */
+export function snapRange(
+    center: number,
+    radius: number,
+    tickSpace: number,
+    skew: number = 0.5
+): TickRange {
+    const totalSpan = radius * 2;
+
+    const upperTickDiff = Math.floor(totalSpan * skew);
+    const lowerTickDiff = Math.floor(totalSpan * (1 - skew));
+
+    let tickLower =
+        Math.floor((center - lowerTickDiff) / tickSpace) * tickSpace;
+    let tickUpper =
+        Math.floor((center + upperTickDiff) / tickSpace) * tickSpace;
+
+    if (tickLower < MIN_TICK)
+        tickLower = Math.ceil(MIN_TICK / tickSpace) * tickSpace;
+    if (tickUpper > MAX_TICK)
+        tickUpper = Math.floor(MAX_TICK / tickSpace) * tickSpace;
+
+    if (tickLower >= tickUpper) {
+        tickUpper = tickLower + tickSpace;
+    }
+
+    if (tickUpper > MAX_TICK) {
+        tickUpper = Math.floor(MAX_TICK / tickSpace) * tickSpace;
+        tickLower = tickUpper - tickSpace;
+    }
+
+    return { tickLower, tickUpper };
+}
+
+/**
+ * Scale a range's distances from `tick` by `factor`, keeping its skew.
+ * Used when a full-width rebalance is not worth its cost (see src/decision.ts).
+ */
+export function widenRange(
+    range: TickRange,
+    tick: number,
+    factor: number,
+    tickSpace: number
+): TickRange {
+    const below = Math.max(tick - range.tickLower, tickSpace) * factor;
+    const above = Math.max(range.tickUpper - tick, tickSpace) * factor;
+
+    return {
+        tickLower: Math.max(
+            Math.floor((tick - below) / tickSpace) * tickSpace,
+            Math.ceil(MIN_TICK / tickSpace) * tickSpace
+        ),
+        tickUpper: Math.min(
+            Math.ceil((tick + above) / tickSpace) * tickSpace,
+            Math.floor(MAX_TICK / tickSpace) * tickSpace
+        ),
+    };
+}
+
+/**
+ * Range of `width` ticks next to the current tick that can be minted from a single token:
+ * above spot for token0 only, below spot for token1 only.
+ */
+export function adjacentRange(
+    tick: number,
+    width: number,
+    tickSpace: number,
+    side: "above" | "below"
+): TickRange {
+    const span = Math.max(Math.ceil(width / tickSpace), 1) * tickSpace;
+    const boundary = Math.floor(tick / tickSpace) * tickSpace;
+
+    if (side === "above") {
+        const tickLower = boundary + tickSpace;
+        return { tickLower, tickUpper: tickLower + span };
+    }
+    return { tickLower: boundary - span, tickUpper: boundary };
+}
+
+// Default: width from ATR volatility, skewed against the trend when RSI is extreme.
+export class AtrRsiStrategy implements RangeStrategy {
+    readonly name = "ATR_RSI";
+
+    constructor(private atrSafetyFactor: number = ATR_SAFETY_FACTOR) {}
+
+    calculateRange(snapshot: MarketSnapshot): TickRange {
+        const volPercent = (snapshot.atr / snapshot.price) * 100;
+        const width = clampWidth(
+            Math.floor(volPercent * 100 * this.atrSafetyFactor)
+        );
+
+        let skew = 0.5;
+        if (snapshot.rsi > RSI_OVERBOUGHT) {
+            skew = RSI_SKEW_BEARISH;
+        } else if (snapshot.rsi < RSI_OVERSOLD) {
+            skew = RSI_SKEW_BULLISH;
+        }
+        // The skews are shares above spot in price; above in ticks is below in price for token1
+        if (!snapshot.baseIsToken0) skew = 1 - skew;
+
+        return snapRange(snapshot.tick, width, snapshot.tickSpacing, skew);
+    }
+}
+
+// Constant symmetric width around the current tick.
+export class FixedWidthStrategy implements RangeStrategy {
+    readonly name = "FIXED";
+
+    constructor(private width: number = FIXED_RANGE_WIDTH) {}
+
+    calculateRange(snapshot: MarketSnapshot): TickRange {
+        return snapRange(snapshot.tick, this.width, snapshot.tickSpacing);
+    }
+}
+
+// Symmetric width matching the Bollinger band spread of recent closes.
+export class BollingerStrategy implements RangeStrategy {
+    readonly name = "BOLLINGER";
+
+    constructor(
+        private period: number = BOLLINGER_PERIOD,
+        private stdDev: number = BOLLINGER_STD_DEV
+    ) {}
+
+    calculateRange(snapshot: MarketSnapshot): TickRange {
+        const bands = lastValue(
+            new BollingerBands(this.period, this.stdDev),
+            snapshot.closes
+        );
+
+        if (!bands) {
+            throw new Error(
+                `Insufficient data for Bollinger Bands (need ${this.period} closes)`
+            );
+        }
+
+        const { upper, lower } = bands;
+        // Half of the band span in log-price space; independent of token order
+        const radius = Math.floor(
+            Math.log(upper / Math.max(lower, Number.EPSILON)) /
+                Math.log(1.0001) /
+                2
+        );
+
+        return snapRange(
+            snapshot.tick,
+            clampWidth(radius),
+            snapshot.tickSpacing
+        );
+    }
+}
+
+// ATR width centred on the TWAP instead of spot, so short-lived spikes don't move the range.
+export class TwapCenteredStrategy implements RangeStrategy {
+    readonly name = "TWAP";
+
+    constructor(private atrSafetyFactor: number = ATR_SAFETY_FACTOR) {}
+
+    calculateRange(snapshot: MarketSnapshot): TickRange {
+        const volPercent = (snapshot.atr / snapshot.price) * 100;
+        const width = clampWidth(
+            Math.floor(volPercent * 100 * this.atrSafetyFactor)
+        );
+
+        const range = snapRange(snapshot.twapTick, width, snapshot.tickSpacing);
+
+        // The position must still contain spot, otherwise it would be minted out of range
+        if (!isInRange(snapshot.tick, range.tickLower, range.tickUpper)) {
+            return snapRange(snapshot.tick, width, snapshot.tickSpacing);
+        }
+        return range;
+    }
+}
+
+export interface StrategyOptions {
+    atrSafetyFactor?: number;
+    fixedWidth?: number;
+}
+
+export function createRangeStrategy(
+    name: string = RANGE_STRATEGY,
+    options: StrategyOptions = {}
+): RangeStrategy {
+    switch (name.toUpperCase()) {
+        case "ATR_RSI":
+            return new AtrRsiStrategy(options.atrSafetyFactor);
+        case "FIXED":
+            return new FixedWidthStrategy(options.fixedWidth);
+        case "BOLLINGER":
+            return new BollingerStrategy();
+        case "TWAP":
+            return new TwapCenteredStrategy(options.atrSafetyFactor);
+        default:
+            throw new Error(`Unknown range strategy: ${name}`);
+    }
+}
@@ -0,0 +1,580 @@
+import { ethers } from "ethers";
+
+import {
+    TX_TIMEOUT_MS,
+    TX_BUMP_AFTER_MS,
+    TX_FEE_BUMP_PCT,
+    TX_MAX_BUMPS,
+    TX_MAX_FEE_GWEI,
+    TX_CONFIRMATIONS,
+} from "../config";
+
+import { sleep } from "./utils";
+
+const POLL_MS = 2_000;
+
+// --- Errors ---
+
+export type TxErrorKind =
+    | "SLIPPAGE" // Pool price moved past the minimum / maximum amount
+    | "DEADLINE" // Mined after the router / NPM deadline
+    | "INSUFFICIENT_FUNDS" // Gas or token balance (STF: balance or allowance)
+    | "ALLOWANCE"
+    | "AAVE" // Aave validation error (numeric code)
+    | "OUT_OF_GAS"
+    | "REVERTED" // Any other revert
+    | "NONCE" // Nonce already used
+    | "UNDERPRICED" // Fees too low to replace a pending transaction
+    | "NETWORK" // RPC unreachable or failing
+    | "TIMEOUT" // Not mined in time and the cancellation did not confirm either
+    | "CANCELLED"; // Not mined in time and replaced by a cancellation
+
+// Failures that may succeed if sent again as is
+const RETRYABLE: ReadonlySet<TxErrorKind> = new Set([
+    "NONCE",
+    "UNDERPRICED",
+    "NETWORK",
+    "TIMEOUT",
+    "CANCELLED",
+]);
+
+// Aave V3 Errors.sol codes the bot can run into
+const AAVE_ERRORS: Record<string, string> = {
+    "26": "INVALID_AMOUNT",
+    "27": "RESERVE_INACTIVE",
+    "28": "RESERVE_FROZEN",
+    "29": "RESERVE_PAUSED",
+    "30": "BORROWING_NOT_ENABLED",
+    "32": "NOT_ENOUGH_AVAILABLE_USER_BALANCE",
+    "35": "HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD",
+    "36": "COLLATERAL_CANNOT_COVER_NEW_BORROW",
+    "39": "NO_DEBT_OF_SELECTED_TYPE",
+    "50": "BORROW_CAP_EXCEEDED",
+    "51": "SUPPLY_CAP_EXCEEDED",
+};
+
+export class TxError extends Error {
+    constructor(
+        message: string,
+        public kind: TxErrorKind,
+        public hash?: string
+    ) {
+        super(message);
+        this.name = "TxError";
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.has(this.kind);
+    }
+}
+
+// Fields of ethers and JSON-RPC errors that say what went wrong
+interface RpcErrorFields {
+    code?: string;
+    reason?: string | null;
+    shortMessage?: string;
+    message?: string;
+    info?: { error?: { message?: string } };
+    error?: { message?: string };
+}
+
+function isRpcError(e: unknown): e is RpcErrorFields {
+    return typeof e === "object" && e !== null;
+}
+
+// Revert reason if there is one, else the RPC / ethers message
+function errorReason(e: unknown): string {
+    if (ethers.isCallException(e) && e.revert?.args[0] !== undefined) {
+        return String(e.revert.args[0]);
+    }
+    if (!isRpcError(e)) return String(e);
+    return String(
+        e.reason ??
+            e.info?.error?.message ??
+            e.error?.message ??
+            e.shortMessage ??
+            e.message ??
+            e
+    );
+}
+
+export function classifyTxError(e: unknown): {
+    kind: TxErrorKind;
+    reason: string;
+} {
+    if (e instanceof TxError) return { kind: e.kind, reason: e.message };
+
+    const code = isRpcError(e) ? e.code : undefined;
+    const reason = errorReason(e);
+    const text = reason.toLowerCase();
+
+    if (AAVE_ERRORS[reason]) {
+        return { kind: "AAVE", reason: `${AAVE_ERRORS[reason]} (${reason})` };
+    }
+    if (
+        text.includes("too little received") ||
+        text.includes("too much requested") ||
+        text.includes("price slippage check")
+    ) {
+        return { kind: "SLIPPAGE", reason };
+    }
+    if (text.includes("transaction too old"))
+        return { kind: "DEADLINE", reason };
+    if (text.includes("insufficient allowance"))
+        return { kind: "ALLOWANCE", reason };
+    if (
+        code === "INSUFFICIENT_FUNDS" ||
+        text.includes("insufficient funds") ||
+        text.includes("exceeds balance") ||
+        reason === "STF"
+    ) {
+        return { kind: "INSUFFICIENT_FUNDS", reason };
+    }
+    if (code === "NONCE_EXPIRED" || text.includes("nonce too low")) {
+        return { kind: "NONCE", reason };
+    }
+    if (code === "REPLACEMENT_UNDERPRICED" || text.includes("underpriced")) {
+        return { kind: "UNDERPRICED", reason };
+    }
+    if (
+        code === "NETWORK_ERROR" ||
+        code === "SERVER_ERROR" ||
+        code === "TIMEOUT" ||
+        text.includes("socket") ||
+        text.includes("econnre")
+    ) {
+        return { kind: "NETWORK", reason };
+    }
+    return { kind: "REVERTED", reason };
+}
+
+export function toTxError(e: unknown, label: string, hash?: string): TxError {
+    if (e instanceof TxError) return e;
+    const { kind, reason } = classifyTxError(e);
+    return new TxError(`${label} failed (${kind}): ${reason}`, kind, hash);
+}
+
+// --- Manager ---
+
+interface Fees {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+}
+
+interface Broadcast extends Fees {
+    hash: string;
+    cancel: boolean; // 0 ETH self-transfer replacing the transaction
+}
+
+const MAX_FEE = ethers.parseUnits(TX_MAX_FEE_GWEI, "gwei");
+
+const bump = (fee: bigint) => (fee * (100n + TX_FEE_BUMP_PCT)) / 100n;
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/**
+ * Sends the wallet's transactions and follows them until they are final:
+ * - allocates nonces itself, so they survive RPC switches (the wallet is re-bound on every call)
+ *   and never go backwards because a fresh node has not seen our pending transactions;
+ * - re-broadcasts a pending transaction every TX_BUMP_AFTER_MS, with fees raised by
+ *   TX_FEE_BUMP_PCT (up to TX_MAX_BUMPS times, capped at TX_MAX_FEE_GWEI);
+ * - after TX_TIMEOUT_MS replaces it with a 0 ETH self-transfer, so a late swap or mint cannot
+ *   land after the bot moved on and the nonce is freed for the next transaction;
+ * - waits for TX_CONFIRMATIONS blocks and checks the receipt is still canonical;
+ * - turns failures into a TxError with a TxErrorKind.
+ */
+export class TxManager {
+    private nextNonce: number | null = null;
+    private lock: Promise<unknown> = Promise.resolve();
+
+    constructor(private wallet: ethers.Wallet) {}
+
+    bind(wallet: ethers.Wallet) {
+        this.wallet = wallet;
+    }
+
+    private get provider(): ethers.Provider {
+        return this.wallet.provider!;
+    }
+
+    // Nonce allocation and broadcasts run one at a time
+    private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+        const run = this.lock.then(fn, fn);
+        this.lock = run.catch(() => undefined);
+        return run;
+    }
+
+    private async allocateNonce(): Promise<number> {
+        const pending = await this.provider.getTransactionCount(
+            this.wallet.address,
+            "pending"
+        );
+        const nonce = Math.max(pending, this.nextNonce ?? 0);
+        this.nextNonce = nonce + 1;
+        return nonce;
+    }
+
+    private async marketFees(): Promise<Fees> {
+        const data = await this.provider.getFeeData();
+        const maxFeePerGas = data.maxFeePerGas ?? data.gasPrice ?? 0n;
+        const maxPriorityFeePerGas = data.maxPriorityFeePerGas ?? 0n;
+        return {
+            maxFeePerGas: min(maxFeePerGas, MAX_FEE),
+            maxPriorityFeePerGas: min(maxPriorityFeePerGas, MAX_FEE),
+        };
+    }
+
+    // Raised over `previous` (replacement rule) and at least the current market fees
+    private async bumpedFees(previous: Fees): Promise<Fees> {
+        const market = await this.marketFees();
+        const maxFeePerGas = min(
+            max(bump(previous.maxFeePerGas), market.maxFeePerGas),
+            MAX_FEE
+        );
+        return {
+            maxFeePerGas,
+            maxPriorityFeePerGas: min(
+                max(
+                    bump(previous.maxPriorityFeePerGas),
+                    market.maxPriorityFeePerGas
+                ),
+                maxFeePerGas
+            ),
+        };
+    }
+
+    // Sign and broadcast; "already known" is not an error (same transaction re-broadcast)
+    private async broadcast(
+        tx: ethers.TransactionRequest,
+        nonce: number,
+        fees: Fees
+    ): Promise<string> {
+        const populated = await this.wallet.populateTransaction({
+            ...tx,
+            nonce,
+            type: 2,
+            gasPrice: undefined,
+            ...fees,
+        });
+        const signed = await this.wallet.signTransaction(populated);
+        const hash = ethers.keccak256(signed);
+        try {
+            await this.provider.broadcastTransaction(signed);
+        } catch (e) {
+            if (!errorReason(e).toLowerCase().includes("already known"))
+                throw e;
+        }
+        return hash;
+    }
+
+    /**
+     * Send `tx` (gas limit already set) and wait until it is confirmed. `onSubmitted` is called with
+     * every hash broadcast for it (fee bumps change the hash). Throws a TxError on revert or timeout.
+     */
+    async send(
+        tx: ethers.TransactionRequest,
+        label: string,
+        onSubmitted?: (hash: string) => void
+    ): Promise<ethers.TransactionReceipt> {
+        const { nonce, first } = await this.exclusive(async () => {
+            for (let attempt = 0; ; attempt++) {
+                const nonce = await this.allocateNonce();
+                try {
+                    const fees = await this.marketFees();
+                    const hash = await this.broadcast(tx, nonce, fees);
+                    return { nonce, first: { hash, cancel: false, ...fees } };
+                } catch (e) {
+                    // Nothing was sent with this nonce: resync from the chain
+                    this.nextNonce = null;
+                    const { kind } = classifyTxError(e);
+                    if (kind !== "NONCE" || attempt > 0)
+                        throw toTxError(e, label);
+                }
+            }
+        });
+
+        console.log(`[Tx] ${label} sent (nonce ${nonce}): ${first.hash}`);
+        onSubmitted?.(first.hash);
+        const receipt = await this.track(tx, label, nonce, first, onSubmitted);
+        if (receipt.status !== 1)
+            throw await this.revertError(tx, receipt, label);
+        return receipt;
+    }
+
+    private async track(
+        tx: ethers.TransactionRequest,
+        label: string,
+        nonce: number,
+        first: Broadcast,
+        onSubmitted?: (hash: string) => void
+    ): Promise<ethers.TransactionReceipt> {
+        const sent: Broadcast[] = [first];
+        const startedAt = Date.now();
+        let lastBroadcastAt = startedAt;
+        let bumps = 0;
+
+        for (;;) {
+            await sleep(POLL_MS);
+
+            let receipt: ethers.TransactionReceipt | null = null;
+            try {
+                receipt = await this.findReceipt(sent.map((b) => b.hash));
+                if (receipt) receipt = await this.confirm(receipt);
+            } catch (e) {
+                console.warn(`[Tx] Receipt lookup failed: ${errorReason(e)}`); // e.g. RPC switch
+                continue;
+            }
+
+            if (receipt) {
+                const winner = sent.find((b) => b.hash === receipt!.hash)!;
+                if (winner.cancel) {
+                    throw new TxError(
+                        `${label} was not mined within ${TX_TIMEOUT_MS / 1000}s and was cancelled`,
+                        "CANCELLED",
+                        first.hash
+                    );
+                }
+                return receipt;
+            }
+
+            // Nonce used by a transaction we don't know (another process with this key)
+            const mined = await this.provider
+                .getTransactionCount(this.wallet.address, "latest")
+                .catch(() => 0);
+            if (mined > nonce) {
+                const late = await this.findReceipt(
+                    sent.map((b) => b.hash)
+                ).catch(() => null);
+                if (!late) {
+                    throw new TxError(
+                        `${label}: nonce ${nonce} was used by another transaction`,
+                        "NONCE",
+                        first.hash
+                    );
+                }
+                continue; // Ours after all: confirm it on the next pass
+            }
+
+            const now = Date.now();
+            const cancelled = sent.some((b) => b.cancel);
+            if (now - startedAt >= TX_TIMEOUT_MS * (cancelled ? 2 : 1)) {
+                if (cancelled) {
+                    this.nextNonce = null;
+                    throw new TxError(
+                        `${label} and its cancellation are both unconfirmed (nonce ${nonce})`,
+                        "TIMEOUT",
+                        first.hash
+                    );
+                }
+                await this.replace(
+                    label,
+                    nonce,
+                    sent,
+                    { to: this.wallet.address, value: 0n, gasLimit: 21_000n },
+                    true
+                );
+                lastBroadcastAt = now;
+            } else if (
+                now - lastBroadcastAt >= TX_BUMP_AFTER_MS &&
+                !cancelled
+            ) {
+                const bumped = bumps < TX_MAX_BUMPS;
+                if (bumped) bumps++;
+                const hash = await this.replace(
+                    label,
+                    nonce,
+                    sent,
+                    tx,
+                    false,
+                    bumped
+                );
+                if (hash) onSubmitted?.(hash);
+                lastBroadcastAt = now;
+            }
+        }
+    }
+
+    /**
+     * Broadcast a replacement with the same nonce: the transaction itself (re-broadcast, e.g. to a
+     * new RPC node, with higher fees when `bumpFees`) or a cancellation. Returns the new hash, if any.
+     */
+    private async replace(
+        label: string,
+        nonce: number,
+        sent: Broadcast[],
+        tx: ethers.TransactionRequest,
+        cancel: boolean,
+        bumpFees = true
+    ): Promise<string | null> {
+        const last = sent[sent.length - 1];
+        const fees = bumpFees ? await this.bumpedFees(last) : last;
+        if (bumpFees && fees.maxFeePerGas <= last.maxFeePerGas && !cancel) {
+            console.warn(
+                `[Tx] ${label}: fees at TX_MAX_FEE_GWEI (${TX_MAX_FEE_GWEI}). Re-broadcasting.`
+            );
+        }
+        try {
+            const hash = await this.broadcast(tx, nonce, fees);
+            if (sent.some((b) => b.hash === hash)) return null;
+            sent.push({ hash, cancel, ...fees });
+            console.warn(
+                `[Tx] ${label} ${cancel ? "cancelled" : "replaced"} at ${ethers.formatUnits(fees.maxFeePerGas, "gwei")} gwei: ${hash}`
+            );
+            return hash;
+        } catch (e) {
+            // Underpriced (fee cap reached) or nonce already mined: keep waiting for what was sent
+            console.warn(
+                `[Tx] ${label}: ${cancel ? "cancellation" : "replacement"} not accepted: ${errorReason(e)}`
+            );
+            return null;
+        }
+    }
+
+    private async findReceipt(
+        hashes: string[]
+    ): Promise<ethers.TransactionReceipt | null> {
+        const receipts = await Promise.all(
+            hashes.map((h) => this.provider.getTransactionReceipt(h))
+        );
+        // Separate attempts of a step may include a reverted one
+        return (
+            receipts.find((r) => r?.status === 1) ??
+            receipts.find((r) => r !== null) ??
+            null
+        );
+    }
+
+    // Wait for TX_CONFIRMATIONS; null if the block was reorged out meanwhile
+    private async confirm(
+        receipt: ethers.TransactionReceipt
+    ): Promise<ethers.TransactionReceipt | null> {
+        while ((await receipt.confirmations()) < TX_CONFIRMATIONS) {
+            await sleep(POLL_MS);
+        }
+        const current = await this.provider.getTransactionReceipt(receipt.hash);
+        if (!current || current.blockHash !== receipt.blockHash) {
+            console.warn(
+                `[Tx] ${receipt.hash} was reorged out. Waiting for it again.`
+            );
+            return null;
+        }
+        return current;
+    }
+
+    // Replay a reverted transaction at its block to get the reason
+    private async revertError(
+        tx: ethers.TransactionRequest,
+        receipt: ethers.TransactionReceipt,
+        label: string
+    ): Promise<TxError> {
+        if (
+            tx.gasLimit != null &&
+            receipt.gasUsed >= ethers.getBigInt(tx.gasLimit)
+        ) {
+            return new TxError(
+                `${label} ran out of gas`,
+                "OUT_OF_GAS",
+                receipt.hash
+            );
+        }
+        try {
+            await this.provider.call({
+                ...tx,
+                from: this.wallet.address,
+                blockTag: receipt.blockNumber,
+            });
+        } catch (e) {
+            return toTxError(e, label, receipt.hash);
+        }
+        return new TxError(
+            `${label} reverted (${receipt.hash})`,
+            "REVERTED",
+            receipt.hash
+        );
+    }
+
+    /**
+     * Receipt of the first of `hashes` (a transaction and its replacements) that is mined within
+     * `timeoutMs`, confirmed like a new send.
+     */
+    async waitForAny(
+        hashes: string[],
+        timeoutMs: number = TX_TIMEOUT_MS
+    ): Promise<ethers.TransactionReceipt | null> {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+            try {
+                const receipt = await this.findReceipt(hashes);
+                const confirmed = receipt ? await this.confirm(receipt) : null;
+                if (confirmed) return confirmed;
+            } catch (e) {
+                console.warn(`[Tx] Receipt lookup failed: ${errorReason(e)}`);
+            }
+            await sleep(POLL_MS);
+        }
+        return null;
+    }
+
+    /**
+     * Cancel every transaction still pending from a previous run, so its outcome is settled before
+     * interrupted rebalances are resumed. Waits until they (or their cancellations) are mined.
+     */
+    async cancelPending() {
+        await this.exclusive(async () => {
+            const address = this.wallet.address;
+            const [mined, pending] = await Promise.all([
+                this.provider.getTransactionCount(address, "latest"),
+                this.provider.getTransactionCount(address, "pending"),
+            ]);
+            if (pending <= mined) return;
+
+            console.warn(
+                `[Tx] ${pending - mined} transaction(s) pending from a previous run. Cancelling...`
+            );
+            // Outbid the stuck transactions, whose fees are unknown
+            const market = await this.marketFees();
+            const fees = await this.bumpedFees(await this.bumpedFees(market));
+            for (let nonce = mined; nonce < pending; nonce++) {
+                try {
+                    await this.broadcast(
+                        { to: address, value: 0n, gasLimit: 21_000n },
+                        nonce,
+                        fees
+                    );
+                } catch (e) {
+                    console.warn(
+                        `[Tx] Cancellation of nonce ${nonce} not accepted: ${errorReason(e)}`
+                    );
+                }
+            }
+
+            const deadline = Date.now() + TX_TIMEOUT_MS;
+            while (Date.now() < deadline) {
+                if (
+                    (await this.provider.getTransactionCount(
+                        address,
+                        "latest"
+                    )) >= pending
+                ) {
+                    console.log("[Tx] Pending transactions settled.");
+                    break;
+                }
+                await sleep(POLL_MS);
+            }
+            this.nextNonce = null;
+        });
+    }
+}
+
+const managers = new Map<string, TxManager>();
+
+// One manager per address, re-bound to the wallet's current provider on every call
+export function getTxManager(wallet: ethers.Wallet): TxManager {
+    let manager = managers.get(wallet.address);
+    if (!manager) {
+        manager = new TxManager(wallet);
+        managers.set(wallet.address, manager);
+    }
+    manager.bind(wallet);
+    return manager;
+}
@@ -1,8 +1,105 @@
 import { ethers } from "ethers";
 
-import * as nodemailer from "nodemailer";
+import { Pool } from "@uniswap/v3-sdk";
+import { Token } from "@uniswap/sdk-core";
+
+import {
+    MAX_RETRIES,
+    USDC_TOKEN,
+    WETH_TOKEN,
+    AAVE_POOL_ADDR,
+    AAVE_POOL_ABI,
+    AAVE_ORACLE_ADDR,
+    AAVE_ORACLE_ABI,
+    POOL_ABI,
+    V3_FACTORY_ADDR,
+    PositionConfig,
+} from "../config";
+
+export const WETH_IS_TOKEN0 =
+    WETH_TOKEN.address.toLowerCase() < USDC_TOKEN.address.toLowerCase();
+
+// Pools are quoted in USDC; the price helpers below only need the base token's side
+export function isBaseToken0(base: Token): boolean {
+    return base.address.toLowerCase() < USDC_TOKEN.address.toLowerCase();
+}
+
+// The non-USDC token of a pool
+export function getBaseToken(pool: Pool): Token {
+    return pool.token0.equals(USDC_TOKEN) ? pool.token1 : pool.token0;
+}
+
+export function getPositionPoolContract(
+    position: PositionConfig,
+    runner: ethers.ContractRunner
+): ethers.Contract {
+    const poolAddr = Pool.getAddress(
+        position.quote,
+        position.base,
+        position.fee,
+        undefined,
+        V3_FACTORY_ADDR
+    );
+    return new ethers.Contract(poolAddr, POOL_ABI, runner);
+}
 
-import { MAX_RETRIES } from "../config";
+// SDK pool for a position from live slot0 / liquidity
+export async function fetchPositionPool(
+    position: PositionConfig,
+    poolContract: ethers.Contract
+): Promise<Pool> {
+    const [slot0, liquidity] = await Promise.all([
+        poolContract.slot0(),
+        poolContract.liquidity(),
+    ]);
+    return new Pool(
+        position.quote,
+        position.base,
+        position.fee,
+        slot0.sqrtPriceX96.toString(),
+        liquidity.toString(),
+        Number(slot0.tick)
+    );
+}
+
+// USDC per WETH -> pool tick
+export function priceToTick(price: number): number {
+    const decimalsShift = 10 ** (USDC_TOKEN.decimals - WETH_TOKEN.decimals);
+    const rawPrice = WETH_IS_TOKEN0
+        ? price * decimalsShift
+        : 1 / (price * decimalsShift);
+    return Math.floor(Math.log(rawPrice) / Math.log(1.0001));
+}
+
+// Pool tick -> USDC per WETH (or per base token; all base tokens have 18 decimals)
+export function tickToPrice(
+    tick: number,
+    baseIsToken0: boolean = WETH_IS_TOKEN0
+): number {
+    const decimalsShift = 10 ** (USDC_TOKEN.decimals - WETH_TOKEN.decimals);
+    const rawPrice = Math.pow(1.0001, tick);
+    return baseIsToken0
+        ? rawPrice / decimalsShift
+        : 1 / (rawPrice * decimalsShift);
+}
+
+// A position earns fees from tickLower up to, but not including, tickUpper (as in the pool)
+export function isInRange(
+    tick: number,
+    tickLower: number,
+    tickUpper: number
+): boolean {
+    return tick >= tickLower && tick < tickUpper;
+}
+
+// Current pool tick -> USDC per WETH (or per base token)
+export async function getPoolPrice(
+    poolContract: ethers.Contract,
+    baseIsToken0: boolean = WETH_IS_TOKEN0
+): Promise<number> {
+    const slot0 = await poolContract.slot0();
+    return tickToPrice(Number(slot0.tick), baseIsToken0);
+}
 
 // Get Uniswap V3 TWAP (Time-Weighted Average Price)
 // Returns the time-weighted average tick for the specified interval.
@@ -26,67 +123,48 @@ export async function getPoolTwap(
     return BigInt(Math.floor(timeWeightedAverageTick));
 }
 
+// Aave oracle price of an asset in the base currency (USD, 8 decimals)
+export async function getAaveAssetPrice(
+    runner: ethers.ContractRunner,
+    asset: string
+): Promise<bigint> {
+    const oracle = new ethers.Contract(
+        AAVE_ORACLE_ADDR,
+        AAVE_ORACLE_ABI,
+        runner
+    );
+    return await withRetry(() => oracle.getAssetPrice(asset));
+}
+
+// Liquidation threshold (bps) of a reserve, read from bits 16-31 of its configuration bitmap
+export async function getAaveLiquidationThreshold(
+    runner: ethers.ContractRunner,
+    asset: string
+): Promise<bigint> {
+    const pool = new ethers.Contract(AAVE_POOL_ADDR, AAVE_POOL_ABI, runner);
+    const config: bigint = await withRetry(() => pool.getConfiguration(asset));
+    return (config >> 16n) & 0xffffn;
+}
+
 export function sleep(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export async function withRetry<T>(operation: () => Promise<T>, retries = MAX_RETRIES): Promise<T> {
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    retries = MAX_RETRIES
+): Promise<T> {
     try {
         return await operation();
     } catch (error) {
         if (retries > 0) {
             const delay = 1000 * (MAX_RETRIES - retries + 1);
-            console.warn(`[Network] Request failed. Retrying in ${delay}ms... (${retries} left)`);
+            console.warn(
+                `[Network] Request failed. Retrying in ${delay}ms... (${retries} left)`
+            );
             await sleep(delay);
             return withRetry(operation, retries - 1);
         }
         throw error;
     }
 }
-
-export async function waitWithTimeout(
-    tx: ethers.ContractTransactionResponse,
-    timeoutMs: number
-): Promise<ethers.ContractTransactionReceipt> {
-    console.log(`[Tx] Waiting for confirmation: ${tx.hash}`);
-
-    const receipt = await Promise.race([
-        tx.wait(),
-        new Promise((_, reject) => setTimeout(() => reject(new Error("TIMEOUT")), timeoutMs)),
-    ]);
-
-    if (!receipt) throw new Error("Tx dropped or failed");
-
-    // 2. Cast the result as the correct type
-    return receipt as ethers.ContractTransactionReceipt;
-}
-
-
-const transporter = nodemailer.createTransport({
-    service: process.env.EMAIL_SERVICE || 'gmail',
-    auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASS
-    }
-});
-
-export async function sendEmailAlert(subject: string, text: string) {
-    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
-        console.log("[Email] No credentials found. Skipping alert.");
-        return;
-    }
-
-    const mailOptions = {
-        from: process.env.EMAIL_USER,
-        to: process.env.EMAIL_TO,
-        subject: `[UniBot Alert] ${subject}`,
-        text: text
-    };
-
-    try {
-        await transporter.sendMail(mailOptions);
-        console.log(`[Email] Sent: ${subject}`);
-    } catch (error) {
-        console.error("[Email] Failed to send:", error);
-    }
-}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { ethers } from "ethers";
+
+import { HEDGE_VENUE, DRY_RUN } from "../config";
+
+import { AaveManager, HedgeVenue } from "./hedge";
+import { PerpVenue } from "./perp";
+import { MockVenue } from "./mockVenue";
+
+// The hedge venue selected by HEDGE_VENUE, or null in LP-only mode
+export function createHedgeVenue(wallet: ethers.Wallet): HedgeVenue | null {
+    switch (HEDGE_VENUE) {
+        case "AAVE":
+            return new AaveManager(wallet);
+        case "PERP":
+            if (DRY_RUN) {
+                // The paper-trading executor only simulates Uniswap and Aave calls
+                console.warn(
+                    "[Hedge] Dry run: perp orders are simulated by the mock venue."
+                );
+                return new MockVenue(wallet);
+            }
+            return new PerpVenue(wallet);
+        case "MOCK":
+            return new MockVenue(wallet);
+        case "NONE":
+            return null;
+    }
+}
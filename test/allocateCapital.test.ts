@@ -0,0 +1,86 @@
+import { beforeEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { ethers } from "ethers";
+import { nearestUsableTick } from "@uniswap/v3-sdk";
+
+import {
+    AAVE_TARGET_HEALTH_FACTOR,
+    POSITIONS,
+    USDC_TOKEN,
+    WETH_TOKEN,
+} from "../config";
+
+import { allocateCapital } from "../src/actions";
+import { planCapitalAllocation } from "../src/planner";
+import { MockVenue, resetMockVenue } from "../src/mockVenue";
+import { fetchPositionPool, getPositionPoolContract } from "../src/utils";
+import { FakeChain } from "./fakeChain";
+
+const chain = new FakeChain(2000);
+const wallet = new ethers.Wallet(ethers.id("unibot-test"), chain);
+
+beforeEach(() => {
+    resetMockVenue();
+});
+
+test("allocateCapital buys the base leg when the venue doesn't borrow it", async () => {
+    const position = POSITIONS[0];
+    const pool = await fetchPositionPool(
+        position,
+        getPositionPoolContract(position, wallet)
+    );
+    const spacing = pool.tickSpacing;
+    const tickLower = nearestUsableTick(
+        pool.tickCurrent - 10 * spacing,
+        spacing
+    );
+    const tickUpper = nearestUsableTick(
+        pool.tickCurrent + 10 * spacing,
+        spacing
+    );
+
+    const venue = new MockVenue(wallet);
+    assert.equal(venue.borrowsBase, false);
+
+    // The wallet already holds the split for $10k, so no swap has to be sent: all of the
+    // LP's WETH must come from it, none from the short
+    const split = planCapitalAllocation(pool, tickLower, tickUpper, 10_000, {
+        base: position.base,
+        hedgeRatio: position.hedgeRatio,
+        borrowsBase: false,
+        targetHf: AAVE_TARGET_HEALTH_FACTOR,
+        liquidationThreshold: await venue.getCollateralFactor(),
+    });
+    chain.setBalance(WETH_TOKEN, wallet.address, split.lpBase);
+    chain.setBalance(
+        USDC_TOKEN,
+        wallet.address,
+        split.lpQuote + split.collateralUsdc
+    );
+
+    const plan = await allocateCapital(
+        wallet,
+        position,
+        pool,
+        tickLower,
+        tickUpper,
+        venue
+    );
+
+    // The short is not a WETH liability, so the budget is the wallet's value
+    assert.ok(
+        Math.abs(plan.budgetUsd - 10_000) < 1,
+        `budget ${plan.budgetUsd}`
+    );
+    assert.ok(plan.debtEth > 0n);
+    assert.ok(plan.lpBase <= split.lpBase);
+    assert.ok(split.lpBase - plan.lpBase < split.lpBase / 1000n);
+
+    assert.equal(await venue.getShortSize(), plan.debtEth);
+    const health = await venue.getMarginHealth();
+    assert.ok(
+        Math.abs(health - AAVE_TARGET_HEALTH_FACTOR) < 0.01,
+        `health ${health}`
+    );
+});
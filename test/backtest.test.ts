@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+
+import { loadPoolSnapshots } from "../src/backtest";
+import { STATE_DIR } from "../src/state";
+import { isInRange } from "../src/utils";
+
+function write(name: string, content: unknown): string {
+    const file = path.join(STATE_DIR, name);
+    fs.writeFileSync(
+        file,
+        typeof content === "string" ? content : JSON.stringify(content)
+    );
+    return file;
+}
+
+test("loadPoolSnapshots reads JSON and CSV, oldest first", () => {
+    const expected = [
+        {
+            timestamp: 1_700_000_000_000,
+            tick: -199000,
+            liquidity: "123",
+            volumeUsd: 0,
+        },
+        {
+            timestamp: 1_700_003_600_000,
+            tick: -198990,
+            liquidity: "456",
+            volumeUsd: 1500,
+        },
+    ];
+    const json = write("snapshots.json", [
+        {
+            timestamp: 1700003600,
+            tick: -198990,
+            liquidity: "456",
+            volumeUsd: 1500,
+        },
+        { timestamp: 1700000000000, tick: "-199000", liquidity: 123 },
+    ]);
+    const csv = write(
+        "snapshots.csv",
+        "timestamp,tick,liquidity,volumeUsd\n1700003600,-198990,456,1500\n1700000000,-199000,123\n"
+    );
+
+    assert.deepEqual(loadPoolSnapshots(json), expected);
+    assert.deepEqual(loadPoolSnapshots(csv), expected);
+});
+
+test("loadPoolSnapshots throws on a malformed snapshot", () => {
+    for (const [name, content] of [
+        ["object.json", { timestamp: 1700000000, tick: 1, liquidity: "1" }],
+        ["null.json", [null]],
+        ["tick.json", [{ timestamp: 1700000000, tick: "x", liquidity: "1" }]],
+        ["liquidity.json", [{ timestamp: 1700000000, tick: 1 }]],
+        ["short.csv", "1700000000,-199000\n"],
+    ] as const) {
+        assert.throws(
+            () => loadPoolSnapshots(write(name, content)),
+            /Malformed|must contain an array/,
+            name
+        );
+    }
+});
+
+test("isInRange includes the lower tick and excludes the upper one", () => {
+    assert.equal(isInRange(-60, -60, 60), true);
+    assert.equal(isInRange(59, -60, 60), true);
+    assert.equal(isInRange(60, -60, 60), false);
+    assert.equal(isInRange(-61, -60, 60), false);
+});
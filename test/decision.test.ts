@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { ethers } from "ethers";
+
+import { POSITIONS } from "../config";
+
+import { decideRebalance, markInRange, markPartialMint } from "../src/decision";
+import { PositionInfo } from "../src/executor";
+import { FakeChain } from "./fakeChain";
+
+const chain = new FakeChain(2000);
+const wallet = new ethers.Wallet(ethers.id("unibot-test"), chain);
+
+test("a position minted by PARTIAL waits for price instead of being decided again", async () => {
+    const position = POSITIONS[0];
+    const pool = chain.getPool();
+    // Next to spot, as adjacentRange places it
+    const pos: PositionInfo = {
+        token0: pool.token0.address,
+        token1: pool.token1.address,
+        fee: pool.fee,
+        liquidity: 1n,
+        tickLower: pool.tickCurrent + 60,
+        tickUpper: pool.tickCurrent + 1260,
+    };
+
+    markPartialMint(position.id);
+    const decision = await decideRebalance(wallet, position, pool, "8", pos);
+    assert.equal(decision.action, "WAIT");
+
+    // Once price has entered the range, leaving it is decided as usual (here: the cost
+    // estimate fails against FakeChain, which falls back to REBALANCE)
+    markInRange(position.id);
+    const next = await decideRebalance(wallet, position, pool, "8", pos);
+    assert.equal(next.action, "REBALANCE");
+});
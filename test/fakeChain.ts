@@ -0,0 +1,211 @@
+import { ethers } from "ethers";
+import { Pool, TickMath } from "@uniswap/v3-sdk";
+import { CurrencyAmount, Token } from "@uniswap/sdk-core";
+
+import {
+    CURRENT_CHAIN_ID,
+    ERC20_ABI,
+    POOL_ABI,
+    POOL_FEE,
+    QUOTER_ABI,
+    QUOTER_ADDR,
+    USDC_TOKEN,
+    WETH_TOKEN,
+} from "../config";
+
+import { priceToTick } from "../src/utils";
+
+const POOL = new ethers.Interface(POOL_ABI);
+const QUOTER = new ethers.Interface(QUOTER_ABI);
+const ERC20 = new ethers.Interface(ERC20_ABI);
+const LIQUIDITY = 10n ** 22n;
+const FEE_BASIS = 1_000_000n;
+
+interface CallRequest {
+    to: string;
+    data: string;
+}
+
+export interface FakeLog {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+const BLOCK_HASH = ethers.id("fake-block");
+
+/**
+ * JSON-RPC node serving the WETH/USDC pool at a settable price: every pool address answers as
+ * that pool, QuoterV2 quotes at the spot price less the pool fee, and ERC20 balances and mined
+ * receipts are set by the test. Reads only; sending a transaction fails the test.
+ */
+export class FakeChain extends ethers.JsonRpcProvider {
+    tick = 0;
+    twapTick: number | null = null; // 5 min TWAP, null = the current tick
+    private balances = new Map<string, bigint>();
+    private receipts = new Map<string, object>();
+
+    constructor(ethPrice: number) {
+        const network = new ethers.Network("fake", CURRENT_CHAIN_ID);
+        super(undefined, network, { staticNetwork: network, batchMaxCount: 1 });
+        this.setEthPrice(ethPrice);
+    }
+
+    setEthPrice(usd: number) {
+        this.tick = priceToTick(usd);
+    }
+
+    setBalance(token: Token, owner: string, amount: bigint) {
+        this.balances.set(`${token.address}:${owner}`.toLowerCase(), amount);
+    }
+
+    // A transaction from `from` mined in the current block with `logs`
+    setReceipt(hash: string, from: string, logs: FakeLog[]) {
+        this.receipts.set(hash, {
+            transactionHash: hash,
+            transactionIndex: "0x0",
+            blockHash: BLOCK_HASH,
+            blockNumber: "0x1",
+            from,
+            to: logs[0]?.address ?? null,
+            contractAddress: null,
+            cumulativeGasUsed: "0x0",
+            gasUsed: "0x0",
+            effectiveGasPrice: "0x0",
+            logsBloom: ethers.zeroPadValue("0x", 256),
+            logs: logs.map((log, i) => ({
+                ...log,
+                blockHash: BLOCK_HASH,
+                blockNumber: "0x1",
+                transactionHash: hash,
+                transactionIndex: "0x0",
+                logIndex: ethers.toQuantity(i),
+                removed: false,
+            })),
+            status: "0x1",
+            type: "0x2",
+        });
+    }
+
+    getPool(): Pool {
+        return new Pool(
+            WETH_TOKEN,
+            USDC_TOKEN,
+            POOL_FEE,
+            TickMath.getSqrtRatioAtTick(this.tick).toString(),
+            LIQUIDITY.toString(),
+            this.tick
+        );
+    }
+
+    async _send(
+        payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]
+    ): Promise<ethers.JsonRpcResult[]> {
+        const requests = Array.isArray(payload) ? payload : [payload];
+        return requests.map(({ id, method, params }) => ({
+            id,
+            result: this.answer(method, params as unknown[]),
+        }));
+    }
+
+    private answer(method: string, params: unknown[]): unknown {
+        switch (method) {
+            case "eth_chainId":
+                return ethers.toQuantity(CURRENT_CHAIN_ID);
+            case "eth_blockNumber":
+                return ethers.toQuantity(1);
+            case "eth_call":
+                return this.ethCall(params[0] as CallRequest);
+            case "eth_getTransactionReceipt":
+                return this.receipts.get(params[0] as string) ?? null;
+            default:
+                throw new Error(`[FakeChain] ${method} is not supported`);
+        }
+    }
+
+    private ethCall({ to, data }: CallRequest): string {
+        const selector = data.slice(0, 10);
+        if (to.toLowerCase() === QUOTER_ADDR) return this.quote(data);
+
+        const erc20 = ERC20.getFunction(selector);
+        if (erc20?.name === "balanceOf") {
+            const [owner] = ERC20.decodeFunctionData(erc20, data);
+            const balance = this.balances.get(`${to}:${owner}`.toLowerCase());
+            return ERC20.encodeFunctionResult(erc20, [balance ?? 0n]);
+        }
+
+        const fn = POOL.getFunction(selector);
+        if (!fn)
+            throw new Error(`[FakeChain] Unknown call ${selector} to ${to}`);
+        const sqrtPriceX96 = BigInt(
+            TickMath.getSqrtRatioAtTick(this.tick).toString()
+        );
+        switch (fn.name) {
+            case "slot0":
+                return POOL.encodeFunctionResult(fn, [
+                    sqrtPriceX96,
+                    this.tick,
+                    0,
+                    1,
+                    1,
+                    0,
+                    true,
+                ]);
+            case "liquidity":
+                return POOL.encodeFunctionResult(fn, [LIQUIDITY]);
+            case "observe": {
+                const [secondsAgos] = POOL.decodeFunctionData(fn, data);
+                const interval = BigInt(secondsAgos[0]);
+                const twap = BigInt(this.twapTick ?? this.tick);
+                return POOL.encodeFunctionResult(fn, [
+                    [0n, twap * interval],
+                    [0n, 0n],
+                ]);
+            }
+            default:
+                return POOL.encodeFunctionResult(fn, [0n]);
+        }
+    }
+
+    private quote(data: string): string {
+        const tx = QUOTER.parseTransaction({ data });
+        if (!tx) throw new Error("[FakeChain] Unknown quoter call");
+        const { tokenIn, tokenOut, fee } = tx.args[0];
+        const pool = this.getPool();
+        const token = (address: string) =>
+            address.toLowerCase() === WETH_TOKEN.address.toLowerCase()
+                ? WETH_TOKEN
+                : USDC_TOKEN;
+        const convert = (from: Token, amount: bigint) =>
+            BigInt(
+                pool
+                    .priceOf(from)
+                    .quote(
+                        CurrencyAmount.fromRawAmount(from, amount.toString())
+                    )
+                    .quotient.toString()
+            );
+        const sqrtPriceX96 = BigInt(
+            TickMath.getSqrtRatioAtTick(this.tick).toString()
+        );
+
+        if (tx.name === "quoteExactInputSingle") {
+            const out = convert(token(tokenIn), tx.args[0].amountIn);
+            const amountOut = (out * (FEE_BASIS - BigInt(fee))) / FEE_BASIS;
+            return QUOTER.encodeFunctionResult(tx.fragment, [
+                amountOut,
+                sqrtPriceX96,
+                0,
+                0,
+            ]);
+        }
+        const needed = convert(token(tokenOut), tx.args[0].amount);
+        const amountIn = (needed * FEE_BASIS) / (FEE_BASIS - BigInt(fee)) + 1n;
+        return QUOTER.encodeFunctionResult(tx.fragment, [
+            amountIn,
+            sqrtPriceX96,
+            0,
+            0,
+        ]);
+    }
+}
@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+
+import { loadCandles } from "../src/marketData";
+import { STATE_DIR } from "../src/state";
+
+function write(name: string, content: unknown): string {
+    const file = path.join(STATE_DIR, name);
+    fs.writeFileSync(
+        file,
+        typeof content === "string" ? content : JSON.stringify(content)
+    );
+    return file;
+}
+
+test("loadCandles reads kline rows, candle objects and CSV, oldest first", () => {
+    const expected = [
+        {
+            timestamp: 1_700_000_000_000,
+            open: 1,
+            high: 3,
+            low: 0.5,
+            close: 2,
+            volume: 10,
+        },
+        {
+            timestamp: 1_700_003_600_000,
+            open: 2,
+            high: 4,
+            low: 1.5,
+            close: 3,
+            volume: 0,
+        },
+    ];
+    const klines = write("klines.json", [
+        ["1700003600000", "2", "4", "1.5", "3"],
+        [1700000000, "1", "3", "0.5", "2", "10", "ignored"],
+    ]);
+    const objects = write("objects.json", [...expected].reverse());
+    const csv = write(
+        "candles.csv",
+        "timestamp,open,high,low,close,volume\n1700003600,2,4,1.5,3,0\n1700000000,1,3,0.5,2,10\n"
+    );
+
+    for (const file of [klines, objects, csv]) {
+        assert.deepEqual(loadCandles(file), expected);
+    }
+});
+
+test("loadCandles rejects malformed rows instead of returning NaN candles", () => {
+    const cases = [
+        write("not-array.json", { candles: [] }),
+        write("short-row.json", [["1700000000", "1", "2", "0.5"]]),
+        write("bad-value.json", [["1700000000", "1", "x", "0.5", "2"]]),
+        write("nested.json", [["1700000000", ["1"], "2", "0.5", "2"]]),
+        write("missing-field.json", [
+            { timestamp: 1700000000, open: 1, high: 2, low: 0.5 },
+        ]),
+        write("bad.csv", "1700000000,1,2,,2\n"),
+    ];
+    for (const file of cases) {
+        assert.throws(
+            () => loadCandles(file),
+            /Malformed|must contain an array/,
+            file
+        );
+    }
+});
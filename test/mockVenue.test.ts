@@ -0,0 +1,122 @@
+import { beforeEach, describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { ethers } from "ethers";
+
+import { AAVE_TARGET_HEALTH_FACTOR, POOL_ABI, USDC_TOKEN } from "../config";
+
+import { MockVenue, resetMockVenue } from "../src/mockVenue";
+import { FakeChain } from "./fakeChain";
+
+const chain = new FakeChain(2000);
+const wallet = new ethers.Wallet(ethers.id("unibot-test"), chain);
+const hedgePool = new ethers.Contract(ethers.ZeroAddress, POOL_ABI, chain);
+const eth = (n: string) => ethers.parseEther(n);
+const usdc = (n: string) => ethers.parseUnits(n, USDC_TOKEN.decimals);
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+    assert.ok(
+        Math.abs(actual - expected) <= tolerance,
+        `${actual} is not within ${tolerance} of ${expected}`
+    );
+}
+
+describe("MockVenue", () => {
+    let venue: MockVenue;
+
+    beforeEach(() => {
+        resetMockVenue();
+        chain.setEthPrice(2000);
+        chain.twapTick = null;
+        chain.setBalance(USDC_TOKEN, wallet.address, usdc("10000"));
+        venue = new MockVenue(wallet);
+    });
+
+    test("adjustHedge opens the short with collateral at the target health", async () => {
+        await venue.adjustHedge(eth("1"), []);
+
+        assert.equal(await venue.getShortSize(), eth("1"));
+        assertClose(
+            await venue.getMarginHealth(),
+            AAVE_TARGET_HEALTH_FACTOR,
+            0.01
+        );
+    });
+
+    test("adjustHedge ignores drift within the band", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        await venue.adjustHedge(eth("1.01"), [], eth("0.02"));
+
+        assert.equal(await venue.getShortSize(), eth("1"));
+    });
+
+    test("adjustHedge reduces the short and returns the excess collateral", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        const collateral = await venue.getCollateralUsdc();
+        await venue.adjustHedge(eth("0.5"), []);
+
+        assert.equal(await venue.getShortSize(), eth("0.5"));
+        assert.ok((await venue.getCollateralUsdc()) < collateral);
+        assertClose(
+            await venue.getMarginHealth(),
+            AAVE_TARGET_HEALTH_FACTOR,
+            0.01
+        );
+    });
+
+    test("adjustHedge exits instead of hedging below the minimum health", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        chain.setEthPrice(2600);
+        await venue.adjustHedge(eth("1"), []);
+
+        assert.equal(await venue.getShortSize(), 0n);
+    });
+
+    test("checkHealthAndPanic tops up from the wallet before exiting", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        chain.setEthPrice(2600);
+
+        assert.equal(await venue.checkHealthAndPanic([], hedgePool), true);
+        assert.equal(await venue.getShortSize(), eth("1"));
+        assertClose(
+            await venue.getMarginHealth(),
+            AAVE_TARGET_HEALTH_FACTOR,
+            0.01
+        );
+    });
+
+    test("checkHealthAndPanic holds while the price is off its TWAP", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        chain.setBalance(USDC_TOKEN, wallet.address, 0n);
+        chain.twapTick = chain.tick;
+        chain.setEthPrice(2600);
+
+        assert.equal(await venue.checkHealthAndPanic([], hedgePool), true);
+        assert.equal(await venue.getShortSize(), eth("1"));
+    });
+
+    test("checkHealthAndPanic exits when the TWAP confirms the move", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        chain.setBalance(USDC_TOKEN, wallet.address, 0n);
+        chain.setEthPrice(2600);
+
+        assert.equal(await venue.checkHealthAndPanic([], hedgePool), false);
+        assert.equal(await venue.getShortSize(), 0n);
+    });
+
+    test("panicExitAll closes the whole short", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        await venue.panicExitAll([]);
+
+        assert.equal(await venue.getShortSize(), 0n);
+    });
+
+    test("the book is shared between instances until reset", async () => {
+        await venue.adjustHedge(eth("1"), []);
+        assert.equal(await new MockVenue(wallet).getShortSize(), eth("1"));
+
+        resetMockVenue();
+        assert.equal(await venue.getShortSize(), 0n);
+        assert.equal(await venue.getCollateralUsdc(), 0n);
+    });
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { ethers } from "ethers";
+
+import { NONFUNGIBLE_POSITION_MANAGER_ADDR, POSITIONS } from "../config";
+
+import { resumeRebalance } from "../src/rebalance";
+import {
+    loadState,
+    recordRebalanceExited,
+    recordRebalanceStarted,
+    recordRebalanceTx,
+} from "../src/state";
+import { isInRange } from "../src/utils";
+import { FakeChain } from "./fakeChain";
+
+const chain = new FakeChain(2000);
+const wallet = new ethers.Wallet(ethers.id("unibot-test"), chain);
+
+const word = (value: ethers.BigNumberish) =>
+    ethers.zeroPadValue(ethers.toBeHex(value), 32);
+
+test("a partial rebalance is journaled before its mint, and resumes from the receipt", async () => {
+    const position = POSITIONS[0];
+    const planned = {
+        tickLower: chain.tick - 600,
+        tickUpper: chain.tick + 600,
+    };
+    recordRebalanceStarted(position.id, "7", planned, 2000, true);
+    recordRebalanceExited(position.id, {
+        base: ethers.parseEther("1"),
+        usdc: 0n,
+    });
+
+    // The mint fails to send (FakeChain serves reads only): the bot stops as it would on a crash
+    await assert.rejects(resumeRebalance(wallet, position));
+    const journal = loadState().rebalances[position.id];
+    assert.equal(journal.phase, "SWAPPED");
+    assert.notDeepEqual(journal.range, planned);
+    assert.ok(
+        !isInRange(chain.tick, journal.range.tickLower, journal.range.tickUpper)
+    );
+
+    // The mint was mined before the crash after all
+    const hash = ethers.id("partial-mint");
+    recordRebalanceTx(position.id, "MINTED", hash);
+    chain.setReceipt(hash, wallet.address, [
+        {
+            address: NONFUNGIBLE_POSITION_MANAGER_ADDR,
+            topics: [
+                ethers.id("Transfer(address,address,uint256)"),
+                word(ethers.ZeroAddress),
+                word(wallet.address),
+                word(8),
+            ],
+            data: "0x",
+        },
+    ]);
+    await resumeRebalance(wallet, position);
+
+    const state = loadState();
+    assert.equal(state.positions[position.id].tokenId, "8");
+    assert.deepEqual(state.positions[position.id].activeRange, journal.range);
+    assert.equal(state.rebalances[position.id].phase, "HEDGED");
+});
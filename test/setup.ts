@@ -0,0 +1,19 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Loaded before each test file (see the test script): settings that don't depend on the
+// developer's .env or config file, and state files in a fresh directory
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "unibot-test-"));
+const configFile = path.join(stateDir, "unibot.config.yaml");
+fs.writeFileSync(configFile, "");
+
+Object.assign(process.env, {
+    CONFIG_FILE: configFile,
+    STATE_DIR: stateDir,
+    NETWORK: "ARBITRUM",
+    DRY_RUN: "false",
+    POSITIONS: "WETH-USDC-3000",
+    HEDGE_VENUE: "MOCK",
+    ALERT_CHANNELS: "FILE",
+});
@@ -0,0 +1,47 @@
+import { beforeEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { loadState, saveState, setStateValue } from "../src/state";
+
+beforeEach(() => {
+    saveState({ ...loadState(), isSafeMode: false, positions: {} });
+});
+
+test("setStateValue saves a valid edit", () => {
+    setStateValue("isSafeMode", true);
+
+    assert.equal(loadState().isSafeMode, true);
+});
+
+test("setStateValue rejects prototype paths", () => {
+    for (const field of [
+        "__proto__.isSafeMode",
+        "positions.constructor.prototype.polluted",
+        "history.__proto__",
+    ]) {
+        assert.throws(() => setStateValue(field, true), /Invalid state field/);
+    }
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("setStateValue only descends through own fields", () => {
+    assert.throws(
+        () => setStateValue("positions.hasOwnProperty.tokenId", "1"),
+        /No state field/
+    );
+});
+
+test("setStateValue keeps the saved state when the edit fails validation", () => {
+    assert.throws(
+        () => setStateValue("isSafeMode", "yes"),
+        /fails state validation/
+    );
+    assert.throws(
+        () => setStateValue("positions.WETH-USDC-3000", { tokenId: 1 }),
+        /fails state validation/
+    );
+
+    const state = loadState();
+    assert.equal(state.isSafeMode, false);
+    assert.deepEqual(state.positions, {});
+});
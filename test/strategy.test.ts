@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { RSI_OVERBOUGHT } from "../config";
+
+import { AtrRsiStrategy, MarketSnapshot } from "../src/strategy";
+
+const overbought: MarketSnapshot = {
+    tick: 0,
+    tickSpacing: 1,
+    baseIsToken0: true,
+    price: 2000,
+    atr: 20,
+    rsi: RSI_OVERBOUGHT + 10,
+    twapTick: 0,
+    closes: [],
+};
+
+test("ATR_RSI puts less of the range above the price when overbought", () => {
+    const strategy = new AtrRsiStrategy();
+    const token0 = strategy.calculateRange(overbought);
+    // Base as token1 (USDC is token0): a higher base price is a lower tick
+    const token1 = strategy.calculateRange({
+        ...overbought,
+        baseIsToken0: false,
+    });
+
+    assert.ok(token0.tickUpper < -token0.tickLower);
+    assert.deepEqual(token1, {
+        tickLower: -token0.tickUpper,
+        tickUpper: -token0.tickLower,
+    });
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+
+import { ethers } from "ethers";
+
+import { classifyTxError } from "../src/txManager";
+
+const revert = (reason: string) =>
+    ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+        action: "estimateGas",
+        data: null,
+        reason,
+        transaction: { to: null, data: "0x" },
+        invocation: null,
+        revert: { signature: "Error(string)", name: "Error", args: [reason] },
+    });
+
+test("classifyTxError reads the revert reason of a call exception", () => {
+    assert.deepEqual(classifyTxError(revert("Too little received")), {
+        kind: "SLIPPAGE",
+        reason: "Too little received",
+    });
+    assert.equal(classifyTxError(revert("30")).kind, "AAVE");
+});
+
+test("classifyTxError uses the ethers error code", () => {
+    const e = ethers.makeError("insufficient funds", "INSUFFICIENT_FUNDS", {
+        transaction: {},
+    });
+    assert.equal(classifyTxError(e).kind, "INSUFFICIENT_FUNDS");
+});
+
+test("classifyTxError falls back to the RPC message", () => {
+    assert.deepEqual(classifyTxError({ error: { message: "nonce too low" } }), {
+        kind: "NONCE",
+        reason: "nonce too low",
+    });
+    assert.deepEqual(classifyTxError("socket hang up"), {
+        kind: "NETWORK",
+        reason: "socket hang up",
+    });
+    assert.equal(classifyTxError(null).kind, "REVERTED");
+});